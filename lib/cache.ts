@@ -0,0 +1,97 @@
+/**
+ * 共有レスポンスキャッシュ（TTL + in-flight 共有）
+ * fetchJson の下層として全ツールで共通利用する
+ */
+
+/** meta.cache に載せるキャッシュ情報（tools/stat.ts が hit/miss を集計） */
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  ageMs: number;
+}
+
+export interface CachedOptions {
+  /** true の場合はキャッシュを読まずに再取得（結果は保存する） */
+  bypass?: boolean;
+}
+
+type Entry = { ts: number; value: unknown };
+
+const MAX_ENTRIES = Number(process.env.BITBANK_CACHE_MAX_ENTRIES ?? 500);
+
+const store = new Map<string, Entry>();
+const inflight = new Map<string, Promise<{ value: unknown; ts: number }>>();
+
+function put(key: string, value: unknown, ts: number) {
+  store.delete(key);
+  store.set(key, { ts, value });
+  // 挿入順 = 古い順。上限超過分を先頭から捨てる
+  while (store.size > MAX_ENTRIES) {
+    const oldest = store.keys().next().value;
+    if (oldest === undefined) break;
+    store.delete(oldest);
+  }
+}
+
+/**
+ * key 単位で loader の結果をキャッシュする
+ * - ttlMs 以内の保存値があれば loader を呼ばずに返す
+ * - 同一 key の同時リクエストは 1 つの Promise を共有する
+ * - 失敗結果はキャッシュしない
+ */
+export async function cached<T>(
+  key: string,
+  ttlMs: number,
+  loader: () => Promise<T>,
+  { bypass = false }: CachedOptions = {}
+): Promise<{ value: T; cache: CacheInfo }> {
+  const now = Date.now();
+  if (!bypass && ttlMs > 0) {
+    const hit = store.get(key);
+    if (hit && now - hit.ts < ttlMs) {
+      return { value: hit.value as T, cache: { hit: true, key, ageMs: now - hit.ts } };
+    }
+  }
+
+  const pending = inflight.get(key);
+  if (pending) {
+    const { value, ts } = await pending;
+    return { value: value as T, cache: { hit: true, key, ageMs: Math.max(0, Date.now() - ts) } };
+  }
+
+  const p = (async () => {
+    const value = await loader();
+    const ts = Date.now();
+    if (ttlMs > 0) put(key, value, ts);
+    return { value: value as unknown, ts };
+  })();
+  inflight.set(key, p);
+  try {
+    const { value } = await p;
+    return { value: value as T, cache: { hit: false, key, ageMs: 0 } };
+  } finally {
+    inflight.delete(key);
+  }
+}
+
+/**
+ * 複数リクエストのキャッシュ情報を 1 つにまとめる（全件ヒット時のみ hit=true）
+ */
+export function mergeCacheInfo(infos: CacheInfo[], key: string): CacheInfo {
+  return {
+    hit: infos.length > 0 && infos.every((c) => c.hit),
+    key,
+    ageMs: infos.reduce((max, c) => Math.max(max, c.ageMs), 0),
+  };
+}
+
+/** テスト・運用向け: キャッシュを破棄する（prefix 指定時は前方一致のみ） */
+export function clearCache(prefix?: string): void {
+  if (!prefix) {
+    store.clear();
+    return;
+  }
+  for (const key of [...store.keys()]) {
+    if (key.startsWith(prefix)) store.delete(key);
+  }
+}
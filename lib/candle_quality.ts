@@ -0,0 +1,124 @@
+/**
+ * ローソク足の品質チェック（欠損・重複タイムスタンプ・出来高ゼロ・未確定足）と補修
+ * - repair=none: 検出のみ（並べ替え以外は手を加えない）
+ * - repair=fill: 重複は後勝ちで 1 本に、欠損は直前終値のフラット足（出来高 0）で前方補完
+ * - repair=drop: 重複は後勝ちで 1 本に、出来高ゼロ足と未確定の最新足を除外
+ */
+import { parseTimeframe, nextBucketStart, type OhlcvRow, type SessionTz } from './timeframe.js';
+
+export type CandleRepair = 'none' | 'fill' | 'drop';
+
+export interface CandleGap {
+  from: string;
+  to: string;
+  missing: number;
+}
+
+export interface CandleQuality {
+  gaps: number;
+  missingBars: number;
+  duplicates: number;
+  zeroVolume: number;
+  partialLast: boolean;
+  repair: CandleRepair;
+  filled: number;
+  dropped: number;
+  degraded: boolean;
+  issues: string[];
+  gapRanges?: CandleGap[];
+}
+
+/** 欠損+重複がこの割合を超えたら劣化扱い */
+const DEGRADED_MISSING_RATIO = 0.05;
+/** 出来高ゼロ足がこの割合を超えたら劣化扱い */
+const DEGRADED_ZERO_VOLUME_RATIO = 0.2;
+const MAX_GAP_RANGES = 5;
+/** 1 つの欠損区間で数える上限（異常に長い空白でループが膨らまないように） */
+const MAX_MISSING_PER_GAP = 10_000;
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+export function assessCandles(
+  input: OhlcvRow[],
+  type: string,
+  { tz = 'Asia/Tokyo', repair = 'none', now = Date.now() }: { tz?: SessionTz; repair?: CandleRepair; now?: number } = {}
+): { rows: OhlcvRow[]; quality: CandleQuality } {
+  const tf = parseTimeframe(type);
+  const sorted = input
+    .filter((r) => Number.isFinite(Number(r[5])))
+    .sort((a, b) => Number(a[5]) - Number(b[5]));
+
+  // 重複タイムスタンプ（補修時は後勝ち）
+  let duplicates = 0;
+  const unique: OhlcvRow[] = [];
+  for (const row of sorted) {
+    const prev = unique.at(-1);
+    if (prev && Number(prev[5]) === Number(row[5])) {
+      duplicates++;
+      if (repair !== 'none') {
+        unique[unique.length - 1] = row;
+        continue;
+      }
+    }
+    unique.push(row);
+  }
+
+  // 欠損（次の足の開始時刻と実際の時刻のずれ）
+  let gaps = 0;
+  let missingBars = 0;
+  let filled = 0;
+  const gapRanges: CandleGap[] = [];
+  const withFill: OhlcvRow[] = [];
+  for (const row of unique) {
+    const prev = withFill.at(-1);
+    const ts = Number(row[5]);
+    if (tf && prev && Number(prev[5]) < ts) {
+      let expected = nextBucketStart(Number(prev[5]), tf, tz);
+      let missing = 0;
+      const firstMissing = expected;
+      while (expected < ts && missing < MAX_MISSING_PER_GAP) {
+        if (repair === 'fill') {
+          const c = prev[3];
+          withFill.push([c, c, c, c, 0, expected]);
+          filled++;
+        }
+        missing++;
+        expected = nextBucketStart(expected, tf, tz);
+      }
+      if (missing > 0) {
+        gaps++;
+        missingBars += missing;
+        if (gapRanges.length < MAX_GAP_RANGES) gapRanges.push({ from: iso(firstMissing), to: iso(ts), missing });
+      }
+    }
+    withFill.push(row);
+  }
+
+  const zeroVolume = unique.filter((r) => Number(r[4]) === 0).length;
+  const last = unique.at(-1);
+  const partialLast = !!(tf && last && nextBucketStart(Number(last[5]), tf, tz) > now);
+
+  let rows = withFill;
+  let dropped = 0;
+  if (repair === 'drop') {
+    rows = unique.filter((r) => Number(r[4]) !== 0);
+    if (partialLast && rows.at(-1) === last) rows = rows.slice(0, -1);
+    dropped = unique.length - rows.length;
+  }
+
+  const expectedBars = unique.length + missingBars;
+  const degraded = expectedBars > 0 && (
+    (missingBars + duplicates) / expectedBars > DEGRADED_MISSING_RATIO ||
+    zeroVolume / expectedBars > DEGRADED_ZERO_VOLUME_RATIO
+  );
+
+  const issues: string[] = [];
+  if (gaps > 0) issues.push(`欠損 ${gaps} 箇所（計 ${missingBars} 本）`);
+  if (duplicates > 0) issues.push(`重複タイムスタンプ ${duplicates} 件`);
+  if (zeroVolume > 0) issues.push(`出来高ゼロ ${zeroVolume} 本`);
+  if (partialLast) issues.push('最新足は未確定');
+
+  const quality: CandleQuality = { gaps, missingBars, duplicates, zeroVolume, partialLast, repair, filled, dropped, degraded, issues };
+  if (gapRanges.length) quality.gapRanges = gapRanges;
+  return { rows, quality };
+}
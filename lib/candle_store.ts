@@ -0,0 +1,130 @@
+/**
+ * ローソク足のローカル永続ストア（pair/timeframe ごとの追記型 JSONL）
+ * - 1 行 = bitbank の取得単位 1 期間（YYYY または YYYYMMDD）
+ * - 確定済みの期間だけを保存し、以降は上流に取りに行かない
+ * - 未確定（当年・当日）の期間は毎回上流から取得する（fetchJson の TTL キャッシュは効く）
+ */
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { fetchJsonWithCache, httpMode, BITBANK_API_BASE, type FetchJsonOptions } from './http.js';
+import type { CacheInfo } from './cache.js';
+import type { OhlcvRow } from './timeframe.js';
+
+export type { OhlcvRow };
+
+export interface CandlePeriod {
+  ohlcvs: OhlcvRow[];
+  cache: CacheInfo;
+  source: 'store' | 'upstream';
+}
+
+type StoredLine = { period: string; fetchedAt: string; ohlcv: OhlcvRow[] };
+
+/** 期間の終端からこの時間が過ぎたら確定扱い（日付境界のタイムゾーン差を吸収） */
+const CLOSE_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+/** BITBANK_CANDLE_STORE=0 で無効。replay モードではフィクスチャを優先するため読まない */
+export function candleStoreEnabled(): boolean {
+  return String(process.env.BITBANK_CANDLE_STORE ?? '1') !== '0' && httpMode() !== 'replay';
+}
+
+function storeDir(): string {
+  const dir = process.env.BITBANK_CANDLE_STORE_DIR || 'cache/candles';
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+function storeFile(pair: string, type: string): string {
+  return path.join(storeDir(), pair, `${type}.jsonl`);
+}
+
+/** period（YYYY / YYYYMMDD）の終端時刻（UTC ms）。解釈できなければ null */
+function periodEndMs(period: string): number | null {
+  if (/^\d{4}$/.test(period)) return Date.UTC(Number(period) + 1, 0, 1);
+  const m = period.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (m) return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]) + 1);
+  return null;
+}
+
+export function isPeriodClosed(period: string, now: number = Date.now()): boolean {
+  const end = periodEndMs(period);
+  return end != null && now - end >= CLOSE_MARGIN_MS;
+}
+
+// ファイルごとの索引（period → 行）。同時読み込みは 1 つの Promise を共有
+const indexes = new Map<string, Promise<Map<string, StoredLine>>>();
+
+function loadIndex(file: string): Promise<Map<string, StoredLine>> {
+  let p = indexes.get(file);
+  if (!p) {
+    p = (async () => {
+      const idx = new Map<string, StoredLine>();
+      if (!fs.existsSync(file)) return idx;
+      const text = await fsp.readFile(file, 'utf8');
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          const rec = JSON.parse(line) as StoredLine;
+          if (rec?.period && Array.isArray(rec.ohlcv)) idx.set(rec.period, rec);
+        } catch {
+          // 書き込み途中で落ちた行は無視（後で再取得される）
+        }
+      }
+      return idx;
+    })();
+    indexes.set(file, p);
+  }
+  return p;
+}
+
+async function append(file: string, rec: StoredLine): Promise<void> {
+  const idx = await loadIndex(file);
+  if (idx.has(rec.period)) return;
+  idx.set(rec.period, rec);
+  await fsp.mkdir(path.dirname(file), { recursive: true });
+  await fsp.appendFile(file, JSON.stringify(rec) + '\n', 'utf8');
+}
+
+/** 保存済みの期間一覧（backfill の進捗確認用） */
+export async function storedPeriods(pair: string, type: string): Promise<string[]> {
+  return [...(await loadIndex(storeFile(pair, type))).keys()].sort();
+}
+
+/**
+ * 1 期間分の ohlcv を取得する（ストア優先、無ければ上流から取得して確定分を保存）
+ * 上流エラーはそのまま投げる（扱いは呼び出し側）
+ */
+export async function loadCandlePeriod(
+  pair: string,
+  type: string,
+  period: string,
+  opts: FetchJsonOptions = {}
+): Promise<CandlePeriod> {
+  const file = storeFile(pair, type);
+  const useStore = candleStoreEnabled();
+  if (useStore) {
+    const hit = (await loadIndex(file)).get(period);
+    if (hit) {
+      const ageMs = Math.max(0, Date.now() - Date.parse(hit.fetchedAt));
+      return { ohlcvs: hit.ohlcv, cache: { hit: true, key: `store:${pair}/${type}/${period}`, ageMs }, source: 'store' };
+    }
+  }
+
+  const url = `${BITBANK_API_BASE}/${pair}/candlestick/${type}/${period}`;
+  const { data, cache } = await fetchJsonWithCache(url, opts);
+  const json = data as { data?: { candlestick?: Array<{ ohlcv?: unknown[] }> } };
+  const ohlcvs = (json?.data?.candlestick?.[0]?.ohlcv ?? []) as OhlcvRow[];
+  if (useStore && ohlcvs.length > 0 && isPeriodClosed(period)) {
+    try {
+      await append(file, { period, fetchedAt: new Date().toISOString(), ohlcv: ohlcvs });
+    } catch {
+      // 保存失敗は取得結果に影響させない
+    }
+  }
+  return { ohlcvs, cache, source: 'upstream' };
+}
+
+/** テスト・運用向け: メモリ上の索引を破棄する（ファイルは残す） */
+export function resetCandleStoreIndex(): void {
+  indexes.clear();
+}
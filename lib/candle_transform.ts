@@ -0,0 +1,206 @@
+/**
+ * ローソク足の変換（getCandles とチャート/パターン検出の間に挟むレイヤー）
+ * - heikin_ashi: 平均足（本数・時刻は元の足と同じ）
+ * - renko: 終値ベースの練行足（size 固定 or ATR）。反転は 2 ブロック
+ * - point_figure: 終値ベースのポイント＆フィギュア（reversal ボックスで列が切り替わる）
+ * - range_bars: 高安の値幅が size に達するごとに 1 本（足内は 始値→安値/高値→終値 の順に辿る）
+ * renko / point_figure / range_bars は時間軸と対応しない。isoTime は各ブロック/列が確定（更新）した元の足の時刻
+ */
+
+export type CandleTransform = 'heikin_ashi' | 'renko' | 'point_figure' | 'range_bars';
+
+export const CANDLE_TRANSFORMS: readonly CandleTransform[] = ['heikin_ashi', 'renko', 'point_figure', 'range_bars'];
+
+export interface TransformSourceCandle {
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+	volume?: number;
+	isoTime?: string;
+}
+
+export interface TransformedCandle {
+	open: number;
+	high: number;
+	low: number;
+	close: number;
+	volume: number;
+	isoTime?: string;
+}
+
+export interface PointFigureColumn {
+	kind: 'X' | 'O';
+	top: number;
+	bottom: number;
+	boxes: number;
+	startIso?: string;
+	endIso?: string;
+}
+
+export interface CandleTransformOptions {
+	/** renko のブロック幅 / P&F のボックス幅 / レンジバーの値幅。省略時は atr */
+	size?: number;
+	/** size 省略時に使う ATR の最新値（tools 側で analyze_indicators の atr() から求める） */
+	atr?: number | null;
+	/** 出力価格の小数桁（ペアの刻みに合わせる。既定 2） */
+	digits?: number;
+	/** P&F の反転ボックス数 */
+	reversal?: number;
+}
+
+export interface CandleTransformResult {
+	candles: TransformedCandle[];
+	columns?: PointFigureColumn[];
+	meta: {
+		transform: CandleTransform;
+		size: number | null;
+		sizeSource: 'fixed' | 'atr' | null;
+		reversal?: number;
+		sourceCount: number;
+		count: number;
+	};
+}
+
+const rounder = (digits: number) => (v: number) => Number(v.toFixed(digits));
+
+/** 平均足 */
+export function heikinAshi(candles: TransformSourceCandle[], digits: number = 2): TransformedCandle[] {
+	const round = rounder(digits);
+	const out: TransformedCandle[] = [];
+	let prevOpen: number | null = null;
+	let prevClose: number | null = null;
+	for (const c of candles) {
+		const close = (c.open + c.high + c.low + c.close) / 4;
+		const open: number = prevOpen == null || prevClose == null ? (c.open + c.close) / 2 : (prevOpen + prevClose) / 2;
+		out.push({ open: round(open), high: round(Math.max(c.high, open, close)), low: round(Math.min(c.low, open, close)), close: round(close), volume: c.volume ?? 0, isoTime: c.isoTime });
+		prevOpen = open;
+		prevClose = close;
+	}
+	return out;
+}
+
+/** 練行足（上下どちらも前ブロックの端から size 以上動いたらブロック追加。逆方向は 2 ブロック分で反転） */
+export function renko(candles: TransformSourceCandle[], size: number, digits: number = 2): TransformedCandle[] {
+	const round = rounder(digits);
+	const out: TransformedCandle[] = [];
+	if (!candles.length || !(size > 0)) return out;
+	let top = candles[0].close;
+	let bottom = top;
+	let pendingVolume = 0;
+	for (const c of candles) {
+		pendingVolume += c.volume ?? 0;
+		while (c.close >= top + size) {
+			out.push({ open: round(top), high: round(top + size), low: round(top), close: round(top + size), volume: pendingVolume, isoTime: c.isoTime });
+			pendingVolume = 0;
+			bottom = top;
+			top += size;
+		}
+		while (c.close <= bottom - size) {
+			out.push({ open: round(bottom), high: round(bottom), low: round(bottom - size), close: round(bottom - size), volume: pendingVolume, isoTime: c.isoTime });
+			pendingVolume = 0;
+			top = bottom;
+			bottom -= size;
+		}
+	}
+	return out;
+}
+
+/** ポイント＆フィギュア（価格はボックス境界に丸める） */
+export function pointAndFigure(candles: TransformSourceCandle[], size: number, reversal: number = 3, digits: number = 2): PointFigureColumn[] {
+	const round = rounder(digits);
+	const cols: PointFigureColumn[] = [];
+	if (!candles.length || !(size > 0)) return cols;
+	const floorBox = (v: number) => Math.floor(v / size + 1e-9) * size;
+	const ceilBox = (v: number) => Math.ceil(v / size - 1e-9) * size;
+	const ref = floorBox(candles[0].close);
+	let col: PointFigureColumn | null = null;
+	const open = (kind: 'X' | 'O', top: number, bottom: number, iso?: string) => {
+		col = { kind, top, bottom, boxes: 0, startIso: iso, endIso: iso };
+		cols.push(col);
+	};
+	for (const c of candles) {
+		const cur = col as PointFigureColumn | null;
+		if (!cur) {
+			if (c.close >= ref + size) open('X', floorBox(c.close), ref + size, c.isoTime);
+			else if (c.close <= ref - size) open('O', ref - size, ceilBox(c.close), c.isoTime);
+			continue;
+		}
+		if (cur.kind === 'X') {
+			if (c.close >= cur.top + size) { cur.top = floorBox(c.close); cur.endIso = c.isoTime; }
+			else if (c.close <= cur.top - reversal * size) open('O', cur.top - size, ceilBox(c.close), c.isoTime);
+		} else {
+			if (c.close <= cur.bottom - size) { cur.bottom = ceilBox(c.close); cur.endIso = c.isoTime; }
+			else if (c.close >= cur.bottom + reversal * size) open('X', floorBox(c.close), cur.bottom + size, c.isoTime);
+		}
+	}
+	return cols.map((k) => ({ ...k, top: round(k.top), bottom: round(k.bottom), boxes: Math.round((k.top - k.bottom) / size) + 1 }));
+}
+
+/** レンジバー（各バーの高安差がちょうど size） */
+export function rangeBars(candles: TransformSourceCandle[], size: number, digits: number = 2): TransformedCandle[] {
+	const round = rounder(digits);
+	const out: TransformedCandle[] = [];
+	if (!candles.length || !(size > 0)) return out;
+	let bar = { open: candles[0].open, high: candles[0].open, low: candles[0].open, volume: 0 };
+	for (const c of candles) {
+		bar.volume += c.volume ?? 0;
+		// 陽線は 始値→安値→高値→終値、陰線は 始値→高値→安値→終値 の順に動いたとみなす
+		const path = c.close >= c.open ? [c.low, c.high, c.close] : [c.high, c.low, c.close];
+		for (const p of path) {
+			for (;;) {
+				if (p > bar.low + size) {
+					const close = bar.low + size;
+					out.push({ open: round(bar.open), high: round(close), low: round(bar.low), close: round(close), volume: bar.volume, isoTime: c.isoTime });
+					bar = { open: close, high: close, low: close, volume: 0 };
+				} else if (p < bar.high - size) {
+					const close = bar.high - size;
+					out.push({ open: round(bar.open), high: round(bar.high), low: round(close), close: round(close), volume: bar.volume, isoTime: c.isoTime });
+					bar = { open: close, high: close, low: close, volume: 0 };
+				} else {
+					bar.high = Math.max(bar.high, p);
+					bar.low = Math.min(bar.low, p);
+					break;
+				}
+			}
+		}
+	}
+	return out;
+}
+
+/** P&F の列をローソク足形式に（X 列 = 陽線、O 列 = 陰線） */
+export function pointFigureToCandles(cols: PointFigureColumn[]): TransformedCandle[] {
+	return cols.map((k) => ({
+		open: k.kind === 'X' ? k.bottom : k.top,
+		high: k.top,
+		low: k.bottom,
+		close: k.kind === 'X' ? k.top : k.bottom,
+		volume: 0,
+		isoTime: k.endIso,
+	}));
+}
+
+/**
+ * 変換の入口。size を省略した renko / point_figure / range_bars は opts.atr をブロック幅に使う
+ * @throws size が決まらない（ATR 未算出・0 以下）場合
+ */
+export function transformCandles(candles: TransformSourceCandle[], transform: CandleTransform, opts: CandleTransformOptions = {}): CandleTransformResult {
+	const base = { transform, sourceCount: candles.length };
+	const digits = opts.digits ?? 2;
+	if (transform === 'heikin_ashi') {
+		const out = heikinAshi(candles, digits);
+		return { candles: out, meta: { ...base, size: null, sizeSource: null, count: out.length } };
+	}
+	const size = opts.size ?? opts.atr;
+	if (size == null || !(size > 0)) {
+		throw new Error(opts.size != null ? `${transform}: size は正の数で指定してください` : `${transform}: ATR を計算するにはデータが不足しています`);
+	}
+	const meta = { ...base, size: Number(size.toFixed(digits)), sizeSource: (opts.size != null ? 'fixed' : 'atr') as 'fixed' | 'atr' };
+	if (transform === 'point_figure') {
+		const reversal = opts.reversal ?? 3;
+		const columns = pointAndFigure(candles, size, reversal, digits);
+		return { candles: pointFigureToCandles(columns), columns, meta: { ...meta, reversal, count: columns.length } };
+	}
+	const out = transform === 'renko' ? renko(candles, size, digits) : rangeBars(candles, size, digits);
+	return { candles: out, meta: { ...meta, count: out.length } };
+}
@@ -13,3 +13,34 @@ export function getErrorMessage(e: unknown): string {
 export function isAbortError(e: unknown): boolean {
   return e instanceof Error && e.name === 'AbortError';
 }
+
+/**
+ * 上流 HTTP エラー（ステータスと Retry-After を保持）
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(`HTTP ${status} ${statusText}`);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * 429/503 によるスロットリング（リトライ上限超過後に投げる）
+ */
+export class RateLimitError extends HttpError {
+  constructor(status: number, statusText: string, retryAfterMs: number | null = null) {
+    super(status, statusText, retryAfterMs);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * RateLimitErrorかどうかを判定する
+ */
+export function isRateLimitError(e: unknown): e is RateLimitError {
+  return e instanceof RateLimitError;
+}
@@ -0,0 +1,421 @@
+/**
+ * 指標式の DSL（パーサ）
+ * 例: `close / SMA(close, 200) - 1`, `EMA(20) crosses above EMA(50)`, `RSI(14) < 30 and close > BB(20, 2).lower`
+ * - 値: 数値リテラル / open high low close volume / 関数呼び出し（下記）
+ * - 演算: + - * /、比較（> < >= <= == !=）、`crosses above` / `crosses below`、and / or / not
+ * - 関数の先頭引数は系列（省略時は close）。期間などのパラメータは数値リテラルのみ
+ * eval は使わず、構文木に変換してから評価する（評価は tools/evaluate_expression.ts）
+ */
+
+export type PriceField = 'open' | 'high' | 'low' | 'close' | 'volume';
+export type ExpressionType = 'number' | 'boolean';
+export type FunctionName = 'SMA' | 'EMA' | 'RSI' | 'MACD' | 'BB' | 'ATR' | 'SHIFT' | 'ABS' | 'MIN' | 'MAX';
+export type ArithmeticOp = '+' | '-' | '*' | '/';
+export type CompareOp = '>' | '<' | '>=' | '<=' | '==' | '!=';
+
+export type ExprNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'field'; name: PriceField }
+  | { kind: 'call'; fn: FunctionName; args: ExprNode[]; params: number[]; field: string | null }
+  | { kind: 'neg'; arg: ExprNode }
+  | { kind: 'not'; arg: ExprNode }
+  | { kind: 'arith'; op: ArithmeticOp; left: ExprNode; right: ExprNode }
+  | { kind: 'compare'; op: CompareOp; left: ExprNode; right: ExprNode }
+  | { kind: 'cross'; direction: 'above' | 'below'; left: ExprNode; right: ExprNode }
+  | { kind: 'logic'; op: 'and' | 'or'; left: ExprNode; right: ExprNode };
+
+export interface CompiledExpression {
+  /** 正規化した式（空白・大文字小文字を統一） */
+  source: string;
+  ast: ExprNode;
+  type: ExpressionType;
+  /** 最初の有効値までに必要な足の本数（取得本数の上乗せに使う） */
+  warmup: number;
+}
+
+type CompileResult = { ok: true; value: CompiledExpression } | { ok: false; error: { type: 'user'; message: string } };
+
+interface FunctionDef {
+  /** 先頭に系列引数を取る数（ATR は高安終値を直接使うので 0） */
+  series: 0 | 1 | 2;
+  /** 系列引数を省略できるか（省略時は close） */
+  defaultSource: boolean;
+  labels: string[];
+  defaults: Array<number | null>;
+  fields?: string[];
+  defaultField?: string;
+}
+
+const FUNCTIONS: Record<FunctionName, FunctionDef> = {
+  SMA: { series: 1, defaultSource: true, labels: ['period'], defaults: [null] },
+  EMA: { series: 1, defaultSource: true, labels: ['period'], defaults: [null] },
+  RSI: { series: 1, defaultSource: true, labels: ['period'], defaults: [14] },
+  MACD: { series: 1, defaultSource: true, labels: ['fast', 'slow', 'signal'], defaults: [12, 26, 9], fields: ['line', 'signal', 'hist'], defaultField: 'line' },
+  BB: { series: 1, defaultSource: true, labels: ['period', 'stdDev'], defaults: [20, 2], fields: ['upper', 'middle', 'lower'], defaultField: 'middle' },
+  ATR: { series: 0, defaultSource: false, labels: ['period'], defaults: [14] },
+  SHIFT: { series: 1, defaultSource: false, labels: ['bars'], defaults: [1] },
+  ABS: { series: 1, defaultSource: false, labels: [], defaults: [] },
+  MIN: { series: 2, defaultSource: false, labels: [], defaults: [] },
+  MAX: { series: 2, defaultSource: false, labels: [], defaults: [] },
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS) as FunctionName[];
+const PRICE_FIELDS: PriceField[] = ['open', 'high', 'low', 'close', 'volume'];
+
+const MAX_LENGTH = 500;
+const MAX_NODES = 200;
+const MAX_DEPTH = 32;
+const MAX_PERIOD = 500;
+
+class ExpressionError extends Error {}
+
+// --- Tokenizer ---
+
+type Token = { t: 'num'; v: number; pos: number } | { t: 'id'; v: string; pos: number } | { t: 'op'; v: string; pos: number };
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  const re = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|(>=|<=|==|!=|&&|\|\||[-+*/(),.<>!]))/y;
+  let pos = 0;
+  while (pos < src.length) {
+    if (/^\s*$/.test(src.slice(pos))) break;
+    re.lastIndex = pos;
+    const m = re.exec(src);
+    if (!m) throw new ExpressionError(`${pos + 1} 文字目を解釈できません: "${src.slice(pos).trim().slice(0, 10)}"`);
+    const at = m.index + m[0].length - (m[1] ?? m[2] ?? m[3]).length;
+    if (m[1] != null) out.push({ t: 'num', v: Number(m[1]), pos: at });
+    else if (m[2] != null) out.push({ t: 'id', v: m[2], pos: at });
+    else out.push({ t: 'op', v: m[3] === '&&' ? 'and' : m[3] === '||' ? 'or' : m[3] === '!' ? 'not' : m[3], pos: at });
+    pos = re.lastIndex;
+  }
+  return out;
+}
+
+// --- Parser（再帰下降。優先順位: or < and < not < 比較/cross < +- < */ < 単項マイナス） ---
+
+class Parser {
+  private i = 0;
+  private nodes = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ExprNode {
+    if (!this.tokens.length) throw new ExpressionError('式が空です');
+    const node = this.or();
+    const rest = this.peek();
+    if (rest) throw new ExpressionError(`${rest.pos + 1} 文字目に余分なトークンがあります: "${rest.v}"`);
+    return node;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.i + offset];
+  }
+
+  private isWord(tok: Token | undefined, word: string): boolean {
+    return !!tok && (tok.t === 'id' || tok.t === 'op') && String(tok.v).toLowerCase() === word;
+  }
+
+  private isOp(v: string): boolean {
+    const tok = this.peek();
+    return !!tok && tok.t === 'op' && tok.v === v;
+  }
+
+  private expectOp(v: string) {
+    const tok = this.peek();
+    if (!tok || tok.t !== 'op' || tok.v !== v) throw new ExpressionError(tok ? `${tok.pos + 1} 文字目: "${v}" が必要です（"${tok.v}"）` : `式の末尾: "${v}" が必要です`);
+    this.i++;
+  }
+
+  private make<N extends ExprNode>(node: N): N {
+    if (++this.nodes > MAX_NODES) throw new ExpressionError(`式が大きすぎます（要素数 ${MAX_NODES} まで）`);
+    return node;
+  }
+
+  private nested<T>(fn: () => T): T {
+    if (++this.depth > MAX_DEPTH) throw new ExpressionError(`式の入れ子が深すぎます（${MAX_DEPTH} 段まで）`);
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private or(): ExprNode {
+    let left = this.and();
+    while (this.isWord(this.peek(), 'or')) {
+      this.i++;
+      left = this.make({ kind: 'logic', op: 'or', left, right: this.and() });
+    }
+    return left;
+  }
+
+  private and(): ExprNode {
+    let left = this.not();
+    while (this.isWord(this.peek(), 'and')) {
+      this.i++;
+      left = this.make({ kind: 'logic', op: 'and', left, right: this.not() });
+    }
+    return left;
+  }
+
+  private not(): ExprNode {
+    if (this.isWord(this.peek(), 'not')) {
+      this.i++;
+      return this.make({ kind: 'not', arg: this.nested(() => this.not()) });
+    }
+    return this.comparison();
+  }
+
+  private comparison(): ExprNode {
+    const left = this.additive();
+    const tok = this.peek();
+    if (this.isWord(tok, 'crosses')) {
+      const dir = this.peek(1);
+      if (!this.isWord(dir, 'above') && !this.isWord(dir, 'below')) throw new ExpressionError(`${tok!.pos + 1} 文字目: crosses の後には above / below が必要です`);
+      this.i += 2;
+      return this.make({ kind: 'cross', direction: String(dir!.v).toLowerCase() as 'above' | 'below', left, right: this.additive() });
+    }
+    if (tok?.t === 'op' && ['>', '<', '>=', '<=', '==', '!='].includes(tok.v)) {
+      this.i++;
+      return this.make({ kind: 'compare', op: tok.v as CompareOp, left, right: this.additive() });
+    }
+    return left;
+  }
+
+  private additive(): ExprNode {
+    let left = this.multiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.peek()!.v as ArithmeticOp;
+      this.i++;
+      left = this.make({ kind: 'arith', op, left, right: this.multiplicative() });
+    }
+    return left;
+  }
+
+  private multiplicative(): ExprNode {
+    let left = this.unary();
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = this.peek()!.v as ArithmeticOp;
+      this.i++;
+      left = this.make({ kind: 'arith', op, left, right: this.unary() });
+    }
+    return left;
+  }
+
+  private unary(): ExprNode {
+    if (this.isOp('-')) {
+      this.i++;
+      const arg = this.nested(() => this.unary());
+      return arg.kind === 'number' ? { kind: 'number', value: -arg.value } : this.make({ kind: 'neg', arg });
+    }
+    if (this.isOp('+')) {
+      this.i++;
+      return this.unary();
+    }
+    return this.primary();
+  }
+
+  private primary(): ExprNode {
+    const tok = this.peek();
+    if (!tok) throw new ExpressionError('式が途中で終わっています');
+    if (tok.t === 'num') {
+      this.i++;
+      return this.make({ kind: 'number', value: tok.v });
+    }
+    if (tok.t === 'op' && tok.v === '(') {
+      this.i++;
+      const inner = this.nested(() => this.or());
+      this.expectOp(')');
+      return inner;
+    }
+    if (tok.t === 'id') {
+      this.i++;
+      const lower = tok.v.toLowerCase();
+      if (PRICE_FIELDS.includes(lower as PriceField) && !this.isOp('(')) return this.make({ kind: 'field', name: lower as PriceField });
+      const fn = tok.v.toUpperCase() as FunctionName;
+      if (!FUNCTIONS[fn]) throw new ExpressionError(`${tok.pos + 1} 文字目: 未対応の名前です: ${tok.v}（価格: ${PRICE_FIELDS.join(', ')} / 関数: ${EXPRESSION_FUNCTIONS.join(', ')}）`);
+      return this.call(fn, tok.pos);
+    }
+    throw new ExpressionError(`${tok.pos + 1} 文字目: "${tok.v}" は使えません`);
+  }
+
+  private call(fn: FunctionName, pos: number): ExprNode {
+    const def = FUNCTIONS[fn];
+    const raw: ExprNode[] = [];
+    if (this.isOp('(')) {
+      this.i++;
+      if (!this.isOp(')')) {
+        raw.push(this.nested(() => this.or()));
+        while (this.isOp(',')) {
+          this.i++;
+          raw.push(this.nested(() => this.or()));
+        }
+      }
+      this.expectOp(')');
+    } else if (def.defaults.some((d) => d == null) || def.series > 0 && !def.defaultSource) {
+      throw new ExpressionError(`${pos + 1} 文字目: ${fn} には引数が必要です`);
+    }
+
+    // 先頭の系列引数（数値リテラルから始まる場合は close を補う。パラメータを取らない関数では定数も系列として扱う）
+    const args: ExprNode[] = [];
+    let rest = raw;
+    for (let k = 0; k < def.series; k++) {
+      if (rest.length && (rest[0].kind !== 'number' || !def.labels.length)) {
+        args.push(rest[0]);
+        rest = rest.slice(1);
+      } else if (def.defaultSource && k === 0) {
+        args.push({ kind: 'field', name: 'close' });
+      } else {
+        throw new ExpressionError(`${fn} の ${k + 1} 番目の引数は系列（例: close, EMA(20)）で指定してください`);
+      }
+    }
+    if (rest.length > def.labels.length) throw new ExpressionError(`${fn} の引数が多すぎます（${[...(def.series ? ['series'] : []), ...def.labels].join(', ')}）`);
+    const params = def.defaults.map((d, k) => {
+      const node = rest[k];
+      if (node == null) {
+        if (d == null) throw new ExpressionError(`${fn} の ${def.labels[k]} を指定してください（例: ${fn}(close, 20)）`);
+        return d;
+      }
+      if (node.kind !== 'number') throw new ExpressionError(`${fn} の ${def.labels[k]} は数値で指定してください`);
+      return node.value;
+    });
+    params.forEach((v, k) => {
+      const label = def.labels[k];
+      if (label === 'stdDev') {
+        if (!(v > 0 && v <= 10)) throw new ExpressionError(`${fn} の stdDev は 0 より大きく 10 以下で指定してください（指定値: ${v}）`);
+      } else if (!Number.isInteger(v) || v < (label === 'bars' ? 0 : 1) || v > MAX_PERIOD) {
+        throw new ExpressionError(`${fn} の ${label} は ${label === 'bars' ? 0 : 1}〜${MAX_PERIOD} の整数で指定してください（指定値: ${v}）`);
+      }
+    });
+    if (fn === 'MACD' && params[0] >= params[1]) throw new ExpressionError(`MACD は fast < slow で指定してください（指定値: ${params.join(',')}）`);
+
+    let field: string | null = def.defaultField ?? null;
+    if (this.isOp('.')) {
+      this.i++;
+      const name = this.peek();
+      if (!def.fields) throw new ExpressionError(`${fn} には .${name?.v ?? ''} のような項目指定はできません`);
+      if (name?.t !== 'id' || !def.fields.includes(name.v.toLowerCase())) throw new ExpressionError(`${fn} の項目は ${def.fields.join(' / ')} のいずれかです`);
+      field = name.v.toLowerCase();
+      this.i++;
+    }
+    return this.make({ kind: 'call', fn, args, params, field });
+  }
+}
+
+// --- 型検査・ウォームアップ ---
+
+function typeOf(node: ExprNode): ExpressionType {
+  const expect = (n: ExprNode, t: ExpressionType, where: string) => {
+    const actual = typeOf(n);
+    if (actual !== t) throw new ExpressionError(`${where} には${t === 'number' ? '数値' : '条件（true/false）'}の式が必要です: ${format(n)}`);
+  };
+  switch (node.kind) {
+    case 'number':
+    case 'field':
+      return 'number';
+    case 'call':
+      node.args.forEach((a) => expect(a, 'number', node.fn));
+      return 'number';
+    case 'neg':
+      expect(node.arg, 'number', '単項マイナス');
+      return 'number';
+    case 'arith':
+      expect(node.left, 'number', node.op);
+      expect(node.right, 'number', node.op);
+      return 'number';
+    case 'compare':
+    case 'cross': {
+      const label = node.kind === 'compare' ? node.op : `crosses ${node.direction}`;
+      expect(node.left, 'number', label);
+      expect(node.right, 'number', label);
+      return 'boolean';
+    }
+    case 'not':
+      expect(node.arg, 'boolean', 'not');
+      return 'boolean';
+    case 'logic':
+      expect(node.left, 'boolean', node.op);
+      expect(node.right, 'boolean', node.op);
+      return 'boolean';
+  }
+}
+
+/** 最初の有効値が出るまでの本数（バッチ版インジケーターの null 区間に合わせる） */
+export function expressionWarmup(node: ExprNode): number {
+  switch (node.kind) {
+    case 'number':
+    case 'field':
+      return 0;
+    case 'neg':
+    case 'not':
+      return expressionWarmup(node.arg);
+    case 'arith':
+    case 'compare':
+    case 'logic':
+      return Math.max(expressionWarmup(node.left), expressionWarmup(node.right));
+    case 'cross':
+      return Math.max(expressionWarmup(node.left), expressionWarmup(node.right)) + 1;
+    case 'call': {
+      const src = node.args.reduce((m, a) => Math.max(m, expressionWarmup(a)), 0);
+      const [p0, p1, p2] = node.params;
+      switch (node.fn) {
+        case 'SMA': return src + p0 - 1;
+        case 'EMA': return src + p0 - 1;
+        case 'RSI': return src + p0;
+        case 'MACD': return src + p1 - 1 + (node.field === 'line' ? 0 : p2 - 1);
+        case 'BB': return src + p0 - 1;
+        case 'ATR': return p0 - 1;
+        case 'SHIFT': return src + p0;
+        default: return src;
+      }
+    }
+  }
+}
+
+/** 構文木を正規化した文字列に戻す */
+export function format(node: ExprNode, parentPrec = 0): string {
+  const prec: Record<ExprNode['kind'], number> = { logic: 1, not: 3, compare: 4, cross: 4, arith: 5, neg: 7, number: 9, field: 9, call: 9 };
+  let p = prec[node.kind];
+  let s: string;
+  switch (node.kind) {
+    case 'number': s = String(node.value); break;
+    case 'field': s = node.name; break;
+    case 'call': {
+      const def = FUNCTIONS[node.fn];
+      const args = [...node.args.map((a) => format(a)), ...node.params.map(String)];
+      s = `${node.fn}(${args.join(', ')})${def.fields ? `.${node.field}` : ''}`;
+      break;
+    }
+    case 'neg': s = `-${format(node.arg, p)}`; break;
+    case 'not': s = `not ${format(node.arg, p)}`; break;
+    case 'arith':
+      p = node.op === '*' || node.op === '/' ? 6 : 5;
+      s = `${format(node.left, p)} ${node.op} ${format(node.right, p + 1)}`;
+      break;
+    case 'compare': s = `${format(node.left, p + 1)} ${node.op} ${format(node.right, p + 1)}`; break;
+    case 'cross': s = `${format(node.left, p + 1)} crosses ${node.direction} ${format(node.right, p + 1)}`; break;
+    case 'logic':
+      p = node.op === 'or' ? 1 : 2;
+      s = `${format(node.left, p)} ${node.op} ${format(node.right, p + 1)}`;
+      break;
+  }
+  return p < parentPrec ? `(${s})` : s;
+}
+
+/**
+ * 式を構文木に変換し、型（数値 / 条件）とウォームアップ本数を求める
+ * 一度コンパイルした式は複数ペア・複数回の評価（スクリーナー / アラート）に使い回せる
+ */
+export function compileExpression(input: string): CompileResult {
+  const src = String(input ?? '');
+  if (src.length > MAX_LENGTH) return { ok: false, error: { type: 'user', message: `式が長すぎます（${MAX_LENGTH} 文字まで）` } };
+  try {
+    const ast = new Parser(tokenize(src)).parse();
+    const type = typeOf(ast);
+    return { ok: true, value: { source: format(ast), ast, type, warmup: expressionWarmup(ast) } };
+  } catch (e: unknown) {
+    if (e instanceof ExpressionError) return { ok: false, error: { type: 'user', message: `式を解釈できません: ${e.message}` } };
+    throw e;
+  }
+}
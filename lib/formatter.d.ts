@@ -1,4 +1,10 @@
 export function formatPair(pair: string): string;
+export function quoteOf(pair: string): string;
+export function baseOf(pair: string): string;
+export function formatPriceFor(pair: string, price: number): string;
+export function formatPriceUnit(pair: string, price: number): string;
+export function formatAmountUnit(pair: string, amount: number, digits?: number): string;
+export function priceStepFor(price: number, ratio?: number): number;
 
 export function formatSummary(args?: {
 	pair?: string;
@@ -1,9 +1,62 @@
 import { toDisplayTime } from './datetime.js';
+import { getPairInfo } from './pairs.js';
 
 export function formatPair(pair: string): string {
 	return (pair || '').toUpperCase().replace('_', '/');
 }
 
+/** 建て通貨（小文字）。レジストリに無ければペア名の後半 */
+export function quoteOf(pair: string): string {
+	const p = String(pair || '').toLowerCase();
+	return getPairInfo(p)?.quote ?? p.split('_')[1] ?? '';
+}
+
+/** 基軸通貨（小文字） */
+export function baseOf(pair: string): string {
+	const p = String(pair || '').toLowerCase();
+	return getPairInfo(p)?.base ?? p.split('_')[0] ?? '';
+}
+
+/** 桁数不明時の小数桁（1 未満の価格は有効数字 4〜5 桁程度を残す） */
+function autoPriceDigits(price: number): number {
+	const abs = Math.abs(price);
+	if (!Number.isFinite(abs) || abs === 0 || abs >= 1) return 3;
+	return Math.min(12, 4 - Math.floor(Math.log10(abs)));
+}
+
+/**
+ * 価格をペアの刻み（price_digits）に合わせて桁区切り表示
+ * 桁数が不明なペアは価格の大きさから桁数を決める
+ */
+export function formatPriceFor(pair: string, price: number): string {
+	const digits = getPairInfo(String(pair || '').toLowerCase())?.priceDigits ?? autoPriceDigits(price);
+	return price.toLocaleString('ja-JP', { minimumFractionDigits: 0, maximumFractionDigits: digits });
+}
+
+/** 価格 + 建て通貨の単位（JPY: "1,234円" / その他: "0.0312 BTC"） */
+export function formatPriceUnit(pair: string, price: number): string {
+	const quote = quoteOf(pair);
+	return quote === 'jpy' ? `${formatPriceFor(pair, price)}円` : `${formatPriceFor(pair, price)} ${quote.toUpperCase()}`;
+}
+
+/** 数量 + 基軸通貨の単位（例: "0.1234 ETH"） */
+export function formatAmountUnit(pair: string, amount: number, digits = 4): string {
+	return `${amount.toFixed(digits)} ${baseOf(pair).toUpperCase()}`;
+}
+
+/**
+ * 価格水準の丸め幅（価格のおよそ ratio 倍を 1/2/5×10^n に寄せる）
+ * 例: 10,000,000 円 → 50,000 / 0.0312 BTC → 0.0002
+ */
+export function priceStepFor(price: number, ratio = 0.005): number {
+	const raw = Math.abs(price) * ratio;
+	if (!Number.isFinite(raw) || raw <= 0) return 1;
+	const pow = Math.pow(10, Math.floor(Math.log10(raw)));
+	const m = raw / pow;
+	const nice = m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10;
+	return Number((nice * pow).toPrecision(12));
+}
+
 /**
  * タイムスタンプをJST表示形式に変換
  * @param ts タイムスタンプ（ミリ秒）。未指定時は現在時刻
@@ -27,8 +80,9 @@ export function formatSummary(args: {
 	const { pair, timeframe, latest, totalItems, keyPoints, volumeStats, extra } = args;
 	const p = formatPair(pair ?? '');
 	const tf = timeframe ? ` [${timeframe}]` : '';
-	const isJpy = typeof pair === 'string' && pair.toLowerCase().includes('jpy');
-	const currency = isJpy ? '円' : '';
+	const quote = quoteOf(pair ?? '');
+	const currency = quote === 'jpy' ? '円' : quote ? ` ${quote.toUpperCase()}` : '';
+	const baseUnit = baseOf(pair ?? '').toUpperCase();
 
 	// 基本情報
 	let summary = p;
@@ -43,7 +97,7 @@ export function formatSummary(args: {
 	if (keyPoints && keyPoints.today) {
 		summary += '\n\n📊 期間別の価格推移:';
 
-		const formatPrice = (price: number) => price.toLocaleString('ja-JP');
+		const formatPrice = (price: number) => (quote === 'jpy' ? `¥${formatPriceFor(pair ?? '', price)}` : `${formatPriceFor(pair ?? '', price)}${currency}`);
 		const formatChange = (pct: number | null) => {
 			if (pct === null) return '';
 			const sign = pct >= 0 ? '+' : '';
@@ -52,33 +106,33 @@ export function formatSummary(args: {
 
 		// 今日
 		const today = keyPoints.today;
-		summary += `\n- 今日 (${today.date || '不明'}, data[${today.index}]): ¥${formatPrice(today.close)}`;
+		summary += `\n- 今日 (${today.date || '不明'}, data[${today.index}]): ${formatPrice(today.close)}`;
 
 		// 7日前
 		if (keyPoints.sevenDaysAgo) {
 			const sd = keyPoints.sevenDaysAgo;
-			summary += `\n- 7日前 (${sd.date || '不明'}, data[${sd.index}]): ¥${formatPrice(sd.close)}${formatChange(sd.changePct)}`;
+			summary += `\n- 7日前 (${sd.date || '不明'}, data[${sd.index}]): ${formatPrice(sd.close)}${formatChange(sd.changePct)}`;
 		}
 
 		// 30日前
 		if (keyPoints.thirtyDaysAgo) {
 			const td = keyPoints.thirtyDaysAgo;
-			summary += `\n- 30日前 (${td.date || '不明'}, data[${td.index}]): ¥${formatPrice(td.close)}${formatChange(td.changePct)}`;
+			summary += `\n- 30日前 (${td.date || '不明'}, data[${td.index}]): ${formatPrice(td.close)}${formatChange(td.changePct)}`;
 		}
 
 		// 90日前
 		if (keyPoints.ninetyDaysAgo) {
 			const nd = keyPoints.ninetyDaysAgo;
-			summary += `\n- 90日前 (${nd.date || '不明'}, data[${nd.index}]): ¥${formatPrice(nd.close)}${formatChange(nd.changePct)}`;
+			summary += `\n- 90日前 (${nd.date || '不明'}, data[${nd.index}]): ${formatPrice(nd.close)}${formatChange(nd.changePct)}`;
 		}
 
 		// 出来高情報
 		if (volumeStats) {
 			summary += '\n\n【出来高推移】';
-			summary += `\n- 直近7日間の平均: ${volumeStats.recent7DaysAvg.toFixed(0)} BTC/日`;
-			summary += `\n- その前7日間の平均: ${volumeStats.previous7DaysAvg.toFixed(0)} BTC/日`;
+			summary += `\n- 直近7日間の平均: ${volumeStats.recent7DaysAvg.toFixed(0)}${baseUnit ? ` ${baseUnit}` : ''}/日`;
+			summary += `\n- その前7日間の平均: ${volumeStats.previous7DaysAvg.toFixed(0)}${baseUnit ? ` ${baseUnit}` : ''}/日`;
 			if (typeof volumeStats.last30DaysAvg === 'number') {
-				summary += `\n- 過去30日間の平均: ${volumeStats.last30DaysAvg.toFixed(0)} BTC/日`;
+				summary += `\n- 過去30日間の平均: ${volumeStats.last30DaysAvg.toFixed(0)}${baseUnit ? ` ${baseUnit}` : ''}/日`;
 			}
 			summary += `\n- 出来高変化率: ${volumeStats.changePct >= 0 ? '+' : ''}${volumeStats.changePct}%`;
 			summary += `\n- 判定: ${volumeStats.judgment}`;
@@ -87,7 +141,7 @@ export function formatSummary(args: {
 		summary += '\n\n※ 全データは structuredContent.data に含まれます';
 	} else if (typeof latest === 'number') {
 		// keyPointsがない場合（板情報など）は中値を表示
-		summary += ` 中値=${latest.toLocaleString('ja-JP')}${currency}`;
+		summary += ` 中値=${formatPriceFor(pair ?? '', latest)}${currency}`;
 	}
 
 	const tail = extra ? ` ${extra}` : '';
@@ -1,28 +1,180 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { cached, type CacheInfo } from './cache.js';
+import { HttpError, RateLimitError } from './error.js';
+import { acquireToken, pauseRequests, parseRetryAfter, jitteredBackoffMs } from './rate_limit.js';
+
 /** bitbank Public API ベースURL */
 export const BITBANK_API_BASE = 'https://public.bitbank.cc';
 
+export type Endpoint = 'ticker' | 'depth' | 'transactions' | 'candlestick' | 'other';
+
+/** エンドポイント別のキャッシュTTL（ms）。env で上書き可（0 で無効、in-flight 共有のみ） */
+const DEFAULT_TTL_MS: Record<Endpoint, number> = {
+  ticker: 3_000,
+  depth: 1_000,
+  transactions: 2_000,
+  candlestick: 30_000,
+  other: 0,
+};
+
+export function endpointOf(url: string): Endpoint {
+  if (/\/tickers?(_jpy)?(\?|$)/.test(url)) return 'ticker';
+  if (/\/depth(\?|$)/.test(url)) return 'depth';
+  if (/\/transactions(\/|\?|$)/.test(url)) return 'transactions';
+  if (/\/candlestick\//.test(url)) return 'candlestick';
+  return 'other';
+}
+
+export function cacheTtlMs(endpoint: Endpoint): number {
+  const env = process.env[`BITBANK_CACHE_TTL_${endpoint.toUpperCase()}_MS`];
+  const n = env != null && env !== '' ? Number(env) : NaN;
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_TTL_MS[endpoint];
+}
+
 export interface FetchJsonOptions {
   timeoutMs?: number;
   retries?: number;
+  /** 429/503 以外の失敗後に待つ時間の基準（試行ごとに倍。既定 200ms） */
+  retryWaitMs?: number;
+  /** エンドポイント既定のTTLを上書き */
+  ttlMs?: number;
+  /** true の場合はキャッシュを読まずに取得 */
+  bypassCache?: boolean;
+}
+
+// === Record / Replay ===
+export type HttpMode = 'live' | 'record' | 'replay';
+
+/** BITBANK_HTTP_MODE: live（既定）/ record（応答をフィクスチャに保存）/ replay（フィクスチャのみで応答） */
+export function httpMode(): HttpMode {
+  const m = String(process.env.BITBANK_HTTP_MODE || 'live').toLowerCase();
+  return m === 'record' || m === 'replay' ? m : 'live';
+}
+
+function fixtureDir(): string {
+  const dir = process.env.BITBANK_FIXTURE_DIR || 'tools/tests/fixtures/http';
+  return path.isAbsolute(dir) ? dir : path.join(process.cwd(), dir);
+}
+
+/**
+ * URL からフィクスチャのパスを決める（host/path をそのままディレクトリに、クエリはハッシュで区別）
+ * 例: https://public.bitbank.cc/btc_jpy/candlestick/1day/2025 → <dir>/public.bitbank.cc/btc_jpy/candlestick/1day/2025.json
+ */
+export function fixturePathFor(url: string): string {
+  const u = new URL(url);
+  const segs = `${u.host}${u.pathname}`.split('/').filter(Boolean).map((s) => s.replace(/[^a-zA-Z0-9._-]/g, '_'));
+  const query = u.search ? `__${createHash('sha1').update(u.search).digest('hex').slice(0, 10)}` : '';
+  return path.join(fixtureDir(), ...segs.slice(0, -1), `${segs.at(-1) ?? 'index'}${query}.json`);
+}
+
+interface Fixture {
+  url: string;
+  status: number;
+  statusText: string;
+  headers?: Record<string, string>;
+  body: string;
+  recordedAt: string;
 }
 
-export async function fetchJson<T = unknown>(url: string, { timeoutMs = 2500, retries = 2 }: FetchJsonOptions = {}): Promise<T> {
+/** replay モードで該当フィクスチャが無い（リトライしても結果は変わらない） */
+export class FixtureMissingError extends Error {
+  constructor(public readonly url: string, public readonly file: string) {
+    super(`REPLAY_MISS ${url} (fixture not found: ${path.relative(process.cwd(), file)})`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+async function replay(url: string): Promise<Response> {
+  const file = fixturePathFor(url);
+  let fx: Fixture;
+  try {
+    fx = JSON.parse(await fs.readFile(file, 'utf8')) as Fixture;
+  } catch {
+    throw new FixtureMissingError(url, file);
+  }
+  return new Response(fx.body, { status: fx.status, statusText: fx.statusText, headers: fx.headers });
+}
+
+async function record(url: string, res: Response): Promise<void> {
+  const retryAfter = res.headers.get('retry-after');
+  const fx: Fixture = {
+    url,
+    status: res.status,
+    statusText: res.statusText,
+    ...(retryAfter != null ? { headers: { 'retry-after': retryAfter } } : {}),
+    body: await res.clone().text(),
+    recordedAt: new Date().toISOString(),
+  };
+  const file = fixturePathFor(url);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fx, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * 上流への生 fetch。BITBANK_HTTP_MODE に応じて記録・再生する
+ * fetchJson を通らない呼び出しもこれを使う
+ */
+export async function upstreamFetch(url: string, init?: RequestInit): Promise<Response> {
+  const mode = httpMode();
+  if (mode === 'replay') return replay(url);
+  const res = await fetch(url, init);
+  if (mode === 'record') await record(url, res);
+  return res;
+}
+
+const isThrottle = (e: unknown): e is HttpError => e instanceof HttpError && (e.status === 429 || e.status === 503);
+
+/** Retry-After がこれより長い場合は待たずに rate_limited を返す */
+const MAX_RETRY_WAIT_MS = Number(process.env.BITBANK_RETRY_AFTER_MAX_MS ?? 10_000);
+
+async function fetchJsonUncached<T>(url: string, timeoutMs: number, retries: number, retryWaitMs: number): Promise<T> {
   let lastErr: unknown;
+  const replaying = httpMode() === 'replay';
   for (let i = 0; i <= retries; i++) {
+    if (!replaying) await acquireToken();
     const ctrl = new AbortController();
     const t = setTimeout(() => ctrl.abort(), timeoutMs);
     try {
-      const res = await fetch(url, { signal: ctrl.signal });
+      const res = await upstreamFetch(url, { signal: ctrl.signal });
       clearTimeout(t);
-      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+      if (!res.ok) throw new HttpError(res.status, res.statusText, parseRetryAfter(res.headers.get('retry-after')));
       return (await res.json()) as T;
     } catch (e) {
       clearTimeout(t);
       lastErr = e;
-      if (i < retries) await new Promise((r) => setTimeout(r, 200 * 2 ** i));
+      if (e instanceof FixtureMissingError) throw e;
+      if (isThrottle(e)) {
+        // 429/503: Retry-After を優先し、無ければジッタ付きバックオフ。待機は全ツールで共有
+        const waitMs = e.retryAfterMs ?? jitteredBackoffMs(i);
+        pauseRequests(waitMs);
+        if (i >= retries || waitMs > MAX_RETRY_WAIT_MS) break;
+        await new Promise((r) => setTimeout(r, waitMs));
+        continue;
+      }
+      if (i < retries) await new Promise((r) => setTimeout(r, retryWaitMs * 2 ** i));
     }
   }
+  if (isThrottle(lastErr)) {
+    throw new RateLimitError(lastErr.status, lastErr.statusText, lastErr.retryAfterMs);
+  }
   throw lastErr;
 }
 
+/**
+ * URL をキーに共有キャッシュ経由で JSON を取得し、キャッシュ情報も返す
+ * meta.cache を返したいツールはこちらを使う
+ */
+export async function fetchJsonWithCache<T = unknown>(
+  url: string,
+  { timeoutMs = 2500, retries = 2, retryWaitMs = 200, ttlMs, bypassCache = false }: FetchJsonOptions = {}
+): Promise<{ data: T; cache: CacheInfo }> {
+  const ttl = ttlMs ?? cacheTtlMs(endpointOf(url));
+  const { value, cache } = await cached(url, ttl, () => fetchJsonUncached<T>(url, timeoutMs, retries, retryWaitMs), { bypass: bypassCache });
+  return { data: value, cache };
+}
 
+export async function fetchJson<T = unknown>(url: string, opts: FetchJsonOptions = {}): Promise<T> {
+  return (await fetchJsonWithCache<T>(url, opts)).data;
+}
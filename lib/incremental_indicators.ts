@@ -0,0 +1,297 @@
+/**
+ * 逐次計算版のインジケーター（リアルタイム更新・多ペアのスクリーニング向け）
+ * - update(candle): 確定足（または新しい形成中の足）を 1 本追加して最新値を返す
+ * - replaceLast(candle): 最後の足を差し替えて再計算（形成中の足の更新。直前の状態から 1 ステップだけ計算し直す）
+ * 出力は tools/analyze_indicators.ts のバッチ版（sma / ema / rsi / bollingerBands / ichimokuSeries）の同じ位置の値と一致する
+ * digits は小数桁（null = 丸めない。バッチ版の digits 引数と同じ）
+ */
+
+export interface IncrementalCandle {
+  high?: number;
+  low?: number;
+  close: number;
+}
+
+type Digits = number | null;
+
+const rnd = (v: number, digits: Digits) => (digits == null ? v : Number(v.toFixed(digits)));
+
+/** 直近 size 個を保持するリングバッファ（push は O(1)。追い出した値を返し、undo でその push を取り消せる） */
+class RingWindow {
+  private readonly size: number;
+  private readonly buf: number[];
+  private head = 0;
+  length = 0;
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+    this.buf = new Array<number>(this.size);
+  }
+
+  /** 古い順に k 番目 */
+  at(k: number): number {
+    return this.buf[(this.head + k) % this.size];
+  }
+
+  /** 新しい方から n 個（古い順） */
+  tail(n: number): number[] {
+    const from = Math.max(0, this.length - n);
+    return Array.from({ length: this.length - from }, (_, k) => this.at(from + k));
+  }
+
+  push(v: number): number | undefined {
+    if (this.length < this.size) {
+      this.buf[(this.head + this.length) % this.size] = v;
+      this.length++;
+      return undefined;
+    }
+    const evicted = this.buf[this.head];
+    this.buf[this.head] = v;
+    this.head = (this.head + 1) % this.size;
+    return evicted;
+  }
+
+  undo(evicted: number | undefined): void {
+    if (evicted === undefined) {
+      this.length--;
+      return;
+    }
+    this.head = (this.head - 1 + this.size) % this.size;
+    this.buf[this.head] = evicted;
+  }
+}
+
+type Evicted = Array<number | undefined>;
+
+/**
+ * 状態の遷移を純粋関数（next）で表し、直前の状態を 1 つだけ保持する基底クラス
+ * 窓（直近 N 本）はリングバッファで持ち、replaceLast 用にはスカラーの状態と窓から追い出した値だけを残す
+ */
+abstract class IncrementalIndicator<S, O> {
+  private state: S;
+  private prevState: S | null = null;
+  private prevEvicted: Evicted = [];
+  private last: O | null = null;
+  protected readonly windows: RingWindow[];
+  count = 0;
+
+  protected constructor(initial: S, windowSizes: number[] = []) {
+    this.state = initial;
+    this.windows = windowSizes.map((size) => new RingWindow(size));
+  }
+
+  /** 各窓に入れる値（windows と同じ順） */
+  protected windowValues(_candle: IncrementalCandle): number[] {
+    return [];
+  }
+
+  /** state を変更せずに次の状態と出力を返す（窓は candle を追加済み。evicted は各窓から追い出された値） */
+  protected abstract next(state: S, candle: IncrementalCandle, evicted: Evicted): { state: S; value: O };
+
+  private push(candle: IncrementalCandle): Evicted {
+    const values = this.windowValues(candle);
+    return this.windows.map((w, k) => w.push(values[k]));
+  }
+
+  update(candle: IncrementalCandle): O {
+    const evicted = this.push(candle);
+    const { state, value } = this.next(this.state, candle, evicted);
+    this.prevState = this.state;
+    this.prevEvicted = evicted;
+    this.state = state;
+    this.last = value;
+    this.count++;
+    return value;
+  }
+
+  replaceLast(candle: IncrementalCandle): O {
+    if (this.prevState == null) return this.update(candle);
+    this.windows.forEach((w, k) => w.undo(this.prevEvicted[k]));
+    const evicted = this.push(candle);
+    const { state, value } = this.next(this.prevState, candle, evicted);
+    this.prevEvicted = evicted;
+    this.state = state;
+    this.last = value;
+    return value;
+  }
+
+  /** 最新の出力（未入力なら null） */
+  get value(): O | null {
+    return this.last;
+  }
+}
+
+// --- SMA ---
+
+type SmaState = { i: number; sum: number };
+
+/** 単純移動平均（最初の値は period 本目） */
+export class IncrementalSma extends IncrementalIndicator<SmaState, number | null> {
+  constructor(private readonly period: number = 25, private readonly digits: Digits = 2) {
+    super({ i: 0, sum: 0 }, [period]);
+  }
+
+  protected windowValues({ close }: IncrementalCandle) {
+    return [close];
+  }
+
+  protected next(s: SmaState, { close }: IncrementalCandle, [out]: Evicted) {
+    let sum = s.sum + close;
+    if (out !== undefined) sum -= out;
+    const value = s.i >= this.period - 1 ? rnd(sum / this.period, this.digits) : null;
+    return { state: { i: s.i + 1, sum }, value };
+  }
+}
+
+// --- EMA ---
+
+type EmaState = { i: number; prev: number | null };
+
+export class IncrementalEma extends IncrementalIndicator<EmaState, number | null> {
+  private readonly k: number;
+
+  constructor(private readonly period: number, private readonly digits: Digits = 2) {
+    super({ i: 0, prev: null }, [period]);
+    this.k = 2 / (period + 1);
+  }
+
+  protected windowValues({ close }: IncrementalCandle) {
+    return [close];
+  }
+
+  protected next(s: EmaState, { close: v }: IncrementalCandle) {
+    const state = { i: s.i + 1, prev: s.prev };
+    if (this.period <= 1) return { state, value: v != null ? rnd(v, this.digits) : null };
+    if (v == null || !Number.isFinite(v)) return { state, value: null };
+    if (s.prev == null) {
+      if (s.i < this.period - 1) return { state, value: null };
+      const avg = this.windows[0].tail(this.period).reduce((acc, x) => acc + x, 0) / this.period;
+      return { state: { ...state, prev: avg }, value: rnd(avg, this.digits) };
+    }
+    const cur = v * this.k + s.prev * (1 - this.k);
+    return { state: { ...state, prev: cur }, value: rnd(cur, this.digits) };
+  }
+}
+
+// --- RSI ---
+
+type RsiState = { i: number; prevClose: number | null; avgGain: number; avgLoss: number };
+
+/** バッチ版 rsi() と同じ Wilder 平滑化（period 本目までは差分の単純平均、以降は平滑化） */
+export class IncrementalRsi extends IncrementalIndicator<RsiState, number | null> {
+  constructor(private readonly period: number = 14, private readonly digits: Digits = 2) {
+    super({ i: 0, prevClose: null, avgGain: 0, avgLoss: 0 });
+  }
+
+  protected next(s: RsiState, { close }: IncrementalCandle) {
+    const p = this.period;
+    const base = { i: s.i + 1, prevClose: close };
+    if (s.i === 0 || s.prevClose == null) return { state: { ...s, ...base }, value: null };
+    const diff = close - s.prevClose;
+    const gain = diff > 0 ? diff : 0;
+    const loss = diff < 0 ? -diff : 0;
+    if (s.i <= p) {
+      const avgGain = s.avgGain + gain / p;
+      const avgLoss = s.avgLoss + loss / p;
+      return { state: { ...base, avgGain, avgLoss }, value: s.i === p ? rnd(rsiFromAverages(avgGain, avgLoss), this.digits) : null };
+    }
+    const avgGain = (s.avgGain * (p - 1) + gain) / p;
+    const avgLoss = (s.avgLoss * (p - 1) + loss) / p;
+    return { state: { ...base, avgGain, avgLoss }, value: rnd(rsiFromAverages(avgGain, avgLoss), this.digits) };
+  }
+}
+
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+// --- Bollinger Bands ---
+
+export interface BandValue {
+  upper: number | null;
+  middle: number | null;
+  lower: number | null;
+}
+
+type BbState = { i: number; base: number | null; s1: number; s2: number };
+
+const NO_BAND: BandValue = { upper: null, middle: null, lower: null };
+
+/** 窓内の和・二乗和を差分更新（1 本あたり O(1)。バッチ版と同じ演算順序） */
+export class IncrementalBollinger extends IncrementalIndicator<BbState, BandValue> {
+  constructor(private readonly period: number = 20, private readonly stdDev: number = 2, private readonly digits: Digits = 2) {
+    super({ i: 0, base: null, s1: 0, s2: 0 }, [period]);
+  }
+
+  protected windowValues({ close }: IncrementalCandle) {
+    return [close];
+  }
+
+  protected next(s: BbState, { close }: IncrementalCandle, [out]: Evicted) {
+    const base = s.base ?? close;
+    const d = close - base;
+    let s1 = s.s1 + d;
+    let s2 = s.s2 + d * d;
+    if (out !== undefined) {
+      const o = out - base;
+      s1 -= o;
+      s2 -= o * o;
+    }
+    const state = { i: s.i + 1, base, s1, s2 };
+    if (s.i < this.period - 1) return { state, value: NO_BAND };
+    const mean = s1 / this.period;
+    const sma = base + mean;
+    const std = Math.sqrt(Math.max(0, s2 / this.period - mean * mean));
+    const digits = this.digits;
+    return { state, value: { upper: rnd(sma + this.stdDev * std, digits), middle: rnd(sma, digits), lower: rnd(sma - this.stdDev * std, digits) } };
+  }
+}
+
+// --- Ichimoku ---
+
+export interface IchimokuValue {
+  tenkan: number | null;
+  kijun: number | null;
+  spanA: number | null;
+  spanB: number | null;
+  chikou: number | null;
+}
+
+type IchimokuState = { i: number };
+
+/** バッチ版 ichimokuSeries() と同じく、先行スパン・遅行スパンはずらす前の値（表示時に ±kijunPeriod シフト） */
+export class IncrementalIchimoku extends IncrementalIndicator<IchimokuState, IchimokuValue> {
+  constructor(
+    private readonly tenkanPeriod: number = 9,
+    private readonly kijunPeriod: number = 26,
+    private readonly senkouBPeriod: number = 52,
+    private readonly digits: Digits = 2
+  ) {
+    const maxPeriod = Math.max(tenkanPeriod, kijunPeriod, senkouBPeriod);
+    super({ i: 0 }, [maxPeriod, maxPeriod]);
+  }
+
+  protected windowValues({ high, low, close }: IncrementalCandle) {
+    return [high ?? close, low ?? close];
+  }
+
+  protected next(s: IchimokuState, { close }: IncrementalCandle) {
+    const [highs, lows] = this.windows;
+    const i = s.i;
+    const mid = (period: number) =>
+      i < period - 1 ? null : rnd((Math.max(...highs.tail(period)) + Math.min(...lows.tail(period))) / 2, this.digits);
+    const tenkan = mid(this.tenkanPeriod);
+    const kijun = mid(this.kijunPeriod);
+    return {
+      state: { i: i + 1 },
+      value: {
+        tenkan,
+        kijun,
+        spanA: tenkan != null && kijun != null ? rnd((tenkan + kijun) / 2, this.digits) : null,
+        spanB: mid(this.senkouBPeriod),
+        chikou: close != null ? rnd(close, this.digits) : null,
+      },
+    };
+  }
+}
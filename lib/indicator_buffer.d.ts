@@ -8,9 +8,47 @@ export type IndicatorBufferKey =
 	| 'SMA_200'
 	| 'BB_20'
 	| 'RSI_14'
-	| 'ICHIMOKU';
+	| 'ICHIMOKU'
+	| 'STOCH_14'
+	| 'STOCH_RSI_14'
+	| 'WILLR_14'
+	| 'CCI_20'
+	| 'ROC_12'
+	| 'ADX_14'
+	| 'AROON_25'
+	| 'PSAR'
+	| 'SUPERTREND_10'
+	| 'MFI_14'
+	| 'CMF_20'
+	| 'ATR_14'
+	| 'KC_20'
+	| 'DC_20';
+
+export type IndicatorName = 'SMA' | 'EMA' | 'RSI' | 'BB' | 'MACD' | 'ICHIMOKU' | 'STOCH' | 'STOCHRSI' | 'WILLR' | 'CCI' | 'ROC' | 'ADX' | 'AROON' | 'PSAR' | 'SUPERTREND' | 'OBV' | 'AD' | 'MFI' | 'CMF' | 'ATR' | 'KC' | 'DC';
+
+export interface IndicatorSpec {
+	name: IndicatorName;
+	params: number[];
+}
+
+export type IndicatorSpecInput = string | { name: string; params?: number[] };
+
+export const INDICATOR_NAMES: IndicatorName[];
+
+/**
+ * Normalize "RSI(9)" / { name, params } into an IndicatorSpec (missing params fall back to defaults).
+ */
+export function parseIndicatorSpec(
+	input: IndicatorSpecInput
+): { ok: true; value: IndicatorSpec } | { ok: false; error: { type: 'user'; message: string } };
+
+/** Output key for a spec (e.g. RSI_9, BB_20_2.5). */
+export function specKey(spec: IndicatorSpec): string;
+
+/** Bars required before the latest value is valid. */
+export function specWarmup(spec: IndicatorSpec): number;
 
 /**
- * Calculate total fetch count from desired display candles and indicator keys.
+ * Calculate total fetch count from desired display candles and indicator keys / specs.
  */
-export function getFetchCount(displayCount: number, indicatorKeys?: IndicatorBufferKey[]): number;
+export function getFetchCount(displayCount: number, indicatorKeys?: Array<IndicatorBufferKey | IndicatorSpec>): number;
@@ -7,7 +7,21 @@ export type IndicatorBufferKey =
 	| 'SMA_200'
 	| 'BB_20'
 	| 'RSI_14'
-	| 'ICHIMOKU';
+	| 'ICHIMOKU'
+	| 'STOCH_14'
+	| 'STOCH_RSI_14'
+	| 'WILLR_14'
+	| 'CCI_20'
+	| 'ROC_12'
+	| 'ADX_14'
+	| 'AROON_25'
+	| 'PSAR'
+	| 'SUPERTREND_10'
+	| 'MFI_14'
+	| 'CMF_20'
+	| 'ATR_14'
+	| 'KC_20'
+	| 'DC_20';
 
 const INDICATOR_PERIODS: Record<IndicatorBufferKey, number> = {
 	SMA_5: 5,
@@ -19,15 +33,148 @@ const INDICATOR_PERIODS: Record<IndicatorBufferKey, number> = {
 	BB_20: 20,
 	RSI_14: 15,
 	ICHIMOKU: 78,
+	STOCH_14: 18,
+	STOCH_RSI_14: 32,
+	WILLR_14: 14,
+	CCI_20: 20,
+	ROC_12: 13,
+	ADX_14: 28,
+	AROON_25: 26,
+	PSAR: 2,
+	SUPERTREND_10: 10,
+	MFI_14: 15,
+	CMF_20: 20,
+	ATR_14: 14,
+	KC_20: 20,
+	DC_20: 20,
 };
 
-export function getFetchCount(displayCount: number, indicatorKeys: IndicatorBufferKey[] = []): number {
+// === 任意パラメータの指標指定（例: RSI(9), BB(20,2.5)） ===
+
+export type IndicatorName = 'SMA' | 'EMA' | 'RSI' | 'BB' | 'MACD' | 'ICHIMOKU' | 'STOCH' | 'STOCHRSI' | 'WILLR' | 'CCI' | 'ROC' | 'ADX' | 'AROON' | 'PSAR' | 'SUPERTREND' | 'OBV' | 'AD' | 'MFI' | 'CMF' | 'ATR' | 'KC' | 'DC';
+
+export interface IndicatorSpec {
+	name: IndicatorName;
+	params: number[];
+}
+
+export type IndicatorSpecInput = string | { name: string; params?: number[] };
+
+const MAX_PERIOD = 500;
+
+// params 省略時の既定値と、各パラメータの意味（エラーメッセージ用）
+const SPEC_DEFS: Record<IndicatorName, { defaults: number[]; labels: string[] }> = {
+	SMA: { defaults: [25], labels: ['period'] },
+	EMA: { defaults: [20], labels: ['period'] },
+	RSI: { defaults: [14], labels: ['period'] },
+	BB: { defaults: [20, 2], labels: ['period', 'stdDev'] },
+	MACD: { defaults: [12, 26, 9], labels: ['fast', 'slow', 'signal'] },
+	ICHIMOKU: { defaults: [9, 26, 52], labels: ['tenkan', 'kijun', 'senkouB'] },
+	STOCH: { defaults: [14, 3, 3], labels: ['kPeriod', 'smoothK', 'dPeriod'] },
+	STOCHRSI: { defaults: [14, 14, 3, 3], labels: ['rsiPeriod', 'stochPeriod', 'smoothK', 'dPeriod'] },
+	WILLR: { defaults: [14], labels: ['period'] },
+	CCI: { defaults: [20], labels: ['period'] },
+	ROC: { defaults: [12], labels: ['period'] },
+	ADX: { defaults: [14], labels: ['period'] },
+	AROON: { defaults: [25], labels: ['period'] },
+	PSAR: { defaults: [0.02, 0.2], labels: ['step', 'maxStep'] },
+	SUPERTREND: { defaults: [10, 3], labels: ['period', 'multiplier'] },
+	OBV: { defaults: [], labels: [] },
+	AD: { defaults: [], labels: [] },
+	MFI: { defaults: [14], labels: ['period'] },
+	CMF: { defaults: [20], labels: ['period'] },
+	ATR: { defaults: [14], labels: ['period'] },
+	KC: { defaults: [20, 10, 2], labels: ['period', 'atrPeriod', 'multiplier'] },
+	DC: { defaults: [20], labels: ['period'] },
+};
+
+// 小数を許すパラメータの上限（0 より大きいこと）
+const FLOAT_PARAM_MAX: Record<string, number> = { stdDev: 5, multiplier: 10, step: 1, maxStep: 1 };
+
+export const INDICATOR_NAMES = Object.keys(SPEC_DEFS) as IndicatorName[];
+
+/**
+ * "RSI(9)" / "bb(20,2.5)" / { name: 'MACD', params: [8, 21, 5] } を IndicatorSpec に正規化
+ * - 省略したパラメータは既定値で補う
+ */
+export function parseIndicatorSpec(
+	input: IndicatorSpecInput
+): { ok: true; value: IndicatorSpec } | { ok: false; error: { type: 'user'; message: string } } {
+	const err = (message: string) => ({ ok: false as const, error: { type: 'user' as const, message } });
+	let rawName: string;
+	let rawParams: number[];
+	if (typeof input === 'string') {
+		const m = input.trim().match(/^([A-Za-z]+)\s*(?:\(([^)]*)\))?$/);
+		if (!m) return err(`指標指定を解釈できません: ${input}（例: RSI(9), BB(20,2.5)）`);
+		rawName = m[1];
+		rawParams = m[2] != null && m[2].trim() !== '' ? m[2].split(',').map((s) => Number(s.trim())) : [];
+	} else {
+		rawName = String(input?.name ?? '');
+		rawParams = Array.isArray(input?.params) ? input.params.map(Number) : [];
+	}
+
+	const name = rawName.toUpperCase() as IndicatorName;
+	const def = SPEC_DEFS[name];
+	if (!def) return err(`未対応の指標です: ${rawName}（対応: ${INDICATOR_NAMES.join(', ')}）`);
+	if (rawParams.length > def.defaults.length) return err(`${name} のパラメータは最大 ${def.defaults.length} 個です（${def.labels.join(', ')}）`);
+
+	const params = def.defaults.map((d, i) => (i < rawParams.length ? rawParams[i] : d));
+	for (let i = 0; i < params.length; i++) {
+		const v = params[i];
+		const label = def.labels[i];
+		const floatMax = FLOAT_PARAM_MAX[label];
+		if (floatMax != null) {
+			if (!Number.isFinite(v) || v <= 0 || v > floatMax) return err(`${name} の ${label} は 0 より大きく ${floatMax} 以下で指定してください（指定値: ${v}）`);
+		} else if (!Number.isInteger(v) || v < 1 || v > MAX_PERIOD) {
+			return err(`${name} の ${label} は 1〜${MAX_PERIOD} の整数で指定してください（指定値: ${v}）`);
+		}
+	}
+	if (name === 'MACD' && params[0] >= params[1]) return err(`MACD は fast < slow で指定してください（指定値: ${params.join(',')}）`);
+	if (name === 'PSAR' && params[0] > params[1]) return err(`PSAR は step <= maxStep で指定してください（指定値: ${params.join(',')}）`);
+	return { ok: true, value: { name, params } };
+}
+
+/** 出力のキー（例: RSI_9, BB_20_2.5, MACD_12_26_9） */
+export function specKey(spec: IndicatorSpec): string {
+	return [spec.name, ...spec.params].join('_');
+}
+
+/** 最新値が有効になるまでに必要な本数 */
+export function specWarmup(spec: IndicatorSpec): number {
+	const [a, b, c, d] = spec.params;
+	switch (spec.name) {
+		case 'RSI':
+		case 'ROC':
+		case 'AROON':
+		case 'MFI':
+			return a + 1;
+		case 'OBV':
+		case 'AD':
+			return 1;
+		case 'ADX':
+			return 2 * a;
+		case 'PSAR':
+			return 2;
+		case 'STOCH':
+			return a + b + c - 2;
+		case 'STOCHRSI':
+			return a + b + c + d - 2;
+		case 'MACD':
+			return b + c - 1;
+		case 'ICHIMOKU':
+			return c + b;
+		case 'KC':
+			return Math.max(a, b);
+		default:
+			return a;
+	}
+}
+
+export function getFetchCount(displayCount: number, indicatorKeys: Array<IndicatorBufferKey | IndicatorSpec> = []): number {
 	const maxPeriod = indicatorKeys.reduce((max, key) => {
-		const period = INDICATOR_PERIODS[key] || 0;
+		const period = typeof key === 'string' ? INDICATOR_PERIODS[key] || 0 : specWarmup(key);
 		return Math.max(max, period);
 	}, 0);
 	const buffer = maxPeriod > 0 ? maxPeriod - 1 : 0;
 	return displayCount + buffer;
 }
-
-
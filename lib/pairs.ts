@@ -0,0 +1,211 @@
+/**
+ * ペアレジストリ（bitbank の spot/pairs を正とし、ディスクキャッシュ → 静的リストの順にフォールバック）
+ * - 初回参照時にディスクキャッシュ（無ければ静的リスト）を同期で読み、ensurePair を即座に使えるようにする
+ * - refreshPairRegistry() で spot/pairs から最新化（TTL 内は再取得しない）
+ */
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { fetchJsonWithCache, httpMode } from './http.js';
+
+export const BITBANK_SPOT_API_BASE = 'https://api.bitbank.cc/v1';
+
+export type PairStatus = 'active' | 'buy_only' | 'sell_only' | 'halted' | 'disabled';
+export type PairSource = 'spot_pairs' | 'disk' | 'static';
+
+export interface PairInfo {
+  pair: string;
+  base: string;
+  quote: string;
+  /** 価格の小数桁（静的リスト由来は null） */
+  priceDigits: number | null;
+  /** 数量の小数桁 */
+  amountDigits: number | null;
+  /** 最小注文数量 */
+  minAmount: number | null;
+  status: PairStatus;
+}
+
+export interface PairPrecision {
+  priceDigits: number | null;
+  amountDigits: number | null;
+  minAmount: number | null;
+}
+
+export interface PairRegistryInfo {
+  source: PairSource;
+  fetchedAt: string | null;
+  size: number;
+}
+
+// spot/pairs が取れないとき用の静的リスト（アクティブなもののみ）
+// 参考: https://github.com/bitbankinc/bitbank-api-docs/blob/master/pairs.md
+const STATIC_PAIRS = [
+  // 主要ペア
+  'btc_jpy', 'eth_jpy', 'xrp_jpy', 'ltc_jpy', 'bcc_jpy',
+  // アルトコイン
+  'mona_jpy', 'xlm_jpy', 'qtum_jpy', 'bat_jpy', 'omg_jpy', 'xym_jpy', 'link_jpy', 'boba_jpy', 'enj_jpy',
+  'dot_jpy', 'doge_jpy', 'astr_jpy', 'ada_jpy', 'avax_jpy', 'axs_jpy', 'flr_jpy', 'sand_jpy', 'gala_jpy',
+  'ape_jpy', 'chz_jpy', 'oas_jpy', 'mana_jpy', 'grt_jpy', 'bnb_jpy', 'dai_jpy', 'op_jpy', 'arb_jpy',
+  'klay_jpy', 'imx_jpy', 'mask_jpy', 'pol_jpy', 'sol_jpy', 'cyber_jpy', 'render_jpy', 'trx_jpy', 'lpt_jpy',
+  'atom_jpy', 'sui_jpy', 'sky_jpy',
+  // BTC 建て（起動直後の refresh 完了前でも受け付ける）
+  'eth_btc', 'xrp_btc', 'ltc_btc', 'bcc_btc', 'mona_btc', 'xlm_btc', 'qtum_btc', 'bat_btc', 'omg_btc', 'xym_btc',
+  'link_btc', 'boba_btc', 'enj_btc',
+];
+
+const PAIRS_TTL_MS = () => Number(process.env.BITBANK_PAIRS_TTL_MS ?? 15 * 60 * 1000);
+
+function cacheFile(): string {
+  const file = process.env.BITBANK_PAIRS_CACHE_FILE || 'cache/pairs.json';
+  return path.isAbsolute(file) ? file : path.join(process.cwd(), file);
+}
+
+function staticInfo(pair: string): PairInfo {
+  const [base, quote] = pair.split('_');
+  return { pair, base, quote, priceDigits: null, amountDigits: null, minAmount: null, status: 'active' };
+}
+
+type State = { pairs: Map<string, PairInfo>; source: PairSource; fetchedAt: number | null };
+
+let state: State | null = null;
+let inflight: Promise<PairRegistryInfo> | null = null;
+
+function toMap(list: PairInfo[]): Map<string, PairInfo> {
+  return new Map(list.map((p) => [p.pair, p]));
+}
+
+function loadInitial(): State {
+  // replay ではフィクスチャ以外の状態を持ち込まない
+  if (httpMode() !== 'replay') {
+    try {
+      const rec = JSON.parse(fs.readFileSync(cacheFile(), 'utf8')) as { fetchedAt?: string; pairs?: PairInfo[] };
+      if (Array.isArray(rec?.pairs) && rec.pairs.length > 0) {
+        return { pairs: toMap(rec.pairs), source: 'disk', fetchedAt: Date.parse(String(rec.fetchedAt)) || null };
+      }
+    } catch {
+      // 無い・壊れている場合は静的リスト
+    }
+  }
+  return { pairs: toMap(STATIC_PAIRS.map(staticInfo)), source: 'static', fetchedAt: null };
+}
+
+function current(): State {
+  if (!state) state = loadInitial();
+  return state;
+}
+
+function statusOf(p: Record<string, unknown>): PairStatus {
+  if (p.is_enabled === false) return 'disabled';
+  if (p.stop_order === true) return 'halted';
+  if (p.stop_buy_order === true && p.stop_sell_order === true) return 'halted';
+  if (p.stop_buy_order === true) return 'sell_only';
+  if (p.stop_sell_order === true) return 'buy_only';
+  return 'active';
+}
+
+const numOrNull = (v: unknown): number | null => {
+  const n = Number(v);
+  return v != null && v !== '' && Number.isFinite(n) ? n : null;
+};
+
+/** spot/pairs のペイロードを PairInfo に変換（形式不正は例外） */
+export function parseSpotPairs(raw: unknown): PairInfo[] {
+  const json = raw as { success?: number; data?: { pairs?: Array<Record<string, unknown>> } };
+  const list = json?.data?.pairs;
+  if (json?.success !== 1 || !Array.isArray(list)) throw new Error('spot/pairs: unexpected payload');
+  return list
+    .filter((p) => typeof p?.name === 'string')
+    .map((p) => {
+      const pair = String(p.name).toLowerCase();
+      const [base, quote] = pair.split('_');
+      return {
+        pair,
+        base: String(p.base_asset ?? base).toLowerCase(),
+        quote: String(p.quote_asset ?? quote).toLowerCase(),
+        priceDigits: numOrNull(p.price_digits),
+        amountDigits: numOrNull(p.amount_digits),
+        minAmount: numOrNull(p.unit_amount),
+        status: statusOf(p),
+      };
+    });
+}
+
+export function pairRegistryInfo(): PairRegistryInfo {
+  const s = current();
+  return { source: s.source, fetchedAt: s.fetchedAt ? new Date(s.fetchedAt).toISOString() : null, size: s.pairs.size };
+}
+
+/**
+ * spot/pairs から最新化する。失敗時は現在の状態（ディスク or 静的）を維持し、例外は投げない
+ */
+export function refreshPairRegistry({ force = false, timeoutMs = 5000 }: { force?: boolean; timeoutMs?: number } = {}): Promise<PairRegistryInfo> {
+  const s = current();
+  if (!force && s.source === 'spot_pairs' && s.fetchedAt && Date.now() - s.fetchedAt < PAIRS_TTL_MS()) {
+    return Promise.resolve(pairRegistryInfo());
+  }
+  if (inflight) return inflight;
+  inflight = (async () => {
+    try {
+      const { data } = await fetchJsonWithCache(`${BITBANK_SPOT_API_BASE}/spot/pairs`, { timeoutMs, retries: 1, ttlMs: 0 });
+      const list = parseSpotPairs(data);
+      if (list.length === 0) throw new Error('spot/pairs: empty');
+      const fetchedAt = Date.now();
+      state = { pairs: toMap(list), source: 'spot_pairs', fetchedAt };
+      if (httpMode() !== 'replay') {
+        try {
+          const file = cacheFile();
+          await fsp.mkdir(path.dirname(file), { recursive: true });
+          await fsp.writeFile(file, JSON.stringify({ fetchedAt: new Date(fetchedAt).toISOString(), pairs: list }), 'utf8');
+        } catch {
+          // 保存失敗はレジストリの更新に影響させない
+        }
+      }
+    } catch {
+      // 取得失敗時は現状維持
+    } finally {
+      inflight = null;
+    }
+    return pairRegistryInfo();
+  })();
+  return inflight;
+}
+
+export function getPairInfo(pair: string): PairInfo | null {
+  return current().pairs.get(pair) ?? null;
+}
+
+export function isKnownPair(pair: string): boolean {
+  return current().pairs.has(pair);
+}
+
+/** 既定では取引停止（disabled）を除く。quote で建て通貨を絞り込む */
+export function listPairs({ quote, includeDisabled = false }: { quote?: string; includeDisabled?: boolean } = {}): string[] {
+  return [...current().pairs.values()]
+    .filter((p) => (includeDisabled || p.status !== 'disabled') && (!quote || p.quote === quote))
+    .map((p) => p.pair);
+}
+
+export function pairPrecision(pair: string): PairPrecision | null {
+  const info = getPairInfo(pair);
+  if (!info || info.priceDigits == null) return null;
+  return { priceDigits: info.priceDigits, amountDigits: info.amountDigits, minAmount: info.minAmount };
+}
+
+/** 価格をペアの刻みに丸める（桁数不明ならそのまま） */
+export function roundPrice(pair: string, value: number): number {
+  const digits = getPairInfo(pair)?.priceDigits;
+  return digits == null || !Number.isFinite(value) ? value : Number(value.toFixed(digits));
+}
+
+/** 数量をペアの刻みに丸める（桁数不明ならそのまま） */
+export function roundAmount(pair: string, value: number): number {
+  const digits = getPairInfo(pair)?.amountDigits;
+  return digits == null || !Number.isFinite(value) ? value : Number(value.toFixed(digits));
+}
+
+/** テスト向け: 状態を破棄して次回参照時に読み直す */
+export function resetPairRegistry(): void {
+  state = null;
+  inflight = null;
+}
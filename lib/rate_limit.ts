@@ -0,0 +1,78 @@
+/**
+ * bitbank Public API 向けのクライアント側レートリミッタ（トークンバケット）
+ * プロセス内の全ツールで 1 つのバケットを共有する
+ */
+
+function envNumber(name: string, def: number): number {
+  const raw = process.env[name];
+  const n = raw != null && raw !== '' ? Number(raw) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : def;
+}
+
+/** 1 秒あたりのリクエスト上限（BITBANK_RATE_LIMIT_RPS） */
+const RPS = envNumber('BITBANK_RATE_LIMIT_RPS', 10);
+/** 瞬間的に許容するバースト量（BITBANK_RATE_LIMIT_BURST、既定は RPS と同じ） */
+const BURST = envNumber('BITBANK_RATE_LIMIT_BURST', RPS);
+
+let tokens = BURST;
+let lastRefill = Date.now();
+/** 429/503 の Retry-After を受けたとき、この時刻まで全リクエストを止める */
+let pausedUntil = 0;
+/** FIFO で待たせるためのチェーン */
+let queue: Promise<void> = Promise.resolve();
+
+function refill(now: number) {
+  tokens = Math.min(BURST, tokens + ((now - lastRefill) / 1000) * RPS);
+  lastRefill = now;
+}
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+async function take(): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    if (now < pausedUntil) {
+      await sleep(pausedUntil - now);
+      continue;
+    }
+    refill(now);
+    if (tokens >= 1) {
+      tokens -= 1;
+      return;
+    }
+    await sleep(Math.ceil(((1 - tokens) / RPS) * 1000));
+  }
+}
+
+/**
+ * トークンを 1 つ取得する（空きがなければ順番待ち）
+ */
+export function acquireToken(): Promise<void> {
+  const next = queue.then(take);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * サーバから待機指示（Retry-After 等）を受けたとき、共有バケット全体を一時停止する
+ */
+export function pauseRequests(ms: number): void {
+  if (!(ms > 0)) return;
+  pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+  tokens = 0;
+}
+
+/** Retry-After ヘッダ（秒数 or HTTP-date）を ms に変換。解釈できなければ null */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (value == null || value.trim() === '') return null;
+  const sec = Number(value);
+  if (Number.isFinite(sec)) return Math.max(0, sec * 1000);
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+}
+
+/** 429/503 用のジッタ付き指数バックオフ（full jitter、上限 10 秒） */
+export function jitteredBackoffMs(attempt: number, baseMs = 500, capMs = 10_000): number {
+  const ceil = Math.min(capMs, baseMs * 2 ** attempt);
+  return Math.round(ceil / 2 + Math.random() * (ceil / 2));
+}
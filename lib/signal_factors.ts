@@ -0,0 +1,232 @@
+/**
+ * analyze_market_signal の合成スコアを構成する要素（factor）と重みプロファイル
+ * - factor: 最新の指標・フローから -1〜+1 の値を返す（正 = 強気）
+ * - profile: factor ごとの重み（合計 1 に正規化）。プリセット名で選び、weights で上書きできる
+ * registerSignalFactor() で factor を追加すると weights から参照できる
+ */
+
+export type BaseSignalFactor = 'smaTrend' | 'momentum' | 'cvdTrend' | 'volatility' | 'buyPressure';
+
+/** momentum 要素に使うオシレーター */
+export type MomentumInput = 'rsi' | 'stoch' | 'stoch_rsi' | 'williams_r' | 'cci' | 'roc';
+
+export interface SignalFactorContext {
+	/** analyzeIndicators の最新値（RSI_14, ADX_14, BB_upper など） */
+	indicators: Record<string, unknown>;
+	close: number | null;
+	/** ツール側で計算済みの組み込み要素 */
+	base: Record<BaseSignalFactor, number>;
+}
+
+export interface SignalFactor {
+	key: string;
+	/** 表示名（本文の内訳で使う） */
+	label: string;
+	description: string;
+	/** 解釈の閾値 [strong, moderate]（-moderate 以下は weak） */
+	thresholds?: [number, number];
+	/** -1〜+1。算出できなければ null（寄与 0 として扱う） */
+	compute: (ctx: SignalFactorContext) => number | null;
+}
+
+export interface SignalProfile {
+	description: string;
+	weights: Record<string, number>;
+}
+
+export interface ResolvedSignalWeights {
+	profile: string;
+	/** weights で上書きされたか */
+	custom: boolean;
+	/** 指定された重みの合計が 1 でなく、正規化し直したか */
+	normalized: boolean;
+	/** 重みの降順（0 の要素は含まない） */
+	weights: Record<string, number>;
+}
+
+export interface AppliedSignalFactor {
+	key: string;
+	label: string;
+	rawValue: number;
+	weight: number;
+	contribution: number;
+	interpretation: 'strong' | 'moderate' | 'weak' | 'neutral';
+	available: boolean;
+}
+
+function clamp(x: number, min: number, max: number) { return Math.max(min, Math.min(max, x)); }
+
+const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : null);
+
+const base = (key: BaseSignalFactor, label: string, description: string, thresholds: [number, number]): SignalFactor => ({
+	key, label, description, thresholds, compute: (ctx) => ctx.base[key],
+});
+
+const BUILTIN_FACTORS: SignalFactor[] = [
+	base('smaTrend', '平均価格の配置', 'SMA25/75 の並びと SMA200 からの乖離', [0.35, 0.1]),
+	base('momentum', '勢いの変化', 'momentumInputs のオシレーター平均', [0.35, 0.1]),
+	base('cvdTrend', '出来高の流れ', '直近バケットの CVD の傾き', [0.4, 0.15]),
+	base('volatility', '値動きの荒さ', '年率 RV（低いほど +）', [0.35, 0.1]),
+	base('buyPressure', '板の買い圧力', '約定のアグレッサー比率', [0.4, 0.15]),
+	{
+		key: 'trendStrength',
+		label: 'トレンドの強さ',
+		description: 'ADX(14) の強さ × DMI の方向（ADX 15 以下は 0、40 で ±1）',
+		compute: ({ indicators: ind }) => {
+			const adx = num(ind.ADX_14);
+			const plus = num(ind.PLUS_DI_14);
+			const minus = num(ind.MINUS_DI_14);
+			if (adx == null || plus == null || minus == null) return null;
+			return Math.sign(plus - minus) * clamp((adx - 15) / 25, 0, 1);
+		},
+	},
+	{
+		key: 'macd',
+		label: 'MACD ヒストグラム',
+		description: 'MACD ヒストグラムを ATR(14) の半分で正規化',
+		compute: ({ indicators: ind }) => {
+			const hist = num(ind.MACD_hist);
+			const atr = num(ind.ATR_14);
+			if (hist == null || atr == null || atr <= 0) return null;
+			return clamp(hist / (atr * 0.5), -1, 1);
+		},
+	},
+	{
+		key: 'bbReversion',
+		label: 'BB 逆張り',
+		description: 'BB(20,2) 内の位置の反転（-2σ で +1、+2σ で -1）',
+		compute: ({ indicators: ind, close }) => {
+			const mid = num(ind.BB_middle);
+			const upper = num(ind.BB_upper);
+			if (close == null || mid == null || upper == null || upper <= mid) return null;
+			return clamp(-(close - mid) / (upper - mid), -1, 1);
+		},
+	},
+	{
+		key: 'rsiReversion',
+		label: 'RSI 逆張り',
+		description: 'RSI(14) の反転（30 以下で強気、70 以上で弱気）',
+		compute: ({ indicators: ind }) => {
+			const rsi = num(ind.RSI_14);
+			return rsi == null ? null : clamp(-(rsi - 50) / 20, -1, 1);
+		},
+	},
+];
+
+const FACTORS = new Map<string, SignalFactor>(BUILTIN_FACTORS.map((f) => [f.key, f]));
+
+/** smaTrend: 終値 > SMA25 > SMA75 の並びで ±0.6、SMA200 からの乖離（5% で ±0.4）を加算 */
+export function smaTrendValue(close: number, sma25: number, sma75: number, sma200: number | null | undefined): number {
+	let v = 0;
+	if (close > sma25 && sma25 > sma75) v += 0.6;
+	else if (close < sma25 && sma25 < sma75) v -= 0.6;
+	if (sma200 != null) v += clamp((close - sma200) / sma200 / 0.05, -0.4, 0.4);
+	return clamp(v, -1, 1);
+}
+
+// 各オシレーターを -1〜+1 に正規化（中立 = 0）。key は analyze_indicators の指標名
+export const MOMENTUM_NORMALIZERS: Record<MomentumInput, { key: string; norm: (v: number) => number }> = {
+	rsi: { key: 'RSI_14', norm: (v) => (v - 50) / 50 },
+	stoch: { key: 'STOCH_K', norm: (v) => (v - 50) / 50 },
+	stoch_rsi: { key: 'STOCH_RSI_K', norm: (v) => (v - 50) / 50 },
+	williams_r: { key: 'WILLR_14', norm: (v) => (v + 50) / 50 },
+	cci: { key: 'CCI_20', norm: (v) => v / 200 },
+	roc: { key: 'ROC_12', norm: (v) => v / 10 },
+};
+
+/** momentum: 指定したオシレーターの正規化値の平均（算出できたものだけ。1 つもなければ 0） */
+export function momentumValue(inputs: MomentumInput[], indicators: Record<string, unknown>): number {
+	const parts = inputs
+		.map((k) => {
+			const v = num(indicators[MOMENTUM_NORMALIZERS[k].key]);
+			return v == null ? null : clamp(MOMENTUM_NORMALIZERS[k].norm(v), -1, 1);
+		})
+		.filter((v): v is number => v != null);
+	return parts.length ? parts.reduce((a, b) => a + b, 0) / parts.length : 0;
+}
+
+/** volatility: 年率 RV 0.5 を中立とし、低いほど +（典型的なレンジは 0.2〜0.8） */
+export function volatilityValue(rvAnn: number): number {
+	return clamp((0.5 - rvAnn) / 0.5, -1, 1);
+}
+
+export const SIGNAL_PROFILES: Record<string, SignalProfile> = {
+	default: {
+		description: 'トレンド重視型（中長期の配置と勢いを重視し、瞬間的な板の変動を抑制）',
+		weights: { smaTrend: 0.35, momentum: 0.3, cvdTrend: 0.2, volatility: 0.1, buyPressure: 0.05 },
+	},
+	'trend-follower': {
+		description: 'トレンドフォロー型（配置に加えて ADX の強さと MACD で順張りを確認）',
+		weights: { smaTrend: 0.3, trendStrength: 0.25, momentum: 0.15, macd: 0.15, cvdTrend: 0.1, buyPressure: 0.05 },
+	},
+	'mean-reversion': {
+		description: '逆張り型（BB と RSI の行き過ぎを反転方向に評価し、フローで確認）',
+		weights: { bbReversion: 0.4, rsiReversion: 0.35, cvdTrend: 0.15, buyPressure: 0.1 },
+	},
+	'order-flow': {
+		description: 'フロー重視型（短期の約定の偏りを重視）',
+		weights: { cvdTrend: 0.4, buyPressure: 0.3, momentum: 0.2, volatility: 0.1 },
+	},
+};
+
+export const SIGNAL_PROFILE_NAMES = Object.keys(SIGNAL_PROFILES);
+
+/** factor を追加する（同名は上書きせずエラー） */
+export function registerSignalFactor(factor: SignalFactor): void {
+	if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(factor.key)) throw new Error(`invalid signal factor key: ${factor.key}`);
+	if (FACTORS.has(factor.key)) throw new Error(`signal factor already registered: ${factor.key}`);
+	FACTORS.set(factor.key, factor);
+}
+
+export function listSignalFactors(): SignalFactor[] {
+	return [...FACTORS.values()];
+}
+
+/**
+ * プロファイルと上書き重みから適用する重みを決める
+ * - weights は profile の重みを factor 単位で上書き（0 で除外）
+ * - 未登録の factor・負の値・全要素 0 はユーザーエラー
+ * - 合計が 1 でなければ比率を保って正規化（normalized=true）
+ */
+export function resolveSignalWeights(
+	profile: string = 'default',
+	overrides?: Record<string, number>
+):
+	| { ok: true; value: ResolvedSignalWeights }
+	| { ok: false; error: { type: 'user'; message: string } } {
+	const preset = Object.prototype.hasOwnProperty.call(SIGNAL_PROFILES, profile) ? SIGNAL_PROFILES[profile] : undefined;
+	if (!preset) return { ok: false, error: { type: 'user', message: `未対応の profile: '${profile}'（対応: ${SIGNAL_PROFILE_NAMES.join(', ')}）` } };
+	const merged: Record<string, number> = { ...preset.weights };
+	for (const [key, w] of Object.entries(overrides ?? {})) {
+		if (!FACTORS.has(key)) return { ok: false, error: { type: 'user', message: `未対応の factor: '${key}'（対応: ${[...FACTORS.keys()].join(', ')}）` } };
+		if (typeof w !== 'number' || !Number.isFinite(w) || w < 0) return { ok: false, error: { type: 'user', message: `weights.${key} は 0 以上の数値で指定してください` } };
+		merged[key] = w;
+	}
+	const entries = Object.entries(merged).filter(([, w]) => w > 0);
+	const sum = entries.reduce((s, [, w]) => s + w, 0);
+	if (!entries.length || !(sum > 0)) return { ok: false, error: { type: 'user', message: 'weights の合計が 0 です（少なくとも 1 つの factor に正の重みが必要）' } };
+	const weights = Object.fromEntries(entries.sort((a, b) => b[1] - a[1]).map(([k, w]) => [k, w / sum]));
+	return {
+		ok: true,
+		value: { profile, custom: Object.keys(overrides ?? {}).length > 0, normalized: Math.abs(sum - 1) > 1e-9, weights },
+	};
+}
+
+/** 適用した重みの計算式（例: score = 0.35*smaTrend + 0.30*momentum） */
+export function formatSignalFormula(weights: Record<string, number>): string {
+	const fmt = (w: number) => (Math.abs(w * 100 - Math.round(w * 100)) < 1e-9 ? w.toFixed(2) : w.toFixed(3));
+	return `score = ${Object.entries(weights).map(([k, w]) => `${fmt(w)}*${k}`).join(' + ')}`;
+}
+
+/** 重みを掛けて各要素の寄与を求める（算出できない要素は寄与 0、available=false） */
+export function applySignalFactors(weights: Record<string, number>, ctx: SignalFactorContext): AppliedSignalFactor[] {
+	return Object.entries(weights).map(([key, weight]) => {
+		const factor = FACTORS.get(key);
+		const v = factor ? factor.compute(ctx) : null;
+		const available = v != null && Number.isFinite(v);
+		const rawValue = available ? clamp(v as number, -1, 1) : 0;
+		const [strong, moderate] = factor?.thresholds ?? [0.35, 0.1];
+		const interpretation = rawValue >= strong ? 'strong' : rawValue >= moderate ? 'moderate' : rawValue <= -moderate ? 'weak' : 'neutral';
+		return { key, label: factor?.label ?? key, rawValue, weight, contribution: rawValue * weight, interpretation, available };
+	});
+}
@@ -0,0 +1,371 @@
+/**
+ * bitbank リアルタイムストリーム（Socket.IO over WebSocket）クライアント
+ * - 購読ペアごとにインメモリ板（depth_whole/depth_diff）と約定テープ（transactions）を保持
+ * - 板は REST スナップショット（get_depth）を起点に差分を適用し、ギャップ・交差・再接続で再同期する
+ * - 温まっている（同期済みかつ新しい）ときだけ各ツールがストリームの値を使う
+ */
+import WebSocket from 'ws';
+
+export const BITBANK_STREAM_URL = 'wss://stream.bitbank.cc/socket.io/?EIO=4&transport=websocket';
+
+/** ws / ブラウザ WebSocket 互換の最小インタフェース（テストでは差し替え可能） */
+export interface WebSocketLike {
+  send(data: string): void;
+  close(): void;
+  onopen: ((ev: unknown) => void) | null;
+  onmessage: ((ev: { data: unknown }) => void) | null;
+  onclose: ((ev: unknown) => void) | null;
+  onerror: ((ev: unknown) => void) | null;
+}
+
+export interface DepthSnapshot {
+  asks: Array<[unknown, unknown]>;
+  bids: Array<[unknown, unknown]>;
+  sequenceId: number | null;
+  timestamp: number;
+}
+
+export interface StreamTrade {
+  id: number | null;
+  price: number;
+  amount: number;
+  side: 'buy' | 'sell';
+  timestampMs: number;
+  isoTime: string;
+}
+
+export interface StreamOptions {
+  pairs: string[];
+  /** 再同期に使う板スナップショット（通常は get_depth） */
+  fetchSnapshot: (pair: string) => Promise<DepthSnapshot>;
+  url?: string;
+  socketFactory?: (url: string) => WebSocketLike;
+  /** 約定テープの最大保持件数 */
+  tapeSize?: number;
+  /** 最終更新からこの時間を超えたら冷えている扱い */
+  staleMs?: number;
+  /** true の場合、depth_diff の sequenceId が連番でなければギャップとして再同期 */
+  contiguousSequence?: boolean;
+  reconnectMs?: number;
+}
+
+type Diff = { asks: Array<[unknown, unknown]>; bids: Array<[unknown, unknown]>; sequenceId: number; timestamp: number };
+
+const MAX_PENDING_DIFFS = 1000;
+const MAX_RESYNC_RETRIES = 3;
+const RESYNC_RETRY_MS = 500;
+
+function toNum(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/**
+ * 1 ペア分のインメモリ板
+ */
+export class OrderBook {
+  private asks = new Map<number, number>();
+  private bids = new Map<number, number>();
+  private pending: Diff[] = [];
+  sequenceId: number | null = null;
+  synced = false;
+  lastUpdate = 0;
+
+  constructor(private readonly contiguous = false) {}
+
+  private applyLevels(side: Map<number, number>, levels: Array<[unknown, unknown]>) {
+    for (const [p, s] of levels) {
+      const price = toNum(p);
+      const size = toNum(s);
+      if (!Number.isFinite(price) || !Number.isFinite(size)) continue;
+      if (size === 0) side.delete(price);
+      else side.set(price, size);
+    }
+  }
+
+  /** 同期を外す（以降の差分はスナップショット到着まで保留） */
+  invalidate() {
+    this.synced = false;
+  }
+
+  /** スナップショットを起点に板を作り直し、保留中の差分を適用する */
+  applySnapshot(snap: DepthSnapshot): 'ok' | 'gap' | 'crossed' {
+    this.asks.clear();
+    this.bids.clear();
+    this.applyLevels(this.asks, snap.asks);
+    this.applyLevels(this.bids, snap.bids);
+    this.sequenceId = snap.sequenceId;
+    this.synced = true;
+    this.lastUpdate = Date.now();
+    const buffered = this.pending;
+    this.pending = [];
+    for (const d of buffered) {
+      const res = this.applyDiff(d);
+      if (res === 'gap' || res === 'crossed') {
+        this.synced = false;
+        return res;
+      }
+    }
+    return 'ok';
+  }
+
+  /**
+   * 差分を適用する
+   * - stale: スナップショット以前の差分（破棄）
+   * - gap: 連番モードで欠番を検出
+   * - crossed: 適用後に最良買い ≥ 最良売り（整合性崩れ）
+   */
+  applyDiff(d: Diff): 'ok' | 'buffered' | 'stale' | 'gap' | 'crossed' {
+    if (!this.synced) {
+      this.pending.push(d);
+      if (this.pending.length > MAX_PENDING_DIFFS) this.pending.shift();
+      return 'buffered';
+    }
+    if (this.sequenceId != null && d.sequenceId <= this.sequenceId) return 'stale';
+    if (this.contiguous && this.sequenceId != null && d.sequenceId !== this.sequenceId + 1) return 'gap';
+    this.applyLevels(this.asks, d.asks);
+    this.applyLevels(this.bids, d.bids);
+    this.sequenceId = d.sequenceId;
+    this.lastUpdate = Date.now();
+    const bestBid = this.bestBid();
+    const bestAsk = this.bestAsk();
+    if (bestBid != null && bestAsk != null && bestBid >= bestAsk) return 'crossed';
+    return 'ok';
+  }
+
+  bestBid(): number | null {
+    let best: number | null = null;
+    for (const p of this.bids.keys()) if (best == null || p > best) best = p;
+    return best;
+  }
+
+  bestAsk(): number | null {
+    let best: number | null = null;
+    for (const p of this.asks.keys()) if (best == null || p < best) best = p;
+    return best;
+  }
+
+  /** 気配の近い順に最大 maxLevels 層（asks 昇順 / bids 降順） */
+  levels(maxLevels: number): { asks: Array<[number, number]>; bids: Array<[number, number]> } {
+    const asks = [...this.asks.entries()].sort((a, b) => a[0] - b[0]).slice(0, maxLevels);
+    const bids = [...this.bids.entries()].sort((a, b) => b[0] - a[0]).slice(0, maxLevels);
+    return { asks, bids };
+  }
+}
+
+type PairState = { book: OrderBook; tape: StreamTrade[]; ticker: Record<string, unknown> | null; resyncing: Promise<void> | null; resyncs: number };
+
+/**
+ * bitbank ストリームクライアント
+ */
+export class BitbankStream {
+  private readonly state = new Map<string, PairState>();
+  private socket: WebSocketLike | null = null;
+  private connected = false;
+  private stopped = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly url: string;
+  private readonly tapeSize: number;
+  private readonly staleMs: number;
+  private readonly reconnectMs: number;
+
+  constructor(private readonly opts: StreamOptions) {
+    this.url = opts.url ?? process.env.BITBANK_STREAM_URL ?? BITBANK_STREAM_URL;
+    this.tapeSize = opts.tapeSize ?? Number(process.env.BITBANK_STREAM_TAPE_SIZE ?? 2000);
+    this.staleMs = opts.staleMs ?? Number(process.env.BITBANK_STREAM_STALE_MS ?? 10_000);
+    this.reconnectMs = opts.reconnectMs ?? 3000;
+    for (const pair of opts.pairs) {
+      this.state.set(pair, { book: new OrderBook(opts.contiguousSequence), tape: [], ticker: null, resyncing: null, resyncs: 0 });
+    }
+  }
+
+  get pairs(): string[] {
+    return [...this.state.keys()];
+  }
+
+  start(): this {
+    this.stopped = false;
+    this.connect();
+    return this;
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  private connect() {
+    const factory = this.opts.socketFactory ?? ((url: string) => new WebSocket(url) as unknown as WebSocketLike);
+    const ws = factory(this.url);
+    this.socket = ws;
+    ws.onmessage = (ev) => this.onFrame(String(ev.data));
+    ws.onclose = () => this.onDisconnect();
+    ws.onerror = () => {
+      // onclose 側で再接続する
+    };
+  }
+
+  private onDisconnect() {
+    this.connected = false;
+    for (const st of this.state.values()) {
+      // 切断中の差分・約定は取りこぼすため、板は再同期、テープは作り直す
+      st.book.invalidate();
+      st.tape = [];
+    }
+    if (!this.stopped && !this.reconnectTimer) {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (!this.stopped) this.connect();
+      }, this.reconnectMs);
+    }
+  }
+
+  /** Engine.IO / Socket.IO のフレーム処理 */
+  private onFrame(frame: string) {
+    if (frame.startsWith('0')) {
+      // Engine.IO open → Socket.IO namespace 接続
+      this.socket?.send('40');
+      return;
+    }
+    if (frame === '2') {
+      this.socket?.send('3');
+      return;
+    }
+    if (frame.startsWith('40')) {
+      this.connected = true;
+      for (const pair of this.state.keys()) {
+        for (const room of [`depth_diff_${pair}`, `depth_whole_${pair}`, `transactions_${pair}`, `ticker_${pair}`]) {
+          this.socket?.send(`42${JSON.stringify(['join-room', room])}`);
+        }
+        void this.resync(pair);
+      }
+      return;
+    }
+    if (frame.startsWith('42')) {
+      try {
+        const [event, payload] = JSON.parse(frame.slice(2)) as [string, { room_name?: string; message?: { data?: unknown } }];
+        if (event === 'message' && payload?.room_name) this.onRoomMessage(payload.room_name, payload.message?.data);
+      } catch {
+        // 壊れたフレームは無視
+      }
+    }
+  }
+
+  private onRoomMessage(room: string, data: unknown) {
+    const m = room.match(/^(depth_diff|depth_whole|transactions|ticker)_(.+)$/);
+    if (!m) return;
+    const [, channel, pair] = m;
+    const st = this.state.get(pair);
+    if (!st || data == null || typeof data !== 'object') return;
+    const d = data as Record<string, unknown>;
+
+    if (channel === 'depth_diff') {
+      const res = st.book.applyDiff({
+        asks: (d.a as Array<[unknown, unknown]>) ?? [],
+        bids: (d.b as Array<[unknown, unknown]>) ?? [],
+        sequenceId: Number(d.s),
+        timestamp: Number(d.t ?? Date.now()),
+      });
+      if (res === 'gap' || res === 'crossed') void this.resync(pair);
+    } else if (channel === 'depth_whole') {
+      const seq = d.sequenceId != null ? Number(d.sequenceId) : null;
+      if (!st.book.synced || seq == null || st.book.sequenceId == null || seq >= st.book.sequenceId) {
+        st.book.applySnapshot({
+          asks: (d.asks as Array<[unknown, unknown]>) ?? [],
+          bids: (d.bids as Array<[unknown, unknown]>) ?? [],
+          sequenceId: seq,
+          timestamp: Number(d.timestamp ?? Date.now()),
+        });
+      }
+    } else if (channel === 'transactions') {
+      const list = Array.isArray(d.transactions) ? (d.transactions as Array<Record<string, unknown>>) : [];
+      for (const t of list) {
+        const price = toNum(t.price);
+        const amount = toNum(t.amount);
+        const ms = toNum(t.executed_at);
+        const side = t.side === 'buy' || t.side === 'sell' ? t.side : null;
+        if (!Number.isFinite(price) || !Number.isFinite(amount) || !Number.isFinite(ms) || !side) continue;
+        st.tape.push({ id: t.transaction_id != null ? Number(t.transaction_id) : null, price, amount, side, timestampMs: ms, isoTime: new Date(ms).toISOString() });
+      }
+      if (st.tape.length > this.tapeSize) st.tape.splice(0, st.tape.length - this.tapeSize);
+    } else if (channel === 'ticker') {
+      st.ticker = d;
+    }
+  }
+
+  /** REST スナップショットから板を作り直す（同一ペアの同時再同期は 1 回にまとめる） */
+  resync(pair: string, attempt = 0): Promise<void> {
+    const st = this.state.get(pair);
+    if (!st) return Promise.resolve();
+    if (st.resyncing) return st.resyncing;
+    st.book.invalidate();
+    st.resyncs++;
+    st.resyncing = (async () => {
+      try {
+        const snap = await this.opts.fetchSnapshot(pair);
+        if (st.book.applySnapshot(snap) !== 'ok' && attempt < MAX_RESYNC_RETRIES && !this.stopped) {
+          // スナップショットが保留中の差分より古い等。少し待って取り直す
+          setTimeout(() => void this.resync(pair, attempt + 1), RESYNC_RETRY_MS);
+        }
+      } catch {
+        // 失敗時は未同期のまま。次のギャップ/depth_whole/再接続で再試行される
+      } finally {
+        st.resyncing = null;
+      }
+    })();
+    return st.resyncing;
+  }
+
+  /** 板が同期済みかつ新しいか */
+  isWarm(pair: string): boolean {
+    const st = this.state.get(pair);
+    return !!st && this.connected && st.book.synced && Date.now() - st.book.lastUpdate <= this.staleMs;
+  }
+
+  /** 温まっていれば板（get_depth の data と同じ並び）を返す。冷えていれば null */
+  depth(pair: string, maxLevels = 200): DepthSnapshot | null {
+    const st = this.state.get(pair);
+    if (!st || !this.isWarm(pair)) return null;
+    const { asks, bids } = st.book.levels(maxLevels);
+    return { asks, bids, sequenceId: st.book.sequenceId, timestamp: st.book.lastUpdate };
+  }
+
+  /** 接続後に途切れず受信した約定が limit 件以上あれば直近 limit 件（古い順）を返す */
+  trades(pair: string, limit: number): StreamTrade[] | null {
+    const st = this.state.get(pair);
+    if (!st || !this.connected || st.tape.length < limit) return null;
+    return [...st.tape].sort((a, b) => a.timestampMs - b.timestampMs).slice(-limit);
+  }
+
+  ticker(pair: string): Record<string, unknown> | null {
+    return this.state.get(pair)?.ticker ?? null;
+  }
+
+  stats(pair: string) {
+    const st = this.state.get(pair);
+    if (!st) return null;
+    return { connected: this.connected, synced: st.book.synced, sequenceId: st.book.sequenceId, tapeSize: st.tape.length, resyncs: st.resyncs, lastUpdate: st.book.lastUpdate };
+  }
+}
+
+// === プロセス共有インスタンス ===
+let active: BitbankStream | null = null;
+
+export function startStream(opts: StreamOptions): BitbankStream {
+  active?.stop();
+  active = new BitbankStream(opts).start();
+  return active;
+}
+
+export function getStream(): BitbankStream | null {
+  return active;
+}
+
+export function stopStream(): void {
+  active?.stop();
+  active = null;
+}
@@ -0,0 +1,157 @@
+/**
+ * 時間足ユーティリティ（bitbank ネイティブ足の倍数によるカスタム足のリサンプリング）
+ * 例: 2hour / 6hour / 3day / 2week / 3month
+ */
+
+export type TimeframeUnit = 'min' | 'hour' | 'day' | 'week' | 'month';
+export type SessionTz = 'Asia/Tokyo' | 'UTC';
+
+export interface Timeframe {
+	type: string;
+	n: number;
+	unit: TimeframeUnit;
+}
+
+export interface ResamplePlan {
+	/** 取得に使うネイティブ足 */
+	base: string;
+	/** 目標足 1 本あたりのネイティブ足本数（月足は目安） */
+	factor: number;
+}
+
+/** bitbank が提供する時間足 */
+export const NATIVE_TIMEFRAMES = ['1min', '5min', '15min', '30min', '1hour', '4hour', '8hour', '12hour', '1day', '1week', '1month'] as const;
+
+const MINUTE = 60_000;
+const UNIT_MS: Record<Exclude<TimeframeUnit, 'month'>, number> = {
+	min: MINUTE,
+	hour: 60 * MINUTE,
+	day: 24 * 60 * MINUTE,
+	week: 7 * 24 * 60 * MINUTE,
+};
+
+const TZ_OFFSET_MS: Record<SessionTz, number> = {
+	'Asia/Tokyo': 9 * 60 * MINUTE,
+	UTC: 0,
+};
+
+/** 上限（大きすぎる倍数はネイティブ足の取得本数が膨らむため拒否） */
+const MAX_MULTIPLE: Record<TimeframeUnit, number> = { min: 720, hour: 72, day: 30, week: 12, month: 12 };
+
+export function isNativeTimeframe(type: string): boolean {
+	return (NATIVE_TIMEFRAMES as readonly string[]).includes(type);
+}
+
+/** "3day" → { n: 3, unit: 'day' }。形式不正や上限超過は null */
+export function parseTimeframe(type: string): Timeframe | null {
+	const m = String(type).match(/^(\d+)(min|hour|day|week|month)$/);
+	if (!m) return null;
+	const n = Number(m[1]);
+	const unit = m[2] as TimeframeUnit;
+	if (!Number.isInteger(n) || n < 1 || n > MAX_MULTIPLE[unit]) return null;
+	return { type, n, unit };
+}
+
+function durationMs(tf: Timeframe): number | null {
+	return tf.unit === 'month' ? null : tf.n * UNIT_MS[tf.unit];
+}
+
+/**
+ * カスタム足の取得元ネイティブ足を決める
+ * - 目標足の長さを割り切れる最大のネイティブ足を使う
+ * - bitbank の 4hour 以上の足は JST 0:00 起点のため、UTC セッションでは 1hour 以下から組み立てる
+ */
+export function planResample(tf: Timeframe, tz: SessionTz): ResamplePlan | null {
+	if (tf.unit === 'month') {
+		return tz === 'UTC' ? null : { base: '1month', factor: tf.n };
+	}
+	const target = durationMs(tf)!;
+	const candidates: Array<[string, number]> = [
+		['1week', UNIT_MS.week],
+		['1day', UNIT_MS.day],
+		['12hour', 12 * UNIT_MS.hour],
+		['8hour', 8 * UNIT_MS.hour],
+		['4hour', 4 * UNIT_MS.hour],
+		['1hour', UNIT_MS.hour],
+		['30min', 30 * MINUTE],
+		['15min', 15 * MINUTE],
+		['5min', 5 * MINUTE],
+		['1min', MINUTE],
+	];
+	for (const [base, ms] of candidates) {
+		if (tz === 'UTC' && ms > UNIT_MS.hour) continue;
+		if (target % ms === 0) return { base, factor: target / ms };
+	}
+	return null;
+}
+
+/**
+ * タイムスタンプが属する目標足の開始時刻（UTC ms）
+ * - 分/時間足はセッション（現地 0:00）起点で区切る
+ * - 日足は現地日付の通し番号、週足は現地月曜起点、月足は現地の年月で区切る
+ */
+export function bucketStart(ms: number, tf: Timeframe, tz: SessionTz): number {
+	const off = TZ_OFFSET_MS[tz];
+	const local = ms + off;
+	if (tf.unit === 'month') {
+		const d = new Date(local);
+		const idx = d.getUTCFullYear() * 12 + d.getUTCMonth();
+		const start = idx - (idx % tf.n);
+		return Date.UTC(Math.floor(start / 12), start % 12, 1) - off;
+	}
+	const size = tf.n * UNIT_MS[tf.unit];
+	if (tf.unit === 'min' || tf.unit === 'hour') {
+		const dayStart = Math.floor(local / UNIT_MS.day) * UNIT_MS.day;
+		return dayStart + Math.floor((local - dayStart) / size) * size - off;
+	}
+	// 1970-01-01 は木曜。月曜起点にそろえるため 3 日ずらす
+	const shift = tf.unit === 'week' ? 3 * UNIT_MS.day : 0;
+	return Math.floor((local + shift) / size) * size - shift - off;
+}
+
+/**
+ * 目標足の次の足の開始時刻（UTC ms）
+ * 1 日を割り切れない分/時間足は現地 0:00 で区切られるため、日末の足は短くなる
+ */
+export function nextBucketStart(start: number, tf: Timeframe, tz: SessionTz): number {
+	const off = TZ_OFFSET_MS[tz];
+	if (tf.unit === 'month') {
+		const d = new Date(start + off);
+		return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + tf.n, 1) - off;
+	}
+	const next = start + tf.n * UNIT_MS[tf.unit];
+	if (tf.unit === 'min' || tf.unit === 'hour') {
+		const dayEnd = (Math.floor((start + off) / UNIT_MS.day) + 1) * UNIT_MS.day - off;
+		return Math.min(next, dayEnd);
+	}
+	return next;
+}
+
+export type OhlcvRow = [unknown, unknown, unknown, unknown, unknown, unknown];
+
+/**
+ * ネイティブ足の ohlcv 行（[o,h,l,c,v,ts]）を目標足に集約する
+ * 戻り値の ts は目標足の開始時刻。parts は各足を構成したネイティブ足の本数
+ */
+export function resampleOhlcv(rows: OhlcvRow[], tf: Timeframe, tz: SessionTz): { rows: OhlcvRow[]; parts: number[] } {
+	const sorted = [...rows].sort((a, b) => Number(a[5]) - Number(b[5]));
+	const out: Array<[number, number, number, number, number, number]> = [];
+	const parts: number[] = [];
+	for (const [o, h, l, c, v, ts] of sorted) {
+		const t = Number(ts);
+		if (!Number.isFinite(t)) continue;
+		const start = bucketStart(t, tf, tz);
+		const last = out.at(-1);
+		if (last && last[5] === start) {
+			last[1] = Math.max(last[1], Number(h));
+			last[2] = Math.min(last[2], Number(l));
+			last[3] = Number(c);
+			last[4] += Number(v);
+			parts[parts.length - 1]++;
+		} else {
+			out.push([Number(o), Number(h), Number(l), Number(c), Number(v), start]);
+			parts.push(1);
+		}
+	}
+	return { rows: out.map((r) => [r[0], r[1], r[2], r[3], Number(r[4].toFixed(8)), r[5]] as OhlcvRow), parts };
+}
@@ -1,7 +1,5 @@
 import type { Pair } from '../src/types/domain.d';
 
-export const ALLOWED_PAIRS: Set<Pair>;
-
 export function normalizePair(raw: unknown): Pair | null;
 
 export interface EnsurePairOk {
@@ -1,55 +1,5 @@
 import type { Pair } from '../src/types/domain.d.ts';
-
-// bitbank 公式ペアリスト（アクティブなもののみ）
-// 参考: https://github.com/bitbankinc/bitbank-api-docs/blob/master/pairs.md
-export const ALLOWED_PAIRS: Set<Pair> = new Set([
-	// 主要ペア
-	'btc_jpy',
-	'eth_jpy',
-	'xrp_jpy',
-	'ltc_jpy',
-	'bcc_jpy',
-	// アルトコイン
-	'mona_jpy',
-	'xlm_jpy',
-	'qtum_jpy',
-	'bat_jpy',
-	'omg_jpy',
-	'xym_jpy',
-	'link_jpy',
-	'boba_jpy',
-	'enj_jpy',
-	'dot_jpy',
-	'doge_jpy',
-	'astr_jpy',
-	'ada_jpy',
-	'avax_jpy',
-	'axs_jpy',
-	'flr_jpy',
-	'sand_jpy',
-	'gala_jpy',
-	'ape_jpy',
-	'chz_jpy',
-	'oas_jpy',
-	'mana_jpy',
-	'grt_jpy',
-	'bnb_jpy',
-	'dai_jpy',
-	'op_jpy',
-	'arb_jpy',
-	'klay_jpy',
-	'imx_jpy',
-	'mask_jpy',
-	'pol_jpy',      // 旧 matic_jpy
-	'sol_jpy',
-	'cyber_jpy',
-	'render_jpy',   // 旧 rndr_jpy
-	'trx_jpy',
-	'lpt_jpy',
-	'atom_jpy',
-	'sui_jpy',
-	'sky_jpy',      // 旧 mkr_jpy
-]);
+import { isKnownPair, listPairs, pairPrecision } from './pairs.js';
 
 export function normalizePair(raw: unknown): Pair | null {
 	if (!raw) return null;
@@ -66,12 +16,12 @@ export function ensurePair(pair: unknown):
 			error: { type: 'user', message: `pair '${String(pair)}' が不正です（例: btc_jpy）` },
 		};
 	}
-	if (!ALLOWED_PAIRS.has(norm)) {
+	if (!isKnownPair(norm)) {
 		return {
 			ok: false,
 			error: {
 				type: 'user',
-				message: `未対応のpair: '${norm}'（対応例: ${[...ALLOWED_PAIRS].join(', ')}）`,
+				message: `未対応のpair: '${norm}'（対応例: ${listPairs().join(', ')}）`,
 			},
 		};
 	}
@@ -145,9 +95,12 @@ export function validateDate(
 }
 
 export function createMeta(pair: Pair, additional: Record<string, unknown> = {}) {
+	// レジストリに刻み情報があれば付与（価格・数量の丸め桁）
+	const precision = pairPrecision(pair);
 	return {
 		pair,
 		fetchedAt: new Date().toISOString(),
+		...(precision ? { precision } : {}),
 		...additional,
 	};
 }
@@ -14,14 +14,31 @@ export const CandleTypeEnum = z.enum([
   '1month',
 ]);
 
+// ネイティブ足、またはその倍数（例: 2hour, 3day, 2week）。倍数はリサンプルして返す
+export const TimeframeSchema = CandleTypeEnum.or(
+  z.string().regex(/^\d+(min|hour|day|week|month)$/).describe('Custom multiple of a native interval (e.g. 2hour, 6hour, 3day, 2week); resampled from the largest native interval that divides it')
+);
+
+export const SessionTzEnum = z.enum(['Asia/Tokyo', 'UTC']);
+
+export const OscillatorPanelEnum = z.enum(['RSI', 'STOCH', 'STOCH_RSI', 'WILLR', 'CCI', 'ROC', 'ADX']);
+export const MomentumInputEnum = z.enum(['rsi', 'stoch', 'stoch_rsi', 'williams_r', 'cci', 'roc']);
+export const SignalProfileEnum = z.enum(['default', 'trend-follower', 'mean-reversion', 'order-flow']);
+
 export const RenderChartSvgInputSchema = z
   .object({
     pair: z.string().optional().default('btc_jpy'),
-    type: CandleTypeEnum.optional().default('1day'),
+    type: TimeframeSchema.optional().default('1day'),
     // impl default is 60; align contract to tool behavior
     limit: z.number().int().min(5).max(365).optional().default(60),
-    // main series style: candles (default) or line (close-only)
-    style: z.enum(['candles', 'line', 'depth']).optional().default('candles'),
+    // main series style: candles (default) or line (close-only)。heikin_ashi 以降は lib/candle_transform による変換足
+    style: z
+      .enum(['candles', 'line', 'depth', 'heikin_ashi', 'renko', 'point_figure', 'range_bars'])
+      .optional()
+      .default('candles')
+      .describe('renko / point_figure / range_bars have no time axis, so indicator overlays and subPanels are skipped'),
+    brickSize: z.number().positive().optional().describe('Renko brick / P&F box / range bar size in quote currency (default: ATR(14))'),
+    pnfReversal: z.number().int().min(1).max(5).optional().default(3).describe('Point & Figure reversal in boxes'),
     depth: z.object({ levels: z.number().int().min(10).max(500).optional().default(200) }).optional(),
     // デフォルトは描画しない（明示時のみ描画）
     withSMA: z.array(z.number().int()).optional().default([]),
@@ -30,6 +47,13 @@ export const RenderChartSvgInputSchema = z
     // backward-compat: accept legacy values and normalize in implementation
     bbMode: z.enum(['default', 'extended', 'light', 'full']).optional().default('default'),
     withIchimoku: z.boolean().optional().default(false),
+    // 価格チャートの下に積むオシレーターのサブパネル
+    subPanels: z.array(OscillatorPanelEnum).max(4).optional().describe('Oscillator sub-panels under the price chart: RSI / STOCH / STOCH_RSI / WILLR / CCI / ROC / ADX'),
+    // トレンド系オーバーレイ（価格チャート上に描画）
+    withPSAR: z.boolean().optional().default(false).describe('Overlay Parabolic SAR(0.02, 0.2) dots'),
+    withSupertrend: z.boolean().optional().default(false).describe('Overlay Supertrend(10, 3) line colored by direction'),
+    withKeltner: z.boolean().optional().default(false).describe('Overlay Keltner Channels (EMA20 ± 2×ATR10)'),
+    withDonchian: z.boolean().optional().default(false).describe('Overlay Donchian Channels (20)'),
     ichimoku: z
       .object({
         mode: z.enum(['default', 'extended']).optional().default('default'),
@@ -77,6 +101,12 @@ export const RenderChartSvgInputSchema = z
             z.object({ low: z.number(), high: z.number(), color: z.string().optional(), label: z.string().optional() })
           )
           .optional(),
+        // 水平線（get_price_levels の data.overlays.levels をそのまま渡せる）
+        levels: z
+          .array(
+            z.object({ price: z.number(), color: z.string().optional(), label: z.string().optional() })
+          )
+          .optional(),
       })
       .optional(),
   })
@@ -100,6 +130,17 @@ export const RenderChartSvgInputSchema = z
   });
 
 // Optional: output contract (not enforced by SDK at runtime, but useful for validation/tests)
+// lib/candle_transform の変換足
+export const CandleTransformEnum = z.enum(['heikin_ashi', 'renko', 'point_figure', 'range_bars']);
+export const CandleTransformMetaSchema = z.object({
+  transform: CandleTransformEnum,
+  size: z.number().nullable(),
+  sizeSource: z.enum(['fixed', 'atr']).nullable(),
+  reversal: z.number().int().optional(),
+  sourceCount: z.number().int(),
+  count: z.number().int(),
+});
+
 export const RenderChartSvgOutputSchema = z.object({
   ok: z.literal(true).or(z.literal(false)),
   summary: z.string(),
@@ -121,14 +162,33 @@ export const RenderChartSvgOutputSchema = z.object({
       layerCount: z.number().optional(),
       truncated: z.boolean().optional(),
       fallback: z.string().optional(),
+      transform: CandleTransformMetaSchema.optional(),
     })
     .optional(),
 });
 
 // === Shared output schemas (partial) ===
-export const NumericSeriesSchema = z
-  .array(z.union([z.number(), z.null()]))
-  .transform((arr) => arr.map((v) => (v == null ? null : Number(Number(v).toFixed(2)))));
+// 共有レスポンスキャッシュ（lib/cache.ts）の状態。tools/stat.ts が hit/miss を集計
+export const CacheMetaSchema = z.object({ hit: z.boolean(), key: z.string(), ageMs: z.number() });
+export const ResampledFromSchema = z.object({ type: CandleTypeEnum, count: z.number().int(), factor: z.number(), tz: SessionTzEnum });
+export const PairPrecisionSchema = z.object({ priceDigits: z.number().int().nullable(), amountDigits: z.number().int().nullable(), minAmount: z.number().nullable() });
+export const CandleRepairEnum = z.enum(['none', 'fill', 'drop']);
+export const CandleQualitySchema = z.object({
+  gaps: z.number().int(),
+  missingBars: z.number().int(),
+  duplicates: z.number().int(),
+  zeroVolume: z.number().int(),
+  partialLast: z.boolean(),
+  repair: CandleRepairEnum,
+  filled: z.number().int(),
+  dropped: z.number().int(),
+  degraded: z.boolean(),
+  issues: z.array(z.string()),
+  gapRanges: z.array(z.object({ from: z.string(), to: z.string(), missing: z.number().int() })).optional(),
+});
+
+// 丸めは各ツールが digits（precision）に従って行う。ここで丸めると 1 円未満の系列が平らになる
+export const NumericSeriesSchema = z.array(z.number().nullable());
 
 export const CandleSchema = z.object({
   open: z.number(),
@@ -174,7 +234,35 @@ export const SmaSeriesFixedSchema = z.object({
   SMA_200: NumericSeriesSchema,
 });
 
-export const ChartIndicatorsSchema = IchimokuSeriesSchema.merge(BollingerBandsSeriesSchema).merge(SmaSeriesFixedSchema).extend({
+export const OscillatorSeriesSchema = z.object({
+  RSI_14_series: NumericSeriesSchema.optional(),
+  STOCH_K: NumericSeriesSchema.optional(),
+  STOCH_D: NumericSeriesSchema.optional(),
+  STOCH_RSI_K: NumericSeriesSchema.optional(),
+  STOCH_RSI_D: NumericSeriesSchema.optional(),
+  WILLR_14: NumericSeriesSchema.optional(),
+  CCI_20: NumericSeriesSchema.optional(),
+  ROC_12: NumericSeriesSchema.optional(),
+  ADX_14: NumericSeriesSchema.optional(),
+  PLUS_DI_14: NumericSeriesSchema.optional(),
+  MINUS_DI_14: NumericSeriesSchema.optional(),
+});
+
+// direction: 1=上昇, -1=下降
+export const TrendOverlaySeriesSchema = z.object({
+  PSAR: NumericSeriesSchema.optional(),
+  PSAR_dir: NumericSeriesSchema.optional(),
+  SUPERTREND: NumericSeriesSchema.optional(),
+  SUPERTREND_dir: NumericSeriesSchema.optional(),
+  KC_upper: NumericSeriesSchema.optional(),
+  KC_middle: NumericSeriesSchema.optional(),
+  KC_lower: NumericSeriesSchema.optional(),
+  DC_upper: NumericSeriesSchema.optional(),
+  DC_middle: NumericSeriesSchema.optional(),
+  DC_lower: NumericSeriesSchema.optional(),
+});
+
+export const ChartIndicatorsSchema = IchimokuSeriesSchema.merge(BollingerBandsSeriesSchema).merge(SmaSeriesFixedSchema).merge(OscillatorSeriesSchema).merge(TrendOverlaySeriesSchema).extend({
   RSI_14: z.number().nullable().optional(),
 });
 
@@ -278,6 +366,67 @@ export const IndicatorsInternalSchema = z.object({
   macd_series: z
     .object({ line: NumericSeriesSchema, signal: NumericSeriesSchema, hist: NumericSeriesSchema })
     .optional(),
+  // Oscillators: Stochastic(14,3,3) / Stochastic RSI(14,14,3,3) / Williams %R(14) / CCI(20) / ROC(12)
+  STOCH_K: z.number().nullable().optional(),
+  STOCH_D: z.number().nullable().optional(),
+  STOCH_RSI_K: z.number().nullable().optional(),
+  STOCH_RSI_D: z.number().nullable().optional(),
+  WILLR_14: z.number().nullable().optional(),
+  CCI_20: z.number().nullable().optional(),
+  ROC_12: z.number().nullable().optional(),
+  stoch_series: z.object({ k: NumericSeriesSchema, d: NumericSeriesSchema }).optional(),
+  stoch_rsi_series: z.object({ k: NumericSeriesSchema, d: NumericSeriesSchema }).optional(),
+  willr_series: NumericSeriesSchema.optional(),
+  cci_series: NumericSeriesSchema.optional(),
+  roc_series: NumericSeriesSchema.optional(),
+  // Trend strength: ADX/DMI(14) / Aroon(25) / Parabolic SAR(0.02,0.2) / Supertrend(10,3)
+  ADX_14: z.number().nullable().optional(),
+  PLUS_DI_14: z.number().nullable().optional(),
+  MINUS_DI_14: z.number().nullable().optional(),
+  AROON_UP: z.number().nullable().optional(),
+  AROON_DOWN: z.number().nullable().optional(),
+  AROON_OSC: z.number().nullable().optional(),
+  PSAR: z.number().nullable().optional(),
+  PSAR_dir: z.number().nullable().optional(),
+  SUPERTREND: z.number().nullable().optional(),
+  SUPERTREND_dir: z.number().nullable().optional(),
+  adx_series: z.object({ adx: NumericSeriesSchema, plusDI: NumericSeriesSchema, minusDI: NumericSeriesSchema }).optional(),
+  aroon_series: z.object({ up: NumericSeriesSchema, down: NumericSeriesSchema, oscillator: NumericSeriesSchema }).optional(),
+  psar_series: z.object({ sar: NumericSeriesSchema, direction: NumericSeriesSchema }).optional(),
+  supertrend_series: z.object({ line: NumericSeriesSchema, direction: NumericSeriesSchema }).optional(),
+  // Channels: ATR(14) / Keltner(EMA20 ± 2×ATR10) / Donchian(20)
+  ATR_14: z.number().nullable().optional(),
+  KC_upper: z.number().nullable().optional(),
+  KC_middle: z.number().nullable().optional(),
+  KC_lower: z.number().nullable().optional(),
+  DC_upper: z.number().nullable().optional(),
+  DC_middle: z.number().nullable().optional(),
+  DC_lower: z.number().nullable().optional(),
+  atr_series: NumericSeriesSchema.optional(),
+  kc_series: z.object({ upper: NumericSeriesSchema, middle: NumericSeriesSchema, lower: NumericSeriesSchema }).optional(),
+  dc_series: z.object({ upper: NumericSeriesSchema, middle: NumericSeriesSchema, lower: NumericSeriesSchema }).optional(),
+  // Volume: OBV / A/D line / MFI(14) / CMF(20) / VWAP（セッション=日中足のみ、アンカー=vwapAnchor 指定時）
+  OBV: z.number().nullable().optional(),
+  AD_LINE: z.number().nullable().optional(),
+  MFI_14: z.number().nullable().optional(),
+  CMF_20: z.number().nullable().optional(),
+  VWAP_session: z.number().nullable().optional(),
+  VWAP_anchored: z.number().nullable().optional(),
+  obv_series: NumericSeriesSchema.optional(),
+  ad_series: NumericSeriesSchema.optional(),
+  mfi_series: NumericSeriesSchema.optional(),
+  cmf_series: NumericSeriesSchema.optional(),
+  vwap_session_series: NumericSeriesSchema.optional(),
+  vwap_anchored_series: NumericSeriesSchema.optional(),
+});
+
+export const CustomIndicatorResultSchema = z.object({
+  name: z.string(),
+  params: z.array(z.number()),
+  warmup: z.number().int(),
+  latest: z.record(z.number().nullable()),
+  // 桁数は precision に従う（オシレーター・比率は 1 未満の値が多いのでスキーマでは丸めない）
+  series: z.record(z.array(z.number().nullable())),
 });
 
 export const GetIndicatorsDataSchema = z.object({
@@ -292,6 +441,7 @@ export const GetIndicatorsDataSchema = z.object({
     meta: ChartMetaSchema,
     stats: ChartStatsSchema,
   }),
+  custom: z.record(CustomIndicatorResultSchema).optional(),
 });
 
 export const GetIndicatorsMetaSchema = z.object({
@@ -301,6 +451,13 @@ export const GetIndicatorsMetaSchema = z.object({
   count: z.number(),
   requiredCount: z.number(),
   warnings: z.array(z.string()).optional(),
+  cache: CacheMetaSchema.optional(),
+  resampledFrom: ResampledFromSchema.optional(),
+  quality: CandleQualitySchema.optional(),
+  precision: PairPrecisionSchema.optional(),
+  vwapAnchor: z.object({ source: z.enum(['date', 'swing_high', 'swing_low']), index: z.number().int(), isoTime: z.string().nullable() }).optional(),
+  // 指標の小数桁（price: 価格系 / oscillator: RSI などそれ以外。null = 丸めなし）
+  digits: z.object({ price: z.number().int().nullable(), oscillator: z.number().int().nullable() }).optional(),
 });
 
 // === Tool Output Schemas ===
@@ -319,7 +476,7 @@ export const TickerNormalizedSchema = z.object({
 });
 
 export const GetTickerDataSchemaOut = z.object({ raw: z.unknown(), normalized: TickerNormalizedSchema });
-export const GetTickerMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string() });
+export const GetTickerMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), cache: CacheMetaSchema.optional(), precision: PairPrecisionSchema.optional() });
 export const GetTickerOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetTickerDataSchemaOut, meta: GetTickerMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -340,7 +497,7 @@ export const OrderbookNormalizedSchema = z.object({
   isoTime: z.string().nullable(),
 });
 export const GetOrderbookDataSchemaOut = z.object({ raw: z.unknown(), normalized: OrderbookNormalizedSchema });
-export const GetOrderbookMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), topN: z.number(), count: z.number() });
+export const GetOrderbookMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), topN: z.number(), count: z.number(), cache: CacheMetaSchema.optional(), precision: PairPrecisionSchema.optional() });
 export const GetOrderbookOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetOrderbookDataSchemaOut, meta: GetOrderbookMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -375,7 +532,7 @@ export const GetCandlesDataSchemaOut = z.object({
   keyPoints: KeyPointsSchema.optional(),
   volumeStats: VolumeStatsSchema.nullable().optional(),
 });
-export const GetCandlesMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), type: CandleTypeEnum.or(z.string()), count: z.number() });
+export const GetCandlesMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), type: CandleTypeEnum.or(z.string()), count: z.number(), cache: CacheMetaSchema.optional(), resampledFrom: ResampledFromSchema.optional(), quality: CandleQualitySchema.optional(), precision: PairPrecisionSchema.optional() });
 export const GetCandlesOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetCandlesDataSchemaOut, meta: GetCandlesMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -406,7 +563,7 @@ export const GetDepthDataSchemaOut = z.object({
     })
     .optional(),
 });
-export const GetDepthMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string() });
+export const GetDepthMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), cache: CacheMetaSchema.optional(), precision: PairPrecisionSchema.optional() });
 export const GetDepthOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetDepthDataSchemaOut, meta: GetDepthMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -467,7 +624,7 @@ export const GetOrderbookPressureDataSchemaOut = z.object({
   bands: z.array(PressureBandSchema),
   aggregates: z.object({ netDelta: z.number(), strongestTag: z.enum(['notice', 'warning', 'strong']).nullable() }),
 });
-export const GetOrderbookPressureMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), delayMs: z.number().int() });
+export const GetOrderbookPressureMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), delayMs: z.number().int(), feed: z.enum(['rest', 'stream']).optional() });
 export const GetOrderbookPressureOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetOrderbookPressureDataSchemaOut, meta: GetOrderbookPressureMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -483,7 +640,7 @@ export const TransactionItemSchema = z.object({
 });
 
 export const GetTransactionsDataSchemaOut = z.object({ raw: z.unknown(), normalized: z.array(TransactionItemSchema) });
-export const GetTransactionsMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), count: z.number().int(), source: z.enum(['latest', 'by_date']) });
+export const GetTransactionsMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), count: z.number().int(), source: z.enum(['latest', 'by_date']), cache: CacheMetaSchema.optional(), precision: PairPrecisionSchema.optional() });
 export const GetTransactionsOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetTransactionsDataSchemaOut, meta: GetTransactionsMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -527,6 +684,7 @@ export const GetFlowMetricsMetaSchemaOut = z.object({
   timezone: z.string().optional(),
   timezoneOffset: z.string().optional(),
   serverTime: z.string().optional(),
+  feed: z.enum(['rest', 'stream']).optional(),
 });
 
 export const GetFlowMetricsOutputSchema = z.union([
@@ -581,25 +739,51 @@ export const TickerJpyItemSchema = z.object({
   change24hPct: z.number().nullable().optional(),
 });
 export const GetTickersJpyOutputSchema = z.union([
-  z.object({ ok: z.literal(true), summary: z.string(), data: z.array(TickerJpyItemSchema), meta: z.object({ cache: z.object({ hit: z.boolean(), key: z.string() }).optional(), ts: z.string() }).passthrough() }),
+  z.object({ ok: z.literal(true), summary: z.string(), data: z.array(TickerJpyItemSchema), meta: z.object({ cache: CacheMetaSchema.optional(), ts: z.string() }).passthrough() }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
 ]);
 
 // === Circuit Break Info ===
 export const GetCircuitBreakInfoInputSchema = z.object({
   pair: z.string().optional().default('btc_jpy'),
+  warnPct: z.number().min(0).max(50).optional().default(2).describe('トリガーまでの距離がこの % 以内なら警告'),
+});
+
+export const CircuitBreakTriggerDistanceSchema = z.object({
+  price: z.number(),
+  priceSource: z.enum(['last', 'estimated_itayose']),
+  upperPct: z.number().nullable(),
+  lowerPct: z.number().nullable(),
+  nearest: z.enum(['upper', 'lower']).nullable(),
+  nearestPct: z.number().nullable(),
+  warning: z.boolean(),
 });
 
 export const CircuitBreakInfoSchema = z.object({
   mode: z.enum(['normal', 'halted', 'auction', 'unknown']).nullable(),
+  // bitbank の生の mode（NONE / CIRCUIT_BREAK / FULL_RANGE_CIRCUIT_BREAK / RESUMPTION / LISTING）
+  raw_mode: z.string().nullable().optional(),
+  upper_trigger_price: z.number().nullable().optional(),
+  lower_trigger_price: z.number().nullable().optional(),
+  itayose_upper_price: z.number().nullable().optional(),
+  itayose_lower_price: z.number().nullable().optional(),
   estimated_itayose_price: z.number().nullable().optional(),
   estimated_itayose_amount: z.number().nullable().optional(),
   reopen_timestamp: z.number().int().nullable().optional(),
   reopen_isoTime: z.string().nullable().optional(),
+  fee_type: z.string().nullable().optional(),
+  distance: CircuitBreakTriggerDistanceSchema.nullable().optional(),
 });
 
-export const GetCircuitBreakInfoDataSchemaOut = z.object({ info: CircuitBreakInfoSchema });
-export const GetCircuitBreakInfoMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), source: z.enum(['official', 'none', 'placeholder']).optional(), updatedAt: z.string().optional() });
+export const GetCircuitBreakInfoDataSchemaOut = z.object({ info: CircuitBreakInfoSchema, raw: z.unknown().optional() });
+export const GetCircuitBreakInfoMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  source: z.enum(['official', 'none', 'placeholder']).optional(),
+  updatedAt: z.string().optional(),
+  precision: PairPrecisionSchema.optional(),
+  cache: CacheMetaSchema.optional(),
+});
 export const GetCircuitBreakInfoOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: GetCircuitBreakInfoDataSchemaOut, meta: GetCircuitBreakInfoMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
@@ -607,22 +791,73 @@ export const GetCircuitBreakInfoOutputSchema = z.union([
 
 export const GetCandlesInputSchema = z.object({
   pair: z.string(),
-  type: CandleTypeEnum,
+  type: TimeframeSchema,
   date: z
     .string()
     .optional()
     .describe("YYYYMMDD format (e.g., 20251022). Fetches the {limit} most recent candles up to and including this date. For '1month' type use YYYY format. If omitted, returns latest candles."),
   limit: z.number().int().min(1).max(1000).optional().default(200),
+  tz: SessionTzEnum.optional().default('Asia/Tokyo').describe('Session alignment for resampled (custom) timeframes'),
+  repair: CandleRepairEnum.optional().default('none').describe('none: report quality only / fill: dedupe + forward-fill missing bars / drop: dedupe + drop zero-volume and unclosed bars'),
   view: z.enum(['full', 'items']).optional().default('full'),
 });
 
+// === Backfill Candles (local candle store) ===
+export const BackfillCandlesInputSchema = z.object({
+  pairs: z.array(z.string()).min(1).max(50).optional().default(['btc_jpy']),
+  type: CandleTypeEnum.optional().default('1day'),
+  years: z.number().int().min(1).max(15).optional().default(10).describe('4hour 以上の時間足で遡る年数'),
+  days: z.number().int().min(1).max(366).optional().default(30).describe('1hour 以下の時間足で遡る日数'),
+});
+
+export const BackfillCandlesPairResultSchema = z.object({
+  pair: z.string(),
+  stored: z.number().int(),
+  fetched: z.number().int(),
+  skipped: z.number().int(),
+  empty: z.number().int(),
+  failed: z.number().int(),
+  bars: z.number().int(),
+  errors: z.array(z.string()),
+});
+
+export const BackfillCandlesOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: z.object({ type: z.string(), results: z.array(BackfillCandlesPairResultSchema) }), meta: z.object({ type: z.string(), pairs: z.array(z.string()), periods: z.number().int(), fetchedAt: z.string() }) }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
+export const IndicatorSpecSchema = z.object({
+  name: z.string().describe('SMA / EMA / RSI / BB / MACD / ICHIMOKU / STOCH / STOCHRSI / WILLR / CCI / ROC / ADX / AROON / PSAR / SUPERTREND / ATR / KC / DC / OBV / AD / MFI / CMF'),
+  params: z.array(z.number()).max(4).optional().describe('Omitted params use defaults (RSI 14, BB 20,2, MACD 12,26,9, ICHIMOKU 9,26,52, STOCH 14,3,3, STOCHRSI 14,14,3,3, WILLR 14, CCI 20, ROC 12, ADX 14, AROON 25, PSAR 0.02,0.2, SUPERTREND 10,3, ATR 14, KC 20,10,2, DC 20, MFI 14, CMF 20; OBV/AD take none)'),
+});
+
 export const GetIndicatorsInputSchema = z.object({
   pair: z.string().optional().default('btc_jpy'),
-  type: CandleTypeEnum.optional().default('1day'),
+  type: TimeframeSchema.optional().default('1day'),
   limit: z.number().int().min(1).max(1000).optional(),
+  onDegraded: z.enum(['warn', 'refuse']).optional().default('warn').describe('How to handle degraded candles (gaps/duplicates/zero-volume): add warnings or fail with errorType=data_quality'),
+  indicators: z
+    .array(z.union([z.string(), IndicatorSpecSchema]))
+    .max(20)
+    .optional()
+    .describe('Extra indicators with custom params, e.g. ["RSI(9)", "BB(20,2.5)", {"name":"MACD","params":[8,21,5]}]. Supported: SMA, EMA, RSI, BB, MACD, ICHIMOKU, STOCH, STOCHRSI, WILLR, CCI, ROC, ADX, AROON, PSAR, SUPERTREND, ATR, KC, DC, OBV, AD, MFI, CMF. Results in data.custom keyed like RSI_9 / BB_20_2.5'),
+  vwapAnchor: z
+    .string()
+    .optional()
+    .describe('Anchor for anchored VWAP: ISO date/time (e.g. "2025-01-15") or "swing_high" / "swing_low" for the latest detected pivot. Result in indicators.VWAP_anchored, anchor in meta.vwapAnchor'),
+  precision: z
+    .union([z.enum(['auto', 'raw']), z.number().int().min(0).max(12)])
+    .optional()
+    .default('auto')
+    .describe('Decimal places for price-scale indicators (SMA/EMA/BB/MACD/ATR/...): "auto" = pair tick size + 2 (min 2), "raw" = no rounding for any indicator, or a fixed number. Oscillators use 2 unless "raw". Applied digits in meta.digits'),
 });
 
 // === Pattern Detection ===
+// 相場局面（analyze_market_regime）。シグナル・パターン系ツールの解釈にも添える
+export const MarketRegimeEnum = z.enum(['trend_up', 'trend_down', 'range', 'high_vol', 'crash']);
+export const RegimeFitEnum = z.enum(['favorable', 'neutral', 'unfavorable']);
+export const RegimeContextSchema = z.object({ regime: MarketRegimeEnum, fit: RegimeFitEnum, note: z.string() });
+
 export const PatternTypeEnum = z.enum([
   'double_top',
   'double_bottom',
@@ -645,7 +880,7 @@ export const PatternTypeEnum = z.enum([
 
 export const DetectPatternsInputSchema = z.object({
   pair: z.string().optional().default('btc_jpy'),
-  type: CandleTypeEnum.optional().default('1day'),
+  type: TimeframeSchema.optional().default('1day'),
   limit: z.number().int().min(20).max(365).optional().default(90),
   patterns: z.array(PatternTypeEnum).optional().describe(
     [
@@ -669,6 +904,9 @@ export const DetectPatternsInputSchema = z.object({
   includeForming: z.boolean().optional().default(false).describe('形成中パターンを含める'),
   includeCompleted: z.boolean().optional().default(true).describe('完成済みパターンを含める'),
   includeInvalid: z.boolean().optional().default(false).describe('無効化済みパターンを含める'),
+  transform: CandleTransformEnum.optional().describe('Detect on transformed bars (heikin_ashi / renko / point_figure / range_bars). Ranges then refer to transformed bars; render with the same style'),
+  brickSize: z.number().positive().optional().describe('Renko brick / P&F box / range bar size (default: ATR(14))'),
+  pnfReversal: z.number().int().min(1).max(5).optional().default(3),
 });
 
 export const DetectedPatternSchema = z.object({
@@ -712,6 +950,8 @@ export const DetectedPatternSchema = z.object({
       daysToTarget: z.number().int().nullable().optional(),
     })
     .optional(),
+  // パターン終点（range.end）の足の相場局面との噛み合い（反転 / 継続パターンとしての解釈）
+  regimeContext: RegimeContextSchema.optional(),
 });
 
 export const DetectPatternsOutputSchema = z.union([
@@ -731,6 +971,7 @@ export const DetectPatternsOutputSchema = z.union([
         })
         .optional(),
       warnings: z.array(z.object({ type: z.string(), message: z.string(), suggestedParams: z.record(z.any()).optional() })).optional(),
+      regime: z.object({ regime: MarketRegimeEnum, since: z.string().nullable() }).nullable().optional(),
       statistics: z.record(z.object({
         detected: z.number().int(),
         withAftermath: z.number().int(),
@@ -745,8 +986,9 @@ export const DetectPatternsOutputSchema = z.union([
       type: CandleTypeEnum.or(z.string()),
       count: z.number().int(),
       visualization_hints: z
-        .object({ preferred_style: z.enum(['candles', 'line']).optional(), highlight_patterns: z.array(PatternTypeEnum).optional() })
+        .object({ preferred_style: z.enum(['candles', 'line']).or(CandleTransformEnum).optional(), highlight_patterns: z.array(PatternTypeEnum).optional() })
         .optional(),
+      transform: CandleTransformMetaSchema.optional(),
       debug: z
         .object({
           swings: z.array(z.object({ idx: z.number().int(), price: z.number(), kind: z.enum(['H', 'L']), isoTime: z.string().optional() })).optional(),
@@ -851,9 +1093,62 @@ export const MarketSummaryRanksSchema = z.object({
 // removed: GetMarketSummary* schemas
 
 // === Analyze Market Signal ===
+// 合成スコアと同じ区間の過去の成績（calibrate_market_signal の集計）
+export const HistoricalOutlookSchema = z.object({
+  bucket: z.string(),
+  range: z.tuple([z.number(), z.number()]),
+  horizons: z.array(
+    z.object({
+      horizon: z.number().int(),
+      samples: z.number().int(),
+      meanReturnPct: z.number().nullable(),
+      medianReturnPct: z.number().nullable(),
+      upRate: z.number().nullable(),
+      hitRate: z.number().nullable(),
+    })
+  ),
+});
+
+const SignalRecommendationEnum = z.enum(['bullish', 'bearish', 'neutral']);
+
+// 判定が変わる条件（フロー要素は固定し、最新足の終値を動かした場合）
+export const WhatWouldChangeSchema = z.object({
+  scoreGaps: z.array(z.object({ to: SignalRecommendationEnum, scoreDelta: z.number() })),
+  // 他の要素が不変のとき、判定を変えるのに必要な要素の値（-1〜+1 に収まるもののみ）
+  factors: z.array(
+    z.object({
+      factor: z.string(),
+      rawValue: z.number(),
+      weight: z.number(),
+      required: z.array(z.object({ to: SignalRecommendationEnum, rawValue: z.number() })),
+    })
+  ),
+  conditions: z.array(
+    z.object({
+      factor: z.string(),
+      indicator: z.string(),
+      current: z.number(),
+      level: z.number(),
+      direction: z.enum(['above', 'below']),
+      effect: z.string(),
+      to: SignalRecommendationEnum.optional(),
+      valueAfter: z.number().optional(),
+    })
+  ),
+  priceLevels: z.array(
+    z.object({
+      direction: z.enum(['up', 'down']),
+      price: z.number(),
+      changePct: z.number(),
+      from: SignalRecommendationEnum,
+      to: SignalRecommendationEnum,
+    })
+  ),
+});
+
 export const AnalyzeMarketSignalDataSchemaOut = z.object({
   score: z.number(),
-  recommendation: z.enum(['bullish', 'bearish', 'neutral']),
+  recommendation: SignalRecommendationEnum,
   tags: z.array(z.string()),
   confidence: z.enum(['high', 'medium', 'low']),
   confidenceReason: z.string(),
@@ -865,28 +1160,12 @@ export const AnalyzeMarketSignalDataSchemaOut = z.object({
   })),
   alerts: z.array(z.object({ level: z.enum(['info', 'warning', 'critical']), message: z.string() })).optional(),
   formula: z.string(),
-  weights: z.object({
-    buyPressure: z.number(),
-    cvdTrend: z.number(),
-    momentum: z.number(),
-    volatility: z.number(),
-    smaTrend: z.number(),
-  }),
-  contributions: z.object({
-    buyPressure: z.number(),
-    cvdTrend: z.number(),
-    momentum: z.number(),
-    volatility: z.number(),
-    smaTrend: z.number(),
-  }),
-  breakdown: z.object({
-    buyPressure: z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) }),
-    cvdTrend: z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) }),
-    momentum: z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) }),
-    volatility: z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) }),
-    smaTrend: z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) }),
-  }),
-  topContributors: z.array(z.enum(['buyPressure', 'cvdTrend', 'momentum', 'volatility', 'smaTrend'])).min(1),
+  // キーは適用した factor 名（profile / weights によって変わる）
+  weights: z.record(z.number()),
+  profile: z.object({ name: z.string(), custom: z.boolean(), normalized: z.boolean() }),
+  contributions: z.record(z.number()),
+  breakdown: z.record(z.object({ rawValue: z.number(), weight: z.number(), contribution: z.number(), interpretation: z.enum(['weak', 'moderate', 'strong', 'neutral']) })),
+  topContributors: z.array(z.string()).min(1),
   thresholds: z.object({ bullish: z.number(), bearish: z.number() }),
   metrics: z.object({
     buyPressure: z.number(),
@@ -895,6 +1174,15 @@ export const AnalyzeMarketSignalDataSchemaOut = z.object({
     volatilityFactor: z.number(),
     smaTrendFactor: z.number(),
     rsi: z.number().nullable(),
+    oscillators: z.object({
+      stochK: z.number().nullable(),
+      stochD: z.number().nullable(),
+      stochRsiK: z.number().nullable(),
+      williamsR: z.number().nullable(),
+      cci: z.number().nullable(),
+      roc: z.number().nullable(),
+    }).optional(),
+    momentumInputs: z.array(MomentumInputEnum).optional(),
     rv_std_ann: z.number(),
     aggressorRatio: z.number(),
     cvdSlope: z.number(),
@@ -929,13 +1217,30 @@ export const AnalyzeMarketSignalDataSchemaOut = z.object({
     volatility: z.object({ aggregates: z.unknown() }),
     indicators: z.object({ latest: z.unknown(), trend: TrendLabelEnum }),
   }),
+  regime: RegimeContextSchema.extend({ since: z.string().nullable() }).nullable().optional(),
+  whatWouldChange: WhatWouldChangeSchema.optional(),
+  // historical=true のときのみ（フロー要素はローソク足で近似した過去スコアで集計）
+  historical: HistoricalOutlookSchema.extend({ basis: z.literal('candle_proxy'), sampleBars: z.number().int() }).optional(),
 });
-export const AnalyzeMarketSignalMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), type: CandleTypeEnum.or(z.string()), windows: z.array(z.number()), bucketMs: z.number().int(), flowLimit: z.number().int() });
+export const AnalyzeMarketSignalMetaSchemaOut = z.object({ pair: z.string(), fetchedAt: z.string(), type: CandleTypeEnum.or(z.string()), windows: z.array(z.number()), bucketMs: z.number().int(), flowLimit: z.number().int(), momentumInputs: z.array(MomentumInputEnum).optional(), profile: z.string().optional(), warnings: z.array(z.string()).optional() });
 export const AnalyzeMarketSignalOutputSchema = z.union([
   z.object({ ok: z.literal(true), summary: z.string(), data: AnalyzeMarketSignalDataSchemaOut, meta: AnalyzeMarketSignalMetaSchemaOut }),
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
 ]);
-export const AnalyzeMarketSignalInputSchema = z.object({ pair: z.string().optional().default('btc_jpy'), type: CandleTypeEnum.optional().default('1day'), flowLimit: z.number().int().optional().default(300), bucketMs: z.number().int().optional().default(60_000), windows: z.array(z.number().int()).optional().default([14, 20, 30]) });
+export const AnalyzeMarketSignalInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day'),
+  flowLimit: z.number().int().optional().default(300),
+  bucketMs: z.number().int().optional().default(60_000),
+  windows: z.array(z.number().int()).optional().default([14, 20, 30]),
+  momentumInputs: z.array(MomentumInputEnum).min(1).optional().default(['rsi']).describe('Oscillators averaged into the momentum factor (each normalized to -1..+1)'),
+  profile: SignalProfileEnum.optional().default('default').describe('Weight preset: default (trend-weighted), trend-follower, mean-reversion, order-flow'),
+  weights: z
+    .record(z.number().min(0))
+    .optional()
+    .describe('Per-factor weight overrides on top of the profile (0 removes a factor; renormalized to sum 1). Factors: smaTrend, momentum, cvdTrend, volatility, buyPressure, trendStrength, macd, bbReversion, rsiReversion'),
+  historical: z.boolean().optional().default(false).describe('Attach forward-return stats of past bars with a similar score (candle-only backtest, cached)'),
+});
 
 // === Ichimoku numeric snapshot (no visual assumptions) ===
 export const AnalyzeIchimokuSnapshotInputSchema = z.object({
@@ -1034,6 +1339,16 @@ const AnalyzeBbSnapshotDataSchemaLegacy = z.object({
   tags: z.array(z.string()),
 });
 
+// BB が Keltner(20, 20, 1.5) の内側 = on、解放直後 = fired
+export const BbSqueezeSchema = z.object({
+  state: z.enum(['on', 'off', 'fired']).nullable(),
+  direction: z.enum(['up', 'down']).nullable(),
+  barsInSqueeze: z.number().int(),
+  firedBarsAgo: z.number().int().nullable(),
+  momentum: z.number().nullable(),
+  history: z.array(z.enum(['on', 'off']).nullable()),
+});
+
 const AnalyzeBbSnapshotDataSchemaStructured = z.object({
   mode: z.enum(['default', 'extended']),
   price: z.number().nullable(),
@@ -1058,6 +1373,7 @@ const AnalyzeBbSnapshotDataSchemaStructured = z.object({
   position_analysis: z.unknown().optional(),
   extreme_events: z.unknown().optional(),
   context: z.unknown().optional(),
+  squeeze: BbSqueezeSchema.nullable().optional(),
   signals: z.array(z.string()).optional(),
   next_steps: z.record(z.any()).optional(),
   tags: z.array(z.string()).optional(),
@@ -1128,6 +1444,164 @@ export const AnalyzeSmaSnapshotOutputSchema = z.union([
   z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
 ]);
 
+// === Trend strength ===
+export const AnalyzeTrendStrengthInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day'),
+  limit: z.number().int().min(40).max(365).optional().default(120),
+  adxTrend: z.number().min(10).max(60).optional().default(25).describe('ADX at or above this is treated as trending'),
+  adxRange: z.number().min(5).max(40).optional().default(20).describe('ADX below this is treated as ranging'),
+});
+
+const TrendDirectionEnum = z.enum(['up', 'down', 'neutral']);
+
+export const AnalyzeTrendStrengthDataSchemaOut = z.object({
+  regime: z.enum(['trending', 'ranging', 'transitional', 'unknown']),
+  direction: TrendDirectionEnum,
+  // -100〜+100（ADX の強さ × 方向の合意度）
+  score: z.number(),
+  price: z.number().nullable(),
+  adx: z.object({
+    value: z.number().nullable(),
+    plusDI: z.number().nullable(),
+    minusDI: z.number().nullable(),
+    slope: z.number().nullable(),
+    rising: z.boolean().nullable(),
+  }),
+  aroon: z.object({ up: z.number().nullable(), down: z.number().nullable(), oscillator: z.number().nullable() }),
+  psar: z.object({ value: z.number().nullable(), direction: TrendDirectionEnum, flippedBarsAgo: z.number().int().nullable() }),
+  supertrend: z.object({ value: z.number().nullable(), direction: TrendDirectionEnum, flippedBarsAgo: z.number().int().nullable(), distancePct: z.number().nullable() }),
+  votes: z.object({ dmi: z.number(), aroon: z.number(), psar: z.number(), supertrend: z.number(), net: z.number() }),
+  rationale: z.array(z.string()),
+});
+
+export const AnalyzeTrendStrengthMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  type: CandleTypeEnum.or(z.string()),
+  count: z.number().int(),
+  thresholds: z.object({ adxTrend: z.number(), adxRange: z.number() }),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const AnalyzeTrendStrengthOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: AnalyzeTrendStrengthDataSchemaOut, meta: AnalyzeTrendStrengthMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
+// === Price levels (pivots / Fibonacci) ===
+export const PriceLevelTimeframeEnum = z.enum(['daily', 'weekly']);
+
+export const GetPriceLevelsInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day').describe('Candle type used to find the Fibonacci swing anchors'),
+  limit: z.number().int().min(40).max(365).optional().default(120).describe('Candles searched for swing anchors'),
+  swingDepth: z.number().int().min(2).max(20).optional().default(5).describe('Bars on each side a swing high/low must dominate'),
+  pivotTimeframes: z.array(PriceLevelTimeframeEnum).min(1).optional().default(['daily', 'weekly']).describe('Pivot basis: previous completed JST day and/or week'),
+  confluencePct: z.number().min(0.05).max(3).optional().default(0.5).describe('Levels within this % of price of each other merge into a confluence zone'),
+});
+
+const PriceLevelSchema = z.object({
+  price: z.number(),
+  label: z.string(),
+  source: z.enum(['pivot', 'fibonacci']),
+  method: z.enum(['classical', 'camarilla', 'woodie', 'retracement', 'extension']),
+  timeframe: PriceLevelTimeframeEnum.nullable(),
+  distance: z.number(),
+  distancePct: z.number(),
+  side: z.enum(['above', 'below', 'at']),
+});
+
+const PivotSetSchema = z.object({
+  basis: z.object({ periodStart: z.string(), high: z.number(), low: z.number(), close: z.number() }),
+  classical: z.record(z.string(), z.number()),
+  camarilla: z.record(z.string(), z.number()),
+  woodie: z.record(z.string(), z.number()),
+});
+
+const SwingAnchorSchema = z.object({ price: z.number(), isoTime: z.string().nullable(), index: z.number().int() });
+
+export const GetPriceLevelsDataSchemaOut = z.object({
+  currentPrice: z.number(),
+  pivots: z.object({ daily: PivotSetSchema.optional(), weekly: PivotSetSchema.optional() }),
+  fibonacci: z.object({
+    // up: 安値→高値の上昇波（押し目を測る）/ down: 高値→安値の下降波（戻りを測る）
+    direction: z.enum(['up', 'down']),
+    high: SwingAnchorSchema,
+    low: SwingAnchorSchema,
+    retracements: z.array(z.object({ ratio: z.number(), price: z.number() })),
+    extensions: z.array(z.object({ ratio: z.number(), price: z.number() })),
+  }).nullable(),
+  levels: z.array(PriceLevelSchema),
+  nearest: z.object({ above: PriceLevelSchema.nullable(), below: PriceLevelSchema.nullable() }),
+  confluence: z.array(z.object({
+    low: z.number(),
+    high: z.number(),
+    center: z.number(),
+    count: z.number().int(),
+    labels: z.array(z.string()),
+    distancePct: z.number(),
+    side: z.enum(['above', 'below', 'at']),
+  })),
+  overlays: z.object({
+    levels: z.array(z.object({ price: z.number(), color: z.string().optional(), label: z.string().optional() })),
+    depth_zones: z.array(z.object({ low: z.number(), high: z.number(), color: z.string().optional(), label: z.string().optional() })),
+  }),
+});
+
+export const GetPriceLevelsMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  type: CandleTypeEnum.or(z.string()),
+  count: z.number().int(),
+  swingDepth: z.number().int(),
+  confluencePct: z.number(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const GetPriceLevelsOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: GetPriceLevelsDataSchemaOut, meta: GetPriceLevelsMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
+// === Expression DSL ===
+export const EvaluateExpressionInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day'),
+  expression: z.string().min(1).max(500).describe('e.g. "close / SMA(close, 200) - 1", "EMA(20) crosses above EMA(50)", "RSI(14) < 30 and close < BB(20, 2).lower"'),
+  limit: z.number().int().min(1).max(500).optional().default(60).describe('Bars returned (warmup bars are fetched in addition)'),
+});
+
+export const EvaluateExpressionDataSchemaOut = z.object({
+  expression: z.string(),
+  resultType: z.enum(['number', 'boolean']),
+  latest: z.union([z.number(), z.boolean()]).nullable(),
+  series: z.array(z.object({ time: z.string().nullable(), value: z.number().nullable() })),
+  condition: z.object({
+    history: z.array(z.object({ time: z.string().nullable(), value: z.boolean().nullable() })),
+    latest: z.boolean().nullable(),
+    trueCount: z.number().int(),
+    evaluatedCount: z.number().int(),
+    lastTrueAt: z.string().nullable(),
+    // false → true に変わった足の時刻（直近 20 件）
+    triggers: z.array(z.string()),
+  }).nullable(),
+});
+
+export const EvaluateExpressionMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  type: CandleTypeEnum.or(z.string()),
+  count: z.number().int(),
+  warmup: z.number().int(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const EvaluateExpressionOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: EvaluateExpressionDataSchemaOut, meta: EvaluateExpressionMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
 // === Support Resistance Analysis ===
 export const AnalyzeSupportResistanceInputSchema = z.object({
   pair: z.string().optional().default('btc_jpy'),
@@ -1239,6 +1713,8 @@ const DetectedCandlePatternSchema = z.object({
   uses_partial_candle: z.boolean(),
   status: z.enum(['confirmed', 'forming']),
   local_context: LocalContextSchema,
+  // パターン確定足の相場局面と、反転パターンとしての噛み合い
+  regimeContext: RegimeContextSchema.optional(),
   history_stats: HistoryStatsSchema.nullable(),
 });
 
@@ -1349,3 +1825,178 @@ export const RenderCandlePatternDiagramOutputSchema = z.union([
     meta: z.object({ errorType: z.string() }).passthrough(),
   }),
 ]);
+
+// === Multi-timeframe confluence ===
+export const AnalyzeMtfConfluenceInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  timeframes: z
+    .array(z.string())
+    .min(2)
+    .max(4)
+    .optional()
+    .default(['1hour', '4hour', '1day', '1week'])
+    .describe('2-4 timeframes (native or multiples like 2hour / 3day). Longer timeframes get larger weights'),
+});
+
+const MtfBiasEnum = z.enum(['bullish', 'bearish', 'neutral']);
+const MtfComponentEnum = z.enum(['signal', 'sma', 'ichimoku', 'macd']);
+
+export const AnalyzeMtfConfluenceDataSchemaOut = z.object({
+  timeframes: z.array(z.string()),
+  components: z.array(MtfComponentEnum),
+  matrix: z.array(
+    z.object({
+      timeframe: z.string(),
+      weight: z.number(),
+      states: z.object({ signal: MtfBiasEnum, sma: MtfBiasEnum, ichimoku: MtfBiasEnum, macd: MtfBiasEnum }),
+      value: z.number(),
+      bias: MtfBiasEnum,
+      detail: z.object({
+        close: z.number().nullable(),
+        signalScore: z.number(),
+        smaArrangement: z.enum(['bullish', 'bearish', 'mixed']),
+        ichimoku: z.object({
+          position: z.enum(['above_cloud', 'below_cloud', 'in_cloud']).nullable(),
+          tenkanVsKijun: z.enum(['above', 'below', 'equal']).nullable(),
+        }),
+        macd: z.object({ hist: z.number().nullable(), crossBarsAgo: z.number().int().nullable() }),
+      }),
+    })
+  ),
+  confluence: z.object({
+    score: z.number(),
+    bias: MtfBiasEnum,
+    agreement: z.number(),
+    aligned: z.boolean(),
+    disagreeing: z.array(z.object({ timeframe: z.string(), bias: MtfBiasEnum, conflicts: z.array(MtfComponentEnum) })),
+  }),
+});
+
+export const AnalyzeMtfConfluenceMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  timeframes: z.array(z.string()),
+  candleCount: z.number().int(),
+  warnings: z.array(z.string()).optional(),
+});
+
+export const AnalyzeMtfConfluenceOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: AnalyzeMtfConfluenceDataSchemaOut, meta: AnalyzeMtfConfluenceMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
+// === Calibrate Market Signal（合成スコアの過去検証） ===
+export const CalibrateMarketSignalInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day'),
+  limit: z.number().int().min(100).max(2000).optional().default(720).describe('Number of recent bars to evaluate (SMA200 warmup is fetched on top)'),
+  horizons: z.array(z.number().int().min(1).max(100)).min(1).max(6).optional().default([1, 5, 10, 20]).describe('Forward horizons in bars'),
+  profile: SignalProfileEnum.optional().default('default'),
+  weights: z.record(z.number().min(0)).optional().describe('Per-factor weight overrides (same as analyze_market_signal)'),
+  momentumInputs: z.array(MomentumInputEnum).min(1).optional().default(['rsi']).describe('Oscillators averaged into the momentum factor (same as analyze_market_signal)'),
+});
+
+const CalibrationBucketSchema = z.object({
+  range: z.tuple([z.number(), z.number()]),
+  label: z.string(),
+  samples: z.number().int(),
+  meanScore: z.number().nullable(),
+  meanReturnPct: z.number().nullable(),
+  medianReturnPct: z.number().nullable(),
+  upRate: z.number().nullable(),
+  hitRate: z.number().nullable(),
+  predictedUp: z.number().nullable(),
+});
+
+export const CalibrateMarketSignalDataSchemaOut = z.object({
+  profile: z.object({ name: z.string(), custom: z.boolean(), normalized: z.boolean() }),
+  formula: z.string(),
+  proxies: z.object({ cvdTrend: z.string(), buyPressure: z.string() }),
+  samples: z.number().int(),
+  range: z.object({ from: z.string().nullable(), to: z.string().nullable() }),
+  bucketEdges: z.array(z.number()),
+  horizons: z.array(
+    z.object({
+      horizon: z.number().int(),
+      samples: z.number().int(),
+      baselineUpRate: z.number().nullable(),
+      meanReturnPct: z.number().nullable(),
+      ic: z.number().nullable(),
+      brier: z.number().nullable(),
+      buckets: z.array(CalibrationBucketSchema),
+    })
+  ),
+  current: HistoricalOutlookSchema.extend({ proxyScore: z.number() }).nullable(),
+});
+
+export const CalibrateMarketSignalMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  type: CandleTypeEnum.or(z.string()),
+  limit: z.number().int(),
+  horizons: z.array(z.number().int()),
+  profile: z.string(),
+  momentumInputs: z.array(MomentumInputEnum).optional(),
+});
+
+export const CalibrateMarketSignalOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: CalibrateMarketSignalDataSchemaOut, meta: CalibrateMarketSignalMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
+
+// === Analyze Market Regime ===
+export const AnalyzeMarketRegimeInputSchema = z.object({
+  pair: z.string().optional().default('btc_jpy'),
+  type: CandleTypeEnum.optional().default('1day'),
+  limit: z.number().int().min(30).max(2000).optional().default(365).describe('Bars to report (ADX / volatility warmup is fetched on top)'),
+  adxTrend: z.number().min(5).max(80).optional().default(25),
+  adxRange: z.number().min(5).max(80).optional().default(20),
+  crashDrawdown: z.number().min(0.05).max(0.9).optional().default(0.2).describe('Drawdown from the recent high (fraction) that, with high volatility, labels a crash'),
+  confirmBars: z.number().int().min(1).max(20).optional().default(3).describe('Consecutive bars required before switching regime (crash switches immediately)'),
+  includeBars: z.boolean().optional().default(false).describe('Include per-bar labels'),
+});
+
+const RegimeTrendEnum = z.enum(['uptrend', 'downtrend', 'range']);
+const RegimeVolatilityEnum = z.enum(['low', 'normal', 'high']);
+
+export const AnalyzeMarketRegimeDataSchemaOut = z.object({
+  current: z.object({
+    regime: MarketRegimeEnum,
+    trend: RegimeTrendEnum.nullable(),
+    volatility: RegimeVolatilityEnum.nullable(),
+    since: z.string().nullable(),
+    barsInRegime: z.number().int(),
+    adx: z.number().nullable(),
+    rvPercentile: z.number().nullable(),
+    drawdown: z.number().nullable(),
+  }),
+  transitions: z.array(z.object({ time: z.string().nullable(), from: MarketRegimeEnum.nullable(), to: MarketRegimeEnum })),
+  segments: z.array(z.object({ regime: MarketRegimeEnum, from: z.string().nullable(), to: z.string().nullable(), bars: z.number().int() })),
+  distribution: z.record(z.number()),
+  bars: z
+    .array(
+      z.object({
+        time: z.string().nullable(),
+        regime: MarketRegimeEnum.nullable(),
+        raw: MarketRegimeEnum.nullable(),
+        trend: RegimeTrendEnum.nullable(),
+        volatility: RegimeVolatilityEnum.nullable(),
+        adx: z.number().nullable(),
+        rvPercentile: z.number().nullable(),
+        drawdown: z.number().nullable(),
+      })
+    )
+    .optional(),
+});
+
+export const AnalyzeMarketRegimeMetaSchemaOut = z.object({
+  pair: z.string(),
+  fetchedAt: z.string(),
+  type: CandleTypeEnum.or(z.string()),
+  count: z.number().int(),
+});
+
+export const AnalyzeMarketRegimeOutputSchema = z.union([
+  z.object({ ok: z.literal(true), summary: z.string(), data: AnalyzeMarketRegimeDataSchemaOut, meta: AnalyzeMarketRegimeMetaSchemaOut }),
+  z.object({ ok: z.literal(false), summary: z.string(), data: z.object({}).passthrough(), meta: z.object({ errorType: z.string() }).passthrough() }),
+]);
@@ -7,12 +7,16 @@ import { randomUUID } from 'node:crypto';
 import getTicker from '../tools/get_ticker.js';
 import getOrderbook from '../tools/get_orderbook.js';
 import getCandles from '../tools/get_candles.js';
+import backfillCandles from '../tools/backfill_candles.js';
 import analyzeIndicators from '../tools/analyze_indicators.js';
 import renderChartSvg from '../tools/render_chart_svg.js';
 import renderDepthSvg from '../tools/render_depth_svg.js';
 import detectPatterns from '../tools/detect_patterns.js';
 import getDepth from '../tools/get_depth.js';
 import { logToolRun, logError } from '../lib/logger.js';
+import { startStream } from '../lib/stream.js';
+import { ensurePair } from '../lib/validate.js';
+import { formatPriceUnit } from '../lib/formatter.js';
 // schemas.ts を単一のソースとして参照し、型は z.infer に委譲
 import { RenderChartSvgInputSchema, RenderChartSvgOutputSchema, GetTickerInputSchema, GetOrderbookInputSchema, GetCandlesInputSchema, GetIndicatorsInputSchema } from './schemas.js';
 import { GetDepthInputSchema } from './schemas.js';
@@ -28,10 +32,16 @@ import getOrderbookPressure from '../tools/get_orderbook_pressure.js';
 import getOrderbookStatistics from '../tools/orderbook_statistics.js';
 import getVolatilityMetrics from '../tools/get_volatility_metrics.js';
 // removed get_market_summary tool
-import analyzeMarketSignal from '../tools/analyze_market_signal.js';
+import analyzeMarketSignal, { formatWhatWouldChangeLines } from '../tools/analyze_market_signal.js';
 import analyzeIchimokuSnapshot from '../tools/analyze_ichimoku_snapshot.js';
 import analyzeBbSnapshot from '../tools/analyze_bb_snapshot.js';
 import analyzeSmaSnapshot from '../tools/analyze_sma_snapshot.js';
+import analyzeTrendStrength from '../tools/analyze_trend_strength.js';
+import getPriceLevels from '../tools/get_price_levels.js';
+import evaluateExpression from '../tools/evaluate_expression.js';
+import analyzeMtfConfluence from '../tools/analyze_mtf_confluence.js';
+import calibrateMarketSignal, { formatOutlookLines } from '../tools/calibrate_market_signal.js';
+import analyzeMarketRegime, { REGIME_LABELS_JA } from '../tools/analyze_market_regime.js';
 import analyzeSupportResistance from '../tools/analyze_support_resistance.js';
 import analyzeCandlePatterns from '../tools/analyze_candle_patterns.js';
 import renderCandlePatternDiagram from '../tools/render_candle_pattern_diagram.js';
@@ -41,6 +51,7 @@ import detectWhaleEvents from '../tools/detect_whale_events.js';
 import analyzeMacdPattern from './handlers/analyzeMacdPattern.js';
 import { DetectPatternsInputSchema, DetectPatternsOutputSchema } from './schemas.js';
 import getCircuitBreakInfo from '../tools/get_circuit_break_info.js';
+import { refreshPairRegistry } from '../lib/pairs.js';
 import { AnalyzeMarketSignalInputSchema, AnalyzeMarketSignalOutputSchema } from './schemas.js';
 // typed prompt schema imports not used; prompts are registered via prompts.ts
 import { prompts as promptDefs } from './prompts.js';
@@ -137,6 +148,7 @@ function registerToolWithLog<S extends z.ZodTypeAny, R = unknown>(
 				return out;
 			}
 			case 'ZodBoolean': return { type: 'boolean' };
+			case 'ZodUnion': return { anyOf: (s?._def?.options || []).map((o: any) => toJsonSchema(o)) };
 			case 'ZodEnum': return { type: 'string', enum: [...(s?._def?.values || [])] };
 			case 'ZodArray': return { type: 'array', items: toJsonSchema(s?._def?.type) };
 			case 'ZodTuple': {
@@ -253,9 +265,9 @@ registerToolWithLog(
 
 registerToolWithLog(
 	'get_candles',
-	{ description: 'ローソク足を取得（/candlestick）。OHLCVデータ。date: 1min〜1hour→YYYYMMDD, 4hour以上→YYYY。limit で本数指定。', inputSchema: GetCandlesInputSchema },
-	async ({ pair, type, date, limit, view }) => {
-		const result: any = await getCandles(pair, type, date, limit);
+	{ description: 'ローソク足を取得（/candlestick）。OHLCVデータ。date: 1min〜1hour→YYYYMMDD, 4hour以上→YYYY。limit で本数指定。type にネイティブ足の倍数（2hour/6hour/3day/2week 等）を指定するとリサンプルして返す（tz で JST/UTC の区切りを選択、meta.resampledFrom に取得元の足）。meta.quality に欠損/重複/出来高ゼロ/未確定足を報告、repair=fill|drop で補修。', inputSchema: GetCandlesInputSchema },
+	async ({ pair, type, date, limit, tz, repair, view }) => {
+		const result: any = await getCandles(pair, type, date, limit, { tz, repair });
 		if (view === 'items') {
 			const items = result?.data?.normalized ?? [];
 			return {
@@ -277,11 +289,17 @@ registerToolWithLog(
 	}
 );
 
+registerToolWithLog(
+	'backfill_candles',
+	{ description: 'ローソク足の履歴をローカルストア（cache/candles）に取り込む。確定済みの期間は保存され、以降の get_candles はストアから即時に返す。4hour以上は years 年分、1hour以下は days 日分を遡る。保存済みはスキップ。', inputSchema: (await import('./schemas.js')).BackfillCandlesInputSchema as any },
+	async ({ pairs, type, years, days }: any) => backfillCandles(pairs, type, { years, days })
+);
+
 registerToolWithLog(
 	'analyze_indicators',
-	{ description: 'テクニカル指標を用いて値動きを分析（ローソク足 /candlestick を入力）。SMA/RSI/BB/一目/MACD。分析には十分な limit を指定（例: 日足200本）。', inputSchema: GetIndicatorsInputSchema },
-	async ({ pair, type, limit }) => {
-		const res: any = await analyzeIndicators(pair, type, limit);
+	{ description: 'テクニカル指標を用いて値動きを分析（ローソク足 /candlestick を入力）。SMA/RSI/BB/一目/MACD に加え、出来高系（OBV/A/D/MFI/CMF/VWAP）も算出。分析には十分な limit を指定（例: 日足200本）。アンカー VWAP は vwapAnchor（日付 or swing_high/swing_low）で起点を指定。任意期間は indicators で指定（例: ["RSI(9)", "BB(20,2.5)"]、結果は data.custom、ウォームアップ分は自動で追加取得）。価格系指標の桁数は precision（既定 auto = ペアの刻み + 2 桁、raw = 丸めなし）。', inputSchema: GetIndicatorsInputSchema },
+	async ({ pair, type, limit, onDegraded, indicators, vwapAnchor, precision }) => {
+		const res: any = await analyzeIndicators(pair, type, limit, { onDegraded, specs: indicators, vwapAnchor, precision });
 		if (!res?.ok) return res;
 		const ind: any = res?.data?.indicators ?? {};
 		const candles: any[] = Array.isArray(res?.data?.normalized) ? res.data.normalized : [];
@@ -592,6 +610,31 @@ registerToolWithLog(
 		if (threeSignals) lines.push(`  三役判定: ${threeSignals.judge}`);
 		if (toCloudDistance != null && cloudPos === 'below_cloud') lines.push(`  雲突入まで: ${toCloudDistance.toFixed(1)}%`);
 		lines.push('');
+		// Volume
+		const obvSeries: any[] = Array.isArray(ind.obv_series) ? ind.obv_series : [];
+		const obvTrend = (() => {
+			const a = Number(obvSeries.at(-6)), b = Number(obvSeries.at(-1));
+			if (!Number.isFinite(a) || !Number.isFinite(b)) return null;
+			return b > a ? '増加（買い集め）' : (b < a ? '減少（売り抜け）' : '横ばい');
+		})();
+		const mfiVal = ind.MFI_14 ?? null;
+		const cmfVal = ind.CMF_20 ?? null;
+		lines.push('【出来高フロー】');
+		lines.push(`  OBV: ${obvTrend ? `5本前比 ${obvTrend}` : 'n/a'}`);
+		lines.push(`  MFI(14): ${mfiVal ?? 'n/a'}${mfiVal == null ? '' : (mfiVal >= 80 ? ' → 買われすぎ' : (mfiVal <= 20 ? ' → 売られすぎ' : ''))}`);
+		lines.push(`  CMF(20): ${cmfVal ?? 'n/a'}${cmfVal == null ? '' : (cmfVal > 0.05 ? ' → 資金流入' : (cmfVal < -0.05 ? ' → 資金流出' : ' → 中立'))}`);
+		if (ind.VWAP_session != null) lines.push(`  VWAP(当日): ${fmtJPY(ind.VWAP_session)} (${vsCurPct(ind.VWAP_session)})`);
+		if (ind.VWAP_anchored != null) lines.push(`  アンカーVWAP（${res?.meta?.vwapAnchor?.isoTime ?? '起点'}〜）: ${fmtJPY(ind.VWAP_anchored)} (${vsCurPct(ind.VWAP_anchored)})`);
+		lines.push('');
+		const custom: Record<string, any> = res?.data?.custom ?? {};
+		if (Object.keys(custom).length > 0) {
+			lines.push('【指定インジケータ】');
+			for (const r of Object.values(custom)) {
+				const vals = Object.entries(r.latest ?? {}).map(([k, v]) => (k === 'value' ? `${v ?? 'n/a'}` : `${k}=${v ?? 'n/a'}`));
+				lines.push(`  ${r.name}(${(r.params ?? []).join(',')}): ${vals.join(' / ')}`);
+			}
+			lines.push('');
+		}
 		lines.push('【次に確認すべきこと】');
 		lines.push('  ・より詳しく: analyze_bb_snapshot / analyze_ichimoku_snapshot / analyze_sma_snapshot');
 		lines.push('  ・転換サイン例: RSI>40, MACDヒストグラムのプラ転, 25日線の明確な上抜け');
@@ -1093,13 +1136,13 @@ registerToolWithLog(
 
 registerToolWithLog(
 	'get_circuit_break_info',
-	{ description: 'Circuit break / auction info is currently unsupported (no public source). Do not call. Returns ok=false with reason=unsupported.', inputSchema: GetCircuitBreakInfoInputSchema },
-	async ({ pair }: any) => getCircuitBreakInfo(pair)
+	{ description: 'サーキットブレイク情報（bitbank 公式）。mode（normal/auction/halted）、上限/下限トリガー価格、板寄せ中の推定約定価格・数量と再開予定時刻、手数料区分を返します。data.info.distance に現在値からトリガーまでの距離（%）を付与し、warnPct 以内なら警告します。\n\n【使いどころ】急変時や成行・大口の発注前に「このまま約定するとサーキットブレイクに入るか」を確認。', inputSchema: GetCircuitBreakInfoInputSchema },
+	async ({ pair, warnPct }: any) => getCircuitBreakInfo(pair, { warnPct })
 );
 
 registerToolWithLog(
 	'render_chart_svg',
-	{ description: 'ローソク足/ライン/板チャートをSVG形式で生成します。\n\n【重要な使用タイミング（厳守）】\n- ユーザーが「描画/可視化/チャートで見たい」等と明示したときのみ使用\n- detect_patterns 等の結果を「図で確認したい」とユーザーが要望したとき\n- 画像（SVG）のアーティファクト表示が明確に求められたとき\n\n【使用してはいけない場合】\n- 数値だけで足りる問い合わせ（分析/要約のみ）\n- ユーザーが視覚化を求めていないとき（自発的に使わない）\n- 「念のため」の再描画\n\nLLM への指示: ユーザーの明示要求がない限り、このツールを起動しないでください。\n\n【返却形式】\n- data.svg: 完全なSVG文字列（最重要。これをそのまま image/svg+xml のアーティファクトとして出力）\n- data.filePath: サイズ超過時のみファイルパス（または preferFile=true の場合に常に）\n- data.legend: 描画したレイヤの凡例\n- meta.range: { start, end }（ISO8601）\n- meta.indicators: 表示中のインジケータ一覧\n\n【CRITICAL: アーティファクト表示要件】\n- SVGは必ず antArtifact タグで表示（例: <antArtifact type="image/svg+xml" isClosed="true">…</antArtifact>）\n- artifact タグは使用不可（テキスト表示になり視覚化されません）\n- タグ名は大文字小文字を厳密に: antArtifact（antは小、ArtifactのAは大）\n- data.svg が null の場合: file_read で data.filePath を読み、同様に antArtifact で表示\n\n【基本例】\nrender_chart_svg({ pair: "btc_jpy", type: "1day", limit: 30 })\n→ 返却 { data: { svg: "<svg>...</svg>" }, meta: { range: {start, end}, indicators: [..] } }\n→ LLMは data.svg をそのままアーティファクト出力。data.svg が null の場合は data.filePath を file_read で読み取り表示。\n\n【他ツールとの連携】\n1) detect_patterns を実行\n2) 返却された data.overlays を取得\n3) render_chart_svg({ overlays: data.overlays }) に渡して描画（ranges/annotations/depth_zones に対応）\n\n【軽量化オプション】\n- svgPrecision, svgMinify, simplifyTolerance, viewBoxTight\n- maxSvgBytes: 超過時は data.filePath、preferFile=true: 常に保存のみ', inputSchema: RenderChartSvgInputSchema },
+	{ description: 'ローソク足/ライン/板チャートをSVG形式で生成します。\n\n【重要な使用タイミング（厳守）】\n- ユーザーが「描画/可視化/チャートで見たい」等と明示したときのみ使用\n- detect_patterns 等の結果を「図で確認したい」とユーザーが要望したとき\n- 画像（SVG）のアーティファクト表示が明確に求められたとき\n\n【使用してはいけない場合】\n- 数値だけで足りる問い合わせ（分析/要約のみ）\n- ユーザーが視覚化を求めていないとき（自発的に使わない）\n- 「念のため」の再描画\n\nLLM への指示: ユーザーの明示要求がない限り、このツールを起動しないでください。\n\n【返却形式】\n- data.svg: 完全なSVG文字列（最重要。これをそのまま image/svg+xml のアーティファクトとして出力）\n- data.filePath: サイズ超過時のみファイルパス（または preferFile=true の場合に常に）\n- data.legend: 描画したレイヤの凡例\n- meta.range: { start, end }（ISO8601）\n- meta.indicators: 表示中のインジケータ一覧\n\n【CRITICAL: アーティファクト表示要件】\n- SVGは必ず antArtifact タグで表示（例: <antArtifact type="image/svg+xml" isClosed="true">…</antArtifact>）\n- artifact タグは使用不可（テキスト表示になり視覚化されません）\n- タグ名は大文字小文字を厳密に: antArtifact（antは小、ArtifactのAは大）\n- data.svg が null の場合: file_read で data.filePath を読み、同様に antArtifact で表示\n\n【基本例】\nrender_chart_svg({ pair: "btc_jpy", type: "1day", limit: 30 })\n→ 返却 { data: { svg: "<svg>...</svg>" }, meta: { range: {start, end}, indicators: [..] } }\n→ LLMは data.svg をそのままアーティファクト出力。data.svg が null の場合は data.filePath を file_read で読み取り表示。\n\n【他ツールとの連携】\n1) detect_patterns を実行\n2) 返却された data.overlays を取得\n3) render_chart_svg({ overlays: data.overlays }) に渡して描画（ranges/annotations/depth_zones/levels に対応。get_price_levels の overlays も同様）\n\n【サブパネル】\n- subPanels: ["RSI","STOCH","STOCH_RSI","WILLR","CCI","ROC","ADX"] から最大4つを価格チャートの下に表示\n\n【トレンド系オーバーレイ】\n- withPSAR: Parabolic SAR を点で表示 / withSupertrend: Supertrend を方向別の色で表示\n- withKeltner: Keltner Channels(EMA20 ± 2×ATR10) / withDonchian: Donchian Channels(20)\n\n【変換足（style）】\n- heikin_ashi: 平均足（指標オーバーレイも併用可）\n- renko / range_bars / point_figure: brickSize（省略時 ATR(14)）ごとのブロック・バー・列。時間軸を持たないため指標オーバーレイ/サブパネルは省略。pnfReversal で P&F の反転ボックス数\n\n【軽量化オプション】\n- svgPrecision, svgMinify, simplifyTolerance, viewBoxTight\n- maxSvgBytes: 超過時は data.filePath、preferFile=true: 常に保存のみ', inputSchema: RenderChartSvgInputSchema },
 	async (args: any) => {
 		// Default to file-first strategy for reliability
 		const effArgs = {
@@ -1239,9 +1282,9 @@ registerToolWithLog(
 
 registerToolWithLog(
 	'detect_patterns',
-	{ description: '古典的チャートパターン（ダブルトップ/ヘッドアンドショルダーズ/三角持ち合い/ウェッジ等）を統合検出します。\n\n🆕 統合版: 形成中（forming）と完成済み（completed）の両方を1回で取得可能。\n\n【オプション】\n- includeForming: true → 形成中パターンを含める（status=forming/near_completion）\n- includeCompleted: true → 完成済みパターンを含める（status=completed）\n- requireCurrentInPattern + currentRelevanceDays: 鮮度フィルタ（N日以内のみ）\n\n【出力】\n- content: 検出名・パターン整合度・期間・ステータス\n- ウェッジ: breakoutDirection（up/down）とoutcome（success/failure）を含む\n- 視覚確認: structuredContent.data.overlays を render_chart_svg.overlays に渡す\n\nview=summary|detailed|full（既定=detailed）。', inputSchema: DetectPatternsInputSchema },
-	async ({ pair, type, limit, patterns, swingDepth, tolerancePct, minBarsBetweenSwings, view, requireCurrentInPattern, currentRelevanceDays }: any) => {
-		const out = await detectPatterns(pair, type, limit, { patterns, swingDepth, tolerancePct, minBarsBetweenSwings, requireCurrentInPattern, currentRelevanceDays });
+	{ description: '古典的チャートパターン（ダブルトップ/ヘッドアンドショルダーズ/三角持ち合い/ウェッジ等）を統合検出します。\n\n🆕 統合版: 形成中（forming）と完成済み（completed）の両方を1回で取得可能。\n\n【オプション】\n- includeForming: true → 形成中パターンを含める（status=forming/near_completion）\n- includeCompleted: true → 完成済みパターンを含める（status=completed）\n- requireCurrentInPattern + currentRelevanceDays: 鮮度フィルタ（N日以内のみ）\n- transform: heikin_ashi / renko / point_figure / range_bars の変換足で検出（brickSize 省略時は ATR(14)。描画は render_chart_svg の同じ style で）\n\n【出力】\n- content: 検出名・パターン整合度・期間・ステータス\n- ウェッジ: breakoutDirection（up/down）とoutcome（success/failure）を含む\n- 視覚確認: structuredContent.data.overlays を render_chart_svg.overlays に渡す\n\nview=summary|detailed|full（既定=detailed）。', inputSchema: DetectPatternsInputSchema },
+	async ({ pair, type, limit, patterns, swingDepth, tolerancePct, minBarsBetweenSwings, view, requireCurrentInPattern, currentRelevanceDays, transform, brickSize, pnfReversal }: any) => {
+		const out = await detectPatterns(pair, type, limit, { patterns, swingDepth, tolerancePct, minBarsBetweenSwings, requireCurrentInPattern, currentRelevanceDays, transform, brickSize, pnfReversal });
 		const res = DetectPatternsOutputSchema.parse(out as any);
 		if (!res?.ok) return res as any;
 		const pats: any[] = Array.isArray((res as any)?.data?.patterns) ? (res as any).data.patterns : [];
@@ -1427,7 +1470,7 @@ registerToolWithLog(
 			let priceRange: string | null = null;
 			if (Array.isArray(p?.pivots) && p.pivots.length) {
 				const prices = p.pivots.map((v: any) => Number(v?.price)).filter((x: any) => Number.isFinite(x));
-				if (prices.length) priceRange = `${Math.min(...prices).toLocaleString()}円 - ${Math.max(...prices).toLocaleString()}円`;
+				if (prices.length) priceRange = `${formatPriceUnit(pair, Math.min(...prices))} - ${formatPriceUnit(pair, Math.max(...prices))}`;
 			}
 			let neckline: string | null = null;
 			if (Array.isArray(p?.neckline) && p.neckline.length === 2) {
@@ -1436,8 +1479,8 @@ registerToolWithLog(
 				const y2 = Number(b?.y);
 				if (Number.isFinite(y1) && Number.isFinite(y2)) {
 					neckline = (y1 === y2)
-						? `${y1.toLocaleString()}円（水平）`
-						: `${y1.toLocaleString()}円 → ${y2.toLocaleString()}円`;
+						? `${formatPriceUnit(pair, y1)}（水平）`
+						: `${formatPriceUnit(pair, y1)} → ${formatPriceUnit(pair, y2)}`;
 				}
 			}
 			// map idx -> isoTime using debug swings if available
@@ -1466,7 +1509,7 @@ registerToolWithLog(
 						if (!pv) continue;
 						const d = idxToIso[Number(pv.idx)] || '';
 						const date = d ? d.slice(0, 10) : 'n/a';
-						pivotLines.push(`   - ${roleLabels[i]}: ${date} (${Math.round(Number(pv.price)).toLocaleString()}円)`);
+						pivotLines.push(`   - ${roleLabels[i]}: ${date} (${formatPriceUnit(pair, Number(pv.price))})`);
 					}
 				}
 			}
@@ -1477,8 +1520,8 @@ registerToolWithLog(
 					const bidx = Number(p.breakout.idx);
 					const bpx = Number(p.breakout.price);
 					const bdate = idxToIso[bidx] ? String(idxToIso[bidx]).slice(0, 10) : 'n/a';
-					const bprice = Number.isFinite(bpx) ? Math.round(bpx).toLocaleString() : 'n/a';
-					breakoutLine = `   - ブレイク: ${bdate} (${bprice}円)`;
+					const bprice = Number.isFinite(bpx) ? formatPriceUnit(pair, bpx) : 'n/a';
+					breakoutLine = `   - ブレイク: ${bdate} (${bprice})`;
 				}
 			} catch { /* ignore */ }
 			// ウェッジパターンのブレイク方向と結果（LLM が正しく解釈できるように）
@@ -1564,9 +1607,9 @@ registerToolWithLog(
 
 registerToolWithLog(
 	'analyze_market_signal',
-	{ description: '【初動トリアージ専用】市場の総合状態を単一スコア(-100〜+100)で瞬時評価。分析の起点として最初に呼び出すツール。\n\n■ 主な用途\n- 「今、買い/売り/中立のどれか？」の即答\n- 詳細分析が必要な要素の特定\n- 複数銘柄の相対比較・スクリーニング\n\n■ スコア計算式\nscore = 0.35×buyPressure + 0.25×cvdTrend + 0.15×momentum + 0.10×volatility + 0.15×smaTrend\n\n5要素の意味:\n- buyPressure (35%): 板の買い/売り注文バランス\n- cvdTrend (25%): 累積出来高差分の方向性\n- momentum (15%): RSI/MACDなどの勢い指標\n- volatility (10%): 価格変動の大きさ\n- smaTrend (15%): 移動平均線の配置と変化\n\n■ このツールの限界（重要）\nこれは概要把握用のスナップショット。詳細分析には以下の専門ツールを併用すること:\n- フロー詳細分析 → get_flow_metrics (時系列バケット、スパイク検出)\n- ボラティリティ詳細 → get_volatility_metrics (RV/ATR/Parkinson/GK/RS)\n- テクニカル指標詳細 → get_indicators (RSI/MACD/BB/一目の全詳細値)\n- 板の帯域別分析 → get_orderbook_pressure (±0.1%/0.5%/1%等の層別圧力)\n- パターン検出 → detect_patterns（形成中+完成済みの統合版）\n\n■ LLMへの指示\n1. スコアを説明する際は必ず計算式と各要素の寄与度を明示\n2. 最も影響している要素（topContributors）を強調\n3. スコアが中立付近または要素間で矛盾がある場合、追加の専門ツール呼び出しを推奨\n4. SMA関連は「SMA配置トレンド(構造)」と「短期SMA変化スコア(勢い)」を区別して説明', inputSchema: AnalyzeMarketSignalInputSchema },
-	async ({ pair, type, flowLimit, bucketMs, windows }: any) => {
-		const res: any = await analyzeMarketSignal(pair, { type, flowLimit, bucketMs, windows });
+	{ description: '【初動トリアージ専用】市場の総合状態を単一スコア(-100〜+100)で瞬時評価。分析の起点として最初に呼び出すツール。\n\n■ 主な用途\n- 「今、買い/売り/中立のどれか？」の即答\n- 詳細分析が必要な要素の特定\n- 複数銘柄の相対比較・スクリーニング\n\n■ スコア計算式（既定の profile=default）\nscore = 0.35×smaTrend + 0.30×momentum + 0.20×cvdTrend + 0.10×volatility + 0.05×buyPressure\n\n5要素の意味:\n- smaTrend (35%): 移動平均線の配置と変化\n- momentum (30%): RSI などの勢い指標（momentumInputs で stoch/stoch_rsi/williams_r/cci/roc を追加すると各値を -1〜+1 に正規化して平均）\n- cvdTrend (20%): 累積出来高差分の方向性\n- volatility (10%): 価格変動の大きさ\n- buyPressure (5%): 約定の買い/売りバランス\n\n■ 重みの変更\n- profile: trend-follower（+trendStrength/macd）/ mean-reversion（bbReversion/rsiReversion）/ order-flow（cvdTrend/buyPressure 重視）\n- weights: factor ごとの上書き（例: {"smaTrend":0.5,"volatility":0}）。合計は 1 に正規化\n- 実際に適用した式と重みは data.formula / data.weights / data.breakdown に出力\n\n■ 過去の実績（historical=true）\n- 同程度のスコアの後の平均リターン・上昇率を data.historical に添付（calibrate_market_signal の集計、15 分キャッシュ）\n- フロー要素はローソク足で近似した過去スコアで分類するため参考値\n\n■ 判定が変わる条件（data.whatWouldChange）\n- priceLevels: 最新足の終値がいくらになると判定（bullish/neutral/bearish）が切り替わるか（現在値から ±15% の範囲、フロー要素は固定）\n- conditions: 「RSI が X を下回ると momentum がマイナスに転じる」「終値が SMA25 相当の Y 円を下回ると smaTrend の上昇配置が外れる」など\n- factors[].required: 他の要素が不変のとき判定を変えるのに必要な各要素の値\n\n■ このツールの限界（重要）\nこれは概要把握用のスナップショット。詳細分析には以下の専門ツールを併用すること:\n- フロー詳細分析 → get_flow_metrics (時系列バケット、スパイク検出)\n- ボラティリティ詳細 → get_volatility_metrics (RV/ATR/Parkinson/GK/RS)\n- テクニカル指標詳細 → get_indicators (RSI/MACD/BB/一目の全詳細値)\n- 板の帯域別分析 → get_orderbook_pressure (±0.1%/0.5%/1%等の層別圧力)\n- パターン検出 → detect_patterns（形成中+完成済みの統合版）\n\n■ LLMへの指示\n1. スコアを説明する際は必ず計算式と各要素の寄与度を明示\n2. 最も影響している要素（topContributors）を強調\n3. スコアが中立付近または要素間で矛盾がある場合、追加の専門ツール呼び出しを推奨\n4. SMA関連は「SMA配置トレンド(構造)」と「短期SMA変化スコア(勢い)」を区別して説明', inputSchema: AnalyzeMarketSignalInputSchema },
+	async ({ pair, type, flowLimit, bucketMs, windows, momentumInputs, profile, weights, historical }: any) => {
+		const res: any = await analyzeMarketSignal(pair, { type, flowLimit, bucketMs, windows, momentumInputs, profile, weights, historical });
 		// Build readable content to clarify score scale and neutral range
 		try {
 			if (!res?.ok) return AnalyzeMarketSignalOutputSchema.parse(res);
@@ -1584,6 +1627,7 @@ registerToolWithLog(
 			lines.push(`${String(pair).toUpperCase()} [${String(type || '1day')}]`);
 			lines.push(`総合スコア: ${score100}（範囲: ${range}、中立域: ${neutralLine}） → 判定: ${rec}（信頼度: ${conf}${confReason ? `: ${confReason}` : ''}）`);
 			if (top.length) lines.push(`主要因: ${top.join(', ')}`);
+			if (d?.regime) lines.push(`相場局面: ${REGIME_LABELS_JA[d.regime.regime as keyof typeof REGIME_LABELS_JA] ?? d.regime.regime}（${String(d.regime.since ?? '?').slice(0, 10)} から、${d.regime.fit}: ${d.regime.note}）`);
 			// SMA詳細（contentにも明示）
 			try {
 				const sma = (d as any)?.sma || {};
@@ -1699,6 +1743,21 @@ registerToolWithLog(
 					lines.push(`- ${k}: ${c}${w ? `（weight ${w}）` : ''}`);
 				}
 			}
+			if (d?.whatWouldChange) {
+				const changes = formatWhatWouldChangeLines(d.whatWouldChange, pair);
+				if (changes.length) {
+					lines.push('');
+					lines.push('【判定が変わる条件（フロー要素は現在値のまま）】');
+					lines.push(...changes.slice(0, 8));
+				}
+			}
+			if (d?.historical) {
+				const outlook = formatOutlookLines(d.historical);
+				lines.push('');
+				lines.push(`【過去の同程度スコア（${d.historical.bucket}、過去 ${d.historical.sampleBars} 本）】`);
+				lines.push(...(outlook.length ? outlook : ['- 該当する過去の足なし']));
+				lines.push('※ フロー要素はローソク足で近似した再計算スコアで分類');
+			}
 			if (next.length) {
 				lines.push('');
 				lines.push('【次の確認候補】');
@@ -1724,7 +1783,7 @@ registerToolWithLog(
 
 registerToolWithLog(
 	'analyze_bb_snapshot',
-	{ description: 'ボリンジャーバンドの数値スナップショットを取得。視覚的判断は行わず、客観的な数値のみ提供。\n\n【mode の使い分け】\n- default (推奨): ±2σ帯の基本情報で高速チェック\n  - middle/upper(+2σ)/lower(-2σ)\n  - zScore: 現在価格が±2σ帯のどこに位置するか\n  - bandWidthPct: バンド幅の middle 比（スクイーズ/エクスパンション把握）\n  - 用途: 初動確認、定期監視、軽量スナップショット\n\n- extended: ±1σ/±2σ/±3σ を含む詳細分析\n  - 全階層のバンド値と各層での価格位置\n  - 極端値検出（±3σタッチ、バンドウォーク等）\n  - 用途: 異常値確認、詳細なボラティリティ分析\n\n【他ツールとの使い分け】\n- get_indicators: RSI/MACD等を含む総合テクニカル分析（重い）\n- analyze_bb_snapshot: BB特化で軽量（速い）\n- render_chart_svg: 視覚化が必要な場合', inputSchema: (await import('./schemas.js')).AnalyzeBbSnapshotInputSchema as any },
+	{ description: 'ボリンジャーバンドの数値スナップショットを取得。視覚的判断は行わず、客観的な数値のみ提供。\n\n【mode の使い分け】\n- default (推奨): ±2σ帯の基本情報で高速チェック\n  - middle/upper(+2σ)/lower(-2σ)\n  - zScore: 現在価格が±2σ帯のどこに位置するか\n  - bandWidthPct: バンド幅の middle 比（スクイーズ/エクスパンション把握）\n  - 用途: 初動確認、定期監視、軽量スナップショット\n\n- extended: ±1σ/±2σ/±3σ を含む詳細分析\n  - 全階層のバンド値と各層での価格位置\n  - 極端値検出（±3σタッチ、バンドウォーク等）\n  - 用途: 異常値確認、詳細なボラティリティ分析\n\n【スクイーズ（両モード共通: data.squeeze）】\n- state: on（BB±2σ が Keltner(20,20,1.5) の内側）/ off / fired（解放から3本以内）\n- direction: fired 時のモメンタム方向（up/down）、barsInSqueeze: スクイーズ継続本数、history: 直近30本の on/off\n\n【他ツールとの使い分け】\n- get_indicators: RSI/MACD等を含む総合テクニカル分析（重い）\n- analyze_bb_snapshot: BB特化で軽量（速い）\n- render_chart_svg: 視覚化が必要な場合', inputSchema: (await import('./schemas.js')).AnalyzeBbSnapshotInputSchema as any },
 	async ({ pair, type, limit, mode }: any) => analyzeBbSnapshot(pair, type, limit, mode)
 );
 
@@ -1740,6 +1799,42 @@ registerToolWithLog(
 	async ({ pair, type, limit, periods }: any) => analyzeSmaSnapshot(pair, type, limit, periods)
 );
 
+registerToolWithLog(
+	'analyze_trend_strength',
+	{ description: 'トレンドの「強さ」を数値で判定（方向は SMA 配置だけでは分からない「トレンドかレンジか」を補う）。ADX/+DI/-DI(14)・Aroon(25)・Parabolic SAR(0.02,0.2)・Supertrend(10,3) を使用。\n\n【判定】\n- regime: ADX ≥ adxTrend(既定25) → trending / ADX < adxRange(既定20) → ranging / その間 → transitional\n- direction: DMI・Aroon・SAR・Supertrend の投票（各±1）の合計が +2 以上で up、-2 以下で down\n- score: -100〜+100（ADX の強さ × 方向の合意度）\n- psar/supertrend.flippedBarsAgo: 現在の方向に転じてからの本数\n\n【使い分け】\n- analyze_market_signal のスコアが SMA 配置で強気でも、regime=ranging ならトレンドフォローの根拠は弱い\n- 視覚化: render_chart_svg の withPSAR / withSupertrend / subPanels:["ADX"]', inputSchema: (await import('./schemas.js')).AnalyzeTrendStrengthInputSchema as any },
+	async ({ pair, type, limit, adxTrend, adxRange }: any) => analyzeTrendStrength(pair, type, limit, { adxTrend, adxRange })
+);
+
+registerToolWithLog(
+	'get_price_levels',
+	{ description: 'ピボットポイントとフィボナッチの価格水準を一覧化し、現在値からの距離とコンフルエンス（水準の重なり）を返す。analyze_support_resistance（接触回数ベース）を計算式ベースの水準で補う。\n\n【水準】\n- ピボット: classical / Camarilla / Woodie を前日・前週（JST、確定済み）の高値・安値・終値から計算（pivotTimeframes）\n- フィボナッチ: type/limit の足で detectSwingPoints（swingDepth）が見つけた直近のスイング高値・安値を基準に、押し目/戻り（23.6〜78.6%）と拡張（127.2〜261.8%）\n\n【返却】\n- levels: 全水準（価格降順、distancePct 付き）/ nearest: 直上・直下\n- confluence: confluencePct 以内に集まった異なる系統の水準（本数の多い順）\n- overlays: render_chart_svg の overlays にそのまま渡すと水平線とゾーンを描画', inputSchema: (await import('./schemas.js')).GetPriceLevelsInputSchema as any },
+	async ({ pair, type, limit, swingDepth, pivotTimeframes, confluencePct }: any) => getPriceLevels(pair, type, limit, { swingDepth, pivotTimeframes, confluencePct })
+);
+
+registerToolWithLog(
+	'evaluate_expression',
+	{ description: '指標式（DSL）をローソク足に対して評価し、値の系列または条件の成立履歴を返す。新しいツールを待たずに独自の指標・条件を試すためのもの。\n\n【式の書き方】\n- 値: 数値 / open high low close volume / 関数\n- 関数: SMA(src, period), EMA(src, period), RSI(src, 14), MACD(src, 12, 26, 9).line|signal|hist, BB(src, 20, 2).upper|middle|lower, ATR(14), SHIFT(src, n), ABS(x), MIN(a, b), MAX(a, b)（src は省略時 close。RSI(EMA(10), 14) のような入れ子も可）\n- 演算: + - * /、比較 > < >= <= == !=、A crosses above B / A crosses below B、and / or / not\n\n【例】\n- close / SMA(close, 200) - 1 → 200日線からの乖離率の系列\n- EMA(20) crosses above EMA(50) → ゴールデンクロスした足\n- RSI(14) < 30 and close < BB(20, 2).lower\n\n【返却】\n- 数値式: data.series（time/value）と latest\n- 条件式: data.condition（history, trueCount, lastTrueAt, triggers = 不成立→成立に変わった足）\n- meta.warmup: 最初の有効値までに必要な足の本数（この分は追加取得）', inputSchema: (await import('./schemas.js')).EvaluateExpressionInputSchema as any },
+	async ({ pair, type, expression, limit }: any) => evaluateExpression(pair, type, expression, limit)
+);
+
+registerToolWithLog(
+	'analyze_mtf_confluence',
+	{ description: '複数の時間足（既定 1hour/4hour/1day/1week、2〜4 個）で「上位足と下位足の向きが揃っているか」を判定。\n\n【要素（行列の列）】\n- signal: analyze_market_signal の判定（±0.25）\n- sma: SMA25/75 の配置\n- ichimoku: 価格と今日の雲の位置\n- macd: ヒストグラムの符号（detail.macd.crossBarsAgo = シグナル線との交差からの本数）\n\n【判定】\n- 時間足ごと: 4 要素の平均（+1/0/-1）が ±0.5 以上で bullish/bearish\n- confluence.score: 長い足ほど重い重み付き平均（-1〜+1、±0.25 で判定）\n- confluence.disagreeing: 全体の判定と異なる時間足と食い違っている要素\n\nローソク足は時間足ごとに 1 回、約定フローは 1 回だけ取得して共有する。単一時間足の詳細は analyze_market_signal を使う', inputSchema: (await import('./schemas.js')).AnalyzeMtfConfluenceInputSchema as any },
+	async ({ pair, timeframes }: any) => analyzeMtfConfluence(pair, timeframes)
+);
+
+registerToolWithLog(
+	'calibrate_market_signal',
+	{ description: 'analyze_market_signal の合成スコアを過去のローソク足で再計算し、「このスコアの後に実際どう動いたか」を集計する過去検証。\n\n【集計】\n- スコア区間（-1〜-0.5 / -0.5〜-0.25 / -0.25〜-0.1 / -0.1〜+0.1 / +0.1〜+0.25 / +0.25〜+0.5 / +0.5〜+1）× horizons（既定 1/5/10/20 本後）\n- 区間ごと: 平均・中央値リターン、上昇率、的中率（スコアの向きと一致した割合、中立区間は null）\n- 信頼度曲線: predictedUp（0.5 + score/2）と upRate の比較、Brier スコア、IC（スコアと先行リターンの相関）\n- current: 最新足の近似スコアと同じ区間の実績\n\n【注意】\n- 過去の約定フローは取得できないため cvdTrend / buyPressure はローソク足（CLV × 出来高）で近似\n- horizon が重なる標本は独立ではない。将来の結果を保証するものではない\n\nライブのスコアに添える場合は analyze_market_signal の historical=true', inputSchema: (await import('./schemas.js')).CalibrateMarketSignalInputSchema as any },
+	async ({ pair, type, limit, horizons, profile, weights, momentumInputs }: any) => calibrateMarketSignal(pair, { type, limit, horizons, profile, weights, momentumInputs })
+);
+
+registerToolWithLog(
+	'analyze_market_regime',
+	{ description: '相場局面（レジーム）を足ごとに判定し、現在の局面と切り替わりの日時を返す。\n\n【局面（優先順）】\n- crash: 直近 90 本の高値から crashDrawdown（既定 20%）以上の下落 かつ 高ボラ\n- high_vol: 実現ボラ（20 本）が過去 250 本の分布で 80 パーセンタイル以上\n- trend_up / trend_down: ADX ≥ adxTrend（既定 25）で +DI/-DI の向き\n- range: ADX < adxRange（既定 20）。間はひとつ前の判定を維持\n\n【出力】\n- current: 現在の局面・開始日時・継続本数・ADX・ボラのパーセンタイル・下落率\n- transitions / segments: 局面の切り替わり（confirmBars 本続いたら確定、crash は即時）\n- distribution: 対象期間の局面の構成比\n\nanalyze_market_signal / detect_patterns / analyze_candle_patterns も同じ判定で局面との噛み合い（favorable / neutral / unfavorable）を添える', inputSchema: (await import('./schemas.js')).AnalyzeMarketRegimeInputSchema as any },
+	async ({ pair, type, limit, adxTrend, adxRange, crashDrawdown, confirmBars, includeBars }: any) => analyzeMarketRegime(pair, type, limit, { adxTrend, adxRange, crashDrawdown, confirmBars, includeBars })
+);
+
 registerToolWithLog(
 	'analyze_support_resistance',
 	{ description: 'サポート・レジスタンスを自動検出。過去のローソク足から反発/反落ポイントを抽出し、接触回数・強度・直近の崩壊実績を分析。LLMのハルシネーションを防ぐため、サーバー側で正確に計算してcontentに結果を出力。', inputSchema: (await import('./schemas.js')).AnalyzeSupportResistanceInputSchema as any },
@@ -2007,6 +2102,24 @@ for (const p of (promptDefs as any[])) {
 	registerPromptSafe(p.name, { description: p.description, messages: p.messages });
 }
 
+// === ペアレジストリ（spot/pairs から最新化。失敗時はディスクキャッシュ/静的リストのまま） ===
+void refreshPairRegistry();
+
+// === リアルタイムストリーム（BITBANK_STREAM_PAIRS 指定時のみ） ===
+{
+	const streamPairs = String(process.env.BITBANK_STREAM_PAIRS || '').split(',').filter(Boolean).map((p) => ensurePair(p.trim())).flatMap((c) => (c.ok ? [c.pair as string] : []));
+	if (streamPairs.length) {
+		startStream({
+			pairs: streamPairs,
+			fetchSnapshot: async (pair) => {
+				const res: any = await getDepth(pair, { maxLevels: 1000, bypassCache: true });
+				if (!res?.ok) throw new Error(res?.summary || 'depth snapshot failed');
+				return { asks: res.data.asks, bids: res.data.bids, sequenceId: res.data.sequenceId ?? null, timestamp: res.data.timestamp };
+			},
+		});
+	}
+}
+
 // === stdio 接続（最後に実行） ===
 const transport = new StdioServerTransport();
 await server.connect(transport);
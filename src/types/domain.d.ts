@@ -2,6 +2,41 @@
 
 export type Pair = `${string}_${string}`; // e.g., "btc_jpy"
 
+// 共有レスポンスキャッシュの状態（lib/cache.ts）
+export interface CacheMeta {
+	hit: boolean;
+	key: string;
+	ageMs: number;
+}
+
+// ペアの刻み情報（lib/pairs.ts のレジストリ由来）
+export interface PairPrecisionMeta {
+	priceDigits: number | null;
+	amountDigits: number | null;
+	minAmount: number | null;
+}
+
+export interface CandleQualityMeta {
+	gaps: number;
+	missingBars: number;
+	duplicates: number;
+	zeroVolume: number;
+	partialLast: boolean;
+	repair: 'none' | 'fill' | 'drop';
+	filled: number;
+	dropped: number;
+	degraded: boolean;
+	issues: string[];
+	gapRanges?: Array<{ from: string; to: string; missing: number }>;
+}
+
+export interface ResampledFromMeta {
+	type: CandleType;
+	count: number;
+	factor: number;
+	tz: 'Asia/Tokyo' | 'UTC';
+}
+
 export interface Candle {
 	time?: number | string; // epoch ms or ISO string
 	open: number;
@@ -104,6 +139,29 @@ export type ChartIndicators = IchimokuSeries & BollingerBandsSeries & SmaSeriesF
 	// RSI is latest-value only even in chart payload
 	RSI_14?: number | null;
 	RSI_14_series?: NumericSeries;
+	// oscillator sub-panels
+	STOCH_K?: NumericSeries;
+	STOCH_D?: NumericSeries;
+	STOCH_RSI_K?: NumericSeries;
+	STOCH_RSI_D?: NumericSeries;
+	WILLR_14?: NumericSeries;
+	CCI_20?: NumericSeries;
+	ROC_12?: NumericSeries;
+	ADX_14?: NumericSeries;
+	PLUS_DI_14?: NumericSeries;
+	MINUS_DI_14?: NumericSeries;
+	// trend overlays (direction: 1=up, -1=down)
+	PSAR?: NumericSeries;
+	PSAR_dir?: NumericSeries;
+	SUPERTREND?: NumericSeries;
+	SUPERTREND_dir?: NumericSeries;
+	// channels
+	KC_upper?: NumericSeries;
+	KC_middle?: NumericSeries;
+	KC_lower?: NumericSeries;
+	DC_upper?: NumericSeries;
+	DC_middle?: NumericSeries;
+	DC_lower?: NumericSeries;
 };
 
 export interface ChartMeta {
@@ -174,6 +232,67 @@ export interface IndicatorsInternal {
 	sma_50_series?: NumericSeries;
 	sma_75_series?: NumericSeries;
 	sma_200_series?: NumericSeries;
+	// oscillators (latest + series)
+	STOCH_K?: number | null;
+	STOCH_D?: number | null;
+	STOCH_RSI_K?: number | null;
+	STOCH_RSI_D?: number | null;
+	WILLR_14?: number | null;
+	CCI_20?: number | null;
+	ROC_12?: number | null;
+	stoch_series?: { k: NumericSeries; d: NumericSeries };
+	stoch_rsi_series?: { k: NumericSeries; d: NumericSeries };
+	willr_series?: NumericSeries;
+	cci_series?: NumericSeries;
+	roc_series?: NumericSeries;
+	// trend strength (latest + series)
+	ADX_14?: number | null;
+	PLUS_DI_14?: number | null;
+	MINUS_DI_14?: number | null;
+	AROON_UP?: number | null;
+	AROON_DOWN?: number | null;
+	AROON_OSC?: number | null;
+	PSAR?: number | null;
+	PSAR_dir?: number | null;
+	SUPERTREND?: number | null;
+	SUPERTREND_dir?: number | null;
+	adx_series?: { adx: NumericSeries; plusDI: NumericSeries; minusDI: NumericSeries };
+	aroon_series?: { up: NumericSeries; down: NumericSeries; oscillator: NumericSeries };
+	psar_series?: { sar: NumericSeries; direction: NumericSeries };
+	supertrend_series?: { line: NumericSeries; direction: NumericSeries };
+	// channels: ATR(14), Keltner(EMA20 ± 2×ATR10), Donchian(20)
+	ATR_14?: number | null;
+	KC_upper?: number | null;
+	KC_middle?: number | null;
+	KC_lower?: number | null;
+	DC_upper?: number | null;
+	DC_middle?: number | null;
+	DC_lower?: number | null;
+	atr_series?: NumericSeries;
+	kc_series?: { upper: NumericSeries; middle: NumericSeries; lower: NumericSeries };
+	dc_series?: { upper: NumericSeries; middle: NumericSeries; lower: NumericSeries };
+	// volume (latest + series). VWAP_session is intraday only; VWAP_anchored requires vwapAnchor
+	OBV?: number | null;
+	AD_LINE?: number | null;
+	MFI_14?: number | null;
+	CMF_20?: number | null;
+	VWAP_session?: number | null;
+	VWAP_anchored?: number | null;
+	obv_series?: NumericSeries;
+	ad_series?: NumericSeries;
+	mfi_series?: NumericSeries;
+	cmf_series?: NumericSeries;
+	vwap_session_series?: NumericSeries;
+	vwap_anchored_series?: NumericSeries;
+}
+
+/** 任意パラメータ指標の結果（単一系列は value、複数系列は構成要素名がキー） */
+export interface CustomIndicatorResult {
+	name: string;
+	params: number[];
+	warmup: number;
+	latest: Record<string, number | null>;
+	series: Record<string, NumericSeries>;
 }
 
 export interface GetIndicatorsData {
@@ -188,6 +307,8 @@ export interface GetIndicatorsData {
 		meta: ChartMeta;
 		stats: { min: number; max: number; avg: number; volume_avg: number };
 	};
+	/** indicators 入力で指定した指標（キーは RSI_9 / BB_20_2.5 など） */
+	custom?: Record<string, CustomIndicatorResult>;
 }
 
 export interface GetIndicatorsMeta {
@@ -197,6 +318,13 @@ export interface GetIndicatorsMeta {
 	count: number;
 	requiredCount: number;
 	warnings?: string[];
+	cache?: CacheMeta;
+	precision?: PairPrecisionMeta;
+	resampledFrom?: ResampledFromMeta;
+	quality?: CandleQualityMeta;
+	vwapAnchor?: { source: 'date' | 'swing_high' | 'swing_low'; index: number; isoTime: string | null };
+	/** 指標の小数桁（null = 丸めなし） */
+	digits?: { price: number | null; oscillator: number | null };
 }
 
 // === DTOs for tools/get_ticker ===
@@ -208,6 +336,8 @@ export interface GetTickerData {
 export interface GetTickerMeta {
 	pair: Pair;
 	fetchedAt: string;
+	cache?: CacheMeta;
+	precision?: PairPrecisionMeta;
 }
 
 // === DTOs for tools/get_orderbook ===
@@ -221,12 +351,59 @@ export interface GetOrderbookMeta {
 	fetchedAt: string;
 	topN: number;
 	count: number;
+	cache?: CacheMeta;
+	precision?: PairPrecisionMeta;
+}
+
+// === DTOs for tools/get_circuit_break_info ===
+export type CircuitBreakMode = 'normal' | 'halted' | 'auction' | 'unknown';
+
+export interface CircuitBreakTriggerDistance {
+	price: number;
+	priceSource: 'last' | 'estimated_itayose';
+	/** 上限トリガーまでの距離（%、現在値基準） */
+	upperPct: number | null;
+	/** 下限トリガーまでの距離（%、現在値基準） */
+	lowerPct: number | null;
+	nearest: 'upper' | 'lower' | null;
+	nearestPct: number | null;
+	warning: boolean;
+}
+
+export interface CircuitBreakInfo {
+	mode: CircuitBreakMode | null;
+	raw_mode?: string | null;
+	upper_trigger_price?: number | null;
+	lower_trigger_price?: number | null;
+	itayose_upper_price?: number | null;
+	itayose_lower_price?: number | null;
+	estimated_itayose_price?: number | null;
+	estimated_itayose_amount?: number | null;
+	reopen_timestamp?: number | null;
+	reopen_isoTime?: string | null;
+	fee_type?: string | null;
+	distance?: CircuitBreakTriggerDistance | null;
+}
+
+export interface GetCircuitBreakInfoData {
+	info: CircuitBreakInfo;
+	raw?: unknown;
+}
+
+export interface GetCircuitBreakInfoMeta {
+	pair: Pair;
+	fetchedAt: string;
+	source?: 'official' | 'none' | 'placeholder';
+	updatedAt?: string;
+	precision?: PairPrecisionMeta;
+	cache?: CacheMeta;
 }
 
 // Render options aligned with project rules
 export type BbMode = 'default' | 'extended';
 export type IchimokuMode = 'default' | 'extended';
-export type ChartStyle = 'candles' | 'line' | 'depth';
+export type ChartStyle = 'candles' | 'line' | 'depth' | 'heikin_ashi' | 'renko' | 'point_figure' | 'range_bars';
+export type OscillatorPanel = 'RSI' | 'STOCH' | 'STOCH_RSI' | 'WILLR' | 'CCI' | 'ROC' | 'ADX';
 
 export interface IchimokuOptions {
 	mode?: IchimokuMode;
@@ -238,10 +415,17 @@ export interface RenderChartSvgOptions {
 	limit?: number;
 	// main series style: candles (default) or line (close-only)
 	style?: ChartStyle;
+	brickSize?: number; // renko brick / P&F box / range bar size (default: ATR(14))
+	pnfReversal?: number; // P&F reversal boxes, default 3
 	withSMA?: number[];
 	withBB?: boolean;
 	bbMode?: BbMode;
 	withIchimoku?: boolean; // default false
+	subPanels?: OscillatorPanel[]; // oscillator panels under the price chart
+	withPSAR?: boolean; // Parabolic SAR dots
+	withSupertrend?: boolean; // Supertrend line colored by direction
+	withKeltner?: boolean; // Keltner Channels (EMA20 ± 2×ATR10)
+	withDonchian?: boolean; // Donchian Channels (20)
 	ichimoku?: IchimokuOptions; // default { mode: 'default' }
 	withLegend?: boolean; // default true
 	barWidthRatio?: number; // 0.1 - 0.9, default 0.6
@@ -250,6 +434,8 @@ export interface RenderChartSvgOptions {
 	overlays?: {
 		ranges?: Array<{ start: string; end: string; color?: string; label?: string }>;
 		annotations?: Array<{ isoTime: string; text: string }>;
+		depth_zones?: Array<{ low: number; high: number; color?: string; label?: string }>;
+		levels?: Array<{ price: number; color?: string; label?: string }>; // horizontal lines (e.g. get_price_levels)
 	};
 }
 
@@ -317,4 +503,8 @@ export interface GetCandlesMeta {
 	fetchedAt: string;
 	type: CandleType | string;
 	count: number;
+	cache?: CacheMeta;
+	precision?: PairPrecisionMeta;
+	resampledFrom?: ResampledFromMeta;
+	quality?: CandleQualityMeta;
 }
@@ -6,9 +6,14 @@
 export type CandleType = "1min" | "5min" | "15min" | "30min" | "1hour" | "4hour" | "8hour" | "12hour" | "1day" | "1week" | "1month";
 export type RenderChartSvgInput = {
     pair?: string;
-    type?: ("1min" | "5min" | "15min" | "30min" | "1hour" | "4hour" | "8hour" | "12hour" | "1day" | "1week" | "1month");
+    type?: (("1min" | "5min" | "15min" | "30min" | "1hour" | "4hour" | "8hour" | "12hour" | "1day" | "1week" | "1month") | string);
     limit?: number;
-    style?: ("candles" | "line" | "depth");
+    /** renko / point_figure / range_bars have no time axis, so indicator overlays and subPanels are skipped */
+    style?: ("candles" | "line" | "depth" | "heikin_ashi" | "renko" | "point_figure" | "range_bars");
+    /** Renko brick / P&F box / range bar size in quote currency (default: ATR(14)) */
+    brickSize?: number | undefined;
+    /** Point & Figure reversal in boxes */
+    pnfReversal?: number;
     depth?: {
         levels?: number;
     } | undefined;
@@ -16,6 +21,16 @@ export type RenderChartSvgInput = {
     withBB?: boolean;
     bbMode?: ("default" | "extended" | "light" | "full");
     withIchimoku?: boolean;
+    /** Oscillator sub-panels under the price chart: RSI / STOCH / STOCH_RSI / WILLR / CCI / ROC / ADX */
+    subPanels?: ("RSI" | "STOCH" | "STOCH_RSI" | "WILLR" | "CCI" | "ROC" | "ADX")[] | undefined;
+    /** Overlay Parabolic SAR(0.02, 0.2) dots */
+    withPSAR?: boolean;
+    /** Overlay Supertrend(10, 3) line colored by direction */
+    withSupertrend?: boolean;
+    /** Overlay Keltner Channels (EMA20 ± 2×ATR10) */
+    withKeltner?: boolean;
+    /** Overlay Donchian Channels (20) */
+    withDonchian?: boolean;
     ichimoku?: {
         mode?: ("default" | "extended");
         withChikou?: boolean | undefined;
@@ -58,6 +73,11 @@ export type RenderChartSvgInput = {
             color?: string | undefined;
             label?: string | undefined;
         }[] | undefined;
+        levels?: {
+            price: number;
+            color?: string | undefined;
+            label?: string | undefined;
+        }[] | undefined;
     } | undefined;
 };
 export type RenderChartSvgOutput = {
@@ -85,6 +105,14 @@ export type RenderChartSvgOutput = {
         layerCount?: number | undefined;
         truncated?: boolean | undefined;
         fallback?: string | undefined;
+        transform?: {
+            transform: "heikin_ashi" | "renko" | "point_figure" | "range_bars";
+            size: number | null;
+            sizeSource: ("fixed" | "atr") | null;
+            reversal?: number | undefined;
+            sourceCount: number;
+            count: number;
+        } | undefined;
     } | undefined;
 };
 
@@ -125,6 +153,27 @@ export type ChartPayloadFromSchema = {
         SMA_50: (number | null)[];
         SMA_75: (number | null)[];
         SMA_200: (number | null)[];
+        RSI_14_series?: (number | null)[] | undefined;
+        STOCH_K?: (number | null)[] | undefined;
+        STOCH_D?: (number | null)[] | undefined;
+        STOCH_RSI_K?: (number | null)[] | undefined;
+        STOCH_RSI_D?: (number | null)[] | undefined;
+        WILLR_14?: (number | null)[] | undefined;
+        CCI_20?: (number | null)[] | undefined;
+        ROC_12?: (number | null)[] | undefined;
+        ADX_14?: (number | null)[] | undefined;
+        PLUS_DI_14?: (number | null)[] | undefined;
+        MINUS_DI_14?: (number | null)[] | undefined;
+        PSAR?: (number | null)[] | undefined;
+        PSAR_dir?: (number | null)[] | undefined;
+        SUPERTREND?: (number | null)[] | undefined;
+        SUPERTREND_dir?: (number | null)[] | undefined;
+        KC_upper?: (number | null)[] | undefined;
+        KC_middle?: (number | null)[] | undefined;
+        KC_lower?: (number | null)[] | undefined;
+        DC_upper?: (number | null)[] | undefined;
+        DC_middle?: (number | null)[] | undefined;
+        DC_lower?: (number | null)[] | undefined;
         RSI_14?: (number | null) | undefined;
     };
     meta?: {
@@ -212,6 +261,82 @@ export type GetIndicatorsDataFromSchema = {
             signal: (number | null)[];
             hist: (number | null)[];
         } | undefined;
+        STOCH_K?: (number | null) | undefined;
+        STOCH_D?: (number | null) | undefined;
+        STOCH_RSI_K?: (number | null) | undefined;
+        STOCH_RSI_D?: (number | null) | undefined;
+        WILLR_14?: (number | null) | undefined;
+        CCI_20?: (number | null) | undefined;
+        ROC_12?: (number | null) | undefined;
+        stoch_series?: {
+            k: (number | null)[];
+            d: (number | null)[];
+        } | undefined;
+        stoch_rsi_series?: {
+            k: (number | null)[];
+            d: (number | null)[];
+        } | undefined;
+        willr_series?: (number | null)[] | undefined;
+        cci_series?: (number | null)[] | undefined;
+        roc_series?: (number | null)[] | undefined;
+        ADX_14?: (number | null) | undefined;
+        PLUS_DI_14?: (number | null) | undefined;
+        MINUS_DI_14?: (number | null) | undefined;
+        AROON_UP?: (number | null) | undefined;
+        AROON_DOWN?: (number | null) | undefined;
+        AROON_OSC?: (number | null) | undefined;
+        PSAR?: (number | null) | undefined;
+        PSAR_dir?: (number | null) | undefined;
+        SUPERTREND?: (number | null) | undefined;
+        SUPERTREND_dir?: (number | null) | undefined;
+        adx_series?: {
+            adx: (number | null)[];
+            plusDI: (number | null)[];
+            minusDI: (number | null)[];
+        } | undefined;
+        aroon_series?: {
+            up: (number | null)[];
+            down: (number | null)[];
+            oscillator: (number | null)[];
+        } | undefined;
+        psar_series?: {
+            sar: (number | null)[];
+            direction: (number | null)[];
+        } | undefined;
+        supertrend_series?: {
+            line: (number | null)[];
+            direction: (number | null)[];
+        } | undefined;
+        ATR_14?: (number | null) | undefined;
+        KC_upper?: (number | null) | undefined;
+        KC_middle?: (number | null) | undefined;
+        KC_lower?: (number | null) | undefined;
+        DC_upper?: (number | null) | undefined;
+        DC_middle?: (number | null) | undefined;
+        DC_lower?: (number | null) | undefined;
+        atr_series?: (number | null)[] | undefined;
+        kc_series?: {
+            upper: (number | null)[];
+            middle: (number | null)[];
+            lower: (number | null)[];
+        } | undefined;
+        dc_series?: {
+            upper: (number | null)[];
+            middle: (number | null)[];
+            lower: (number | null)[];
+        } | undefined;
+        OBV?: (number | null) | undefined;
+        AD_LINE?: (number | null) | undefined;
+        MFI_14?: (number | null) | undefined;
+        CMF_20?: (number | null) | undefined;
+        VWAP_session?: (number | null) | undefined;
+        VWAP_anchored?: (number | null) | undefined;
+        obv_series?: (number | null)[] | undefined;
+        ad_series?: (number | null)[] | undefined;
+        mfi_series?: (number | null)[] | undefined;
+        cmf_series?: (number | null)[] | undefined;
+        vwap_session_series?: (number | null)[] | undefined;
+        vwap_anchored_series?: (number | null)[] | undefined;
     };
     trend: "strong_uptrend" | "uptrend" | "strong_downtrend" | "downtrend" | "overbought" | "oversold" | "sideways" | "insufficient_data";
     chart: {
@@ -249,6 +374,27 @@ export type GetIndicatorsDataFromSchema = {
             SMA_50: (number | null)[];
             SMA_75: (number | null)[];
             SMA_200: (number | null)[];
+            RSI_14_series?: (number | null)[] | undefined;
+            STOCH_K?: (number | null)[] | undefined;
+            STOCH_D?: (number | null)[] | undefined;
+            STOCH_RSI_K?: (number | null)[] | undefined;
+            STOCH_RSI_D?: (number | null)[] | undefined;
+            WILLR_14?: (number | null)[] | undefined;
+            CCI_20?: (number | null)[] | undefined;
+            ROC_12?: (number | null)[] | undefined;
+            ADX_14?: (number | null)[] | undefined;
+            PLUS_DI_14?: (number | null)[] | undefined;
+            MINUS_DI_14?: (number | null)[] | undefined;
+            PSAR?: (number | null)[] | undefined;
+            PSAR_dir?: (number | null)[] | undefined;
+            SUPERTREND?: (number | null)[] | undefined;
+            SUPERTREND_dir?: (number | null)[] | undefined;
+            KC_upper?: (number | null)[] | undefined;
+            KC_middle?: (number | null)[] | undefined;
+            KC_lower?: (number | null)[] | undefined;
+            DC_upper?: (number | null)[] | undefined;
+            DC_middle?: (number | null)[] | undefined;
+            DC_lower?: (number | null)[] | undefined;
             RSI_14?: (number | null) | undefined;
         };
         meta: {
@@ -262,6 +408,19 @@ export type GetIndicatorsDataFromSchema = {
             volume_avg: number;
         };
     };
+    custom?: {
+        [x: string]: {
+            name: string;
+            params: number[];
+            warmup: number;
+            latest: {
+                [x: string]: number | null;
+            };
+            series: {
+                [x: string]: (number | null)[];
+            };
+        };
+    } | undefined;
 };
 export type GetIndicatorsMetaFromSchema = {
     pair: string;
@@ -270,4 +429,46 @@ export type GetIndicatorsMetaFromSchema = {
     count: number;
     requiredCount: number;
     warnings?: string[] | undefined;
+    cache?: {
+        hit: boolean;
+        key: string;
+        ageMs: number;
+    } | undefined;
+    resampledFrom?: {
+        type: "1min" | "5min" | "15min" | "30min" | "1hour" | "4hour" | "8hour" | "12hour" | "1day" | "1week" | "1month";
+        count: number;
+        factor: number;
+        tz: "Asia/Tokyo" | "UTC";
+    } | undefined;
+    quality?: {
+        gaps: number;
+        missingBars: number;
+        duplicates: number;
+        zeroVolume: number;
+        partialLast: boolean;
+        repair: "none" | "fill" | "drop";
+        filled: number;
+        dropped: number;
+        degraded: boolean;
+        issues: string[];
+        gapRanges?: {
+            from: string;
+            to: string;
+            missing: number;
+        }[] | undefined;
+    } | undefined;
+    precision?: {
+        priceDigits: number | null;
+        amountDigits: number | null;
+        minAmount: number | null;
+    } | undefined;
+    vwapAnchor?: {
+        source: "date" | "swing_high" | "swing_low";
+        index: number;
+        isoTime: string | null;
+    } | undefined;
+    digits?: {
+        price: number | null;
+        oscillator: number | null;
+    } | undefined;
 };
\ No newline at end of file
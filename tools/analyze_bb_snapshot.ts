@@ -1,9 +1,63 @@
-import analyzeIndicators from './analyze_indicators.js';
+import analyzeIndicators, { keltnerChannels } from './analyze_indicators.js';
 import { ok, fail } from '../lib/result.js';
 import { createMeta, ensurePair } from '../lib/validate.js';
 import { formatSummary } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
 import { AnalyzeBbSnapshotOutputSchema } from '../src/schemas.js';
+import type { NumericSeries } from '../src/types/domain.d.ts';
+
+// スクイーズ判定に使う Keltner のパラメータ（TTM Squeeze 準拠: EMA20 ± 1.5×ATR20）
+const SQUEEZE_KC = { period: 20, atrPeriod: 20, multiplier: 1.5 } as const;
+
+export type SqueezeState = 'on' | 'off' | 'fired';
+
+export interface SqueezeResult {
+  state: SqueezeState | null;
+  direction: 'up' | 'down' | null; // fired 時のみ（モメンタムの符号）
+  barsInSqueeze: number; // on: 継続本数 / fired: 解放直前のスクイーズ本数
+  firedBarsAgo: number | null; // 直近の解放（on→off）が何本前か
+  momentum: number | null;
+  history: Array<'on' | 'off' | null>;
+}
+
+/**
+ * スクイーズの状態遷移（BB ±2σ が Keltner の内側 = on）
+ * - on → off に変わった足から fireWindow 本以内は fired（方向はモメンタムの符号）
+ * - momentum: 終値 − (Donchian 中央 + BB 中央) / 2
+ */
+export function squeezeState(
+  bb: { upper: NumericSeries; lower: NumericSeries },
+  kc: { upper: NumericSeries; lower: NumericSeries },
+  momentum: NumericSeries,
+  { fireWindow = 3, historyLength = 30 }: { fireWindow?: number; historyLength?: number } = {}
+): SqueezeResult {
+  const n = Math.min(bb.upper.length, bb.lower.length, kc.upper.length, kc.lower.length);
+  const history: Array<'on' | 'off' | null> = [];
+  let run = 0;
+  let lastRun = 0;
+  let releasedAt: number | null = null;
+  for (let i = 0; i < n; i++) {
+    const [bu, bl, ku, kl] = [bb.upper[i], bb.lower[i], kc.upper[i], kc.lower[i]];
+    if (bu == null || bl == null || ku == null || kl == null) { history.push(null); run = 0; continue; }
+    const on = bu < ku && bl > kl;
+    if (on) run++;
+    else if (run > 0) { releasedAt = i; lastRun = run; run = 0; }
+    history.push(on ? 'on' : 'off');
+  }
+  const last = n - 1;
+  const cur = history[last] ?? null;
+  const m = momentum[last] ?? null;
+  const firedBarsAgo = releasedAt == null ? null : last - releasedAt;
+  const fired = cur === 'off' && firedBarsAgo != null && firedBarsAgo < fireWindow;
+  return {
+    state: cur == null ? null : cur === 'on' ? 'on' : fired ? 'fired' : 'off',
+    direction: fired && m != null && m !== 0 ? (m > 0 ? 'up' : 'down') : null,
+    barsInSqueeze: cur === 'on' ? run : fired ? lastRun : 0,
+    firedBarsAgo,
+    momentum: m == null ? null : Number(m.toFixed(2)),
+    history: history.slice(-historyLength),
+  };
+}
 
 export default async function analyzeBbSnapshot(
   pair: string = 'btc_jpy',
@@ -59,6 +113,21 @@ export default async function analyzeBbSnapshot(
       } catch { return null; }
     })();
 
+    const squeeze = (() => {
+      const norm = indRes.data.normalized;
+      const ind = indRes.data.indicators;
+      if (!ind.bb2_series || !ind.dc_series) return null;
+      const kc = keltnerChannels(norm.map((c) => c.high), norm.map((c) => c.low), norm.map((c) => c.close), SQUEEZE_KC.period, SQUEEZE_KC.atrPeriod, SQUEEZE_KC.multiplier);
+      const dcMid = ind.dc_series.middle;
+      const bbMid = ind.bb2_series.middle;
+      const momentum: NumericSeries = norm.map((c, i) => (dcMid[i] == null || bbMid[i] == null ? null : c.close - ((dcMid[i] as number) + (bbMid[i] as number)) / 2));
+      return squeezeState(ind.bb2_series, kc, momentum);
+    })();
+    const squeezeLine = squeeze?.state == null
+      ? null
+      : `Squeeze: ${squeeze.state}${squeeze.state === 'on' ? ` (${squeeze.barsInSqueeze} bars)` : ''}${squeeze.state === 'fired' ? ` ${squeeze.direction ?? 'flat'} (${squeeze.firedBarsAgo} bars ago, after ${squeeze.barsInSqueeze} bars)` : ''}`;
+    const calculation_params = { period: 20, std_dev_multiplier: 2, squeeze_keltner: SQUEEZE_KC };
+
     if (mode === 'default') {
       const position = zScore == null ? null : (Math.abs(zScore) < 0.3 ? 'near_middle' : (zScore >= 1.8 ? 'at_upper' : (zScore <= -1.8 ? 'at_lower' : (zScore > 0 ? 'upper_zone' : 'lower_zone'))));
       const bw = bandWidthPct ?? 0;
@@ -136,6 +205,8 @@ export default async function analyzeBbSnapshot(
       } else if (volatility_trend === 'decreasing') {
         signals.push('Volatility decreasing - potential squeeze forming');
       }
+      if (squeeze?.state === 'on') signals.push(`BB inside Keltner for ${squeeze.barsInSqueeze} bars - squeeze on`);
+      if (squeeze?.state === 'fired') signals.push(`Squeeze fired ${squeeze.firedBarsAgo} bars ago - momentum ${squeeze.direction ?? 'flat'}`);
 
       if (!signals.length) signals.push('No extreme positioning detected');
       const next_steps = {
@@ -143,7 +214,7 @@ export default async function analyzeBbSnapshot(
         if_need_visualization: 'Use render_chart_svg with withBB=true',
         if_extreme_detected: 'Consider get_volatility_metrics for deeper analysis',
       };
-      const data = { mode, price: close ?? null, bb: { middle: mid, upper, lower, zScore, bandWidthPct }, interpretation, context, signals, next_steps } as any;
+      const data = { mode, price: close ?? null, bb: { middle: mid, upper, lower, zScore, bandWidthPct }, interpretation, context, squeeze, signals, next_steps } as any;
       // content 強化用: LLM が本文だけ見ても要点が掴めるように複数行の要約を生成
       const summaryLines = [
         String(summaryBase),
@@ -154,6 +225,7 @@ export default async function analyzeBbSnapshot(
         ...(context.bandWidthPct_percentile != null ? [
           `Band Width Percentile: ${context.bandWidthPct_percentile}th (${context.current_vs_avg} vs avg)`
         ] : []),
+        ...(squeezeLine ? [squeezeLine] : []),
         '',
         'Signals:',
         ...(signals && signals.length ? signals.map((s) => `- ${s}`) : ['- None']),
@@ -162,7 +234,7 @@ export default async function analyzeBbSnapshot(
         `- ${next_steps.if_need_detail}`,
         `- ${next_steps.if_need_visualization}`,
       ].join('\n');
-      const meta = createMeta(chk.pair, { type, count: indRes.data.normalized.length, mode, extra: { timeseries: timeseries ? { last_30_candles: timeseries } : undefined, metadata: { calculation_params: { period: 20, std_dev_multiplier: 2 }, data_quality: 'complete', last_updated: new Date().toISOString() } } });
+      const meta = createMeta(chk.pair, { type, count: indRes.data.normalized.length, mode, extra: { timeseries: timeseries ? { last_30_candles: timeseries } : undefined, metadata: { calculation_params, data_quality: 'complete', last_updated: new Date().toISOString() } } });
       return AnalyzeBbSnapshotOutputSchema.parse(ok(summaryLines, data, meta as any)) as any;
     }
 
@@ -170,9 +242,9 @@ export default async function analyzeBbSnapshot(
     const bbBands: any = { '+3σ': null, '+2σ': upper, '+1σ': null, '-1σ': null, '-2σ': lower, '-3σ': null };
     const bandWidthAll: any = { '±1σ': null, '±2σ': bandWidthPct, '±3σ': null };
     const current_zone = zScore == null ? null : (Math.abs(zScore) <= 1 ? 'within_1σ' : (Math.abs(zScore) <= 2 ? '1σ_to_2σ' : (Math.abs(zScore) <= 3 ? 'beyond_2σ' : 'beyond_3σ')));
-    const data = { mode, price: close ?? null, bb: { middle: mid, bands: bbBands, zScore, bandWidthPct: bandWidthAll }, position_analysis: { current_zone }, extreme_events: { 'touches_3σ_last_30d': null, 'touches_2σ_last_30d': null, band_walk_detected: null, squeeze_percentile: null }, interpretation: { volatility_state: null, extreme_risk: null, mean_reversion_potential: null }, tags } as any;
-    const meta = createMeta(chk.pair, { type, count: indRes.data.normalized.length, mode, extra: { timeseries: timeseries ? { last_30_candles: timeseries } : undefined, metadata: { calculation_params: { period: 20, std_dev_multiplier: 2 }, data_quality: 'complete', last_updated: new Date().toISOString() } } });
-    return AnalyzeBbSnapshotOutputSchema.parse(ok(summaryBase, data as any, meta as any)) as any;
+    const data = { mode, price: close ?? null, bb: { middle: mid, bands: bbBands, zScore, bandWidthPct: bandWidthAll }, position_analysis: { current_zone }, extreme_events: { 'touches_3σ_last_30d': null, 'touches_2σ_last_30d': null, band_walk_detected: null, squeeze_percentile: null }, interpretation: { volatility_state: null, extreme_risk: null, mean_reversion_potential: null }, squeeze, tags } as any;
+    const meta = createMeta(chk.pair, { type, count: indRes.data.normalized.length, mode, extra: { timeseries: timeseries ? { last_30_candles: timeseries } : undefined, metadata: { calculation_params, data_quality: 'complete', last_updated: new Date().toISOString() } } });
+    return AnalyzeBbSnapshotOutputSchema.parse(ok(squeezeLine ? `${summaryBase}\n${squeezeLine}` : summaryBase, data as any, meta as any)) as any;
   } catch (e: unknown) {
     return AnalyzeBbSnapshotOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
   }
@@ -19,6 +19,7 @@
 import getCandles from './get_candles.js';
 import { ok, fail } from '../lib/result.js';
 import { createMeta } from '../lib/validate.js';
+import { classifyMarketRegime, regimeFit, REGIME_LABELS_JA, type MarketRegime, type RegimeFit } from './analyze_market_regime.js';
 import {
   AnalyzeCandlePatternsInputSchema,
   AnalyzeCandlePatternsOutputSchema,
@@ -56,6 +57,13 @@ interface LocalContext {
   volatility_level: 'low' | 'medium' | 'high';
 }
 
+/** パターン確定足の相場局面と、反転パターンとしての噛み合い */
+interface RegimeContext {
+  regime: MarketRegime;
+  fit: RegimeFit;
+  note: string;
+}
+
 interface DetectedCandlePattern {
   pattern: CandlePatternType;
   pattern_jp: string;
@@ -65,6 +73,7 @@ interface DetectedCandlePattern {
   uses_partial_candle: boolean;
   status: 'confirmed' | 'forming';
   local_context: LocalContext;
+  regimeContext?: RegimeContext;
   history_stats: HistoryStats | null;
 }
 
@@ -610,8 +619,11 @@ function generateSummary(
       statsPart = `過去${p.history_stats.lookback_days}日間で同様のパターンが${p.history_stats.occurrences}回出現し、翌日の勝率は${(h1.win_rate * 100).toFixed(0)}%でした。`;
     }
 
+    const regimePart = p.regimeContext
+      ? `相場局面は${REGIME_LABELS_JA[p.regimeContext.regime]}で、${p.regimeContext.fit === 'favorable' ? 'パターンの前提に合っています' : p.regimeContext.fit === 'unfavorable' ? 'ダマシに注意が必要です' : '中立的な位置です'}（${p.regimeContext.note}）。`
+      : '';
     parts.push(
-      `${trendText}の中で「${p.pattern_jp}」（${statusText}）が検出されました。これは${directionText}とされます。${statsPart}`
+      `${trendText}の中で「${p.pattern_jp}」（${statusText}）が検出されました。これは${directionText}とされます。${regimePart}${statsPart}`
     );
 
     if (p.uses_partial_candle) {
@@ -685,6 +697,9 @@ function generateContent(
       lines.push(`  状態: ${p.status === 'forming' ? '形成中（終値未確定）' : '確定'}`);
       lines.push(`  強度: ${(p.strength * 100).toFixed(0)}%`);
       lines.push(`  直前トレンド: ${p.local_context.trend_before === 'up' ? '上昇' : p.local_context.trend_before === 'down' ? '下落' : '中立'}`);
+      if (p.regimeContext) {
+        lines.push(`  相場局面: ${REGIME_LABELS_JA[p.regimeContext.regime]}（${p.regimeContext.fit}: ${p.regimeContext.note}）`);
+      }
       lines.push('');
 
       // === 3. パターン該当箇所の詳細 ===
@@ -875,6 +890,8 @@ export default async function analyzeCandlePatterns(
     // CRITICAL: allCandlesは [最古, ..., 最新] の順序
     const windowStart = allCandles.length - windowDays;
     const windowCandles = allCandles.slice(windowStart);
+    // 相場局面（analyze_market_regime と同じ判定）。local_context とは別に regimeContext として添える
+    const regimeBars = classifyMarketRegime(allCandles).bars;
 
     // 日足確定判定:
     // - 過去日付指定時: すべて確定済み（is_partial = false）
@@ -932,6 +949,8 @@ export default async function analyzeCandlePatterns(
           // トレンドは1本目より前の3本で判定
           const trendBefore = detectTrendBefore(windowCandles, i - 1, 3);
           const volatilityLevel = detectVolatilityLevel(windowCandles, i, 5);
+          const regime = regimeBars[windowStart + i]?.regime;
+          const fit = regime ? regimeFit(regime, PATTERN_DIRECTIONS[patternType], 'reversal') : null;
 
           // 過去統計の計算（フィルタリング前の全データを使用）
           const historyStats = calculateHistoryStats(
@@ -953,6 +972,7 @@ export default async function analyzeCandlePatterns(
               trend_before: trendBefore,
               volatility_level: volatilityLevel,
             },
+            ...(regime && fit ? { regimeContext: { regime, fit: fit.fit, note: fit.note } } : {}),
             history_stats: historyStats,
           });
         }
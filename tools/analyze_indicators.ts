@@ -1,39 +1,52 @@
 import getCandles from './get_candles.js';
 import { ensurePair, createMeta } from '../lib/validate.js';
+import { getPairInfo } from '../lib/pairs.js';
 import { ok, fail } from '../lib/result.js';
 import { formatSummary } from '../lib/formatter.js';
-import { getFetchCount } from '../lib/indicator_buffer.js';
+import { getFetchCount, parseIndicatorSpec, specKey, specWarmup, type IndicatorSpec, type IndicatorSpecInput } from '../lib/indicator_buffer.js';
+import { detectSwingPoints } from './patterns/swing.js';
 import { GetIndicatorsDataSchema, GetIndicatorsMetaSchema, GetIndicatorsOutputSchema } from '../src/schemas.js';
 import type {
   Result,
   Candle,
   NumericSeries,
   CandleType,
+  CustomIndicatorResult,
   GetIndicatorsData,
   GetIndicatorsMeta,
+  GetCandlesData,
+  GetCandlesMeta,
 } from '../src/types/domain.d.ts';
 
 // --- Indicators implementations ---
 
-export function sma(values: number[], period: number = 25): NumericSeries {
+/** 小数桁（null = 丸めない） */
+export type Digits = number | null;
+
+const rnd = (v: number, digits: Digits) => (digits == null ? v : Number(v.toFixed(digits)));
+
+export function sma(values: number[], period: number = 25, digits: Digits = 2): NumericSeries {
   const results: NumericSeries = [];
   let sum = 0;
   for (let i = 0; i < values.length; i++) {
     sum += values[i];
-    if (i >= period) {
-      sum -= values[i - period];
-      results.push(Number((sum / period).toFixed(2)));
-    } else {
-      results.push(null);
-    }
+    if (i >= period) sum -= values[i - period];
+    results.push(i >= period - 1 ? rnd(sum / period, digits) : null);
   }
   return results;
 }
 
-export function rsi(values: number[], period: number = 14): NumericSeries {
-  const results: Array<number | null | { value: number; gains: number; losses: number }> = [];
-  let gains = 0;
-  let losses = 0;
+/** Wilder の平均上昇幅・平均下落幅から RSI（下落ゼロなら 100、上昇も下落もゼロなら 50） */
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/** RSI（Wilder 平滑化。最初の値は period 本の差分の単純平均から、以降は (前回×(period-1) + 今回) / period） */
+export function rsi(values: number[], period: number = 14, digits: Digits = 2): NumericSeries {
+  const results: NumericSeries = [];
+  let avgGain = 0;
+  let avgLoss = 0;
 
   for (let i = 0; i < values.length; i++) {
     if (i === 0) {
@@ -42,47 +55,47 @@ export function rsi(values: number[], period: number = 14): NumericSeries {
     }
 
     const diff = values[i] - values[i - 1];
+    const gain = diff > 0 ? diff : 0;
+    const loss = diff < 0 ? -diff : 0;
 
     if (i <= period) {
-      if (diff >= 0) gains += diff; else losses -= diff;
-    }
-
-    if (i === period) {
-      const rs = gains / (losses || 1);
-      results.push(Number((100 - 100 / (1 + rs)).toFixed(2)));
-    } else if (i > period) {
-      const prev = results[i - 1];
-      const prevGains = typeof prev === 'object' && prev ? prev.gains : 0;
-      const prevLosses = typeof prev === 'object' && prev ? prev.losses : 0;
-
-      const currentGains = diff >= 0 ? diff : 0;
-      const currentLosses = diff < 0 ? -diff : 0;
-
-      gains = (prevGains * (period - 1) + currentGains) / period;
-      losses = (prevLosses * (period - 1) + currentLosses) / period;
-
-      const rs = gains / (losses || 1);
-      const rsiValue = Number((100 - 100 / (1 + rs)).toFixed(2));
-
-      results.push({ value: rsiValue, gains, losses });
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      results.push(i === period ? rnd(rsiFromAverages(avgGain, avgLoss), digits) : null);
     } else {
-      results.push(null);
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+      results.push(rnd(rsiFromAverages(avgGain, avgLoss), digits));
     }
   }
 
-  return results.map((r) => (r != null && typeof r === 'object' ? r.value : r)) as NumericSeries;
+  return results;
 }
 
 export function bollingerBands(
   values: number[],
   period: number = 20,
-  stdDev: number = 2
+  stdDev: number = 2,
+  digits: Digits = 2
 ): { upper: NumericSeries; middle: NumericSeries; lower: NumericSeries } {
   const upper: NumericSeries = [];
   const middle: NumericSeries = [];
   const lower: NumericSeries = [];
+  // 窓内の和・二乗和を差分更新（O(n)）。先頭値からの偏差で持ち、大きな価格での桁落ちを抑える
+  // lib/incremental_indicators.ts の IncrementalBollinger と同じ演算順序（出力の一致をテストで担保）
+  const base = values[0] ?? 0;
+  let s1 = 0;
+  let s2 = 0;
 
   for (let i = 0; i < values.length; i++) {
+    const d = values[i] - base;
+    s1 += d;
+    s2 += d * d;
+    if (i >= period) {
+      const o = values[i - period] - base;
+      s1 -= o;
+      s2 -= o * o;
+    }
     if (i < period - 1) {
       upper.push(null);
       middle.push(null);
@@ -90,22 +103,21 @@ export function bollingerBands(
       continue;
     }
 
-    const slice = values.slice(i - period + 1, i + 1);
-    const smaValue = slice.reduce((a, b) => a + b, 0) / period;
-    const variance = slice.reduce((sum, val) => sum + Math.pow(val - smaValue, 2), 0) / period;
-    const std = Math.sqrt(variance);
+    const mean = s1 / period;
+    const smaValue = base + mean;
+    const std = Math.sqrt(Math.max(0, s2 / period - mean * mean));
 
-    upper.push(Number((smaValue + stdDev * std).toFixed(2)));
-    middle.push(Number(smaValue.toFixed(2)));
-    lower.push(Number((smaValue - stdDev * std).toFixed(2)));
+    upper.push(rnd(smaValue + stdDev * std, digits));
+    middle.push(rnd(smaValue, digits));
+    lower.push(rnd(smaValue - stdDev * std, digits));
   }
   return { upper, middle, lower };
 }
 
 // Exponential Moving Average
-export function ema(values: number[], period: number): NumericSeries {
+export function ema(values: number[], period: number, digits: Digits = 2): NumericSeries {
   const out: NumericSeries = [];
-  if (period <= 1) return values.map((v) => (v != null ? Number(v.toFixed(2)) : null));
+  if (period <= 1) return values.map((v) => (v != null ? rnd(v, digits) : null));
   const k = 2 / (period + 1);
   let prev: number | null = null;
   for (let i = 0; i < values.length; i++) {
@@ -116,53 +128,55 @@ export function ema(values: number[], period: number): NumericSeries {
       if (i < period - 1) { out.push(null); continue; }
       const avg = values.slice(i - period + 1, i + 1).reduce((s, x) => s + x, 0) / period;
       prev = avg;
-      out.push(Number(avg.toFixed(2)));
+      out.push(rnd(avg, digits));
     } else {
       const cur: number = v * k + (prev as number) * (1 - k);
       prev = cur;
-      out.push(Number(cur.toFixed(2)));
+      out.push(rnd(cur, digits));
     }
   }
   return out;
 }
 
-export function macd(values: number[], fast = 12, slow = 26, signal = 9): { line: NumericSeries; signal: NumericSeries; hist: NumericSeries } {
-  const emaFast = ema(values, fast);
-  const emaSlow = ema(values, slow);
+export function macd(values: number[], fast = 12, slow = 26, signal = 9, digits: Digits = 2): { line: NumericSeries; signal: NumericSeries; hist: NumericSeries } {
+  const emaFast = ema(values, fast, digits);
+  const emaSlow = ema(values, slow, digits);
   const line: NumericSeries = [];
   for (let i = 0; i < values.length; i++) {
     const a = emaFast[i]; const b = emaSlow[i];
     if (a == null || b == null) line.push(null);
-    else line.push(Number(((a as number) - (b as number)).toFixed(2)));
+    else line.push(rnd((a as number) - (b as number), digits));
   }
-  // signal EMA over MACD line
-  const sig = ema(line.map((v) => (v == null ? 0 : (v as number))) as number[], signal);
-  const signalSeries: NumericSeries = sig.map((v, i) => (line[i] == null ? null : v));
-  const hist: NumericSeries = line.map((v, i) => (v == null || signalSeries[i] == null ? null : Number(((v as number) - (signalSeries[i] as number)).toFixed(2))));
+  // シグナルは MACD ラインの算出済み部分（slow-1 本目以降）だけで EMA を取る（先頭を 0 で埋めると 0 寄りに偏る）
+  const start = line.findIndex((v) => v != null);
+  const signalSeries: NumericSeries = start < 0
+    ? line.map(() => null)
+    : [...new Array<null>(start).fill(null), ...ema(line.slice(start) as number[], signal, digits)];
+  const hist: NumericSeries = line.map((v, i) => (v == null || signalSeries[i] == null ? null : rnd((v as number) - (signalSeries[i] as number), digits)));
   return { line, signal: signalSeries, hist };
 }
 
 export function ichimokuSeries(
   highs: number[],
   lows: number[],
-  closes: number[]
+  closes: number[],
+  tenkanPeriod: number = 9,
+  kijunPeriod: number = 26,
+  senkouBPeriod: number = 52,
+  digits: Digits = 2
 ): { tenkan: NumericSeries; kijun: NumericSeries; spanA: NumericSeries; spanB: NumericSeries; chikou: NumericSeries } {
   const tenkanSen: NumericSeries = [];
   const kijunSen: NumericSeries = [];
   const rawSpanA: NumericSeries = [];
   const rawSpanB: NumericSeries = [];
 
-  const tenkanPeriod = 9;
-  const kijunPeriod = 26;
-  const senkouBPeriod = 52;
-
   for (let i = 0; i < highs.length; i++) {
     if (i < tenkanPeriod - 1) {
       tenkanSen.push(null);
     } else {
       const highSlice = highs.slice(i - tenkanPeriod + 1, i + 1);
       const lowSlice = lows.slice(i - tenkanPeriod + 1, i + 1);
-      tenkanSen.push(Number(((Math.max(...highSlice) + Math.min(...lowSlice)) / 2).toFixed(2)));
+      tenkanSen.push(rnd((Math.max(...highSlice) + Math.min(...lowSlice)) / 2, digits));
     }
 
     if (i < kijunPeriod - 1) {
@@ -170,12 +184,12 @@ export function ichimokuSeries(
     } else {
       const highSlice = highs.slice(i - kijunPeriod + 1, i + 1);
       const lowSlice = lows.slice(i - kijunPeriod + 1, i + 1);
-      kijunSen.push(Number(((Math.max(...highSlice) + Math.min(...lowSlice)) / 2).toFixed(2)));
+      kijunSen.push(rnd((Math.max(...highSlice) + Math.min(...lowSlice)) / 2, digits));
     }
 
     if (tenkanSen[i] != null && kijunSen[i] != null) {
       const a = (tenkanSen[i] as number) + (kijunSen[i] as number);
-      rawSpanA.push(Number((a / 2).toFixed(2)));
+      rawSpanA.push(rnd(a / 2, digits));
     } else {
       rawSpanA.push(null);
     }
@@ -185,11 +199,11 @@ export function ichimokuSeries(
     } else {
       const highSlice = highs.slice(i - senkouBPeriod + 1, i + 1);
       const lowSlice = lows.slice(i - senkouBPeriod + 1, i + 1);
-      rawSpanB.push(Number(((Math.max(...highSlice) + Math.min(...lowSlice)) / 2).toFixed(2)));
+      rawSpanB.push(rnd((Math.max(...highSlice) + Math.min(...lowSlice)) / 2, digits));
     }
   }
 
-  const chikou = closes.map((v) => (v != null ? Number(v.toFixed(2)) : null));
+  const chikou = closes.map((v) => (v != null ? rnd(v, digits) : null));
 
   return {
     tenkan: tenkanSen,
@@ -200,10 +214,245 @@ export function ichimokuSeries(
   };
 }
 
+// --- Oscillators ---
+
+// null を含む系列の単純移動平均（窓内に null があれば null）
+function smaNullable(values: NumericSeries, period: number, digits: Digits = 2): NumericSeries {
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const v = values[j];
+      if (v == null) return null;
+      sum += v;
+    }
+    return rnd(sum / period, digits);
+  });
+}
+
+// 窓内の位置（0〜100）。レンジがゼロなら中央
+function rangePosition(value: number, lo: number, hi: number): number {
+  return hi - lo === 0 ? 50 : ((value - lo) / (hi - lo)) * 100;
+}
+
+/** Stochastic %K/%D（%K は smoothK で平滑化したスロー） */
+export function stochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number = 14,
+  smoothK: number = 3,
+  dPeriod: number = 3,
+  digits: Digits = 2
+): { k: NumericSeries; d: NumericSeries } {
+  const raw: NumericSeries = closes.map((c, i) => {
+    if (i < kPeriod - 1) return null;
+    const hh = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
+    const ll = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
+    return rnd(rangePosition(c, ll, hh), digits);
+  });
+  const k = smoothK > 1 ? smaNullable(raw, smoothK, digits) : raw;
+  return { k, d: smaNullable(k, dPeriod, digits) };
+}
+
+/** Stochastic RSI（RSI に対するストキャスティクス、0〜100） */
+export function stochRsi(
+  closes: number[],
+  rsiPeriod: number = 14,
+  stochPeriod: number = 14,
+  smoothK: number = 3,
+  dPeriod: number = 3,
+  digits: Digits = 2
+): { k: NumericSeries; d: NumericSeries } {
+  const r = rsi(closes, rsiPeriod, digits);
+  const raw: NumericSeries = r.map((v, i) => {
+    if (v == null || i < stochPeriod - 1) return null;
+    const win = r.slice(i - stochPeriod + 1, i + 1);
+    if (win.some((x) => x == null)) return null;
+    const nums = win as number[];
+    return rnd(rangePosition(v, Math.min(...nums), Math.max(...nums)), digits);
+  });
+  const k = smoothK > 1 ? smaNullable(raw, smoothK, digits) : raw;
+  return { k, d: smaNullable(k, dPeriod, digits) };
+}
+
+/** Williams %R（-100〜0） */
+export function williamsR(highs: number[], lows: number[], closes: number[], period: number = 14, digits: Digits = 2): NumericSeries {
+  return closes.map((c, i) => {
+    if (i < period - 1) return null;
+    const hh = Math.max(...highs.slice(i - period + 1, i + 1));
+    const ll = Math.min(...lows.slice(i - period + 1, i + 1));
+    return rnd(rangePosition(c, ll, hh) - 100, digits);
+  });
+}
+
+/** Commodity Channel Index（典型価格と平均偏差、係数 0.015） */
+export function cci(highs: number[], lows: number[], closes: number[], period: number = 20, digits: Digits = 2): NumericSeries {
+  const tp = closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+  return tp.map((v, i) => {
+    if (i < period - 1) return null;
+    const win = tp.slice(i - period + 1, i + 1);
+    const mean = win.reduce((a, b) => a + b, 0) / period;
+    const meanDev = win.reduce((a, b) => a + Math.abs(b - mean), 0) / period;
+    return meanDev === 0 ? 0 : rnd((v - mean) / (0.015 * meanDev), digits);
+  });
+}
+
+/** Rate of Change（n 本前比の変化率 %） */
+export function roc(values: number[], period: number = 12, digits: Digits = 2): NumericSeries {
+  return values.map((v, i) => {
+    if (i < period) return null;
+    const base = values[i - period];
+    return base === 0 ? null : rnd(((v - base) / base) * 100, digits);
+  });
+}
+
+// --- Trend strength ---
+
+// True Range（先頭は前日終値が無いため high-low）
+function trueRange(highs: number[], lows: number[], closes: number[]): number[] {
+  return highs.map((h, i) => (i === 0 ? h - lows[i] : Math.max(h - lows[i], Math.abs(h - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]))));
+}
+
+/** ADX と +DI/-DI（Wilder 平滑化。最初の ADX は 2×period 本目） */
+export function adx(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14,
+  digits: Digits = 2
+): { adx: NumericSeries; plusDI: NumericSeries; minusDI: NumericSeries } {
+  const n = closes.length;
+  const out = { adx: new Array(n).fill(null) as NumericSeries, plusDI: new Array(n).fill(null) as NumericSeries, minusDI: new Array(n).fill(null) as NumericSeries };
+  if (n <= period) return out;
+  const tr = trueRange(highs, lows, closes);
+  let sTr = 0, sPlus = 0, sMinus = 0, sumDx = 0, prevAdx: number | null = null;
+  for (let i = 1; i < n; i++) {
+    const up = highs[i] - highs[i - 1];
+    const down = lows[i - 1] - lows[i];
+    const plusDm = up > down && up > 0 ? up : 0;
+    const minusDm = down > up && down > 0 ? down : 0;
+    if (i <= period) {
+      sTr += tr[i]; sPlus += plusDm; sMinus += minusDm;
+      if (i < period) continue;
+    } else {
+      sTr = sTr - sTr / period + tr[i];
+      sPlus = sPlus - sPlus / period + plusDm;
+      sMinus = sMinus - sMinus / period + minusDm;
+    }
+    const pdi = sTr === 0 ? 0 : (100 * sPlus) / sTr;
+    const mdi = sTr === 0 ? 0 : (100 * sMinus) / sTr;
+    const dx = pdi + mdi === 0 ? 0 : (100 * Math.abs(pdi - mdi)) / (pdi + mdi);
+    out.plusDI[i] = rnd(pdi, digits);
+    out.minusDI[i] = rnd(mdi, digits);
+    if (i < 2 * period - 1) {
+      sumDx += dx;
+    } else if (prevAdx == null) {
+      prevAdx = (sumDx + dx) / period;
+      out.adx[i] = rnd(prevAdx, digits);
+    } else {
+      prevAdx = (prevAdx * (period - 1) + dx) / period;
+      out.adx[i] = rnd(prevAdx, digits);
+    }
+  }
+  return out;
+}
+
+/** Aroon Up/Down（period+1 本の窓で最高値・最安値からの経過本数、0〜100）と Oscillator */
+export function aroon(highs: number[], lows: number[], period: number = 25, digits: Digits = 2): { up: NumericSeries; down: NumericSeries; oscillator: NumericSeries } {
+  const up: NumericSeries = [];
+  const down: NumericSeries = [];
+  const oscillator: NumericSeries = [];
+  for (let i = 0; i < highs.length; i++) {
+    if (i < period) { up.push(null); down.push(null); oscillator.push(null); continue; }
+    let hi = i - period, lo = i - period;
+    for (let j = i - period; j <= i; j++) {
+      if (highs[j] >= highs[hi]) hi = j;
+      if (lows[j] <= lows[lo]) lo = j;
+    }
+    const u = (100 * (period - (i - hi))) / period;
+    const d = (100 * (period - (i - lo))) / period;
+    up.push(rnd(u, digits));
+    down.push(rnd(d, digits));
+    oscillator.push(rnd(u - d, digits));
+  }
+  return { up, down, oscillator };
+}
+
+/** Parabolic SAR（direction: 1=上昇, -1=下降） */
+export function parabolicSar(highs: number[], lows: number[], step: number = 0.02, maxStep: number = 0.2, digits: Digits = 2): { sar: NumericSeries; direction: NumericSeries } {
+  const n = highs.length;
+  const sar: NumericSeries = new Array(n).fill(null);
+  const direction: NumericSeries = new Array(n).fill(null);
+  if (n < 2) return { sar, direction };
+  let up = highs[1] >= highs[0];
+  let cur = up ? lows[0] : highs[0];
+  let ep = up ? highs[1] : lows[1];
+  let af = step;
+  for (let i = 1; i < n; i++) {
+    if (i > 1) {
+      cur = cur + af * (ep - cur);
+      // 直近 2 本の安値（高値）を越えない
+      cur = up ? Math.min(cur, lows[i - 1], lows[i - 2]) : Math.max(cur, highs[i - 1], highs[i - 2]);
+      if (up && lows[i] < cur) {
+        up = false; cur = ep; ep = lows[i]; af = step;
+      } else if (!up && highs[i] > cur) {
+        up = true; cur = ep; ep = highs[i]; af = step;
+      } else if (up && highs[i] > ep) {
+        ep = highs[i]; af = Math.min(maxStep, af + step);
+      } else if (!up && lows[i] < ep) {
+        ep = lows[i]; af = Math.min(maxStep, af + step);
+      }
+    }
+    sar[i] = rnd(cur, digits);
+    direction[i] = up ? 1 : -1;
+  }
+  return { sar, direction };
+}
+
+/** Supertrend（ATR は Wilder 平滑化。line は上昇中は下側バンド、下降中は上側バンド） */
+export function supertrend(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 10,
+  multiplier: number = 3,
+  digits: Digits = 2
+): { line: NumericSeries; direction: NumericSeries } {
+  const n = closes.length;
+  const line: NumericSeries = new Array(n).fill(null);
+  const direction: NumericSeries = new Array(n).fill(null);
+  if (n < period) return { line, direction };
+  const tr = trueRange(highs, lows, closes);
+  let atr = tr.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  let finalUpper = 0, finalLower = 0, dir = 1;
+  for (let i = period - 1; i < n; i++) {
+    if (i >= period) atr = (atr * (period - 1) + tr[i]) / period;
+    const mid = (highs[i] + lows[i]) / 2;
+    const basicUpper = mid + multiplier * atr;
+    const basicLower = mid - multiplier * atr;
+    if (i === period - 1) {
+      finalUpper = basicUpper;
+      finalLower = basicLower;
+      dir = closes[i] >= mid ? 1 : -1;
+    } else {
+      const prevClose = closes[i - 1];
+      finalUpper = basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+      finalLower = basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+      if (dir === 1 && closes[i] < finalLower) dir = -1;
+      else if (dir === -1 && closes[i] > finalUpper) dir = 1;
+    }
+    line[i] = rnd(dir === 1 ? finalLower : finalUpper, digits);
+    direction[i] = dir;
+  }
+  return { line, direction };
+}
+
 function ichimoku(
   highs: number[],
   lows: number[],
-  closes: number[]
+  closes: number[],
+  digits: Digits = 2
 ): { conversion: number; base: number; spanA: number; spanB: number } | null {
   if (highs.length < 52 || lows.length < 52) return null;
   const conversion = (Math.max(...highs.slice(-9)) + Math.min(...lows.slice(-9))) / 2;
@@ -211,13 +460,204 @@ function ichimoku(
   const spanA = (conversion + base) / 2;
   const spanB = (Math.max(...highs.slice(-52)) + Math.min(...lows.slice(-52))) / 2;
   return {
-    conversion: Number(conversion.toFixed(2)),
-    base: Number(base.toFixed(2)),
-    spanA: Number(spanA.toFixed(2)),
-    spanB: Number(spanB.toFixed(2)),
+    conversion: rnd(conversion, digits),
+    base: rnd(base, digits),
+    spanA: rnd(spanA, digits),
+    spanB: rnd(spanB, digits),
   };
 }
 
+// --- Channels ---
+
+/** ATR（Wilder 平滑化。最初の値は period 本の TR の単純平均） */
+export function atr(highs: number[], lows: number[], closes: number[], period: number = 14, digits: Digits = 2): NumericSeries {
+  const tr = trueRange(highs, lows, closes);
+  const out: NumericSeries = new Array(tr.length).fill(null);
+  let prev: number | null = null;
+  for (let i = period - 1; i < tr.length; i++) {
+    prev = prev == null ? tr.slice(0, period).reduce((a, b) => a + b, 0) / period : (prev * (period - 1) + tr[i]) / period;
+    out[i] = rnd(prev, digits);
+  }
+  return out;
+}
+
+/** 最新の ATR（lib/candle_transform のブロック幅の既定値。本数が足りなければ null） */
+export function latestAtr(candles: Array<{ high: number; low: number; close: number }>, period: number = 14): number | null {
+  return atr(candles.map((c) => c.high), candles.map((c) => c.low), candles.map((c) => c.close), period, null).at(-1) ?? null;
+}
+
+/** Keltner Channels（中心 EMA ± multiplier × ATR） */
+export function keltnerChannels(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 20,
+  atrPeriod: number = 10,
+  multiplier: number = 2,
+  digits: Digits = 2
+): { upper: NumericSeries; middle: NumericSeries; lower: NumericSeries } {
+  const mid = ema(closes, period, digits);
+  const a = atr(highs, lows, closes, atrPeriod, digits);
+  const band = (sign: 1 | -1) => mid.map((m, i) => (m == null || a[i] == null ? null : rnd(m + sign * multiplier * (a[i] as number), digits)));
+  return { upper: band(1), middle: mid, lower: band(-1) };
+}
+
+/** Donchian Channels（period 本の最高値・最安値と中央） */
+export function donchianChannels(highs: number[], lows: number[], period: number = 20, digits: Digits = 2): { upper: NumericSeries; middle: NumericSeries; lower: NumericSeries } {
+  const upper: NumericSeries = [];
+  const middle: NumericSeries = [];
+  const lower: NumericSeries = [];
+  for (let i = 0; i < highs.length; i++) {
+    if (i < period - 1) { upper.push(null); middle.push(null); lower.push(null); continue; }
+    const hh = Math.max(...highs.slice(i - period + 1, i + 1));
+    const ll = Math.min(...lows.slice(i - period + 1, i + 1));
+    upper.push(rnd(hh, digits));
+    middle.push(rnd((hh + ll) / 2, digits));
+    lower.push(rnd(ll, digits));
+  }
+  return { upper, middle, lower };
+}
+
+// --- Volume ---
+
+// Money Flow Multiplier（終値がレンジのどこで引けたか、-1〜+1）
+function moneyFlowMultiplier(high: number, low: number, close: number): number {
+  return high === low ? 0 : ((close - low) - (high - close)) / (high - low);
+}
+
+/** On-Balance Volume（前日比で出来高を加減算した累積） */
+export function obv(closes: number[], volumes: number[], digits: Digits = 2): NumericSeries {
+  let acc = 0;
+  return closes.map((c, i) => {
+    if (i > 0) acc += c > closes[i - 1] ? volumes[i] : c < closes[i - 1] ? -volumes[i] : 0;
+    return rnd(acc, digits);
+  });
+}
+
+/** Accumulation/Distribution ライン（MFM × 出来高の累積） */
+export function accumulationDistribution(highs: number[], lows: number[], closes: number[], volumes: number[], digits: Digits = 2): NumericSeries {
+  let acc = 0;
+  return closes.map((c, i) => {
+    acc += moneyFlowMultiplier(highs[i], lows[i], c) * volumes[i];
+    return rnd(acc, digits);
+  });
+}
+
+/** Chaikin Money Flow（期間内の MFM × 出来高 ÷ 出来高合計、-1〜+1） */
+export function chaikinMoneyFlow(highs: number[], lows: number[], closes: number[], volumes: number[], period: number = 20, digits: Digits = 4): NumericSeries {
+  return closes.map((_, i) => {
+    if (i < period - 1) return null;
+    let mfv = 0, vol = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      mfv += moneyFlowMultiplier(highs[j], lows[j], closes[j]) * volumes[j];
+      vol += volumes[j];
+    }
+    return vol === 0 ? null : rnd(mfv / vol, digits);
+  });
+}
+
+/** Money Flow Index（典型価格 × 出来高で重み付けした RSI、0〜100） */
+export function mfi(highs: number[], lows: number[], closes: number[], volumes: number[], period: number = 14, digits: Digits = 2): NumericSeries {
+  const tp = closes.map((c, i) => (highs[i] + lows[i] + c) / 3);
+  return tp.map((_, i) => {
+    if (i < period) return null;
+    let pos = 0, neg = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = tp[j] * volumes[j];
+      if (tp[j] > tp[j - 1]) pos += flow;
+      else if (tp[j] < tp[j - 1]) neg += flow;
+    }
+    if (pos + neg === 0) return 50;
+    return neg === 0 ? 100 : rnd(100 - 100 / (1 + pos / neg), digits);
+  });
+}
+
+/** アンカー足（anchorIndex）から累積した VWAP。アンカー前は null */
+export function anchoredVwap(highs: number[], lows: number[], closes: number[], volumes: number[], anchorIndex: number, digits: Digits = 2): NumericSeries {
+  let pv = 0, vol = 0;
+  return closes.map((c, i) => {
+    if (i < anchorIndex) return null;
+    pv += ((highs[i] + lows[i] + c) / 3) * volumes[i];
+    vol += volumes[i];
+    return vol === 0 ? null : rnd(pv / vol, digits);
+  });
+}
+
+const JST_OFFSET_MS = 9 * 3_600_000;
+
+/** セッション VWAP（JST の日付が変わるたびにリセット。日足以上では各足が 1 セッションになる） */
+export function sessionVwap(highs: number[], lows: number[], closes: number[], volumes: number[], times: number[], digits: Digits = 2): NumericSeries {
+  let pv = 0, vol = 0, session: number | null = null;
+  return closes.map((c, i) => {
+    const day = Math.floor((times[i] + JST_OFFSET_MS) / 86_400_000);
+    if (day !== session) { session = day; pv = 0; vol = 0; }
+    pv += ((highs[i] + lows[i] + c) / 3) * volumes[i];
+    vol += volumes[i];
+    return vol === 0 ? null : rnd(pv / vol, digits);
+  });
+}
+
+/**
+ * 指定パラメータで指標を計算する。単一系列は value、複数系列は構成要素名をキーに返す
+ * precision.price は価格と同じ単位の指標（SMA/BB/ATR など）、precision.oscillator はそれ以外の小数桁
+ */
+export function computeIndicatorSpec(
+  spec: IndicatorSpec,
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[] = [],
+  { price: pd = 2, oscillator: od = 2 }: { price?: Digits; oscillator?: Digits } = {}
+): Record<string, NumericSeries> {
+  const [a, b, c, d] = spec.params;
+  switch (spec.name) {
+    case 'SMA':
+      return { value: sma(closes, a, pd) };
+    case 'EMA':
+      return { value: ema(closes, a, pd) };
+    case 'RSI':
+      return { value: rsi(closes, a, od) };
+    case 'BB':
+      return bollingerBands(closes, a, b, pd);
+    case 'MACD':
+      return macd(closes, a, b, c, pd);
+    case 'ICHIMOKU':
+      return ichimokuSeries(highs, lows, closes, a, b, c, pd);
+    case 'STOCH':
+      return stochastic(highs, lows, closes, a, b, c, od);
+    case 'STOCHRSI':
+      return stochRsi(closes, a, b, c, d, od);
+    case 'WILLR':
+      return { value: williamsR(highs, lows, closes, a, od) };
+    case 'CCI':
+      return { value: cci(highs, lows, closes, a, od) };
+    case 'ROC':
+      return { value: roc(closes, a, od) };
+    case 'ADX':
+      return adx(highs, lows, closes, a, od);
+    case 'AROON':
+      return aroon(highs, lows, a, od);
+    case 'PSAR':
+      return parabolicSar(highs, lows, a, b, pd);
+    case 'SUPERTREND':
+      return supertrend(highs, lows, closes, a, b, pd);
+    case 'ATR':
+      return { value: atr(highs, lows, closes, a, pd) };
+    case 'KC':
+      return keltnerChannels(highs, lows, closes, a, b, c, pd);
+    case 'DC':
+      return donchianChannels(highs, lows, a, pd);
+    case 'OBV':
+      return { value: obv(closes, volumes, od) };
+    case 'AD':
+      return { value: accumulationDistribution(highs, lows, closes, volumes, od) };
+    case 'MFI':
+      return { value: mfi(highs, lows, closes, volumes, a, od) };
+    case 'CMF':
+      return { value: chaikinMoneyFlow(highs, lows, closes, volumes, a, od == null ? null : 4) };
+  }
+}
+
 function createChartData(
   normalized: Candle[],
   indicators: any,
@@ -238,6 +678,27 @@ function createChartData(
       SMA_75: indicators.sma_75_series,
       SMA_200: indicators.sma_200_series,
       RSI_14: indicators.RSI_14,
+      RSI_14_series: indicators.RSI_14_series,
+      STOCH_K: indicators.stoch_series?.k,
+      STOCH_D: indicators.stoch_series?.d,
+      STOCH_RSI_K: indicators.stoch_rsi_series?.k,
+      STOCH_RSI_D: indicators.stoch_rsi_series?.d,
+      WILLR_14: indicators.willr_series,
+      CCI_20: indicators.cci_series,
+      ROC_12: indicators.roc_series,
+      ADX_14: indicators.adx_series?.adx,
+      PLUS_DI_14: indicators.adx_series?.plusDI,
+      MINUS_DI_14: indicators.adx_series?.minusDI,
+      PSAR: indicators.psar_series?.sar,
+      PSAR_dir: indicators.psar_series?.direction,
+      SUPERTREND: indicators.supertrend_series?.line,
+      SUPERTREND_dir: indicators.supertrend_series?.direction,
+      KC_upper: indicators.kc_series?.upper,
+      KC_middle: indicators.kc_series?.middle,
+      KC_lower: indicators.kc_series?.lower,
+      DC_upper: indicators.dc_series?.upper,
+      DC_middle: indicators.dc_series?.middle,
+      DC_lower: indicators.dc_series?.lower,
       BB1_upper: indicators.bb1_series?.upper,
       BB1_middle: indicators.bb1_series?.middle,
       BB1_lower: indicators.bb1_series?.lower,
@@ -266,6 +727,18 @@ function createChartData(
   };
 }
 
+/**
+ * 価格系指標の小数桁: ペアの刻み（price_digits）+ 2 桁（最低 2 桁）
+ * 刻みが不明なペアは 1 未満の価格でも有効数字 6 桁程度を残す
+ */
+export function indicatorDigits(pair: string, refPrice: number): number {
+  const tick = getPairInfo(pair)?.priceDigits;
+  if (tick != null) return Math.max(2, tick + 2);
+  const abs = Math.abs(refPrice);
+  if (!Number.isFinite(abs) || abs === 0 || abs >= 1) return 2;
+  return Math.min(12, 6 - Math.floor(Math.log10(abs)));
+}
+
 function analyzeTrend(indicators: any, currentPrice: number | null | undefined) {
   if (!indicators.SMA_25 || !indicators.SMA_75 || currentPrice == null) return 'insufficient_data';
 
@@ -289,39 +762,125 @@ function analyzeTrend(indicators: any, currentPrice: number | null | undefined)
   return 'sideways';
 }
 
+const INDICATOR_KEYS = ['SMA_5', 'SMA_20', 'SMA_25', 'SMA_50', 'SMA_75', 'SMA_200', 'RSI_14', 'BB_20', 'ICHIMOKU', 'STOCH_14', 'STOCH_RSI_14', 'WILLR_14', 'CCI_20', 'ROC_12', 'ADX_14', 'AROON_25', 'PSAR', 'SUPERTREND_10', 'MFI_14', 'CMF_20', 'ATR_14', 'KC_20', 'DC_20'] as const;
+
+/** analyzeIndicators(limit) が取得するローソク足の本数（表示本数 + 最長のウォームアップ） */
+export function indicatorFetchCount(limit: number, specs: IndicatorSpec[] = []): number {
+  return Math.min(1000, getFetchCount(limit, [...INDICATOR_KEYS, ...specs]));
+}
+
 export default async function analyzeIndicators(
   pair: string = 'btc_jpy',
   type: CandleType | string = '1day',
-  limit: number | null = null
+  limit: number | null = null,
+  {
+    onDegraded = 'warn',
+    specs: specInputs = [],
+    vwapAnchor,
+    precision = 'auto',
+    candles: prefetched,
+  }: {
+    onDegraded?: 'warn' | 'refuse';
+    specs?: IndicatorSpecInput[];
+    /** アンカー VWAP の起点（ISO 日時 or 'swing_high' / 'swing_low' で直近のスイング） */
+    vwapAnchor?: string;
+    /** 価格系指標の小数桁（'auto' = ペアの刻み + 2 桁、'raw' = 丸めない、数値 = 桁数） */
+    precision?: 'auto' | 'raw' | number;
+    /** 取得済みのローソク足（同じ pair/type の getCandles の結果）。指定時は再取得しない */
+    candles?: Result<GetCandlesData, GetCandlesMeta>;
+  } = {}
 ): Promise<Result<GetIndicatorsData, GetIndicatorsMeta>> {
   const chk = ensurePair(pair);
   if (!chk.ok) return fail(chk.error.message, chk.error.type);
+  if (typeof precision === 'number' && !(Number.isInteger(precision) && precision >= 0 && precision <= 12)) {
+    return fail(`precision は 0〜12 の整数、'auto'、'raw' のいずれかで指定してください（指定値: ${precision}）`, 'user');
+  }
 
   const displayCount = limit || 60;
 
-  const indicatorKeys = ['SMA_5', 'SMA_20', 'SMA_25', 'SMA_50', 'SMA_75', 'SMA_200', 'RSI_14', 'BB_20', 'ICHIMOKU'] as const;
-  const fetchCount = getFetchCount(displayCount, indicatorKeys as unknown as any);
+  // 任意パラメータの指標（同じキーは 1 つにまとめる）
+  const specs = new Map<string, IndicatorSpec>();
+  for (const input of specInputs) {
+    const parsed = parseIndicatorSpec(input);
+    if (!parsed.ok) return fail(parsed.error.message, parsed.error.type);
+    specs.set(specKey(parsed.value), parsed.value);
+  }
+
+  const fetchCount = indicatorFetchCount(displayCount, [...specs.values()]);
 
-  const candlesResult = await getCandles(chk.pair, type as any, undefined as any, fetchCount);
+  const candlesResult = prefetched ?? (await getCandles(chk.pair, type as any, undefined as any, fetchCount));
   if (!candlesResult.ok) return fail(candlesResult.summary.replace(/^Error: /, ''), candlesResult.meta.errorType as any);
 
+  // 欠損・重複・出来高ゼロが多い入力は指標が歪むため、指定に応じて拒否する
+  const quality = candlesResult.meta?.quality;
+  if (quality?.degraded && onDegraded === 'refuse') {
+    return fail(`ローソク足の品質が不十分なため分析を中止しました（${quality.issues.join(' / ')}）`, 'data_quality', { quality }) as unknown as Result<GetIndicatorsData, GetIndicatorsMeta>;
+  }
+
   const normalized = candlesResult.data.normalized;
   const allHighs = normalized.map((c) => c.high);
   const allLows = normalized.map((c) => c.low);
   const allCloses = normalized.map((c) => c.close);
+  const allVolumes = normalized.map((c) => c.volume ?? 0);
 
-  const rsi14_series = rsi(allCloses, 14);
-  const macdSeries = macd(allCloses, 12, 26, 9);
-  const bb1 = bollingerBands(allCloses, 20, 1);
-  const bb2 = bollingerBands(allCloses, 20, 2);
-  const bb3 = bollingerBands(allCloses, 20, 3);
-  const ichi = ichimokuSeries(allHighs, allLows, allCloses);
-  const sma_5_series = sma(allCloses, 5);
-  const sma_20_series = sma(allCloses, 20);
-  const sma_25_series = sma(allCloses, 25);
-  const sma_50_series = sma(allCloses, 50);
-  const sma_75_series = sma(allCloses, 75);
-  const sma_200_series = sma(allCloses, 200);
+  // 価格系指標の小数桁（auto: ペアの刻みから / raw: 丸めない）。オシレーター系は raw 以外 2 桁
+  const pd: Digits = precision === 'raw' ? null : precision === 'auto' ? indicatorDigits(chk.pair, allCloses.at(-1) ?? NaN) : precision;
+  const od: Digits = precision === 'raw' ? null : 2;
+
+  const rsi14_series = rsi(allCloses, 14, od);
+  const macdSeries = macd(allCloses, 12, 26, 9, pd);
+  const bb1 = bollingerBands(allCloses, 20, 1, pd);
+  const bb2 = bollingerBands(allCloses, 20, 2, pd);
+  const bb3 = bollingerBands(allCloses, 20, 3, pd);
+  const ichi = ichimokuSeries(allHighs, allLows, allCloses, 9, 26, 52, pd);
+  const sma_5_series = sma(allCloses, 5, pd);
+  const sma_20_series = sma(allCloses, 20, pd);
+  const sma_25_series = sma(allCloses, 25, pd);
+  const sma_50_series = sma(allCloses, 50, pd);
+  const sma_75_series = sma(allCloses, 75, pd);
+  const sma_200_series = sma(allCloses, 200, pd);
+  const stoch_series = stochastic(allHighs, allLows, allCloses, 14, 3, 3, od);
+  const stoch_rsi_series = stochRsi(allCloses, 14, 14, 3, 3, od);
+  const willr_series = williamsR(allHighs, allLows, allCloses, 14, od);
+  const cci_series = cci(allHighs, allLows, allCloses, 20, od);
+  const roc_series = roc(allCloses, 12, od);
+  const adx_series = adx(allHighs, allLows, allCloses, 14, od);
+  const aroon_series = aroon(allHighs, allLows, 25, od);
+  const psar_series = parabolicSar(allHighs, allLows, 0.02, 0.2, pd);
+  const supertrend_series = supertrend(allHighs, allLows, allCloses, 10, 3, pd);
+  const atr_series = atr(allHighs, allLows, allCloses, 14, pd);
+  const kc_series = keltnerChannels(allHighs, allLows, allCloses, 20, 10, 2, pd);
+  const dc_series = donchianChannels(allHighs, allLows, 20, pd);
+  const obv_series = obv(allCloses, allVolumes, od);
+  const ad_series = accumulationDistribution(allHighs, allLows, allCloses, allVolumes, od);
+  const mfi_series = mfi(allHighs, allLows, allCloses, allVolumes, 14, od);
+  const cmf_series = chaikinMoneyFlow(allHighs, allLows, allCloses, allVolumes, 20, od == null ? null : 4);
+  // セッション VWAP は日中足のみ意味を持つ
+  const intraday = /min|hour/.test(String(type));
+  const vwap_session_series = intraday
+    ? sessionVwap(allHighs, allLows, allCloses, allVolumes, normalized.map((c) => Date.parse(c.isoTime ?? '')), pd)
+    : null;
+
+  // アンカー VWAP の起点を解決
+  let anchor: { source: 'date' | 'swing_high' | 'swing_low'; index: number; isoTime: string | null } | undefined;
+  if (vwapAnchor) {
+    if (vwapAnchor === 'swing_high' || vwapAnchor === 'swing_low') {
+      const kind = vwapAnchor === 'swing_high' ? 'H' : 'L';
+      const pivot = detectSwingPoints(normalized, { swingDepth: 5 }).filter((p) => p.kind === kind).at(-1);
+      if (!pivot) return fail(`アンカーにするスイング${kind === 'H' ? '高値' : '安値'}が見つかりません（limit を増やしてください）`, 'user');
+      anchor = { source: vwapAnchor, index: pivot.idx, isoTime: normalized[pivot.idx]?.isoTime ?? null };
+    } else {
+      const at = Date.parse(vwapAnchor);
+      if (!Number.isFinite(at)) return fail(`vwapAnchor を解釈できません: ${vwapAnchor}（ISO 日時 / swing_high / swing_low）`, 'user');
+      const index = normalized.findIndex((c) => Date.parse(c.isoTime ?? '') >= at);
+      if (index < 0) return fail(`vwapAnchor（${vwapAnchor}）が最新の足より後です`, 'user');
+      if (index === 0 && Date.parse(normalized[0]?.isoTime ?? '') > at) {
+        return fail(`vwapAnchor（${vwapAnchor}）が取得範囲（${normalized[0]?.isoTime} 以降）より前です。limit を増やしてください`, 'user');
+      }
+      anchor = { source: 'date', index, isoTime: normalized[index]?.isoTime ?? null };
+    }
+  }
+  const vwap_anchored_series = anchor ? anchoredVwap(allHighs, allLows, allCloses, allVolumes, anchor.index, pd) : null;
 
   const indicators: any = {
     SMA_5: sma_5_series.at(-1),
@@ -355,6 +914,54 @@ export default async function analyzeIndicators(
     sma_50_series,
     sma_75_series,
     sma_200_series,
+    STOCH_K: stoch_series.k.at(-1),
+    STOCH_D: stoch_series.d.at(-1),
+    STOCH_RSI_K: stoch_rsi_series.k.at(-1),
+    STOCH_RSI_D: stoch_rsi_series.d.at(-1),
+    WILLR_14: willr_series.at(-1),
+    CCI_20: cci_series.at(-1),
+    ROC_12: roc_series.at(-1),
+    stoch_series,
+    stoch_rsi_series,
+    willr_series,
+    cci_series,
+    roc_series,
+    ADX_14: adx_series.adx.at(-1),
+    PLUS_DI_14: adx_series.plusDI.at(-1),
+    MINUS_DI_14: adx_series.minusDI.at(-1),
+    AROON_UP: aroon_series.up.at(-1),
+    AROON_DOWN: aroon_series.down.at(-1),
+    AROON_OSC: aroon_series.oscillator.at(-1),
+    PSAR: psar_series.sar.at(-1),
+    PSAR_dir: psar_series.direction.at(-1),
+    SUPERTREND: supertrend_series.line.at(-1),
+    SUPERTREND_dir: supertrend_series.direction.at(-1),
+    adx_series,
+    aroon_series,
+    psar_series,
+    supertrend_series,
+    ATR_14: atr_series.at(-1),
+    KC_upper: kc_series.upper.at(-1),
+    KC_middle: kc_series.middle.at(-1),
+    KC_lower: kc_series.lower.at(-1),
+    DC_upper: dc_series.upper.at(-1),
+    DC_middle: dc_series.middle.at(-1),
+    DC_lower: dc_series.lower.at(-1),
+    atr_series,
+    kc_series,
+    dc_series,
+    OBV: obv_series.at(-1),
+    AD_LINE: ad_series.at(-1),
+    MFI_14: mfi_series.at(-1),
+    CMF_20: cmf_series.at(-1),
+    VWAP_session: vwap_session_series?.at(-1) ?? null,
+    VWAP_anchored: vwap_anchored_series?.at(-1) ?? null,
+    obv_series,
+    ad_series,
+    mfi_series,
+    cmf_series,
+    ...(vwap_session_series ? { vwap_session_series } : {}),
+    ...(vwap_anchored_series ? { vwap_anchored_series } : {}),
   };
 
   // latest MACD values
@@ -362,7 +969,7 @@ export default async function analyzeIndicators(
   indicators.MACD_signal = macdSeries.signal.at(-1) as number | null | undefined;
   indicators.MACD_hist = macdSeries.hist.at(-1) as number | null | undefined;
 
-  const ichiSimple = ichimoku(allHighs, allLows, allCloses);
+  const ichiSimple = ichimoku(allHighs, allLows, allCloses, pd);
   if (ichiSimple) {
     indicators.ICHIMOKU_conversion = ichiSimple.conversion;
     indicators.ICHIMOKU_base = ichiSimple.base;
@@ -380,6 +987,29 @@ export default async function analyzeIndicators(
   if (allCloses.length < 15) warnings.push('RSI_14: データ不足');
   if (allCloses.length < 20) warnings.push('Bollinger_Bands: データ不足');
   if (allCloses.length < 52) warnings.push('Ichimoku: データ不足');
+  if (allCloses.length < 18) warnings.push('Stochastic: データ不足');
+  if (allCloses.length < 32) warnings.push('Stochastic_RSI: データ不足');
+  if (allCloses.length < 20) warnings.push('CCI_20: データ不足');
+  if (allCloses.length < 28) warnings.push('ADX_14: データ不足');
+  if (allCloses.length < 26) warnings.push('Aroon_25: データ不足');
+  if (allCloses.length < 10) warnings.push('Supertrend_10: データ不足');
+  if (allCloses.length < 15) warnings.push('MFI_14: データ不足');
+  if (allCloses.length < 20) warnings.push('Keltner/Donchian_20: データ不足');
+  if (allCloses.length < 20) warnings.push('CMF_20: データ不足');
+  if (allVolumes.every((v) => v === 0)) warnings.push('出来高がすべて 0 のため出来高系指標は無効');
+  if (quality?.degraded) warnings.push(`データ品質: ${quality.issues.join(' / ')}`);
+
+  let custom: Record<string, CustomIndicatorResult> | undefined;
+  if (specs.size > 0) {
+    custom = {};
+    for (const [key, spec] of specs) {
+      const series = computeIndicatorSpec(spec, allHighs, allLows, allCloses, allVolumes, { price: pd, oscillator: od });
+      const latest = Object.fromEntries(Object.entries(series).map(([k, v]) => [k, v.at(-1) ?? null]));
+      const warmup = specWarmup(spec);
+      if (allCloses.length < warmup) warnings.push(`${key}: データ不足`);
+      custom[key] = { name: spec.name, params: spec.params, warmup, latest, series };
+    }
+  }
 
   const trend = analyzeTrend(indicators, allCloses.at(-1));
 
@@ -395,6 +1025,9 @@ export default async function analyzeIndicators(
       'BB2_upper', 'BB2_middle', 'BB2_lower',
       'BB3_upper', 'BB3_middle', 'BB3_lower',
       'ICHI_tenkan', 'ICHI_kijun', 'ICHI_spanA', 'ICHI_spanB', 'ICHI_chikou',
+      'RSI_14_series', 'STOCH_K', 'STOCH_D', 'STOCH_RSI_K', 'STOCH_RSI_D', 'WILLR_14', 'CCI_20', 'ROC_12',
+      'ADX_14', 'PLUS_DI_14', 'MINUS_DI_14', 'PSAR', 'PSAR_dir', 'SUPERTREND', 'SUPERTREND_dir',
+      'KC_upper', 'KC_middle', 'KC_lower', 'DC_upper', 'DC_middle', 'DC_lower',
     ];
     keys.forEach((k) => {
       const arr = seriesMap[k] as NumericSeries | undefined;
@@ -439,6 +1072,7 @@ export default async function analyzeIndicators(
     indicators,
     trend,
     chart: chartData,
+    ...(custom ? { custom } : {}),
   } satisfies GetIndicatorsData;
 
   const meta = createMeta(chk.pair, {
@@ -446,6 +1080,11 @@ export default async function analyzeIndicators(
     count: allCloses.length,
     requiredCount: fetchCount,
     warnings: warnings.length > 0 ? warnings : undefined,
+    cache: candlesResult.meta?.cache,
+    resampledFrom: candlesResult.meta?.resampledFrom,
+    quality,
+    ...(anchor ? { vwapAnchor: anchor } : {}),
+    digits: { price: pd, oscillator: od },
   });
 
   const parsedData = GetIndicatorsDataSchema.parse(data);
@@ -0,0 +1,283 @@
+import getCandles from './get_candles.js';
+import { adx } from './analyze_indicators.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair, validateLimit } from '../lib/validate.js';
+import { formatSummary } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { AnalyzeMarketRegimeOutputSchema } from '../src/schemas.js';
+
+type Candle = { high: number; low: number; close: number; isoTime?: string | null };
+
+export type TrendRegime = 'uptrend' | 'downtrend' | 'range';
+export type VolatilityRegime = 'low' | 'normal' | 'high';
+/** 足ごとのラベル（優先順: crash > high_vol > trend_up / trend_down > range） */
+export type MarketRegime = 'trend_up' | 'trend_down' | 'range' | 'high_vol' | 'crash';
+
+export const MARKET_REGIMES: MarketRegime[] = ['trend_up', 'trend_down', 'range', 'high_vol', 'crash'];
+
+export const REGIME_LABELS_JA: Record<MarketRegime, string> = {
+  trend_up: '上昇トレンド',
+  trend_down: '下降トレンド',
+  range: 'レンジ',
+  high_vol: '高ボラティリティ',
+  crash: '急落',
+};
+
+export interface RegimeOptions {
+  /** ADX がこの値以上でトレンド入り（既定 25） */
+  adxTrend?: number;
+  /** ADX がこの値未満でレンジ入り。間はひとつ前の判定を維持（既定 20） */
+  adxRange?: number;
+  /** 実現ボラの計算本数（既定 20） */
+  volWindow?: number;
+  /** パーセンタイルの比較対象にする過去の本数（既定 250） */
+  volLookback?: number;
+  /** このパーセンタイル以上で high、volLow 以下で low（既定 0.8 / 0.25） */
+  volHigh?: number;
+  volLow?: number;
+  /** ドローダウンの基準にする高値の本数（既定 90） */
+  drawdownLookback?: number;
+  /** 高値からの下落率がこれ以上かつ高ボラで crash（既定 0.2 = 20%） */
+  crashDrawdown?: number;
+  /** 局面の切り替えに必要な連続本数（crash は即時。既定 3） */
+  confirmBars?: number;
+}
+
+export interface RegimeBar {
+  time: string | null;
+  /** confirmBars で平滑化した局面（切り替わりが確定したら、その区間の最初の足まで遡って付け替える） */
+  regime: MarketRegime | null;
+  /** その足単独の判定 */
+  raw: MarketRegime | null;
+  trend: TrendRegime | null;
+  volatility: VolatilityRegime | null;
+  adx: number | null;
+  /** 実現ボラの過去分布内の位置（0〜1） */
+  rvPercentile: number | null;
+  /** 直近高値からの下落率（0〜1） */
+  drawdown: number | null;
+}
+
+export interface RegimeTransition {
+  index: number;
+  time: string | null;
+  from: MarketRegime | null;
+  to: MarketRegime;
+}
+
+/** パーセンタイルの算出に必要な実現ボラの最小個数 */
+const MIN_VOL_HISTORY = 50;
+
+/**
+ * 各足の相場局面を判定する
+ * - trend: ADX(14) と DMI の向き（adxTrend / adxRange のヒステリシス付き）
+ * - volatility: 実現ボラ（volWindow 本）の直近 volLookback 本内のパーセンタイル
+ * - drawdown: 直近 drawdownLookback 本の高値からの下落率
+ */
+export function classifyMarketRegime(candles: Candle[], opts: RegimeOptions = {}) {
+  const {
+    adxTrend = 25, adxRange = 20, volWindow = 20, volLookback = 250,
+    volHigh = 0.8, volLow = 0.25, drawdownLookback = 90, crashDrawdown = 0.2, confirmBars = 3,
+  } = opts;
+  const n = candles.length;
+  const highs = candles.map((c) => Number(c.high));
+  const lows = candles.map((c) => Number(c.low));
+  const closes = candles.map((c) => Number(c.close));
+  const dmi = adx(highs, lows, closes, 14, null);
+
+  const rv: Array<number | null> = new Array(n).fill(null);
+  for (let i = volWindow; i < n; i++) {
+    const rets: number[] = [];
+    for (let j = i - volWindow + 1; j <= i; j++) rets.push(closes[j - 1] > 0 && closes[j] > 0 ? Math.log(closes[j] / closes[j - 1]) : 0);
+    const mean = rets.reduce((s, v) => s + v, 0) / rets.length;
+    rv[i] = Math.sqrt(rets.reduce((s, v) => s + (v - mean) ** 2, 0) / rets.length);
+  }
+
+  const bars: RegimeBar[] = [];
+  const transitions: RegimeTransition[] = [];
+  let trend: TrendRegime | null = null;
+  let confirmed: MarketRegime | null = null;
+  // 同じ raw ラベルが続いている区間
+  let runLabel: MarketRegime | null = null;
+  let runStart = 0;
+  for (let i = 0; i < n; i++) {
+    const a = dmi.adx[i];
+    if (a != null) {
+      const plus = dmi.plusDI[i] ?? 0;
+      const minus = dmi.minusDI[i] ?? 0;
+      if (a >= adxTrend) trend = plus >= minus ? 'uptrend' : 'downtrend';
+      else if (a < adxRange) trend = 'range';
+      else trend ??= 'range';
+    }
+
+    let pctl: number | null = null;
+    const cur = rv[i];
+    if (cur != null) {
+      const hist = rv.slice(Math.max(0, i - volLookback + 1), i + 1).filter((v): v is number => v != null);
+      if (hist.length >= MIN_VOL_HISTORY) pctl = hist.filter((v) => v <= cur).length / hist.length;
+    }
+    const volatility: VolatilityRegime | null = pctl == null ? null : pctl >= volHigh ? 'high' : pctl <= volLow ? 'low' : 'normal';
+
+    const peak = Math.max(...highs.slice(Math.max(0, i - drawdownLookback + 1), i + 1));
+    const drawdown = peak > 0 ? Math.max(0, 1 - closes[i] / peak) : null;
+
+    let raw: MarketRegime | null = null;
+    if (drawdown != null && drawdown >= crashDrawdown && volatility === 'high') raw = 'crash';
+    else if (volatility === 'high') raw = 'high_vol';
+    else if (trend === 'uptrend') raw = 'trend_up';
+    else if (trend === 'downtrend') raw = 'trend_down';
+    else if (trend === 'range') raw = 'range';
+
+    if (raw !== runLabel) {
+      runLabel = raw;
+      runStart = i;
+    }
+    if (runLabel != null && runLabel !== confirmed && (runLabel === 'crash' || confirmed == null || i - runStart + 1 >= confirmBars)) {
+      transitions.push({ index: runStart, time: candles[runStart]?.isoTime ?? null, from: confirmed, to: runLabel });
+      confirmed = runLabel;
+      // 確定までの足も切り替わり後の局面に付け替える（transitions と bars の区切りを揃える）
+      for (let k = runStart; k < i; k++) bars[k].regime = confirmed;
+    }
+
+    bars.push({
+      time: candles[i]?.isoTime ?? null,
+      regime: confirmed,
+      raw,
+      trend,
+      volatility,
+      adx: a == null ? null : Number(a.toFixed(2)),
+      rvPercentile: pctl == null ? null : Number(pctl.toFixed(3)),
+      drawdown: drawdown == null ? null : Number(drawdown.toFixed(4)),
+    });
+  }
+
+  const last = bars.at(-1);
+  const lastTransition = transitions.at(-1);
+  const current = last?.regime && lastTransition
+    ? {
+      regime: last.regime,
+      trend: last.trend,
+      volatility: last.volatility,
+      since: lastTransition.time,
+      barsInRegime: n - lastTransition.index,
+      adx: last.adx,
+      rvPercentile: last.rvPercentile,
+      drawdown: last.drawdown,
+    }
+    : null;
+  return { bars, transitions, current };
+}
+
+export type RegimeFit = 'favorable' | 'neutral' | 'unfavorable';
+
+/**
+ * シグナル・パターンの向きが局面と噛み合うか
+ * - signal: 順張りの合成スコア（トレンドと同じ向きなら favorable）
+ * - reversal: 反転パターン（反転する元のトレンドがあれば favorable、高ボラ・急落中の買いはダマシ寄り）
+ * - continuation: 継続パターン（トレンドがあれば favorable、レンジでは前提を欠く）
+ */
+export function regimeFit(
+  regime: MarketRegime,
+  direction: 'bullish' | 'bearish' | 'neutral',
+  kind: 'signal' | 'reversal' | 'continuation'
+): { fit: RegimeFit; note: string } {
+  const trendDir = regime === 'trend_up' ? 'bullish' : regime === 'trend_down' ? 'bearish' : null;
+  if (regime === 'crash') {
+    if (direction === 'bullish') return { fit: 'unfavorable', note: '急落局面での強気判断（下げ止まりの確認が必要）' };
+    return { fit: 'neutral', note: '急落局面（値幅・スリッページの拡大に注意）' };
+  }
+  if (regime === 'high_vol') {
+    if (kind === 'reversal') return { fit: 'unfavorable', note: '高ボラティリティ局面では反転パターンのダマシが増えやすい' };
+    return { fit: 'neutral', note: '高ボラティリティ局面（振れ幅が大きい）' };
+  }
+  if (regime === 'range') {
+    if (kind === 'continuation') return { fit: 'unfavorable', note: 'レンジ局面ではトレンド継続の前提を欠く' };
+    if (kind === 'signal' && direction !== 'neutral') return { fit: 'neutral', note: 'レンジ局面ではトレンド系要素のダマシに注意' };
+    return { fit: 'neutral', note: 'レンジ局面' };
+  }
+  const label = REGIME_LABELS_JA[regime];
+  if (kind === 'reversal') {
+    if (direction !== 'neutral' && direction !== trendDir) return { fit: 'favorable', note: `${label}からの反転パターン` };
+    return { fit: 'neutral', note: `${label}中の押し目・戻りの形` };
+  }
+  if (direction === 'neutral') return { fit: kind === 'continuation' ? 'favorable' : 'neutral', note: `${label}局面` };
+  return direction === trendDir
+    ? { fit: 'favorable', note: `${label}と同じ向き` }
+    : { fit: 'unfavorable', note: `${label}に逆行` };
+}
+
+/** 局面の連続区間（transitions から組み立てる） */
+function regimeSegments(bars: RegimeBar[], transitions: RegimeTransition[], from: number) {
+  return transitions
+    .map((t, k) => {
+      const end = (transitions[k + 1]?.index ?? bars.length) - 1;
+      return { regime: t.to, from: t.time, to: bars[end]?.time ?? null, bars: end - t.index + 1, startIndex: t.index, endIndex: end };
+    })
+    .filter((s) => s.endIndex >= from)
+    .map(({ startIndex, endIndex, ...s }) => s);
+}
+
+/**
+ * 相場局面（トレンド / レンジ / 高ボラ / 急落）を足ごとに判定し、現在の局面と切り替わりの日時を返す
+ */
+export default async function analyzeMarketRegime(
+  pair: string = 'btc_jpy',
+  type: string = '1day',
+  limit: number = 365,
+  opts: RegimeOptions & { includeBars?: boolean } = {}
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return AnalyzeMarketRegimeOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  const lim = validateLimit(limit, 30, 2000);
+  if (!lim.ok) return AnalyzeMarketRegimeOutputSchema.parse(fail(lim.error.message, lim.error.type)) as any;
+  const { includeBars = false, ...regimeOpts } = opts;
+  if ((regimeOpts.adxRange ?? 20) > (regimeOpts.adxTrend ?? 25)) {
+    return AnalyzeMarketRegimeOutputSchema.parse(fail(`adxRange（${regimeOpts.adxRange ?? 20}）は adxTrend（${regimeOpts.adxTrend ?? 25}）以下で指定してください`, 'user')) as any;
+  }
+
+  try {
+    // ADX・実現ボラのパーセンタイルのウォームアップ分を上乗せして取得
+    const warmup = (regimeOpts.volLookback ?? 250) + (regimeOpts.volWindow ?? 20);
+    const cRes: any = await getCandles(chk.pair, type, undefined as any, Math.min(5000, lim.value + warmup));
+    if (!cRes?.ok) return AnalyzeMarketRegimeOutputSchema.parse(fail(cRes?.summary || 'candles failed', cRes?.meta?.errorType || 'internal')) as any;
+    const candles = (cRes.data?.normalized ?? []) as Candle[];
+    const { bars, transitions, current } = classifyMarketRegime(candles, regimeOpts);
+    if (!current) return AnalyzeMarketRegimeOutputSchema.parse(fail(`データ不足（${candles.length} 本）: 局面を判定できません`, 'user')) as any;
+
+    const from = Math.max(0, bars.length - lim.value);
+    const windowBars = bars.slice(from);
+    const labeled = windowBars.filter((b) => b.regime != null);
+    const distribution = Object.fromEntries(
+      MARKET_REGIMES.map((r) => [r, labeled.length ? Number((labeled.filter((b) => b.regime === r).length / labeled.length).toFixed(3)) : 0])
+    ) as Record<MarketRegime, number>;
+    const segments = regimeSegments(bars, transitions, from);
+    const recentTransitions = transitions.filter((t) => t.index >= from).slice(-20).map(({ index, ...t }) => t);
+
+    const pct = (v: number | null) => (v == null ? 'n/a' : `${Math.round(v * 100)}%`);
+    const ja = (r: MarketRegime | null) => (r ? REGIME_LABELS_JA[r] : '判定なし');
+    const summary = [
+      formatSummary({ pair: chk.pair, timeframe: type, latest: candles.at(-1)?.close, extra: `regime=${current.regime} since=${current.since?.slice(0, 10) ?? '?'}` }),
+      '',
+      `現在の局面: ${ja(current.regime)}（${current.since?.slice(0, 10) ?? '?'} から ${current.barsInRegime} 本）`,
+      `- トレンド: ${current.trend ?? 'n/a'}（ADX ${current.adx ?? 'n/a'}）`,
+      `- ボラティリティ: ${current.volatility ?? 'n/a'}（実現ボラの過去分布で ${pct(current.rvPercentile)} 点）`,
+      `- 高値からの下落: ${current.drawdown == null ? 'n/a' : `${(current.drawdown * 100).toFixed(1)}%`}`,
+      '',
+      `【直近 ${windowBars.length} 本の構成】${MARKET_REGIMES.filter((r) => distribution[r] > 0).map((r) => `${ja(r)} ${pct(distribution[r])}`).join(' / ')}`,
+      '【局面の推移（新しい順）】',
+      ...segments.slice(-8).reverse().map((s) => `- ${s.from?.slice(0, 10) ?? '?'} 〜 ${s.to?.slice(0, 10) ?? '?'}: ${ja(s.regime)}（${s.bars} 本）`),
+    ].join('\n');
+
+    const data = {
+      current,
+      transitions: recentTransitions,
+      segments,
+      distribution,
+      ...(includeBars ? { bars: windowBars } : {}),
+    };
+    const meta = createMeta(chk.pair, { type, count: windowBars.length });
+    return AnalyzeMarketRegimeOutputSchema.parse(ok(summary, data as any, meta as any)) as any;
+  } catch (e: unknown) {
+    return AnalyzeMarketRegimeOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
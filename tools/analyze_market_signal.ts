@@ -1,11 +1,22 @@
 import getFlowMetrics from './get_flow_metrics.js';
 import getVolatilityMetrics from './get_volatility_metrics.js';
-import analyzeIndicators from './analyze_indicators.js';
+import analyzeIndicators, { indicatorFetchCount, indicatorDigits, sma, rsi as rsiSeries, macd, bollingerBands, adx, atr, stochastic, stochRsi, williamsR, cci, roc } from './analyze_indicators.js';
+import { periodsPerYear } from './get_volatility_metrics.js';
+import calibrateMarketSignal, { historicalOutlook, formatOutlookLines } from './calibrate_market_signal.js';
+import { classifyMarketRegime, regimeFit, REGIME_LABELS_JA } from './analyze_market_regime.js';
 import { ensurePair, createMeta } from '../lib/validate.js';
 import { ok, fail } from '../lib/result.js';
-import { formatSummary } from '../lib/formatter.js';
+import { formatSummary, formatPriceUnit } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
+import { cached } from '../lib/cache.js';
 import { AnalyzeMarketSignalOutputSchema } from '../src/schemas.js';
+import type { Result, GetCandlesData, GetCandlesMeta } from '../src/types/domain.d.ts';
+import { resolveSignalWeights, applySignalFactors, formatSignalFormula, smaTrendValue, volatilityValue, momentumValue, MOMENTUM_NORMALIZERS, SIGNAL_PROFILES, type MomentumInput } from '../lib/signal_factors.js';
+
+// SMA25/75/200 を扱うため十分な本数を取得（最低200+バッファ）
+const SIGNAL_INDICATOR_LIMIT = 220;
+
+export type { MomentumInput };
 
 type AnalyzeOpts = {
   type?: string;
@@ -13,10 +24,299 @@ type AnalyzeOpts = {
   bucketMs?: number;
   windows?: number[];
   horizonBuckets?: number;
+  /** momentum 要素に使うオシレーター（既定は RSI のみ。複数指定時は平均） */
+  momentumInputs?: MomentumInput[];
+  /** 重みのプリセット（lib/signal_factors.ts の SIGNAL_PROFILES） */
+  profile?: string;
+  /** factor ごとの重みの上書き（0 で除外、合計は 1 に正規化） */
+  weights?: Record<string, number>;
+  /** 過去の同程度スコアの先行リターンを添える（calibrate_market_signal の既定条件で集計） */
+  historical?: boolean;
+  /** 取得済みの入力（複数の時間足で同じフロー・ローソク足を使い回すとき） */
+  prefetched?: {
+    /** getFlowMetrics の結果（時間足に依存しない） */
+    flow?: any;
+    /** getCandles の結果（type と同じ時間足、SIGNAL_CANDLE_COUNT 本以上） */
+    candles?: Result<GetCandlesData, GetCandlesMeta>;
+  };
 };
 
+/** 指標（SMA200 等のウォームアップ込み）とボラティリティの計算に使うローソク足の本数 */
+export const SIGNAL_CANDLE_COUNT = indicatorFetchCount(SIGNAL_INDICATOR_LIMIT);
+
+/** 過去検証の結果は同じ pair/type/重み/momentum 入力で使い回す（再計算は数百本分のリプレイになるため） */
+const CALIBRATION_TTL_MS = 15 * 60_000;
+
 function clamp(x: number, min: number, max: number) { return Math.max(min, Math.min(max, x)); }
 
+
+export type SignalRecommendation = 'bullish' | 'neutral' | 'bearish';
+
+export const SIGNAL_THRESHOLDS = { bullish: 0.25, bearish: -0.25 };
+
+export function recommendationOf(score: number): SignalRecommendation {
+  return score >= SIGNAL_THRESHOLDS.bullish ? 'bullish' : score <= SIGNAL_THRESHOLDS.bearish ? 'bearish' : 'neutral';
+}
+
+/** 仮の終値で判定が変わる価格を探す範囲（現在値から ±15%、0.5% 刻み → 二分探索で絞る） */
+const PRICE_SCAN_STEP = 0.005;
+const PRICE_SCAN_RANGE = 0.15;
+
+type SignalCandle = { open?: number; high: number; low: number; close: number };
+
+export interface SignalCounterfactualInput {
+  candles: SignalCandle[];
+  type: string;
+  weights: Record<string, number>;
+  momentumInputs: MomentumInput[];
+  /** ライブの指標（再計算しない指標はこの値のまま） */
+  indicators: Record<string, unknown>;
+  /** 約定フロー由来の要素（価格を動かしても変わらないものとして固定） */
+  flow: { cvdTrend: number; buyPressure: number };
+}
+
+/**
+ * 最新足の終値だけを差し替えたときの合成スコア（価格由来の要素のみ再計算）
+ * 最新足の高値・安値は仮の終値を含むように広げる
+ */
+export function signalScoreAtClose(input: SignalCounterfactualInput): (close: number) => number {
+  const { candles, type, weights, momentumInputs, flow } = input;
+  const n = candles.length;
+  const closes = candles.map((c) => Number(c.close));
+  const highs = candles.map((c) => Number(c.high));
+  const lows = candles.map((c) => Number(c.low));
+  const annFactor = Math.sqrt(periodsPerYear(type));
+  const last = <T>(xs: T[]) => xs[n - 1];
+  return (close: number) => {
+    const cs = [...closes.slice(0, -1), close];
+    const hs = [...highs.slice(0, -1), Math.max(last(highs), close)];
+    const ls = [...lows.slice(0, -1), Math.min(last(lows), close)];
+    const dmi = adx(hs, ls, cs, 14, null);
+    const bb = bollingerBands(cs, 20, 2, null);
+    const indicators: Record<string, unknown> = {
+      ...input.indicators,
+      SMA_25: last(sma(cs, 25, null)),
+      SMA_75: last(sma(cs, 75, null)),
+      SMA_200: last(sma(cs, 200, null)),
+      RSI_14: last(rsiSeries(cs, 14, null)),
+      MACD_hist: last(macd(cs, 12, 26, 9, null).hist),
+      BB_middle: last(bb.middle),
+      BB_upper: last(bb.upper),
+      ADX_14: last(dmi.adx),
+      PLUS_DI_14: last(dmi.plusDI),
+      MINUS_DI_14: last(dmi.minusDI),
+      ATR_14: last(atr(hs, ls, cs, 14, null)),
+      ...(momentumInputs.includes('stoch') ? { STOCH_K: last(stochastic(hs, ls, cs, 14, 3, 3, null).k) } : {}),
+      ...(momentumInputs.includes('stoch_rsi') ? { STOCH_RSI_K: last(stochRsi(cs, 14, 14, 3, 3, null).k) } : {}),
+      ...(momentumInputs.includes('williams_r') ? { WILLR_14: last(williamsR(hs, ls, cs, 14, null)) } : {}),
+      ...(momentumInputs.includes('cci') ? { CCI_20: last(cci(hs, ls, cs, 20, null)) } : {}),
+      ...(momentumInputs.includes('roc') ? { ROC_12: last(roc(cs, 12, null)) } : {}),
+    };
+    // RV は get_volatility_metrics と同じ直近 200 本
+    const win = cs.slice(-200);
+    const rets = win.slice(1).map((c, i) => (win[i] > 0 && c > 0 ? Math.log(c / win[i]) : 0));
+    const mean = rets.reduce((s, v) => s + v, 0) / Math.max(1, rets.length);
+    const rvAnn = Math.sqrt(rets.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, rets.length)) * annFactor;
+    const s25 = indicators.SMA_25 as number | null;
+    const s75 = indicators.SMA_75 as number | null;
+    const factors = applySignalFactors(weights, {
+      indicators,
+      close,
+      base: {
+        smaTrend: s25 != null && s75 != null ? smaTrendValue(close, s25, s75, indicators.SMA_200 as number | null) : 0,
+        momentum: momentumValue(momentumInputs, indicators),
+        cvdTrend: flow.cvdTrend,
+        volatility: volatilityValue(rvAnn),
+        buyPressure: flow.buyPressure,
+      },
+    });
+    return factors.reduce((s, f) => s + f.contribution, 0);
+  };
+}
+
+export interface SignalPriceLevel {
+  direction: 'up' | 'down';
+  price: number;
+  changePct: number;
+  from: SignalRecommendation;
+  to: SignalRecommendation;
+}
+
+/**
+ * 判定が切り替わる終値を上下それぞれ近い順に最大 2 つ探す
+ * scoreAt は現在値で現在のスコアを返す関数（ずれはライブのスコアとの差分で補正する）
+ */
+export function findSignalPriceLevels(scoreAt: (close: number) => number, close: number, score: number, digits: number = 2): SignalPriceLevel[] {
+  const offset = score - scoreAt(close);
+  const recAt = (p: number) => recommendationOf(scoreAt(p) + offset);
+  const out: SignalPriceLevel[] = [];
+  for (const direction of ['down', 'up'] as const) {
+    const sign = direction === 'up' ? 1 : -1;
+    let prevPrice = close;
+    let prevRec = recommendationOf(score);
+    let found = 0;
+    for (let k = 1; k <= Math.round(PRICE_SCAN_RANGE / PRICE_SCAN_STEP) && found < 2; k++) {
+      const p = close * (1 + sign * k * PRICE_SCAN_STEP);
+      const rec = recAt(p);
+      if (rec === prevRec) { prevPrice = p; continue; }
+      // 判定が変わる直前の価格を二分探索で絞る
+      let lo = prevPrice;
+      let hi = p;
+      for (let it = 0; it < 16; it++) {
+        const mid = (lo + hi) / 2;
+        if (recAt(mid) === prevRec) lo = mid; else hi = mid;
+      }
+      out.push({ direction, price: Number(hi.toFixed(digits)), changePct: Number(((hi / close - 1) * 100).toFixed(2)), from: prevRec, to: rec });
+      prevPrice = p;
+      prevRec = rec;
+      found++;
+    }
+  }
+  return out.sort((a, b) => Math.abs(a.changePct) - Math.abs(b.changePct));
+}
+
+export interface SignalCondition {
+  factor: string;
+  /** 条件の対象（RSI_14 / close） */
+  indicator: string;
+  current: number;
+  level: number;
+  direction: 'above' | 'below';
+  effect: string;
+  /** 判定そのものが変わる条件のとき */
+  to?: SignalRecommendation;
+  /** 条件を満たした直後の要素の値（smaTrend） */
+  valueAfter?: number;
+}
+
+/** スコアの刻み（score は小数 3 桁に丸めている） */
+const SCORE_STEP = 0.001;
+
+/** 小数 3 桁に丸める（dir の向きに切り上げ、境界の手前に戻らないようにする） */
+const roundOutward = (v: number, dir: number) => (dir > 0 ? Math.ceil(v * 1000 - 1e-9) : Math.floor(v * 1000 + 1e-9)) / 1000;
+
+/**
+ * 判定を変えるのに必要なスコアの変化（他の 2 つの判定それぞれ）
+ * bullish / bearish は閾値ちょうどで切り替わるが、neutral に戻るには閾値を 1 刻み越える必要がある
+ */
+export function signalScoreGaps(score: number): Array<{ to: SignalRecommendation; scoreDelta: number }> {
+  const current = recommendationOf(score);
+  const gaps: Array<{ to: SignalRecommendation; scoreDelta: number }> = [];
+  if (current !== 'bullish') gaps.push({ to: 'bullish', scoreDelta: SIGNAL_THRESHOLDS.bullish - score });
+  if (current !== 'bearish') gaps.push({ to: 'bearish', scoreDelta: SIGNAL_THRESHOLDS.bearish - score });
+  if (current === 'bullish') gaps.push({ to: 'neutral', scoreDelta: SIGNAL_THRESHOLDS.bullish - SCORE_STEP - score });
+  if (current === 'bearish') gaps.push({ to: 'neutral', scoreDelta: SIGNAL_THRESHOLDS.bearish + SCORE_STEP - score });
+  return gaps
+    .map((g) => {
+      let scoreDelta = roundOutward(g.scoreDelta, g.scoreDelta);
+      // 浮動小数の誤差で境界に届かない場合は 1 刻み進める
+      if (recommendationOf(score + scoreDelta) !== g.to) scoreDelta = Number((scoreDelta + Math.sign(scoreDelta) * SCORE_STEP).toFixed(3));
+      return { ...g, scoreDelta };
+    })
+    .sort((a, b) => Math.abs(a.scoreDelta) - Math.abs(b.scoreDelta));
+}
+
+/**
+ * momentum の RSI 条件（他のオシレーターは現在値のまま）
+ * - momentum の符号が変わる RSI
+ * - 判定が変わる RSI（momentum 以外の要素は不変）
+ */
+function rsiConditions(
+  ind: Record<string, unknown>,
+  momentumInputs: MomentumInput[],
+  momentum: { rawValue: number; weight: number },
+  gaps: Array<{ to: SignalRecommendation; scoreDelta: number }>
+): SignalCondition[] {
+  const rsi = ind.RSI_14;
+  if (!momentumInputs.includes('rsi') || typeof rsi !== 'number' || !Number.isFinite(rsi) || !(momentum.weight > 0)) return [];
+  const otherParts = momentumInputs
+    .filter((k) => k !== 'rsi')
+    .map((k) => {
+      const v = ind[MOMENTUM_NORMALIZERS[k].key];
+      return typeof v === 'number' && Number.isFinite(v) ? clamp(MOMENTUM_NORMALIZERS[k].norm(v), -1, 1) : null;
+    })
+    .filter((v): v is number => v != null);
+  const otherSum = otherParts.reduce((a, b) => a + b, 0);
+  const count = otherParts.length + 1;
+  // momentum = (rsiNorm + otherSum) / count、rsiNorm = (RSI - 50) / 50
+  const rsiFor = (target: number) => 50 + 50 * (target * count - otherSum);
+  const out: SignalCondition[] = [];
+  const cur = Number(rsi.toFixed(2));
+  const zero = rsiFor(0);
+  if (zero >= 0 && zero <= 100 && momentum.rawValue !== 0) {
+    const dir = momentum.rawValue > 0 ? 'below' : 'above';
+    out.push({
+      factor: 'momentum', indicator: 'RSI_14', current: cur, level: Number(zero.toFixed(1)), direction: dir,
+      effect: `RSI(14) が ${zero.toFixed(1)} を${dir === 'above' ? '上' : '下'}回ると momentum が${dir === 'above' ? 'プラス' : 'マイナス'}に転じる`,
+    });
+  }
+  for (const g of gaps) {
+    // 表示桁（0.1）に丸めても境界の向こう側に残るよう外側に丸める
+    const level = g.scoreDelta > 0
+      ? Math.ceil(rsiFor(momentum.rawValue + g.scoreDelta / momentum.weight) * 10) / 10
+      : Math.floor(rsiFor(momentum.rawValue + g.scoreDelta / momentum.weight) * 10) / 10;
+    if (!(level >= 0 && level <= 100)) continue;
+    const dir = g.scoreDelta > 0 ? 'above' : 'below';
+    out.push({
+      factor: 'momentum', indicator: 'RSI_14', current: cur, level, direction: dir, to: g.to,
+      effect: `RSI(14) が ${level.toFixed(1)} ${dir === 'above' ? '以上' : '以下'}で判定が ${g.to} に変わる（他の要素が不変の場合）`,
+    });
+  }
+  return out;
+}
+
+/**
+ * smaTrend の配置条件（最新足の終値を差し替えると SMA25/75/200 も 1/期間 だけ動く）
+ * 終値 = SMA25 となる価格は (25 × SMA25 − 終値) / 24
+ */
+function smaConditions(
+  pair: string,
+  close: number,
+  sma25: number,
+  sma75: number,
+  sma200: number | null | undefined,
+  digits: number
+): SignalCondition[] {
+  const level = (25 * sma25 - close) / 24;
+  const valueAt = (p: number) => {
+    const d = p - close;
+    return smaTrendValue(p, sma25 + d / 25, sma75 + d / 75, sma200 == null ? sma200 : sma200 + d / 200);
+  };
+  const base = { factor: 'smaTrend', indicator: 'close', current: Number(close.toFixed(digits)), level: Number(level.toFixed(digits)) };
+  if (close > sma25 && sma25 > sma75) {
+    return [{ ...base, direction: 'below', valueAfter: Number(valueAt(level * (1 - 1e-6)).toFixed(3)), effect: `終値が SMA25 相当の ${formatPriceUnit(pair, level)} を下回ると smaTrend の上昇配置（+0.6）が外れる` }];
+  }
+  if (close < sma25 && sma25 < sma75) {
+    return [{ ...base, direction: 'above', valueAfter: Number(valueAt(level * (1 + 1e-6)).toFixed(3)), effect: `終値が SMA25 相当の ${formatPriceUnit(pair, level)} を上回ると smaTrend の下降配置（-0.6）が外れる` }];
+  }
+  if (sma25 > sma75) {
+    return [{ ...base, direction: 'above', valueAfter: Number(valueAt(level * (1 + 1e-6)).toFixed(3)), effect: `終値が SMA25 相当の ${formatPriceUnit(pair, level)} を上回ると smaTrend が上昇配置（+0.6）になる` }];
+  }
+  if (sma25 < sma75) {
+    return [{ ...base, direction: 'below', valueAfter: Number(valueAt(level * (1 - 1e-6)).toFixed(3)), effect: `終値が SMA25 相当の ${formatPriceUnit(pair, level)} を下回ると smaTrend が下降配置（-0.6）になる` }];
+  }
+  return [];
+}
+
+export type WhatWouldChange = {
+  scoreGaps: Array<{ to: SignalRecommendation; scoreDelta: number }>;
+  factors: Array<{ factor: string; rawValue: number; weight: number; required: Array<{ to: SignalRecommendation; rawValue: number }> }>;
+  conditions: SignalCondition[];
+  priceLevels: SignalPriceLevel[];
+};
+
+/** whatWouldChange の本文（価格 → 指標条件 → 要素単独の必要値の順） */
+export function formatWhatWouldChangeLines(w: WhatWouldChange, pair: string): string[] {
+  const pct = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`;
+  const lines = w.priceLevels.map((l) => `- 終値が ${formatPriceUnit(pair, l.price)}（${pct(l.changePct)}）を${l.direction === 'up' ? '上' : '下'}回ると ${l.from} → ${l.to}`);
+  lines.push(...w.conditions.map((c) => `- ${c.effect}`));
+  for (const f of w.factors) {
+    const req = f.required[0];
+    if (req) lines.push(`- ${f.factor} が ${f.rawValue.toFixed(2)} → ${req.rawValue.toFixed(2)} で ${req.to}（他の要素が不変の場合）`);
+  }
+  return lines;
+}
+
 export default async function analyzeMarketSignal(
   pair: string = 'btc_jpy',
   opts: AnalyzeOpts = {}
@@ -29,13 +329,17 @@ export default async function analyzeMarketSignal(
   const bucketMs = Math.max(1_000, Math.min(opts.bucketMs ?? 60_000, 3_600_000));
   const windows = (opts.windows && opts.windows.length ? opts.windows : [14, 20, 30]).slice(0, 3);
   const horizon = Math.max(5, Math.min(opts.horizonBuckets ?? 10, 100));
+  const momentumInputs = (opts.momentumInputs && opts.momentumInputs.length ? [...new Set(opts.momentumInputs)] : ['rsi']) as MomentumInput[];
+  const resolved = resolveSignalWeights(opts.profile ?? 'default', opts.weights);
+  if (!resolved.ok) return AnalyzeMarketSignalOutputSchema.parse(fail(resolved.error.message, resolved.error.type)) as any;
+  const profile = resolved.value;
 
   try {
+    const candles = opts.prefetched?.candles;
     const [flowRes, volRes, indRes] = await Promise.all([
-      getFlowMetrics(chk.pair, flowLimit, undefined as any, bucketMs) as any,
-      getVolatilityMetrics(chk.pair, type, 200, windows, { annualize: true }) as any,
-      // SMA25/75/200 を扱うため十分な本数を取得（最低200+バッファ）
-      analyzeIndicators(chk.pair, type, 220) as any,
+      opts.prefetched?.flow ?? (getFlowMetrics(chk.pair, flowLimit, undefined as any, bucketMs) as any),
+      getVolatilityMetrics(chk.pair, type, 200, windows, { annualize: true, candles }) as any,
+      analyzeIndicators(chk.pair, type, SIGNAL_INDICATOR_LIMIT, { candles }) as any,
     ]);
 
     if (!flowRes?.ok) return AnalyzeMarketSignalOutputSchema.parse(fail(flowRes?.summary || 'flow failed', (flowRes?.meta as any)?.errorType || 'internal')) as any;
@@ -56,11 +360,20 @@ export default async function analyzeMarketSignal(
     // Volatility
     const rv = volRes?.data?.aggregates?.rv_std_ann ?? volRes?.data?.aggregates?.rv_std;
     const rvNum = typeof rv === 'number' ? rv : 0.5; // typical range ~0.2-0.8
-    const volatilityFactor = clamp((0.5 - rvNum) / 0.5, -1, 1); // 低ボラほど +
+    const volatilityFactor = volatilityValue(rvNum);
 
     // Indicators
-    const rsi = indRes?.data?.indicators?.RSI_14 as number | null;
-    const momentumFactor = rsi == null ? 0 : clamp(((rsi - 50) / 50), -1, 1);
+    const ind = indRes?.data?.indicators ?? {};
+    const rsi = ind.RSI_14 as number | null;
+    const oscillators = {
+      stochK: (ind.STOCH_K ?? null) as number | null,
+      stochD: (ind.STOCH_D ?? null) as number | null,
+      stochRsiK: (ind.STOCH_RSI_K ?? null) as number | null,
+      williamsR: (ind.WILLR_14 ?? null) as number | null,
+      cci: (ind.CCI_20 ?? null) as number | null,
+      roc: (ind.ROC_12 ?? null) as number | null,
+    };
+    const momentumFactor = momentumValue(momentumInputs, ind);
     // SMA trend factor: price vs SMA25/75 alignment and distance to SMA200
     const latestClose = indRes?.data?.normalized?.at(-1)?.close as number | undefined;
     const sma25 = indRes?.data?.indicators?.SMA_25 as number | null | undefined;
@@ -70,17 +383,10 @@ export default async function analyzeMarketSignal(
     let smaArrangement: 'bullish' | 'bearish' | 'mixed' = 'mixed';
     let smaDeviations: { vs25?: number; vs75?: number; vs200?: number } = {};
     if (latestClose != null && sma25 != null && sma75 != null) {
-      // alignment bonus
-      const alignedUp = latestClose > sma25 && (sma25 as number) > (sma75 as number);
-      const alignedDown = latestClose < sma25 && (sma25 as number) < (sma75 as number);
-      if (alignedUp) smaTrendFactor += 0.6; else if (alignedDown) smaTrendFactor -= 0.6;
+      const alignedUp = latestClose > sma25 && sma25 > sma75;
+      const alignedDown = latestClose < sma25 && sma25 < sma75;
       smaArrangement = alignedUp ? 'bullish' : (alignedDown ? 'bearish' : 'mixed');
-      // distance to SMA200 (above -> positive, below -> negative), normalized by 5% band
-      if (sma200 != null) {
-        const dist = (latestClose - (sma200 as number)) / (sma200 as number);
-        smaTrendFactor += clamp(dist / 0.05, -0.4, 0.4);
-      }
-      smaTrendFactor = clamp(smaTrendFactor, -1, 1);
+      smaTrendFactor = smaTrendValue(latestClose, sma25, sma75, sma200);
       // deviations (percent) vs SMA
       const pct = (val: number | null | undefined) => (val != null && latestClose != null && val !== 0) ? ((latestClose - val) / val) : undefined;
       smaDeviations = {
@@ -130,22 +436,31 @@ export default async function analyzeMarketSignal(
     } catch { /* ignore cross calc errors */ }
 
     // Composite score
-    // トレンド重視型（初心者向け）: 中長期トレンドを重視し、瞬間的な板の変動を抑制
-    const weights = { smaTrend: 0.35, momentum: 0.30, cvdTrend: 0.20, volatility: 0.10, buyPressure: 0.05 } as const;
-    const contribution_buy = buyPressure * weights.buyPressure;
-    const contribution_cvd = cvdTrend * weights.cvdTrend;
-    const contribution_mom = momentumFactor * weights.momentum;
-    const contribution_vol = volatilityFactor * weights.volatility;
-    const contribution_sma = smaTrendFactor * weights.smaTrend;
-    const score = Number((
-      contribution_buy +
-      contribution_cvd +
-      contribution_mom +
-      contribution_vol +
-      contribution_sma
-    ).toFixed(3));
-
-    const recommendation = score >= 0.25 ? 'bullish' : score <= -0.25 ? 'bearish' : 'neutral';
+    // 既定はトレンド重視型（初心者向け）: 中長期トレンドを重視し、瞬間的な板の変動を抑制
+    const factors = applySignalFactors(profile.weights, {
+      indicators: ind,
+      close: latestClose ?? null,
+      base: { smaTrend: smaTrendFactor, momentum: momentumFactor, cvdTrend, volatility: volatilityFactor, buyPressure },
+    });
+    const score = Number(factors.reduce((s, f) => s + f.contribution, 0).toFixed(3));
+    const warnings = factors.filter((f) => !f.available).map((f) => `${f.key}: 指標が算出できないため寄与 0 として計算`);
+
+    let historical: (ReturnType<typeof historicalOutlook> & { basis: 'candle_proxy'; sampleBars: number }) | undefined;
+    if (opts.historical) {
+      try {
+        const key = `signal-calibration:${chk.pair}:${type}:${formatSignalFormula(profile.weights)}:${momentumInputs.join('+')}`;
+        const { value: cal } = await cached(key, CALIBRATION_TTL_MS, async () => {
+          const r: any = await calibrateMarketSignal(chk.pair, { type, profile: opts.profile, weights: opts.weights, momentumInputs });
+          if (!r?.ok) throw new Error(String(r?.summary || 'calibration failed').replace(/^Error: /, ''));
+          return r.data as { samples: number; horizons: Parameters<typeof historicalOutlook>[1] };
+        });
+        historical = { basis: 'candle_proxy', sampleBars: cal.samples, ...historicalOutlook(score, cal.horizons) };
+      } catch (e: unknown) {
+        warnings.push(`historical: ${getErrorMessage(e) || '過去検証に失敗'}`);
+      }
+    }
+
+    const recommendation = recommendationOf(score);
     const tags: string[] = [];
     if (buyPressure > 0.2) tags.push('buy_pressure');
     if (cvdTrend > 0.2) tags.push('positive_cvd');
@@ -154,26 +469,17 @@ export default async function analyzeMarketSignal(
     if (rsi != null && rsi > 65) tags.push('overbought_risk');
 
     // compact contributions summary (top 2 by absolute value)
-    const contribPairs: Array<[string, number]> = [
-      ['buy', contribution_buy],
-      ['cvd', contribution_cvd],
-      ['sma', contribution_sma],
-      ['mom', contribution_mom],
-      ['vol', contribution_vol],
-    ];
-    const top2 = contribPairs
-      .sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]))
+    const SHORT: Record<string, string> = { buyPressure: 'buy', cvdTrend: 'cvd', smaTrend: 'sma', momentum: 'mom', volatility: 'vol' };
+    const ranked = [...factors].sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+    const top2 = ranked
       .slice(0, 2)
-      .map(([k, v]) => `${k}${v >= 0 ? '+' : ''}${Number(v.toFixed(2))}`)
+      .map((f) => `${SHORT[f.key] ?? f.key}${f.contribution >= 0 ? '+' : ''}${Number(f.contribution.toFixed(2))}`)
       .join(', ');
 
     // summary will be finalized after confidence/nextActions are computed
     let summary = '';
 
-    function calculateConfidence(
-      contributions: { buyPressure: number; cvdTrend: number; momentum: number; volatility: number; smaTrend: number },
-      score: number
-    ) {
+    function calculateConfidence(contributions: Record<string, number>, score: number) {
       const contribValues = Object.values(contributions);
       const sorted = contribValues
         .map((val, idx) => ({ value: val, index: idx }))
@@ -197,27 +503,60 @@ export default async function analyzeMarketSignal(
 
     // Precompute contributions/breakdown, confidence and next actions
     type BreakdownEntry = { rawValue: number; weight: number; contribution: number; interpretation: string };
-    type Breakdown = {
-      buyPressure: BreakdownEntry; cvdTrend: BreakdownEntry; momentum: BreakdownEntry; volatility: BreakdownEntry; smaTrend: BreakdownEntry;
-    };
+    // 適用したプロファイルに含まれる要素のみ（キーは factor 名）
+    type Breakdown = Partial<Record<string, BreakdownEntry>>;
 
-    const contributionsData = {
-      buyPressure: Number(contribution_buy.toFixed(3)),
-      cvdTrend: Number(contribution_cvd.toFixed(3)),
-      momentum: Number(contribution_mom.toFixed(3)),
-      volatility: Number(contribution_vol.toFixed(3)),
-      smaTrend: Number(contribution_sma.toFixed(3)),
-    };
+    const round3 = (v: number) => Number(v.toFixed(3));
+    const contributionsData = Object.fromEntries(factors.map((f) => [f.key, round3(f.contribution)]));
+    const breakdownData: Breakdown = Object.fromEntries(
+      factors.map((f) => [f.key, { rawValue: round3(f.rawValue), weight: round3(f.weight), contribution: round3(f.contribution), interpretation: f.interpretation }])
+    );
 
-    const breakdownData: Breakdown = {
-      buyPressure: { rawValue: Number(buyPressure.toFixed(3)), weight: 0.05, contribution: Number(contribution_buy.toFixed(3)), interpretation: buyPressure >= 0.4 ? 'strong' : buyPressure >= 0.15 ? 'moderate' : buyPressure <= -0.15 ? 'weak' : 'neutral' },
-      cvdTrend: { rawValue: Number(cvdTrend.toFixed(3)), weight: 0.20, contribution: Number(contribution_cvd.toFixed(3)), interpretation: cvdTrend >= 0.4 ? 'strong' : cvdTrend >= 0.15 ? 'moderate' : cvdTrend <= -0.15 ? 'weak' : 'neutral' },
-      momentum: { rawValue: Number(momentumFactor.toFixed(3)), weight: 0.30, contribution: Number(contribution_mom.toFixed(3)), interpretation: momentumFactor >= 0.35 ? 'strong' : momentumFactor >= 0.1 ? 'moderate' : momentumFactor <= -0.1 ? 'weak' : 'neutral' },
-      volatility: { rawValue: Number(volatilityFactor.toFixed(3)), weight: 0.10, contribution: Number(contribution_vol.toFixed(3)), interpretation: volatilityFactor >= 0.35 ? 'strong' : volatilityFactor >= 0.1 ? 'moderate' : volatilityFactor <= -0.1 ? 'weak' : 'neutral' },
-      smaTrend: { rawValue: Number(smaTrendFactor.toFixed(3)), weight: 0.35, contribution: Number(contribution_sma.toFixed(3)), interpretation: smaTrendFactor >= 0.35 ? 'strong' : smaTrendFactor >= 0.1 ? 'moderate' : smaTrendFactor <= -0.1 ? 'weak' : 'neutral' },
-    };
+    let confidence = calculateConfidence(contributionsData, score);
 
-    const confidence = calculateConfidence(contributionsData, score);
+    // 相場局面（analyze_market_regime と同じ判定）に逆行するシグナルは信頼度を 1 段階下げる
+    const regimeNow = classifyMarketRegime(indRes.data.normalized ?? []).current;
+    const regime = regimeNow ? { regime: regimeNow.regime, since: regimeNow.since, ...regimeFit(regimeNow.regime, recommendation, 'signal') } : null;
+    if (regime?.fit === 'unfavorable' && confidence.level !== 'low') {
+      confidence = { level: confidence.level === 'high' ? 'medium' : 'low', reason: `${confidence.reason}（${regime.note}）` };
+    }
+
+    // 判定が変わる条件（約定フロー由来の要素は固定し、価格由来の要素は最新足の終値を動かして再計算）
+    const scoreGaps = signalScoreGaps(score);
+    const whatWouldChange: WhatWouldChange = {
+      scoreGaps,
+      factors: factors.map((f) => ({
+        factor: f.key,
+        rawValue: round3(f.rawValue),
+        weight: round3(f.weight),
+        required: scoreGaps
+          .map((g) => ({ to: g.to, rawValue: roundOutward(round3(f.rawValue) + g.scoreDelta / f.weight, g.scoreDelta) }))
+          .filter((r) => Math.abs(r.rawValue) <= 1),
+      })),
+      conditions: [],
+      priceLevels: [],
+    };
+    const momentumApplied = factors.find((f) => f.key === 'momentum');
+    if (momentumApplied) whatWouldChange.conditions.push(...rsiConditions(ind, momentumInputs, momentumApplied, scoreGaps));
+    const priceDigits = indicatorDigits(chk.pair, latestClose ?? 0);
+    if (latestClose != null) {
+      if (profile.weights.smaTrend > 0 && sma25 != null && sma75 != null) {
+        whatWouldChange.conditions.push(...smaConditions(chk.pair, latestClose, sma25, sma75, sma200, priceDigits));
+      }
+      try {
+        const scoreAt = signalScoreAtClose({
+          candles: indRes.data.normalized ?? [],
+          type,
+          weights: profile.weights,
+          momentumInputs,
+          indicators: ind,
+          flow: { cvdTrend, buyPressure },
+        });
+        whatWouldChange.priceLevels = findSignalPriceLevels(scoreAt, latestClose, score, priceDigits);
+      } catch (e: unknown) {
+        warnings.push(`whatWouldChange: ${getErrorMessage(e) || '判定が変わる価格を算出できません'}`);
+      }
+    }
 
     function generateNextActions(
       breakdown: Breakdown,
@@ -225,21 +564,21 @@ export default async function analyzeMarketSignal(
       conf: { level: 'high' | 'medium' | 'low'; reason: string }
     ) {
       const actions: Array<{ priority: 'high' | 'medium' | 'low'; tool: string; reason: string; suggestedParams?: Record<string, any> }> = [];
-      const cvdContribAbs = Math.abs(breakdown.cvdTrend.contribution);
-      if (cvdContribAbs < 0.1) {
-        actions.push({ priority: 'high', tool: 'get_flow_metrics', reason: `CVD寄与が弱い(${breakdown.cvdTrend.contribution.toFixed(2)})。実際のフロー・スパイク確認推奨`, suggestedParams: { bucketMs: 60000, limit: 300 } });
+      // プロファイルに含まれない要素の確認は提案しない
+      const { cvdTrend: cvdB, volatility: volB, momentum: momB, buyPressure: buyB } = breakdown;
+      if (cvdB && Math.abs(cvdB.contribution) < 0.1) {
+        actions.push({ priority: 'high', tool: 'get_flow_metrics', reason: `CVD寄与が弱い(${cvdB.contribution.toFixed(2)})。実際のフロー・スパイク確認推奨`, suggestedParams: { bucketMs: 60000, limit: 300 } });
       }
-      const volContribAbs = Math.abs(breakdown.volatility.contribution);
-      if (volContribAbs > 0.08 || breakdown.volatility.interpretation === 'strong') {
-        actions.push({ priority: volContribAbs > 0.12 ? 'high' : 'medium', tool: 'get_volatility_metrics', reason: `ボラティリティ寄与が${volContribAbs > 0.12 ? '大' : '中程度'}(${breakdown.volatility.contribution.toFixed(2)})。詳細確認推奨`, suggestedParams: { windows: [14, 20, 30], type: '1day' } });
+      const volContribAbs = Math.abs(volB?.contribution ?? 0);
+      if (volB && (volContribAbs > 0.08 || volB.interpretation === 'strong')) {
+        actions.push({ priority: volContribAbs > 0.12 ? 'high' : 'medium', tool: 'get_volatility_metrics', reason: `ボラティリティ寄与が${volContribAbs > 0.12 ? '大' : '中程度'}(${volB.contribution.toFixed(2)})。詳細確認推奨`, suggestedParams: { windows: [14, 20, 30], type: '1day' } });
       }
-      const momContribAbs = Math.abs(breakdown.momentum.contribution);
-      if (momContribAbs > 0.1) {
-        actions.push({ priority: momContribAbs > 0.15 ? 'high' : 'medium', tool: 'get_indicators', reason: `モメンタム寄与が${momContribAbs > 0.15 ? '大' : '中程度'}(${breakdown.momentum.contribution.toFixed(2)})。指標詳細確認推奨`, suggestedParams: { limit: 200 } });
+      const momContribAbs = Math.abs(momB?.contribution ?? 0);
+      if (momB && momContribAbs > 0.1) {
+        actions.push({ priority: momContribAbs > 0.15 ? 'high' : 'medium', tool: 'get_indicators', reason: `モメンタム寄与が${momContribAbs > 0.15 ? '大' : '中程度'}(${momB.contribution.toFixed(2)})。指標詳細確認推奨`, suggestedParams: { limit: 200 } });
       }
-      const buyContribAbs = Math.abs(breakdown.buyPressure.contribution);
-      if (buyContribAbs > 0.25) {
-        actions.push({ priority: 'medium', tool: 'get_orderbook_pressure', reason: `板圧力寄与が大(${breakdown.buyPressure.contribution.toFixed(2)})。帯域別分析推奨`, suggestedParams: { bandsPct: [0.001, 0.005, 0.01] } });
+      if (buyB && Math.abs(buyB.contribution) > 0.25) {
+        actions.push({ priority: 'medium', tool: 'get_orderbook_pressure', reason: `板圧力寄与が大(${buyB.contribution.toFixed(2)})。帯域別分析推奨`, suggestedParams: { bandsPct: [0.001, 0.005, 0.01] } });
       }
       if (Math.abs(scoreVal) < 0.3) {
         actions.push({ priority: 'medium', tool: 'detect_forming_chart_patterns', reason: `スコア中立圏(${scoreVal.toFixed(3)})。レンジ・パターン形成可能性`, suggestedParams: { view: 'detailed' } });
@@ -268,12 +607,20 @@ export default async function analyzeMarketSignal(
 
     const alerts = (() => {
       const a: Array<{ level: 'info' | 'warning' | 'critical'; message: string }> = [];
-      if (Math.abs(breakdownData.volatility.contribution) < 0.03) {
+      if (breakdownData.volatility && Math.abs(breakdownData.volatility.contribution) < 0.03) {
         a.push({ level: 'info', message: 'ボラティリティ寄与が低い。急変時に注意' });
       }
       if (confidence.level === 'low') {
         a.push({ level: 'warning', message: '要素間の矛盾あり。詳細分析を強く推奨' });
       }
+      if (regime?.regime === 'crash') {
+        a.push({ level: 'critical', message: `急落局面（高値から -${((regimeNow?.drawdown ?? 0) * 100).toFixed(1)}%、高ボラティリティ）` });
+      } else if (regime?.regime === 'high_vol') {
+        a.push({ level: 'warning', message: '高ボラティリティ局面。スコアの振れが大きくなりやすい' });
+      }
+      if (regime?.fit === 'unfavorable') {
+        a.push({ level: 'warning', message: `相場局面と逆行: ${regime.note}` });
+      }
       return a;
     })();
 
@@ -288,20 +635,17 @@ export default async function analyzeMarketSignal(
       score,
       recommendation,
       tags,
-      formula: 'score = 0.35*smaTrend + 0.30*momentum + 0.20*cvdTrend + 0.10*volatility + 0.05*buyPressure',
-      weights: { smaTrend: 0.35, momentum: 0.30, cvdTrend: 0.20, volatility: 0.10, buyPressure: 0.05 },
+      formula: formatSignalFormula(profile.weights),
+      weights: Object.fromEntries(Object.entries(profile.weights).map(([k, w]) => [k, Number(w.toFixed(4))])),
+      profile: { name: profile.profile, custom: profile.custom, normalized: profile.normalized },
       contributions: contributionsData,
       breakdown: breakdownData,
-      topContributors: ['smaTrend', 'momentum', 'cvdTrend', 'volatility', 'buyPressure']
-        .map((k) => [k, { buyPressure: contribution_buy, cvdTrend: contribution_cvd, smaTrend: contribution_sma, momentum: contribution_mom, volatility: contribution_vol }[k as 'buyPressure'] as number])
-        .sort((a, b) => Math.abs((b[1] as number)) - Math.abs((a[1] as number)))
-        .slice(0, 2)
-        .map((x) => x[0]) as Array<'buyPressure' | 'cvdTrend' | 'momentum' | 'volatility' | 'smaTrend'>,
+      topContributors: ranked.slice(0, 2).map((f) => f.key),
       confidence: confidence.level,
       confidenceReason: confidence.reason,
       nextActions,
       alerts,
-      thresholds: { bullish: 0.25, bearish: -0.25 },
+      thresholds: { ...SIGNAL_THRESHOLDS },
       metrics: {
         buyPressure,
         cvdTrend,
@@ -309,6 +653,8 @@ export default async function analyzeMarketSignal(
         volatilityFactor,
         smaTrendFactor,
         rsi: rsi ?? null,
+        oscillators,
+        momentumInputs,
         rv_std_ann: rvNum,
         aggressorRatio: buyRatio,
         cvdSlope,
@@ -337,6 +683,9 @@ export default async function analyzeMarketSignal(
         volatility: { aggregates: volRes.data.aggregates },
         indicators: { latest: indRes.data.indicators, trend: indRes.data.trend },
       },
+      regime,
+      whatWouldChange,
+      ...(historical ? { historical } : {}),
     };
 
     // Enrich summary with brief human-readable lines (SMA and states, next actions)
@@ -383,10 +732,27 @@ export default async function analyzeMarketSignal(
       return `直近クロス: ${ago}日前に${jpType}（25日が75日を${action}）`;
     })();
 
+    // 要素の内訳は適用した重みの順（組み込み要素は状態の説明を添える）
+    const factorDetail: Record<string, string> = {
+      smaTrend: arrangementStr,
+      momentum: `${momLabel}${rsi != null ? `、RSI=${Math.round(rsi)}` : ''}${momentumInputs.length > 1 || momentumInputs[0] !== 'rsi' ? `、入力: ${momentumInputs.join('+')}` : ''}`,
+      cvdTrend: cvdLabel,
+      volatility: volLabel,
+      buyPressure: buyLabel,
+    };
+    const pctOf = (w: number) => `${Number((w * 100).toFixed(1))}%`;
+    const factorLines = factors.map((f) => {
+      const detail = factorDetail[f.key] ?? (f.available ? f.interpretation : '算出不可');
+      return `- ${f.label}（重み${pctOf(f.weight)}）: ${f.rawValue.toFixed(2)}（${detail}）`;
+    });
+    const profileLine = `${SIGNAL_PROFILES[profile.profile].description.replace(/（.*$/, '')}${profile.custom ? '・重みを調整' : ''}（${factors.map((f) => `${f.key} ${pctOf(f.weight)}`).join(' / ')}）`;
+
+    const whatWouldChangeLines = formatWhatWouldChangeLines(whatWouldChange, chk.pair);
     const fullText = [
       `${String(chk.pair).toUpperCase()} [${String(type)}]`,
       `総合スコア: ${score100}（${recommendation}、信頼度: ${confidence.level}）`,
-      `※ トレンド重視型（中長期35%+30% / 短期20% / 瞬間5%）`,
+      `※ ${profileLine}`,
+      ...(regime ? [`局面: ${REGIME_LABELS_JA[regime.regime]}（${regime.since?.slice(0, 10) ?? '?'} から、${regime.note}）`] : []),
       '',
       '【価格情報】',
       `現在価格: ${priceNowStr}`,
@@ -400,17 +766,26 @@ export default async function analyzeMarketSignal(
       ...(crossLine ? [crossLine] : []),
       '',
       '【各要素の詳細】',
-      `- 平均価格の配置（重み35%）: ${smaTrendFactor.toFixed(2)}（${arrangementStr}）`,
-      `- 勢いの変化（重み30%）: ${momentumFactor.toFixed(2)}（${momLabel}${rsi != null ? `、RSI=${Math.round(rsi)}` : ''}）`,
-      `- 出来高の流れ（重み20%）: ${cvdTrend.toFixed(2)}（${cvdLabel}）`,
-      `- 値動きの荒さ（重み10%）: ${volatilityFactor.toFixed(2)}（${volLabel}）`,
-      `- 板の買い圧力（重み5%）: ${buyPressure.toFixed(2)}（${buyLabel}）`,
+      ...factorLines,
+      '',
+      '【判定が変わる条件】',
+      ...(whatWouldChangeLines.length ? whatWouldChangeLines : ['- 該当なし']),
+      '※ 約定フロー由来の要素は現在値のまま、最新足の終値だけが動いた場合の目安',
+      ...(historical
+        ? [
+          '',
+          '【過去の同程度スコア】',
+          `過去 ${historical.sampleBars} 本で、同程度のスコア（${historical.bucket}）の後:`,
+          ...(formatOutlookLines(historical).length ? formatOutlookLines(historical) : ['- 該当する過去の足なし']),
+          '※ フロー要素はローソク足で近似した再計算スコアで分類（将来の結果を保証するものではありません）',
+        ]
+        : []),
       '',
       '【次の確認推奨】',
       ...(nextLines.length ? nextLines : ['- 該当なし']),
     ].join('\n');
 
-    const meta = createMeta(chk.pair, { type, windows, bucketMs, flowLimit });
+    const meta = createMeta(chk.pair, { type, windows, bucketMs, flowLimit, momentumInputs, profile: profile.profile, warnings: warnings.length ? warnings : undefined });
     return AnalyzeMarketSignalOutputSchema.parse(ok(fullText, data as any, meta as any)) as any;
   } catch (e: unknown) {
     return AnalyzeMarketSignalOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
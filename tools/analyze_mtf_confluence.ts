@@ -0,0 +1,203 @@
+import getCandles from './get_candles.js';
+import getFlowMetrics from './get_flow_metrics.js';
+import analyzeMarketSignal, { SIGNAL_CANDLE_COUNT } from './analyze_market_signal.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair } from '../lib/validate.js';
+import { formatSummary } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { parseTimeframe } from '../lib/timeframe.js';
+import { AnalyzeMtfConfluenceOutputSchema } from '../src/schemas.js';
+
+export type Bias = 'bullish' | 'bearish' | 'neutral';
+
+/** 時間足ごとに判定する要素（行列の列） */
+export const MTF_COMPONENTS = ['signal', 'sma', 'ichimoku', 'macd'] as const;
+export type MtfComponent = (typeof MTF_COMPONENTS)[number];
+
+export const DEFAULT_MTF_TIMEFRAMES = ['1hour', '4hour', '1day', '1week'];
+
+/** 時間足の判定: 要素の平均がこの値以上で bullish（-側も同様）。4 要素なら差し引き 2 つ以上の一致 */
+const TIMEFRAME_BIAS_THRESHOLD = 0.5;
+/** 合成スコアの判定（analyze_market_signal と同じ ±0.25） */
+const CONFLUENCE_BIAS_THRESHOLD = 0.25;
+
+export interface TimeframeState {
+  timeframe: string;
+  weight: number;
+  states: Record<MtfComponent, Bias>;
+  /** 要素の平均（-1〜+1） */
+  value: number;
+  bias: Bias;
+  detail: {
+    close: number | null;
+    signalScore: number;
+    smaArrangement: 'bullish' | 'bearish' | 'mixed';
+    ichimoku: { position: 'above_cloud' | 'below_cloud' | 'in_cloud' | null; tenkanVsKijun: 'above' | 'below' | 'equal' | null };
+    macd: { hist: number | null; crossBarsAgo: number | null };
+  };
+}
+
+const DIRECTION: Record<Bias, number> = { bullish: 1, bearish: -1, neutral: 0 };
+
+function biasOf(v: number, threshold: number): Bias {
+  return v >= threshold ? 'bullish' : v <= -threshold ? 'bearish' : 'neutral';
+}
+
+/** 足の長さ（分）。月足は 30 日で近似 */
+function timeframeMinutes(type: string): number {
+  const tf = parseTimeframe(type);
+  if (!tf) return Number.POSITIVE_INFINITY;
+  const unit = { min: 1, hour: 60, day: 1440, week: 10_080, month: 43_200 }[tf.unit];
+  return tf.n * unit;
+}
+
+/** 長い足ほど重く（短い順に 1, 1.5, 2, 2.5 …）し、合計 1 に正規化 */
+export function timeframeWeights(timeframes: string[]): Record<string, number> {
+  const sorted = [...timeframes].sort((a, b) => timeframeMinutes(a) - timeframeMinutes(b));
+  const raw = sorted.map((tf, i) => [tf, 1 + 0.5 * i] as const);
+  const sum = raw.reduce((s, [, w]) => s + w, 0);
+  return Object.fromEntries(raw.map(([tf, w]) => [tf, w / sum]));
+}
+
+/**
+ * 時間足ごとの状態から合成スコアと不一致の時間足を求める
+ * - score: 重み付き平均（-1〜+1）
+ * - agreement: 全体の判定と同じ向きの時間足の重みの合計
+ * - disagreeing: 全体の判定と異なる時間足と、食い違っている要素
+ */
+export function summarizeConfluence(rows: TimeframeState[]) {
+  const totalWeight = rows.reduce((s, r) => s + r.weight, 0) || 1;
+  const score = rows.reduce((s, r) => s + r.value * r.weight, 0) / totalWeight;
+  const bias = biasOf(score, CONFLUENCE_BIAS_THRESHOLD);
+  const agreeing = rows.filter((r) => r.bias === bias);
+  return {
+    score: Number(score.toFixed(3)),
+    bias,
+    agreement: Number((agreeing.reduce((s, r) => s + r.weight, 0) / totalWeight).toFixed(3)),
+    aligned: rows.length > 1 && agreeing.length === rows.length,
+    disagreeing: rows
+      .filter((r) => r.bias !== bias)
+      .map((r) => ({ timeframe: r.timeframe, bias: r.bias, conflicts: MTF_COMPONENTS.filter((c) => r.states[c] !== bias) })),
+  };
+}
+
+/** analyze_market_signal の結果（refs.indicators に指標の系列を含む）から各要素の向きを判定 */
+function timeframeState(timeframe: string, weight: number, signal: any): TimeframeState {
+  const d = signal.data;
+  const ind: any = d.refs?.indicators?.latest ?? {};
+  const close = (d.sma?.current ?? null) as number | null;
+
+  // 今日の雲 = 26 本前に計算された先行スパン（analyze_ichimoku_snapshot と同じ扱い）
+  const spanA: Array<number | null> = ind.ichi_series?.spanA ?? [];
+  const spanB: Array<number | null> = ind.ichi_series?.spanB ?? [];
+  const len = Math.min(spanA.length, spanB.length);
+  const a = len >= 26 ? spanA[len - 26] : null;
+  const b = len >= 26 ? spanB[len - 26] : null;
+  let position: TimeframeState['detail']['ichimoku']['position'] = null;
+  if (close != null && a != null && b != null) {
+    position = close > Math.max(a, b) ? 'above_cloud' : close < Math.min(a, b) ? 'below_cloud' : 'in_cloud';
+  }
+  const tenkan = ind.ICHIMOKU_conversion as number | undefined;
+  const kijun = ind.ICHIMOKU_base as number | undefined;
+  const tenkanVsKijun = tenkan == null || kijun == null ? null : tenkan > kijun ? 'above' : tenkan < kijun ? 'below' : 'equal';
+
+  const hist: Array<number | null> = ind.macd_series?.hist ?? [];
+  const lastHist = hist.at(-1) ?? null;
+  let crossBarsAgo: number | null = null;
+  for (let i = hist.length - 1; i > 0; i--) {
+    const cur = hist[i];
+    const prev = hist[i - 1];
+    if (cur == null || prev == null) break;
+    if (Math.sign(cur) !== Math.sign(prev) && cur !== 0) {
+      crossBarsAgo = hist.length - 1 - i;
+      break;
+    }
+  }
+
+  const states: Record<MtfComponent, Bias> = {
+    signal: d.recommendation as Bias,
+    sma: d.sma?.arrangement === 'bullish' ? 'bullish' : d.sma?.arrangement === 'bearish' ? 'bearish' : 'neutral',
+    ichimoku: position === 'above_cloud' ? 'bullish' : position === 'below_cloud' ? 'bearish' : 'neutral',
+    macd: lastHist == null || lastHist === 0 ? 'neutral' : lastHist > 0 ? 'bullish' : 'bearish',
+  };
+  const value = MTF_COMPONENTS.reduce((s, c) => s + DIRECTION[states[c]], 0) / MTF_COMPONENTS.length;
+  return {
+    timeframe,
+    weight: Number(weight.toFixed(4)),
+    states,
+    value: Number(value.toFixed(3)),
+    bias: biasOf(value, TIMEFRAME_BIAS_THRESHOLD),
+    detail: {
+      close,
+      signalScore: d.score,
+      smaArrangement: d.sma?.arrangement ?? 'mixed',
+      ichimoku: { position, tenkanVsKijun },
+      macd: { hist: lastHist, crossBarsAgo },
+    },
+  };
+}
+
+/**
+ * 複数の時間足で総合シグナル・SMA 配置・一目の雲・MACD の向きを揃えて比較する
+ * ローソク足は時間足ごとに 1 回、約定フローは全時間足で 1 回だけ取得して使い回す
+ */
+export default async function analyzeMtfConfluence(
+  pair: string = 'btc_jpy',
+  timeframes: string[] = DEFAULT_MTF_TIMEFRAMES
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return AnalyzeMtfConfluenceOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  const tfs = [...new Set(timeframes)];
+  if (tfs.length < 2 || tfs.length > 4) return AnalyzeMtfConfluenceOutputSchema.parse(fail('timeframes は異なる時間足を 2〜4 個指定してください', 'user')) as any;
+  const invalid = tfs.find((tf) => !parseTimeframe(tf));
+  if (invalid) return AnalyzeMtfConfluenceOutputSchema.parse(fail(`未対応の時間足: '${invalid}'（例: 1hour, 4hour, 1day, 1week）`, 'user')) as any;
+  const ordered = [...tfs].sort((a, b) => timeframeMinutes(a) - timeframeMinutes(b));
+  const weights = timeframeWeights(ordered);
+
+  try {
+    const [flow, ...candles] = await Promise.all([
+      getFlowMetrics(chk.pair, 300, undefined as any, 60_000) as any,
+      ...ordered.map((tf) => getCandles(chk.pair, tf, undefined as any, SIGNAL_CANDLE_COUNT)),
+    ]);
+    if (!flow?.ok) return AnalyzeMtfConfluenceOutputSchema.parse(fail(flow?.summary || 'flow failed', flow?.meta?.errorType || 'internal')) as any;
+
+    const warnings: string[] = [];
+    const rows: TimeframeState[] = [];
+    let firstError: any = null;
+    for (const [i, tf] of ordered.entries()) {
+      const signal: any = await analyzeMarketSignal(chk.pair, { type: tf, prefetched: { flow, candles: candles[i] } });
+      if (!signal?.ok) {
+        firstError ??= signal;
+        warnings.push(`${tf}: ${String(signal?.summary || 'failed').replace(/^Error: /, '')}`);
+        continue;
+      }
+      rows.push(timeframeState(tf, weights[tf], signal));
+    }
+    if (!rows.length) return AnalyzeMtfConfluenceOutputSchema.parse(fail(firstError?.summary?.replace(/^Error: /, '') || 'all timeframes failed', firstError?.meta?.errorType || 'internal')) as any;
+    if (rows.length < ordered.length) {
+      // 取得できた時間足だけで重みを付け直す
+      const w = timeframeWeights(rows.map((r) => r.timeframe));
+      for (const r of rows) r.weight = Number(w[r.timeframe].toFixed(4));
+    }
+
+    const confluence = summarizeConfluence(rows);
+    const mark = (b: Bias) => (b === 'bullish' ? '+' : b === 'bearish' ? '-' : '0');
+    const biasJa = (b: Bias) => (b === 'bullish' ? '強気' : b === 'bearish' ? '弱気' : '中立');
+    const summary = [
+      formatSummary({ pair: chk.pair, latest: rows.at(-1)?.detail.close ?? undefined, extra: `confluence=${Math.round(confluence.score * 100)} bias=${confluence.bias}` }),
+      '',
+      `合成スコア: ${Math.round(confluence.score * 100)}（${biasJa(confluence.bias)}、一致度 ${Math.round(confluence.agreement * 100)}%${confluence.aligned ? '、全時間足一致' : ''}）`,
+      `【時間足 × 要素】（+ 強気 / - 弱気 / 0 中立、列: ${MTF_COMPONENTS.join(' / ')}）`,
+      ...rows.map((r) => `- ${r.timeframe}（重み${Math.round(r.weight * 100)}%）: ${MTF_COMPONENTS.map((c) => mark(r.states[c])).join(' ')} → ${biasJa(r.bias)}`),
+      ...(confluence.disagreeing.length
+        ? ['', `不一致: ${confluence.disagreeing.map((x) => `${x.timeframe}（${biasJa(x.bias)}: ${x.conflicts.join(', ')}）`).join(' / ')}`]
+        : []),
+    ].join('\n');
+
+    const data = { timeframes: rows.map((r) => r.timeframe), components: [...MTF_COMPONENTS], matrix: rows, confluence };
+    const meta = createMeta(chk.pair, { timeframes: ordered, candleCount: SIGNAL_CANDLE_COUNT, warnings: warnings.length ? warnings : undefined });
+    return AnalyzeMtfConfluenceOutputSchema.parse(ok(summary, data, meta as any)) as any;
+  } catch (e: unknown) {
+    return AnalyzeMtfConfluenceOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
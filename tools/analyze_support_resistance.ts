@@ -1,7 +1,7 @@
 import getCandles from './get_candles.js';
 import { ok, fail } from '../lib/result.js';
 import { createMeta, ensurePair } from '../lib/validate.js';
-import { formatSummary } from '../lib/formatter.js';
+import { formatSummary, formatPair, formatPriceUnit, priceStepFor } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
 import { AnalyzeSupportResistanceOutputSchema } from '../src/schemas.js';
 
@@ -36,15 +36,17 @@ export interface SupportResistanceLevel {
   note?: string; // 補足説明
 }
 
-function roundToLevel(price: number, step: number = 50000): number {
-  return Math.round(price / step) * step;
+// step は価格水準に比例（priceStepFor: 現在値の約0.5%。BTC/JPY で 50,000 円相当）
+function roundToLevel(price: number, step: number): number {
+  return Number((Math.round(price / step) * step).toPrecision(12));
 }
 
 function findPriceLevels(
   candles: Array<{ isoTime: string; open: number; high: number; low: number; close: number }>,
   currentPrice: number,
   tolerance: number,
-  recentDays: number
+  recentDays: number,
+  step: number
 ): { supports: Map<number, TouchEvent[]>; resistances: Map<number, TouchEvent[]> } {
   const supports = new Map<number, TouchEvent[]>();
   const resistances = new Map<number, TouchEvent[]>();
@@ -57,7 +59,7 @@ function findPriceLevels(
     if (candleDate < recentCutoff) continue;
 
     // サポート判定：安値での反発
-    const lowLevel = roundToLevel(candle.low);
+    const lowLevel = roundToLevel(candle.low, step);
     const lowBounce = ((candle.close - candle.low) / candle.low) * 100;
     
     if (lowBounce > 0.3) { // 0.3%以上の下ヒゲまたは反発
@@ -75,7 +77,7 @@ function findPriceLevels(
     }
 
     // レジスタンス判定：高値での反落
-    const highLevel = roundToLevel(candle.high);
+    const highLevel = roundToLevel(candle.high, step);
     const highReject = ((candle.high - candle.close) / candle.high) * 100;
     
     if (highReject > 0.3) { // 0.3%以上の上ヒゲまたは反落
@@ -133,7 +135,8 @@ function detectRecentBreak(
 
 function detectNewSupport(
   candles: Array<{ isoTime: string; open: number; high: number; low: number; close: number; volume?: number }>,
-  recentDays: number = 10
+  recentDays: number = 10,
+  step: number = priceStepFor(candles.at(-1)?.close ?? 0)
 ): Array<{ price: number; date: string; volumeBoost: boolean; note: string }> {
   const now = new Date();
   const recentCutoff = new Date(now.getTime() - recentDays * 24 * 60 * 60 * 1000);
@@ -170,7 +173,7 @@ function detectNewSupport(
         }
         
         newSupports.push({
-          price: roundToLevel(current.low),
+          price: roundToLevel(current.low, step),
           date: current.isoTime.split('T')[0],
           volumeBoost,
           note
@@ -272,12 +275,13 @@ export default async function analyzeSupportResistance(
 
     const currentCandle = candles[candles.length - 1];
     const currentPrice = currentCandle.close;
+    const levelStep = priceStepFor(currentPrice);
 
     // 価格レベル検出
-    const { supports, resistances } = findPriceLevels(candles, currentPrice, tolerance, lookbackDays);
+    const { supports, resistances } = findPriceLevels(candles, currentPrice, tolerance, lookbackDays, levelStep);
 
     // 新サポート形成の検出
-    const newSupports = detectNewSupport(candles, 10);
+    const newSupports = detectNewSupport(candles, 10, levelStep);
     
     // 崩壊・突破を記録
     const brokenSupports = new Map<number, { date: string; price: number }>();
@@ -494,7 +498,7 @@ export default async function analyzeSupportResistance(
     const formatLevel = (level: SupportResistanceLevel, type: 'support' | 'resistance') => {
       // 3段階表記：★☆☆ / ★★☆ / ★★★
       const stars = '★'.repeat(level.strength) + '☆'.repeat(3 - level.strength);
-      let text = `${level.label}: ${level.price.toLocaleString()}円（${level.pctFromCurrent > 0 ? '+' : ''}${level.pctFromCurrent.toFixed(1)}%）強度：${stars}\n`;
+      let text = `${level.label}: ${formatPriceUnit(chk.pair, level.price)}（${level.pctFromCurrent > 0 ? '+' : ''}${level.pctFromCurrent.toFixed(1)}%）強度：${stars}\n`;
       
       // 形成タイプに応じた平易な説明
       if (level.formationType === 'new_formation') {
@@ -528,15 +532,15 @@ export default async function analyzeSupportResistance(
       }
       
       if (level.recentBreak) {
-        text += `  - ⚠️ 直近の崩壊: ${level.recentBreak.date}に${Math.abs(level.recentBreak.breakPct).toFixed(1)}%${type === 'support' ? '下抜け' : '上抜け'}（${type === 'support' ? '最安' : '最高'}${level.recentBreak.price.toLocaleString()}円）\n`;
+        text += `  - ⚠️ 直近の崩壊: ${level.recentBreak.date}に${Math.abs(level.recentBreak.breakPct).toFixed(1)}%${type === 'support' ? '下抜け' : '上抜け'}（${type === 'support' ? '最安' : '最高'}${formatPriceUnit(chk.pair, level.recentBreak.price)}）\n`;
         text += `  - 評価: 崩壊実績により信頼性低下、${type === 'support' ? '再割れ' : '再突破'}リスク高\n`;
       }
       
       return text;
     };
 
-    let contentText = `BTC/JPY サポート・レジスタンス分析（過去${lookbackDays}日）\n`;
-    contentText += `現在価格: ${currentPrice.toLocaleString()}円\n`;
+    let contentText = `${formatPair(chk.pair)} サポート・レジスタンス分析（過去${lookbackDays}日）\n`;
+    contentText += `現在価格: ${formatPriceUnit(chk.pair, currentPrice)}\n`;
     contentText += `分析日時: ${currentCandle.isoTime.split('T')[0]}\n\n`;
     
     contentText += `【サポートライン】\n`;
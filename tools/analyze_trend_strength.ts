@@ -0,0 +1,114 @@
+import analyzeIndicators from './analyze_indicators.js';
+import { classifyMarketRegime } from './analyze_market_regime.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair } from '../lib/validate.js';
+import { formatSummary } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { AnalyzeTrendStrengthOutputSchema } from '../src/schemas.js';
+import type { NumericSeries } from '../src/types/domain.d.ts';
+
+type Direction = 'up' | 'down' | 'neutral';
+
+const toDirection = (v: number | null | undefined): Direction => (v === 1 ? 'up' : v === -1 ? 'down' : 'neutral');
+
+/** 現在の方向が何本前に始まったか（系列内で反転が無ければ null） */
+export function barsSinceFlip(direction: NumericSeries): number | null {
+  const last = direction.length - 1;
+  const cur = direction[last];
+  if (cur == null) return null;
+  for (let i = last - 1; i >= 0; i--) {
+    if (direction[i] == null) return null;
+    if (direction[i] !== cur) return last - (i + 1);
+  }
+  return null;
+}
+
+/**
+ * ADX/DMI・Aroon・Parabolic SAR・Supertrend からトレンド相場かレンジ相場かを判定
+ * - regime: analyze_market_regime のトレンド判定（ADX が adxTrend 以上 = trending、adxRange 未満 = ranging、
+ *   その間 = transitional。局面判定はこの帯では直前の判定を維持する）
+ * - direction: 4 指標の投票（±1）の合計が ±2 以上なら up/down
+ */
+export default async function analyzeTrendStrength(
+  pair: string = 'btc_jpy',
+  type: string = '1day',
+  limit: number = 120,
+  { adxTrend = 25, adxRange = 20 }: { adxTrend?: number; adxRange?: number } = {}
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return AnalyzeTrendStrengthOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  if (adxRange > adxTrend) return AnalyzeTrendStrengthOutputSchema.parse(fail(`adxRange（${adxRange}）は adxTrend（${adxTrend}）以下で指定してください`, 'user')) as any;
+  try {
+    const indRes = await analyzeIndicators(chk.pair, type, Math.max(60, limit));
+    if (!indRes?.ok) return AnalyzeTrendStrengthOutputSchema.parse(fail(indRes?.summary || 'indicators failed', (indRes?.meta as { errorType?: string })?.errorType || 'internal')) as any;
+
+    const ind = indRes.data.indicators;
+    const close = indRes.data.normalized.at(-1)?.close ?? null;
+
+    const adxNow = ind.ADX_14 ?? null;
+    const plusDI = ind.PLUS_DI_14 ?? null;
+    const minusDI = ind.MINUS_DI_14 ?? null;
+    const adxPrev = ind.adx_series?.adx.at(-6) ?? null; // 5 本前との比較で勢いの増減を見る
+    const slope = adxNow != null && adxPrev != null ? Number((adxNow - adxPrev).toFixed(2)) : null;
+
+    const aroonOsc = ind.AROON_OSC ?? null;
+    const psarDir = ind.PSAR_dir ?? null;
+    const stDir = ind.SUPERTREND_dir ?? null;
+    const stValue = ind.SUPERTREND ?? null;
+
+    const votes = {
+      dmi: plusDI == null || minusDI == null || plusDI === minusDI ? 0 : plusDI > minusDI ? 1 : -1,
+      aroon: aroonOsc == null ? 0 : aroonOsc >= 50 ? 1 : aroonOsc <= -50 ? -1 : 0,
+      psar: psarDir === 1 ? 1 : psarDir === -1 ? -1 : 0,
+      supertrend: stDir === 1 ? 1 : stDir === -1 ? -1 : 0,
+      net: 0,
+    };
+    votes.net = votes.dmi + votes.aroon + votes.psar + votes.supertrend;
+
+    const regimeBar = classifyMarketRegime(indRes.data.normalized, { adxTrend, adxRange }).bars.at(-1);
+    const held = regimeBar?.adx != null && regimeBar.adx >= adxRange && regimeBar.adx < adxTrend;
+    const regime = regimeBar?.trend == null ? 'unknown' : held ? 'transitional' : regimeBar.trend === 'range' ? 'ranging' : 'trending';
+    const direction: Direction = votes.net >= 2 ? 'up' : votes.net <= -2 ? 'down' : 'neutral';
+    const score = adxNow == null ? 0 : Math.round(Math.min(1, Math.max(0, adxNow / 50)) * (votes.net / 4) * 100);
+
+    const psarFlip = ind.psar_series ? barsSinceFlip(ind.psar_series.direction) : null;
+    const stFlip = ind.supertrend_series ? barsSinceFlip(ind.supertrend_series.direction) : null;
+    const distancePct = close != null && stValue != null && close !== 0 ? Number((((close - stValue) / close) * 100).toFixed(2)) : null;
+
+    const rationale: string[] = [];
+    if (adxNow != null) {
+      const heldLabel = regimeBar?.trend === 'range' ? 'レンジ' : regimeBar?.trend === 'uptrend' ? '上昇トレンド' : '下降トレンド';
+      const level = regime === 'trending' ? 'トレンドあり' : regime === 'ranging' ? 'トレンドなし（レンジ）' : `判定境界（直前の${heldLabel}判定を維持）`;
+      rationale.push(`ADX ${adxNow.toFixed(1)}: ${level}${slope != null ? `（5本前比 ${slope >= 0 ? '+' : ''}${slope.toFixed(1)}）` : ''}`);
+    }
+    if (plusDI != null && minusDI != null) rationale.push(`+DI ${plusDI.toFixed(1)} / -DI ${minusDI.toFixed(1)}: ${votes.dmi > 0 ? '買い優勢' : votes.dmi < 0 ? '売り優勢' : '拮抗'}`);
+    if (aroonOsc != null) rationale.push(`Aroon Up ${ind.AROON_UP ?? 'n/a'} / Down ${ind.AROON_DOWN ?? 'n/a'}（Osc ${aroonOsc}）`);
+    if (psarDir != null) rationale.push(`Parabolic SAR: ${toDirection(psarDir) === 'up' ? '上昇' : '下降'}${psarFlip != null ? `（${psarFlip}本前に反転）` : ''}`);
+    if (stDir != null) rationale.push(`Supertrend: ${toDirection(stDir) === 'up' ? '上昇' : '下降'}${stFlip != null ? `（${stFlip}本前に反転）` : ''}${distancePct != null ? ` 価格との乖離 ${distancePct}%` : ''}`);
+    if (regime === 'trending' && direction === 'neutral') rationale.push('ADX は高いが方向指標が割れている（転換期の可能性）');
+    if (regime === 'ranging' && direction !== 'neutral') rationale.push('方向は出ているが ADX が低く、トレンドの持続力は弱い');
+
+    const data = {
+      regime,
+      direction,
+      score,
+      price: close,
+      adx: { value: adxNow, plusDI, minusDI, slope, rising: slope == null ? null : slope > 0 },
+      aroon: { up: ind.AROON_UP ?? null, down: ind.AROON_DOWN ?? null, oscillator: aroonOsc },
+      psar: { value: ind.PSAR ?? null, direction: toDirection(psarDir), flippedBarsAgo: psarFlip },
+      supertrend: { value: stValue, direction: toDirection(stDir), flippedBarsAgo: stFlip, distancePct },
+      votes,
+      rationale,
+    };
+
+    const summary = [
+      formatSummary({ pair: chk.pair, timeframe: String(type), latest: close ?? undefined, extra: `regime=${regime} direction=${direction} score=${score}` }),
+      '',
+      ...rationale.map((r) => `- ${r}`),
+    ].join('\n');
+    const meta = createMeta(chk.pair, { type, count: indRes.data.normalized.length, thresholds: { adxTrend, adxRange }, warnings: indRes.meta?.warnings });
+    return AnalyzeTrendStrengthOutputSchema.parse(ok(summary, data, meta as any)) as any;
+  } catch (e: unknown) {
+    return AnalyzeTrendStrengthOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
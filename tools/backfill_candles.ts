@@ -0,0 +1,97 @@
+import { ensurePair } from '../lib/validate.js';
+import { ok, fail } from '../lib/result.js';
+import { getErrorMessage, isRateLimitError } from '../lib/error.js';
+import { candleStoreEnabled, isPeriodClosed, loadCandlePeriod, storedPeriods } from '../lib/candle_store.js';
+import { isNativeTimeframe, NATIVE_TIMEFRAMES } from '../lib/timeframe.js';
+import { BackfillCandlesOutputSchema } from '../src/schemas.js';
+
+// 年単位でリクエストする時間足（get_candles と同じ区分）
+const YEARLY_TYPES = new Set(['4hour', '8hour', '12hour', '1day', '1week', '1month']);
+
+function yyyymmdd(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}${String(d.getUTCMonth() + 1).padStart(2, '0')}${String(d.getUTCDate()).padStart(2, '0')}`;
+}
+
+/** 新しい順の期間キー（YYYY or YYYYMMDD） */
+function periodsFor(type: string, years: number, days: number): string[] {
+  const now = Date.now();
+  if (YEARLY_TYPES.has(type)) {
+    const cur = new Date(now).getUTCFullYear();
+    return Array.from({ length: years }, (_, i) => String(cur - i));
+  }
+  return Array.from({ length: days }, (_, i) => yyyymmdd(now - i * 86_400_000));
+}
+
+type PairResult = { pair: string; stored: number; fetched: number; skipped: number; empty: number; failed: number; bars: number; errors: string[] };
+
+/**
+ * 複数ペアのローソク足履歴をローカルストアに取り込む
+ * - 保存済みの確定期間はスキップ
+ * - 年単位の時間足は years 年分、日単位の時間足は days 日分を遡る
+ * - 古い年で空（上場前）が続いたら打ち切る
+ */
+export default async function backfillCandles(
+  pairs: string[] = ['btc_jpy'],
+  type: string = '1day',
+  { years = 10, days = 30 }: { years?: number; days?: number } = {}
+) {
+  if (!candleStoreEnabled()) {
+    return BackfillCandlesOutputSchema.parse(fail('candle store is disabled (BITBANK_CANDLE_STORE=0 or BITBANK_HTTP_MODE=replay)', 'user'));
+  }
+  // ストアは上流の期間ファイル単位なので、リサンプル足（2hour 等）は取り込めない
+  if (!isNativeTimeframe(type)) {
+    return BackfillCandlesOutputSchema.parse(fail(`type は ${NATIVE_TIMEFRAMES.join(', ')} のいずれかを指定してください（指定値: ${String(type)}）`, 'user'));
+  }
+  const normalized: string[] = [];
+  for (const p of pairs) {
+    const chk = ensurePair(p);
+    if (!chk.ok) return BackfillCandlesOutputSchema.parse(fail(chk.error.message, chk.error.type));
+    normalized.push(chk.pair);
+  }
+
+  const periods = periodsFor(type, years, days);
+  const results: PairResult[] = [];
+  try {
+    for (const pair of normalized) {
+      const r: PairResult = { pair, stored: 0, fetched: 0, skipped: 0, empty: 0, failed: 0, bars: 0, errors: [] };
+      const have = new Set(await storedPeriods(pair, type));
+      let emptyRun = 0;
+      for (const period of periods) {
+        if (have.has(period)) {
+          r.skipped++;
+          continue;
+        }
+        try {
+          const { ohlcvs, source } = await loadCandlePeriod(pair, type, period, { timeoutMs: 8000, retries: 2 });
+          if (source === 'upstream') r.fetched++;
+          r.bars += ohlcvs.length;
+          if (!ohlcvs.length) r.empty++;
+          else if (isPeriodClosed(period)) r.stored++;
+          emptyRun = ohlcvs.length ? 0 : emptyRun + 1;
+        } catch (e: unknown) {
+          if (isRateLimitError(e)) throw e;
+          r.failed++;
+          emptyRun++;
+          if (r.errors.length < 5) r.errors.push(`${period}: ${getErrorMessage(e)}`);
+        }
+        // 年単位は上場前の年が 2 年続いたら終了
+        if (YEARLY_TYPES.has(type) && emptyRun >= 2) break;
+      }
+      results.push(r);
+    }
+  } catch (e: unknown) {
+    if (isRateLimitError(e)) {
+      return BackfillCandlesOutputSchema.parse(fail(`レート制限 (${getErrorMessage(e)})`, 'rate_limited', { retryAfterMs: e.retryAfterMs, partial: results }));
+    }
+    return BackfillCandlesOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal'));
+  }
+
+  const lines = results.map((r) =>
+    `${r.pair}: 新規保存 ${r.stored} / 取得 ${r.fetched} / 保存済み ${r.skipped} / 空 ${r.empty}${r.failed ? ` / 失敗 ${r.failed}` : ''}（${r.bars}本）`
+  );
+  const summary = [`backfill ${type}: ${results.length} pairs`, ...lines].join('\n');
+  return BackfillCandlesOutputSchema.parse(
+    ok(summary, { type, results }, { type, pairs: normalized, periods: periods.length, fetchedAt: new Date().toISOString() })
+  );
+}
@@ -0,0 +1,27 @@
+import backfillCandles from './backfill_candles.js';
+import { NATIVE_TIMEFRAMES } from '../lib/timeframe.js';
+
+async function main() {
+  const [pairsArg, type, nStr] = process.argv.slice(2);
+
+  if (!pairsArg) {
+    console.error('Usage: tsx tools/backfill_candles_cli.ts <pair[,pair...]> [type] [years|days]');
+    console.error('Example: tsx tools/backfill_candles_cli.ts btc_jpy,eth_jpy 1day 10');
+    console.error('Example: tsx tools/backfill_candles_cli.ts btc_jpy 1hour 30');
+    console.error(`type: ${NATIVE_TIMEFRAMES.join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    const pairs = pairsArg.split(',').map((p) => p.trim()).filter(Boolean);
+    const n = nStr ? parseInt(nStr, 10) : undefined;
+    const result = await backfillCandles(pairs, type || '1day', { years: n, days: n });
+    console.log(JSON.stringify(result, null, 2));
+    if (!result.ok) process.exit(1);
+  } catch (error) {
+    console.error('Error backfilling candles:', error);
+    process.exit(1);
+  }
+}
+
+main();
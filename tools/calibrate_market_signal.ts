@@ -0,0 +1,332 @@
+import getCandles from './get_candles.js';
+import { sma, rsi, macd, bollingerBands, adx, atr, stochastic, stochRsi, williamsR, cci, roc } from './analyze_indicators.js';
+import { periodsPerYear } from './get_volatility_metrics.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair, validateLimit } from '../lib/validate.js';
+import { formatSummary } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { avg, median } from '../lib/math.js';
+import { resolveSignalWeights, applySignalFactors, formatSignalFormula, smaTrendValue, volatilityValue, momentumValue, type MomentumInput } from '../lib/signal_factors.js';
+import { CalibrateMarketSignalOutputSchema } from '../src/schemas.js';
+import type { NumericSeries } from '../src/types/domain.d.ts';
+
+type Candle = { open: number; high: number; low: number; close: number; volume?: number; isoTime?: string | null };
+
+export const DEFAULT_CALIBRATION_HORIZONS = [1, 5, 10, 20];
+
+/** スコアの区切り（7 区間。中央の -0.1〜+0.1 は中立） */
+export const SCORE_BUCKET_EDGES = [-1, -0.5, -0.25, -0.1, 0.1, 0.25, 0.5, 1];
+
+/** SMA200 と RV（analyze_market_signal と同じ 200 本）のウォームアップ */
+export const REPLAY_WARMUP = 200;
+
+/** 約定フローの代替（過去の約定は取得できないため、ローソク足から近似する） */
+export const FLOW_PROXIES = {
+  cvdTrend: '直近 10 本の CLV × 出来高の累積の傾き',
+  buyPressure: '直近 5 本の CLV（終値の高安内の位置、-1〜+1）の平均',
+};
+
+export interface CalibrationBucket {
+  range: [number, number];
+  label: string;
+  samples: number;
+  meanScore: number | null;
+  meanReturnPct: number | null;
+  medianReturnPct: number | null;
+  /** 先の終値が上昇していた割合 */
+  upRate: number | null;
+  /** スコアの向きと一致した割合（中立区間は null） */
+  hitRate: number | null;
+  /** スコアから見込む上昇確率（0.5 + score/2 の平均）。upRate と並べると信頼度曲線になる */
+  predictedUp: number | null;
+}
+
+export interface HorizonCalibration {
+  horizon: number;
+  samples: number;
+  baselineUpRate: number | null;
+  meanReturnPct: number | null;
+  /** スコアと先行リターンの相関（Pearson） */
+  ic: number | null;
+  /** 予測上昇確率の Brier スコア（低いほど良い。常に 0.5 なら 0.25） */
+  brier: number | null;
+  buckets: CalibrationBucket[];
+}
+
+function clamp(x: number, min: number, max: number) { return Math.max(min, Math.min(max, x)); }
+
+const round = (v: number | null, d: number) => (v == null || !Number.isFinite(v) ? null : Number(v.toFixed(d)));
+const signed = (v: number) => `${v > 0 ? '+' : ''}${v}`;
+
+export function bucketLabel(lo: number, hi: number): string {
+  return `${signed(lo)}〜${signed(hi)}`;
+}
+
+/** スコアが属する区間の番号（上端は次の区間、+1 のみ最後の区間に含める） */
+export function scoreBucketIndex(score: number, edges: number[] = SCORE_BUCKET_EDGES): number {
+  const s = clamp(score, edges[0], edges[edges.length - 1]);
+  for (let i = 0; i < edges.length - 2; i++) {
+    if (s < edges[i + 1]) return i;
+  }
+  return edges.length - 2;
+}
+
+/**
+ * 過去の各足で合成スコアを再計算する（ウォームアップ中は null）
+ * - smaTrend / momentum（momentumInputs の平均、既定 RSI）/ volatility と指標系の factor はライブと同じ式
+ * - cvdTrend / buyPressure は FLOW_PROXIES のローソク足近似
+ * - 上記以外の指標を使う追加 factor は算出不可（寄与 0）
+ */
+export function replaySignalScores(candles: Candle[], type: string, weights: Record<string, number>, momentumInputs: MomentumInput[] = ['rsi']): NumericSeries {
+  const n = candles.length;
+  const closes = candles.map((c) => Number(c.close));
+  const highs = candles.map((c) => Number(c.high));
+  const lows = candles.map((c) => Number(c.low));
+  const volumes = candles.map((c) => Number(c.volume ?? 0));
+
+  const sma25 = sma(closes, 25, null);
+  const sma75 = sma(closes, 75, null);
+  const sma200 = sma(closes, 200, null);
+  const rsi14 = rsi(closes, 14, null);
+  const macdS = macd(closes, 12, 26, 9, null);
+  const bb = bollingerBands(closes, 20, 2, null);
+  const adxS = adx(highs, lows, closes, 14, null);
+  const atr14 = atr(highs, lows, closes, 14, null);
+  // RSI 以外のオシレーターは momentumInputs で指定されたときだけ計算する
+  const uses = (k: MomentumInput) => momentumInputs.includes(k);
+  const stochK = uses('stoch') ? stochastic(highs, lows, closes, 14, 3, 3, null).k : null;
+  const stochRsiK = uses('stoch_rsi') ? stochRsi(closes, 14, 14, 3, 3, null).k : null;
+  const willr = uses('williams_r') ? williamsR(highs, lows, closes, 14, null) : null;
+  const cci20 = uses('cci') ? cci(highs, lows, closes, 20, null) : null;
+  const roc12 = uses('roc') ? roc(closes, 12, null) : null;
+  const annFactor = Math.sqrt(periodsPerYear(type));
+
+  const clv = candles.map((_, i) => {
+    const range = highs[i] - lows[i];
+    return range > 0 ? (closes[i] - lows[i] - (highs[i] - closes[i])) / range : 0;
+  });
+
+  const out: NumericSeries = new Array(n).fill(null);
+  // RV は直近 200 本（199 リターン）の標準偏差（get_volatility_metrics の全体 rv_std と同じ）
+  const rvWindow = REPLAY_WARMUP - 1;
+  let sum = 0;
+  let sumsq = 0;
+  for (let i = 1; i < n; i++) {
+    const r = closes[i - 1] > 0 && closes[i] > 0 ? Math.log(closes[i] / closes[i - 1]) : 0;
+    sum += r; sumsq += r * r;
+    if (i > rvWindow) {
+      const old = closes[i - rvWindow - 1] > 0 && closes[i - rvWindow] > 0 ? Math.log(closes[i - rvWindow] / closes[i - rvWindow - 1]) : 0;
+      sum -= old; sumsq -= old * old;
+    }
+    if (i < REPLAY_WARMUP - 1) continue;
+
+    const mean = sum / rvWindow;
+    const rvAnn = Math.sqrt(Math.max(0, sumsq / rvWindow - mean * mean)) * annFactor;
+    const close = closes[i];
+    const s25 = sma25[i];
+    const s75 = sma75[i];
+    const r14 = rsi14[i];
+
+    let cum = 0;
+    const cvd: number[] = [];
+    for (let j = Math.max(0, i - 9); j <= i; j++) cvd.push((cum += clv[j] * volumes[j]));
+    const cvdNorm = Math.max(...cvd.map((v) => Math.abs(v)));
+    const cvdTrend = cvdNorm > 0 ? clamp((cvd[cvd.length - 1] - cvd[0]) / cvdNorm, -1, 1) : 0;
+
+    const indicators = {
+      RSI_14: r14,
+      STOCH_K: stochK?.[i],
+      STOCH_RSI_K: stochRsiK?.[i],
+      WILLR_14: willr?.[i],
+      CCI_20: cci20?.[i],
+      ROC_12: roc12?.[i],
+      MACD_hist: macdS.hist[i],
+      ATR_14: atr14[i],
+      BB_middle: bb.middle[i],
+      BB_upper: bb.upper[i],
+      ADX_14: adxS.adx[i],
+      PLUS_DI_14: adxS.plusDI[i],
+      MINUS_DI_14: adxS.minusDI[i],
+    };
+    const factors = applySignalFactors(weights, {
+      indicators,
+      close,
+      base: {
+        smaTrend: s25 != null && s75 != null ? smaTrendValue(close, s25, s75, sma200[i]) : 0,
+        momentum: momentumValue(momentumInputs, indicators),
+        cvdTrend,
+        volatility: volatilityValue(rvAnn),
+        buyPressure: avg(clv.slice(Math.max(0, i - 4), i + 1)) ?? 0,
+      },
+    });
+    out[i] = Number(factors.reduce((s, f) => s + f.contribution, 0).toFixed(3));
+  }
+  return out;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  if (n < 3) return null;
+  const mx = xs.reduce((s, v) => s + v, 0) / n;
+  const my = ys.reduce((s, v) => s + v, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+}
+
+/**
+ * スコアを区間に分け、horizon 本先のリターン・上昇率・的中率・信頼度を集計する
+ * from 以降の足のみを対象にする（horizon 本先の終値がない足は除外）
+ */
+export function calibrateScores(
+  scores: NumericSeries,
+  closes: number[],
+  horizons: number[],
+  from: number = 0,
+  edges: number[] = SCORE_BUCKET_EDGES
+): HorizonCalibration[] {
+  return horizons.map((h) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = Math.max(0, from); i + h < closes.length; i++) {
+      const s = scores[i];
+      if (s == null || !(closes[i] > 0)) continue;
+      xs.push(s);
+      ys.push(closes[i + h] / closes[i] - 1);
+    }
+    const upRateOf = (rs: number[]) => (rs.length ? rs.filter((r) => r > 0).length / rs.length : null);
+
+    const buckets: CalibrationBucket[] = edges.slice(0, -1).map((lo, b) => {
+      const hi = edges[b + 1];
+      const idx = xs.map((s, k) => (scoreBucketIndex(s, edges) === b ? k : -1)).filter((k) => k >= 0);
+      const rs = idx.map((k) => ys[k]);
+      const upRate = upRateOf(rs);
+      const direction = lo >= 0 ? 1 : hi <= 0 ? -1 : 0;
+      const meanScore = avg(idx.map((k) => xs[k]));
+      return {
+        range: [lo, hi],
+        label: bucketLabel(lo, hi),
+        samples: rs.length,
+        meanScore: round(meanScore, 3),
+        meanReturnPct: round(rs.length ? (avg(rs) as number) * 100 : null, 3),
+        medianReturnPct: round(rs.length ? (median(rs) as number) * 100 : null, 3),
+        upRate: round(upRate, 3),
+        hitRate: upRate == null || direction === 0 ? null : round(direction > 0 ? upRate : 1 - upRate, 3),
+        predictedUp: round(meanScore == null ? null : 0.5 + meanScore / 2, 3),
+      };
+    });
+
+    const brier = xs.length ? xs.reduce((s, x, k) => s + (0.5 + x / 2 - (ys[k] > 0 ? 1 : 0)) ** 2, 0) / xs.length : null;
+    return {
+      horizon: h,
+      samples: xs.length,
+      baselineUpRate: round(upRateOf(ys), 3),
+      meanReturnPct: round(ys.length ? (avg(ys) as number) * 100 : null, 3),
+      ic: round(pearson(xs, ys), 3),
+      brier: round(brier, 4),
+      buckets,
+    };
+  });
+}
+
+/** 指定スコアと同じ区間の過去の成績（horizon ごと） */
+export function historicalOutlook(score: number, calibration: HorizonCalibration[]) {
+  const b = scoreBucketIndex(score);
+  const bucket = calibration[0]?.buckets[b];
+  return {
+    bucket: bucket?.label ?? bucketLabel(SCORE_BUCKET_EDGES[b], SCORE_BUCKET_EDGES[b + 1]),
+    range: [SCORE_BUCKET_EDGES[b], SCORE_BUCKET_EDGES[b + 1]] as [number, number],
+    horizons: calibration.map((c) => {
+      const x = c.buckets[b];
+      return { horizon: c.horizon, samples: x.samples, meanReturnPct: x.meanReturnPct, medianReturnPct: x.medianReturnPct, upRate: x.upRate, hitRate: x.hitRate };
+    }),
+  };
+}
+
+/** 「過去、同程度のスコアの後 …」の 1 行（サンプルのない horizon は省く） */
+export function formatOutlookLines(outlook: ReturnType<typeof historicalOutlook>): string[] {
+  const pct = (v: number | null) => (v == null ? 'n/a' : `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`);
+  return outlook.horizons
+    .filter((h) => h.samples > 0)
+    .map((h) => `- ${h.horizon} 本後: 平均 ${pct(h.meanReturnPct)}（中央値 ${pct(h.medianReturnPct)}、上昇 ${Math.round((h.upRate ?? 0) * 100)}%、n=${h.samples}）`);
+}
+
+/**
+ * 合成スコアを過去のローソク足で再計算し、スコア区間ごとの先行リターンを集計する
+ * 約定フロー由来の要素はローソク足で近似するため、ライブのスコアとは一致しない
+ * horizon が重なる標本は独立ではない点に注意
+ */
+export default async function calibrateMarketSignal(
+  pair: string = 'btc_jpy',
+  opts: { type?: string; limit?: number; horizons?: number[]; profile?: string; weights?: Record<string, number>; momentumInputs?: MomentumInput[] } = {}
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return CalibrateMarketSignalOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  const type = opts.type || '1day';
+  const lim = validateLimit(opts.limit ?? 720, 100, 2000);
+  if (!lim.ok) return CalibrateMarketSignalOutputSchema.parse(fail(lim.error.message, lim.error.type)) as any;
+  const horizons = [...new Set(opts.horizons?.length ? opts.horizons : DEFAULT_CALIBRATION_HORIZONS)].sort((a, b) => a - b);
+  if (horizons.length > 6 || horizons.some((h) => !Number.isInteger(h) || h < 1 || h > 100)) {
+    return CalibrateMarketSignalOutputSchema.parse(fail('horizons は 1〜100 の整数を 6 個まで指定してください', 'user')) as any;
+  }
+  const resolved = resolveSignalWeights(opts.profile ?? 'default', opts.weights);
+  if (!resolved.ok) return CalibrateMarketSignalOutputSchema.parse(fail(resolved.error.message, resolved.error.type)) as any;
+  const profile = resolved.value;
+  const momentumInputs: MomentumInput[] = opts.momentumInputs?.length ? [...new Set(opts.momentumInputs)] : ['rsi'];
+
+  try {
+    const fetchCount = Math.min(5000, lim.value + REPLAY_WARMUP);
+    const cRes: any = await getCandles(chk.pair, type, undefined as any, fetchCount);
+    if (!cRes?.ok) return CalibrateMarketSignalOutputSchema.parse(fail(cRes?.summary || 'candles failed', cRes?.meta?.errorType || 'internal')) as any;
+    const candles = (cRes.data?.normalized ?? []) as Candle[];
+    const maxH = horizons[horizons.length - 1];
+    if (candles.length < REPLAY_WARMUP + maxH + 30) {
+      return CalibrateMarketSignalOutputSchema.parse(fail(`データ不足（${candles.length} 本。最低 ${REPLAY_WARMUP + maxH + 30} 本必要）`, 'user')) as any;
+    }
+
+    const scores = replaySignalScores(candles, type, profile.weights, momentumInputs);
+    const from = Math.max(REPLAY_WARMUP - 1, candles.length - lim.value);
+    const closes = candles.map((c) => Number(c.close));
+    const calibration = calibrateScores(scores, closes, horizons, from);
+    const latestScore = scores[scores.length - 1];
+    const current = latestScore == null ? null : { proxyScore: latestScore, ...historicalOutlook(latestScore, calibration) };
+
+    const primary = calibration.find((c) => c.horizon === 5) ?? calibration[0];
+    const pct = (v: number | null) => (v == null ? 'n/a' : `${v >= 0 ? '+' : ''}${v.toFixed(2)}%`);
+    const rate = (v: number | null) => (v == null ? '-' : `${Math.round(v * 100)}%`);
+    const summary = [
+      formatSummary({ pair: chk.pair, timeframe: type, latest: closes.at(-1), extra: `samples=${primary.samples} ic(${primary.horizon})=${primary.ic ?? 'n/a'}` }),
+      '',
+      `対象: 過去 ${candles.length - from} 本（${candles[from]?.isoTime?.slice(0, 10) ?? '?'} 〜 ${candles.at(-1)?.isoTime?.slice(0, 10) ?? '?'}）`,
+      `計算式: ${formatSignalFormula(profile.weights)}${momentumInputs.join() !== 'rsi' ? `（momentum: ${momentumInputs.join('+')}）` : ''}`,
+      `※ cvdTrend / buyPressure はローソク足で近似（過去の約定フローは取得不可）`,
+      '',
+      ...calibration.flatMap((c) => [
+        `【${c.horizon} 本後】n=${c.samples} 上昇率(全体) ${rate(c.baselineUpRate)} IC=${c.ic ?? 'n/a'} Brier=${c.brier ?? 'n/a'}`,
+        ...c.buckets.filter((b) => b.samples > 0).map((b) => `- ${b.label}: n=${b.samples} 平均 ${pct(b.meanReturnPct)} 上昇 ${rate(b.upRate)} 的中 ${rate(b.hitRate)}（予測 ${rate(b.predictedUp)}）`),
+      ]),
+      ...(current ? ['', `現在の近似スコア ${current.proxyScore}（区間 ${current.bucket}）の過去実績:`, ...formatOutlookLines(current)] : []),
+    ].join('\n');
+
+    const data = {
+      profile: { name: profile.profile, custom: profile.custom, normalized: profile.normalized },
+      formula: formatSignalFormula(profile.weights),
+      proxies: FLOW_PROXIES,
+      samples: candles.length - from,
+      range: { from: candles[from]?.isoTime ?? null, to: candles.at(-1)?.isoTime ?? null },
+      bucketEdges: SCORE_BUCKET_EDGES,
+      horizons: calibration,
+      current,
+    };
+    const meta = createMeta(chk.pair, { type, limit: lim.value, horizons, profile: profile.profile, momentumInputs });
+    return CalibrateMarketSignalOutputSchema.parse(ok(summary, data as any, meta as any)) as any;
+  } catch (e: unknown) {
+    return CalibrateMarketSignalOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
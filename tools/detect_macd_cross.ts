@@ -1,5 +1,6 @@
 import analyzeIndicators from './analyze_indicators.js';
-import { ALLOWED_PAIRS, normalizePair } from '../lib/validate.js';
+import { normalizePair } from '../lib/validate.js';
+import { isKnownPair, listPairs } from '../lib/pairs.js';
 import { ok, fail } from '../lib/result.js';
 import { formatSummary } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
@@ -24,8 +25,8 @@ export default async function detectMacdCross(
 ) {
   try {
     const universe = pairs && pairs.length
-      ? (pairs.map(normalizePair).filter((p): p is any => !!p && ALLOWED_PAIRS.has(p as any)) as string[])
-      : Array.from(ALLOWED_PAIRS.values()).filter(p => market === 'jpy' ? p.endsWith('_jpy') : true);
+      ? (pairs.map(normalizePair).filter((p): p is any => !!p && isKnownPair(p)) as string[])
+      : listPairs(market === 'jpy' ? { quote: 'jpy' } : {});
     const results: Array<{ pair: string; type: 'golden' | 'dead'; macd: number; signal: number; isoTime?: string | null }> = [];
     const resultsDetailed: Array<{
       pair: string;
@@ -43,10 +44,14 @@ export default async function detectMacdCross(
       currentPrice: number | null;
       returnSinceCrossPct: number | null;
     }> = [];
+    const rateLimited: string[] = [];
     await Promise.all(universe.map(async (pair) => {
       try {
         const ind = await analyzeIndicators(pair, '1day', 120);
-        if (!ind?.ok) return;
+        if (!ind?.ok) {
+          if ((ind?.meta as { errorType?: string })?.errorType === 'rate_limited') rateLimited.push(pair);
+          return;
+        }
         const macdSeries = (ind.data?.indicators as { macd_series?: { line: number[]; signal: number[] } })?.macd_series;
         const line = macdSeries?.line || [];
         const signal = macdSeries?.signal || [];
@@ -129,6 +134,11 @@ export default async function detectMacdCross(
       } catch { }
     }));
 
+    // 全ペアがスロットリングで失敗した場合は「該当なし」と区別して返す
+    if (universe.length > 0 && rateLimited.length === universe.length) {
+      return fail(`rate limited: ${rateLimited.length} pairs could not be fetched`, 'rate_limited', { pairs: rateLimited });
+    }
+
     // screening (applies to summary and detailed when provided)
     const opts = screen || {};
     const crossType = (opts.crossType || 'both');
@@ -183,7 +193,7 @@ export default async function detectMacdCross(
       data.resultsDetailed = resultsDetailed;
       data.screenedDetailed = filtered;
     }
-    return ok(summary, data, { market, lookback, pairs: universe, view, screen: { ...opts, crossType, sortBy, sortOrder: opts.sortOrder || 'desc' } });
+    return ok(summary, data, { market, lookback, pairs: universe, view, screen: { ...opts, crossType, sortBy, sortOrder: opts.sortOrder || 'desc' }, ...(rateLimited.length ? { rateLimitedPairs: rateLimited } : {}) });
   } catch (e: unknown) {
     return fail(getErrorMessage(e) || 'internal error', 'internal');
   }
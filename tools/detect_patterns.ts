@@ -1,9 +1,13 @@
-import analyzeIndicators from './analyze_indicators.js';
+import analyzeIndicators, { indicatorDigits, latestAtr } from './analyze_indicators.js';
 import { ok, fail } from '../lib/result.js';
 import { getErrorMessage } from '../lib/error.js';
 import { avg as avgRaw, median as medianRaw } from '../lib/math.js';
 import { DetectPatternsInputSchema, DetectPatternsOutputSchema, PatternTypeEnum } from '../src/schemas.js';
 import { generatePatternDiagram } from '../src/utils/pattern-diagrams.js';
+import { formatPriceUnit } from '../lib/formatter.js';
+import { roundPrice } from '../lib/pairs.js';
+import { transformCandles, type CandleTransform, type CandleTransformResult } from '../lib/candle_transform.js';
+import { classifyMarketRegime, regimeFit, REGIME_LABELS_JA, type MarketRegime } from './analyze_market_regime.js';
 import {
   MIN_CONFIDENCE,
   resolveParams,
@@ -40,6 +44,23 @@ import {
 
 type DetectIn = typeof DetectPatternsInputSchema extends { _type: infer T } ? T : any;
 
+/** 局面との噛み合いを判定するためのパターンの種類（反転 / 継続）と示唆する向き */
+const PATTERN_REGIME_PROFILE: Record<string, { kind: 'reversal' | 'continuation'; direction: 'bullish' | 'bearish' | 'neutral' }> = {
+  double_top: { kind: 'reversal', direction: 'bearish' },
+  double_bottom: { kind: 'reversal', direction: 'bullish' },
+  triple_top: { kind: 'reversal', direction: 'bearish' },
+  triple_bottom: { kind: 'reversal', direction: 'bullish' },
+  head_and_shoulders: { kind: 'reversal', direction: 'bearish' },
+  inverse_head_and_shoulders: { kind: 'reversal', direction: 'bullish' },
+  falling_wedge: { kind: 'reversal', direction: 'bullish' },
+  rising_wedge: { kind: 'reversal', direction: 'bearish' },
+  triangle_ascending: { kind: 'continuation', direction: 'bullish' },
+  triangle_descending: { kind: 'continuation', direction: 'bearish' },
+  triangle_symmetrical: { kind: 'continuation', direction: 'neutral' },
+  pennant: { kind: 'continuation', direction: 'neutral' },
+  flag: { kind: 'continuation', direction: 'neutral' },
+};
+
 export default async function detectPatterns(
   pair: string = 'btc_jpy',
   type: string = '1day',
@@ -57,6 +78,10 @@ export default async function detectPatterns(
     includeCompleted: boolean;
     includeInvalid: boolean;
     view: 'summary' | 'detailed' | 'full' | 'debug';
+    // 変換足で検出（lib/candle_transform）。renko 等はブロック単位の検出になる
+    transform: CandleTransform;
+    brickSize: number;
+    pnfReversal: number;
   }> = {}
 ) {
   try {
@@ -78,9 +103,24 @@ export default async function detectPatterns(
     const res = await analyzeIndicators(pair, type as any, limit);
     if (!res?.ok) return DetectPatternsOutputSchema.parse(fail(res.summary || 'failed', 'internal')) as any;
 
-    const candles = res.data.chart.candles as Array<{ open: number; close: number; high: number; low: number; isoTime?: string }>;
+    let candles = res.data.chart.candles as Array<{ open: number; close: number; high: number; low: number; isoTime?: string }>;
+    let transformMeta: CandleTransformResult['meta'] | undefined;
+    if (opts.transform && Array.isArray(candles)) {
+      try {
+        const t = transformCandles(candles, opts.transform, {
+          size: opts.brickSize,
+          atr: latestAtr(candles),
+          reversal: opts.pnfReversal,
+          digits: indicatorDigits(pair, candles.at(-1)?.close ?? 0),
+        });
+        candles = t.candles;
+        transformMeta = t.meta;
+      } catch (e: unknown) {
+        return DetectPatternsOutputSchema.parse(fail(getErrorMessage(e) || 'transform failed', 'user')) as any;
+      }
+    }
     if (!Array.isArray(candles) || candles.length < 20) {
-      return DetectPatternsOutputSchema.parse(ok('insufficient data', { patterns: [] }, { pair, type, count: 0 })) as any;
+      return DetectPatternsOutputSchema.parse(ok(transformMeta ? `insufficient data (${transformMeta.transform}: ${transformMeta.count} bars)` : 'insufficient data', { patterns: [] }, { pair, type, count: 0, ...(transformMeta ? { transform: transformMeta } : {}) })) as any;
     }
 
     // 1) Swing points（patterns/swing.ts から）
@@ -3161,7 +3201,7 @@ export default async function detectPatterns(
           breakoutConfirmed,
           priceMove,
           targetReached,
-          theoreticalTarget: Number.isFinite(theoreticalTarget) ? Math.round(theoreticalTarget) : null,
+          theoreticalTarget: Number.isFinite(theoreticalTarget) ? roundPrice(pair, theoreticalTarget) : null,
           outcome,
           daysToTarget,
         };
@@ -3218,6 +3258,25 @@ export default async function detectPatterns(
     }
     patterns = filteredPatterns;
 
+    // 相場局面（変換足の指定に関わらず元の時間足で判定）。噛み合いは各パターンの終点（range.end）の足の局面で見る
+    const regimeRes = classifyMarketRegime(res.data.normalized ?? []);
+    const regimeNow = regimeRes.current;
+    const regimeAt = (iso: string | undefined): MarketRegime | null => {
+      const t = Date.parse(String(iso ?? ''));
+      if (!Number.isFinite(t)) return null;
+      let found: MarketRegime | null = null;
+      for (const b of regimeRes.bars) {
+        if (Date.parse(String(b.time ?? '')) > t) break;
+        found = b.regime;
+      }
+      return found;
+    };
+    for (const p of patterns as any[]) {
+      const prof = PATTERN_REGIME_PROFILE[p.type];
+      const regime = prof ? regimeAt(p.range?.end) : null;
+      if (prof && regime) p.regimeContext = { regime, ...regimeFit(regime, prof.direction, prof.kind) };
+    }
+
     // overlays: パターン範囲をそのまま帯描画できるように提供
     const ranges = patterns.map((p: any) => ({ start: p.range.start, end: p.range.end, label: p.type }));
     const warnings: any[] = [];
@@ -3258,25 +3317,30 @@ export default async function detectPatterns(
         detail += `\n   - パターン結果: ${outcomeJa}（${meaning}）`;
       }
 
+      if (p.regimeContext) {
+        detail += `\n   - 局面との噛み合い: ${p.regimeContext.fit}（${p.regimeContext.note}）`;
+      }
+
       // ネックラインがある場合
       if (p.neckline && Array.isArray(p.neckline) && p.neckline.length >= 2) {
-        detail += `\n   - ネックライン: ${Math.round(p.neckline[0]?.y || 0).toLocaleString()}円 → ${Math.round(p.neckline[1]?.y || 0).toLocaleString()}円`;
+        detail += `\n   - ネックライン: ${formatPriceUnit(pair, p.neckline[0]?.y || 0)} → ${formatPriceUnit(pair, p.neckline[1]?.y || 0)}`;
       }
 
       return detail;
     }).join('\n\n');
 
-    const summaryText = `${pair.toUpperCase()} [${type}] ${limit}本から${patterns.length}件を検出（${patterns.map((p: any) => p.type).join('×1、')}×1）\n\n【検出パターン（全件）】\n${patternSummaries || 'なし'}\n\nチャート連携: structuredContent.data.overlays を render_chart_svg.overlays に渡すと注釈/範囲を描画できます。\n\nパターン整合度について（形状一致度・対称性・期間から算出）:\n  0.8以上 = 理想的な形状（教科書的パターン）\n  0.7-0.8 = 標準的な形状（他指標と併用推奨）\n  0.6-0.7 = やや不明瞭（慎重に判断）\n  0.6未満 = 形状不十分`;
+    const summaryText = `${pair.toUpperCase()} [${type}] ${limit}本から${patterns.length}件を検出（${patterns.map((p: any) => p.type).join('×1、')}×1）${regimeNow ? `\n相場局面: ${REGIME_LABELS_JA[regimeNow.regime]}（${regimeNow.since?.slice(0, 10) ?? '?'} から）` : ''}\n\n【検出パターン（全件）】\n${patternSummaries || 'なし'}\n\nチャート連携: structuredContent.data.overlays を render_chart_svg.overlays に渡すと注釈/範囲を描画できます。\n\nパターン整合度について（形状一致度・対称性・期間から算出）:\n  0.8以上 = 理想的な形状（教科書的パターン）\n  0.7-0.8 = 標準的な形状（他指標と併用推奨）\n  0.6-0.7 = やや不明瞭（慎重に判断）\n  0.6未満 = 形状不十分`;
 
     const out = ok(
       summaryText,
-      { patterns, overlays: { ranges }, warnings, statistics },
+      { patterns, overlays: { ranges }, warnings, statistics, regime: regimeNow ? { regime: regimeNow.regime, since: regimeNow.since } : null },
       {
         pair,
         type,
         count: patterns.length,
         effective_params: { swingDepth, minBarsBetweenSwings: minDist, tolerancePct, autoScaled },
-        visualization_hints: { preferred_style: 'line', highlight_patterns: patterns.map((p: any) => p.type).slice(0, 3) },
+        visualization_hints: { preferred_style: opts.transform ?? 'line', highlight_patterns: patterns.map((p: any) => p.type).slice(0, 3) },
+        ...(transformMeta ? { transform: transformMeta } : {}),
         debug: debugTrimmed
       }
     );
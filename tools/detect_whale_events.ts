@@ -3,11 +3,11 @@ import getCandles from './get_candles.js';
 import { ok, fail } from '../lib/result.js';
 import { ensurePair, createMeta } from '../lib/validate.js';
 import { getErrorMessage } from '../lib/error.js';
+import { getStream } from '../lib/stream.js';
+import { formatPriceUnit, baseOf } from '../lib/formatter.js';
 
 type Lookback = '30min' | '1hour' | '2hour';
 
-const cache = new Map<string, { ts: number; data: unknown }>();
-
 function extractLargeOrders(levels: Array<[number, number]>, minSize: number) {
   return (levels || [])
     .filter(([p, s]) => Number(s) >= minSize)
@@ -34,12 +34,10 @@ export default async function detectWhaleEvents(
   const chk = ensurePair(pair);
   if (!chk.ok) return fail(chk.error.message, chk.error.type);
 
-  const cacheKey = `${chk.pair}:${lookback}:${minSize}`;
-  const hit = cache.get(cacheKey);
-  if (hit && Date.now() - hit.ts < 60_000) return hit.data;
-
   try {
-    const dep = await getDepth(chk.pair, { maxLevels: 200 });
+    // ストリームの板が温まっていればそれを使う
+    const live = getStream()?.depth(chk.pair, 200) ?? null;
+    const dep: any = live ? { ok: true, data: live, meta: {} } : await getDepth(chk.pair, { maxLevels: 200 });
     if (!dep?.ok) return fail(dep?.summary || 'depth failed', (dep?.meta as { errorType?: string })?.errorType || 'internal');
     const asks: Array<[number, number]> = dep?.data?.asks || [];
     const bids: Array<[number, number]> = dep?.data?.bids || [];
@@ -92,22 +90,23 @@ export default async function detectWhaleEvents(
     const avgBuyDist = avg(buyDists);
     const avgSellDist = avg(sellDists);
 
+    const unit = baseOf(chk.pair).toUpperCase();
     const text = [
       `=== ${chk.pair.toUpperCase()} 大口動向分析（過去${lookback}）===`,
       '',
       `🐋 検出された大口: ${events.length}件`,
-      `買い: ${largeBids.length}件（合計${buyVol.toFixed(2)} BTC）`,
-      `売り: ${largeAsks.length}件（合計${sellVol.toFixed(2)} BTC）`,
+      `買い: ${largeBids.length}件（合計${buyVol.toFixed(2)} ${unit}）`,
+      `売り: ${largeAsks.length}件（合計${sellVol.toFixed(2)} ${unit}）`,
       '',
       '📊 買い/売りバランス:',
-      `   買い: ${buyBars} ${buyVol.toFixed(2)} BTC (${(buyPct * 100).toFixed(0)}%)`,
-      `   売り: ${sellBars} ${sellVol.toFixed(2)} BTC (${(sellPct * 100).toFixed(0)}%)`,
+      `   買い: ${buyBars} ${buyVol.toFixed(2)} ${unit} (${(buyPct * 100).toFixed(0)}%)`,
+      `   売り: ${sellBars} ${sellVol.toFixed(2)} ${unit} (${(sellPct * 100).toFixed(0)}%)`,
       '',
       '📏 距離の統計:',
       `   平均距離: 買い ${avgBuyDist.toFixed(2)}%, 売り ${avgSellDist.toFixed(2)}%`,
       '',
       '📋 主要な大口:',
-      ...events.slice(0, 10).map((e) => `${e.side === 'buy' ? '🟢' : '🔴'} ${e.price.toLocaleString()}円に${e.size} BTC（${e.side === 'buy' ? '買い' : '売り'}）距離: ${e.distancePct != null ? (e.distancePct >= 0 ? '+' : '') + e.distancePct + '%' : 'n/a'}`),
+      ...events.slice(0, 10).map((e) => `${e.side === 'buy' ? '🟢' : '🔴'} ${formatPriceUnit(chk.pair, e.price)}に${e.size} ${unit}（${e.side === 'buy' ? '買い' : '売り'}）距離: ${e.distancePct != null ? (e.distancePct >= 0 ? '+' : '') + e.distancePct + '%' : 'n/a'}`),
       '',
       `📈 過去${lookback}の価格変化: ${(priceChange * 100).toFixed(2)}%`,
       '',
@@ -130,9 +129,7 @@ export default async function detectWhaleEvents(
       meta: { lookback, minSize },
     };
 
-    const out = ok(text, data as any, createMeta(chk.pair, { fetchedAt: new Date().toISOString() })) as any;
-    cache.set(cacheKey, { ts: Date.now(), data: out });
-    return out;
+    return ok(text, data as any, createMeta(chk.pair, { fetchedAt: new Date().toISOString(), feed: live ? 'stream' : 'rest', cache: (dep.meta as { cache?: unknown })?.cache })) as any;
   } catch (e: unknown) {
     return fail(getErrorMessage(e) || 'internal error', 'internal');
   }
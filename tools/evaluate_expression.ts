@@ -0,0 +1,226 @@
+import getCandles from './get_candles.js';
+import { sma, ema, rsi, macd, bollingerBands, atr, indicatorDigits } from './analyze_indicators.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair } from '../lib/validate.js';
+import { formatSummary } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { compileExpression, type CompiledExpression, type ExprNode } from '../lib/expression.js';
+import { EvaluateExpressionOutputSchema } from '../src/schemas.js';
+import type { NumericSeries } from '../src/types/domain.d.ts';
+
+export interface ExpressionCandle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+type BoolSeries = Array<boolean | null>;
+export type ExpressionValues = { type: 'number'; values: NumericSeries } | { type: 'boolean'; values: BoolSeries };
+
+const MAX_FETCH = 1000;
+const HISTORY_EVENTS = 20;
+
+/**
+ * バッチ版インジケーターを null を含みうる系列に適用する
+ * 先頭の null 区間は除いて計算し、途中の null（ゼロ除算など）はそれ以降を null にする
+ */
+function overSeries(src: NumericSeries, fn: (values: number[]) => NumericSeries): NumericSeries {
+  const start = src.findIndex((v) => v != null);
+  if (start < 0) return src.map(() => null);
+  const out = fn(src.slice(start).map((v) => (v == null ? NaN : v)));
+  return [...new Array<null>(start).fill(null), ...out.map((v) => (v != null && Number.isFinite(v) ? v : null))];
+}
+
+function crossSeries(a: NumericSeries, b: NumericSeries, direction: 'above' | 'below'): BoolSeries {
+  return a.map((v, i) => {
+    const pa = a[i - 1];
+    const pb = b[i - 1];
+    const w = b[i];
+    if (i === 0 || v == null || w == null || pa == null || pb == null) return null;
+    return direction === 'above' ? pa <= pb && v > w : pa >= pb && v < w;
+  });
+}
+
+function evalNode(node: ExprNode, candles: ExpressionCandle[], memo: Map<string, ExpressionValues>): ExpressionValues {
+  // 同じ部分式（例: crosses の両辺で使う EMA）は 1 回だけ計算する
+  const key = JSON.stringify(node);
+  const hit = memo.get(key);
+  if (hit) return hit;
+  const num = (n: ExprNode) => evalNode(n, candles, memo).values as NumericSeries;
+  const bool = (n: ExprNode) => evalNode(n, candles, memo).values as BoolSeries;
+  const zip = (a: NumericSeries, b: NumericSeries, f: (x: number, y: number) => number | null): NumericSeries =>
+    a.map((x, i) => (x == null || b[i] == null ? null : f(x, b[i] as number)));
+
+  let out: ExpressionValues;
+  switch (node.kind) {
+    case 'number':
+      out = { type: 'number', values: candles.map(() => node.value) };
+      break;
+    case 'field':
+      out = { type: 'number', values: candles.map((c) => (node.name === 'volume' ? c.volume ?? 0 : c[node.name])) };
+      break;
+    case 'neg':
+      out = { type: 'number', values: num(node.arg).map((v) => (v == null ? null : -v)) };
+      break;
+    case 'arith': {
+      const f = {
+        '+': (x: number, y: number) => x + y,
+        '-': (x: number, y: number) => x - y,
+        '*': (x: number, y: number) => x * y,
+        '/': (x: number, y: number) => (y === 0 ? null : x / y),
+      }[node.op];
+      out = { type: 'number', values: zip(num(node.left), num(node.right), f) };
+      break;
+    }
+    case 'compare': {
+      const a = num(node.left);
+      const b = num(node.right);
+      const f = {
+        '>': (x: number, y: number) => x > y,
+        '<': (x: number, y: number) => x < y,
+        '>=': (x: number, y: number) => x >= y,
+        '<=': (x: number, y: number) => x <= y,
+        '==': (x: number, y: number) => x === y,
+        '!=': (x: number, y: number) => x !== y,
+      }[node.op];
+      out = { type: 'boolean', values: a.map((x, i) => (x == null || b[i] == null ? null : f(x, b[i] as number))) };
+      break;
+    }
+    case 'cross':
+      out = { type: 'boolean', values: crossSeries(num(node.left), num(node.right), node.direction) };
+      break;
+    case 'not':
+      out = { type: 'boolean', values: bool(node.arg).map((v) => (v == null ? null : !v)) };
+      break;
+    case 'logic': {
+      // 3 値論理（片方が未確定でも結果が決まる場合は値を返す）
+      const a = bool(node.left);
+      const b = bool(node.right);
+      out = {
+        type: 'boolean',
+        values: a.map((x, i) => {
+          const y = b[i];
+          if (node.op === 'and') return x === false || y === false ? false : x == null || y == null ? null : true;
+          return x === true || y === true ? true : x == null || y == null ? null : false;
+        }),
+      };
+      break;
+    }
+    case 'call': {
+      const [p0, p1, p2] = node.params;
+      const src = node.args.length ? num(node.args[0]) : [];
+      let values: NumericSeries;
+      switch (node.fn) {
+        // 部分式の途中では丸めず、最後に 1 回だけ丸める
+        case 'SMA': values = overSeries(src, (v) => sma(v, p0, null)); break;
+        case 'EMA': values = overSeries(src, (v) => ema(v, p0, null)); break;
+        case 'RSI': values = overSeries(src, (v) => rsi(v, p0, null)); break;
+        case 'MACD': values = overSeries(src, (v) => macd(v, p0, p1, p2, null)[node.field as 'line' | 'signal' | 'hist']); break;
+        case 'BB': values = overSeries(src, (v) => bollingerBands(v, p0, p1, null)[node.field as 'upper' | 'middle' | 'lower']); break;
+        case 'ATR': values = atr(candles.map((c) => c.high), candles.map((c) => c.low), candles.map((c) => c.close), p0, null); break;
+        case 'SHIFT': values = src.map((_, i) => (i >= p0 ? src[i - p0] : null)); break;
+        case 'ABS': values = src.map((v) => (v == null ? null : Math.abs(v))); break;
+        case 'MIN': values = zip(src, num(node.args[1]), Math.min); break;
+        case 'MAX': values = zip(src, num(node.args[1]), Math.max); break;
+      }
+      out = { type: 'number', values };
+      break;
+    }
+  }
+  memo.set(key, out);
+  return out;
+}
+
+/**
+ * コンパイル済みの式をローソク足に対して評価する（結果は candles と同じ長さ）
+ * スクリーナー / アラートからは compileExpression → 各ペアの足で evaluateCompiled の順に使う
+ */
+export function evaluateCompiled(compiled: CompiledExpression, candles: ExpressionCandle[]): ExpressionValues {
+  return evalNode(compiled.ast, candles, new Map());
+}
+
+/** 条件式の履歴を集計（成立回数・直近の成立時刻・不成立→成立に変わった足） */
+export function summarizeCondition(values: BoolSeries, times: Array<string | null>) {
+  const history = values.map((value, i) => ({ time: times[i] ?? null, value }));
+  let lastTrueAt: string | null = null;
+  const triggers: string[] = [];
+  values.forEach((v, i) => {
+    if (v === true) lastTrueAt = times[i] ?? lastTrueAt;
+    if (v === true && values[i - 1] === false && times[i]) triggers.push(times[i] as string);
+  });
+  return {
+    history,
+    latest: values.at(-1) ?? null,
+    trueCount: values.filter((v) => v === true).length,
+    evaluatedCount: values.filter((v) => v != null).length,
+    lastTrueAt,
+    triggers: triggers.slice(-HISTORY_EVENTS),
+  };
+}
+
+/**
+ * 指標式（DSL）を評価して系列と条件の履歴を返す
+ * - 数値式（例: close / SMA(close, 200) - 1）: series に値
+ * - 条件式（例: EMA(20) crosses above EMA(50)）: condition に true/false の履歴と成立タイミング
+ * 式のウォームアップ分だけ多く足を取得し、直近 limit 本を返す
+ */
+export default async function evaluateExpression(
+  pair: string = 'btc_jpy',
+  type: string = '1day',
+  expression: string = '',
+  limit: number = 60
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return EvaluateExpressionOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  const compiled = compileExpression(expression);
+  if (!compiled.ok) return EvaluateExpressionOutputSchema.parse(fail(compiled.error.message, compiled.error.type)) as any;
+  const expr = compiled.value;
+  try {
+    const fetchCount = Math.min(MAX_FETCH, limit + expr.warmup);
+    const res: any = await getCandles(chk.pair, type, undefined as any, fetchCount);
+    if (!res?.ok) return EvaluateExpressionOutputSchema.parse(fail(res?.summary || 'candles failed', res?.meta?.errorType || 'internal')) as any;
+    const candles = res.data.normalized as Array<ExpressionCandle & { isoTime?: string }>;
+    if (!candles.length) return EvaluateExpressionOutputSchema.parse(fail('No candle data available', 'upstream')) as any;
+
+    const warnings: string[] = [];
+    if (candles.length < limit + expr.warmup) {
+      warnings.push(`取得できた足（${candles.length} 本）がウォームアップ込みの必要本数（${limit + expr.warmup} 本）に足りません。先頭は null になります`);
+    }
+    const result = evaluateCompiled(expr, candles);
+    const start = Math.max(0, candles.length - limit);
+    const times = candles.slice(start).map((c) => c.isoTime ?? null);
+
+    let series: Array<{ time: string | null; value: number | null }> = [];
+    let condition: ReturnType<typeof summarizeCondition> | null = null;
+    let latest: number | boolean | null;
+    if (result.type === 'number') {
+      // 比率（乖離率など）でも桁が残るよう最低 6 桁。低価格ペアはペアの刻みに合わせて増やす
+      const digits = Math.max(6, indicatorDigits(chk.pair, candles.at(-1)!.close));
+      series = result.values.slice(start).map((v, i) => ({ time: times[i], value: v == null ? null : Number(v.toFixed(digits)) }));
+      latest = series.at(-1)?.value ?? null;
+      if (latest == null) warnings.push('最新足の値が未確定です（データ不足 / ゼロ除算）');
+    } else {
+      condition = summarizeCondition(result.values.slice(start), times);
+      latest = condition.latest;
+    }
+
+    const close = candles.at(-1)!.close;
+    const summary = [
+      formatSummary({ pair: chk.pair, timeframe: String(type), latest: close, extra: `expr=${expr.type}` }),
+      '',
+      `式: ${expr.source}`,
+      condition
+        ? `条件: ${latest === true ? '成立中' : latest === false ? '不成立' : '未確定'}（直近 ${times.length} 本中 ${condition.trueCount} 本で成立${condition.lastTrueAt ? `、最後の成立: ${condition.lastTrueAt}` : ''}）`
+        : `最新値: ${latest ?? 'n/a'}`,
+      ...(condition?.triggers.length ? [`成立に転じた足: ${condition.triggers.slice(-5).join(', ')}`] : []),
+    ].join('\n');
+
+    const data = { expression: expr.source, resultType: expr.type, latest, series, condition };
+    const meta = createMeta(chk.pair, { type, count: times.length, warmup: expr.warmup, warnings: warnings.length ? warnings : undefined });
+    return EvaluateExpressionOutputSchema.parse(ok(summary, data, meta as any)) as any;
+  } catch (e: unknown) {
+    return EvaluateExpressionOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
@@ -1,10 +1,14 @@
-import { fetchJson, BITBANK_API_BASE } from '../lib/http.js';
+import { BITBANK_API_BASE, FixtureMissingError } from '../lib/http.js';
+import { loadCandlePeriod, type OhlcvRow } from '../lib/candle_store.js';
+import { parseTimeframe, planResample, resampleOhlcv, type SessionTz } from '../lib/timeframe.js';
+import { assessCandles, type CandleRepair } from '../lib/candle_quality.js';
+import { mergeCacheInfo, type CacheInfo } from '../lib/cache.js';
 import { ensurePair, validateLimit, validateDate, createMeta } from '../lib/validate.js';
 import { ok, fail } from '../lib/result.js';
 import { GetCandlesOutputSchema } from '../src/schemas.js';
 import { formatSummary } from '../lib/formatter.js';
 import { toIsoTime } from '../lib/datetime.js';
-import { getErrorMessage } from '../lib/error.js';
+import { getErrorMessage, isRateLimitError } from '../lib/error.js';
 import type { Result, GetCandlesData, GetCandlesMeta, CandleType } from '../src/types/domain.d.ts';
 
 const TYPES: Set<CandleType | string> = new Set([
@@ -41,6 +45,23 @@ const BARS_PER_YEAR: Record<string, number> = {
   '4hour': 2190,
 };
 
+// 日単位でリクエストする時間足の 1 日あたり本数（複数日取得の判定用）
+const BARS_PER_DAY: Record<string, number> = {
+  '1min': 1440,
+  '5min': 288,
+  '15min': 96,
+  '30min': 48,
+  '1hour': 24,
+};
+
+// 複数日取得で遡る日次ファイルの上限
+const MAX_MULTI_DAYS = 120;
+
+function shiftYyyymmdd(yyyymmdd: string, days: number): string {
+  const d = new Date(Date.UTC(Number(yyyymmdd.slice(0, 4)), Number(yyyymmdd.slice(4, 6)) - 1, Number(yyyymmdd.slice(6, 8)) + days));
+  return `${d.getUTCFullYear()}${String(d.getUTCMonth() + 1).padStart(2, '0')}${String(d.getUTCDate()).padStart(2, '0')}`;
+}
+
 function todayYyyymmdd(): string {
   const d = new Date();
   const m = String(d.getMonth() + 1).padStart(2, '0');
@@ -48,22 +69,19 @@ function todayYyyymmdd(): string {
   return `${d.getFullYear()}${m}${day}`;
 }
 
-// 単一年のデータを取得する内部関数
-async function fetchSingleYear(
+// 単一期間（年 or 日）のデータを取得する内部関数（ローカルストア優先）
+async function fetchSinglePeriod(
   pair: string,
   type: string,
-  year: number
-): Promise<Array<[unknown, unknown, unknown, unknown, unknown, unknown]>> {
-  const url = `${BITBANK_API_BASE}/${pair}/candlestick/${type}/${year}`;
+  period: string
+): Promise<{ ohlcvs: OhlcvRow[]; cache: CacheInfo | null }> {
   try {
-    const json: unknown = await fetchJson(url, { timeoutMs: 8000, retries: 2 });
-    const jsonObj = json as { data?: { candlestick?: Array<{ ohlcv?: unknown[] }> } };
-    const cs = jsonObj?.data?.candlestick?.[0];
-    const ohlcvs = cs?.ohlcv ?? [];
-    return ohlcvs as Array<[unknown, unknown, unknown, unknown, unknown, unknown]>;
-  } catch {
-    // 存在しない年や取得失敗は空配列を返す
-    return [];
+    const { ohlcvs, cache } = await loadCandlePeriod(pair, type, period, { timeoutMs: 8000, retries: 2 });
+    return { ohlcvs, cache };
+  } catch (e: unknown) {
+    // レート制限・フィクスチャ欠落は呼び出し元へ伝える。存在しない年やその他の取得失敗は空配列を返す
+    if (isRateLimitError(e) || e instanceof FixtureMissingError) throw e;
+    return { ohlcvs: [], cache: null };
   }
 }
 
@@ -71,31 +89,46 @@ export default async function getCandles(
   pair: string,
   type: CandleType | string = '1day',
   date: string = todayYyyymmdd(),
-  limit: number = 200
+  limit: number = 200,
+  { tz = 'Asia/Tokyo', repair = 'none' }: { tz?: SessionTz; repair?: CandleRepair } = {}
 ): Promise<Result<GetCandlesData, GetCandlesMeta>> {
   const chk = ensurePair(pair);
   if (!chk.ok) return fail(chk.error.message, chk.error.type);
 
-  if (!TYPES.has(type)) {
-    return fail(`type は ${[...TYPES].join(', ')} から選択してください（指定値: ${String(type)}）`, 'user');
+  // ネイティブ以外はネイティブ足の倍数（例: 2hour, 3day, 2week）としてリサンプル
+  const tf = TYPES.has(type) ? null : parseTimeframe(String(type));
+  const plan = tf ? planResample(tf, tz) : null;
+  if (!TYPES.has(type) && !plan) {
+    return fail(`type は ${[...TYPES].join(', ')} またはその倍数（例: 2hour, 6hour, 3day, 2week）を指定してください（指定値: ${String(type)}, tz: ${tz}）`, 'user');
   }
+  const fetchType = plan?.base ?? String(type);
 
-  const dateCheck = validateDate(date, String(type));
+  if (plan) {
+    const userLimit = validateLimit(limit, 1, 1000);
+    if (!userLimit.ok) return fail(userLimit.error.message, userLimit.error.type);
+  }
+  // 目標本数 + 先頭の欠け足 1 本分を取得元の本数に換算
+  const fetchLimit = plan ? Math.min(5000, (limit + 1) * plan.factor) : limit;
+
+  const dateCheck = validateDate(date, fetchType);
   if (!dateCheck.ok) return fail(dateCheck.error.message, dateCheck.error.type);
 
   // 複数年取得が必要かどうかを判定
-  const isYearlyType = YEARLY_TYPES.has(type);
-  const barsPerYear = BARS_PER_YEAR[type] || 365;
-  const yearsNeeded = isYearlyType ? Math.ceil(limit / barsPerYear) : 1;
+  const isYearlyType = YEARLY_TYPES.has(fetchType);
+  const barsPerYear = BARS_PER_YEAR[fetchType] || 365;
+  const yearsNeeded = isYearlyType ? Math.ceil(fetchLimit / barsPerYear) : 1;
   const needsMultiYear = isYearlyType && yearsNeeded > 1;
+  // 日単位の時間足（ネイティブ・リサンプル元とも）は 1 日分を超える本数なら複数日さかのぼる
+  const needsMultiDay = !isYearlyType && fetchLimit > (BARS_PER_DAY[fetchType] ?? Infinity);
 
-  // 複数年取得の場合は上限を緩和（最大10年分 = 約3650本）
-  const maxLimit = needsMultiYear ? 5000 : 1000;
-  const limitCheck = validateLimit(limit, 1, maxLimit);
+  // 複数年・複数日取得の場合は上限を緩和（最大10年分 = 約3650本）
+  const maxLimit = needsMultiYear || needsMultiDay || plan ? 5000 : 1000;
+  const limitCheck = validateLimit(fetchLimit, 1, maxLimit);
   if (!limitCheck.ok) return fail(limitCheck.error.message, limitCheck.error.type);
 
   let ohlcvs: unknown[] = [];
   let json: unknown = null;
+  let cache: CacheInfo | null = null;
 
   try {
     if (needsMultiYear) {
@@ -104,13 +137,13 @@ export default async function getCandles(
       const years = Array.from({ length: yearsNeeded }, (_, i) => currentYear - i);
 
       const results = await Promise.all(
-        years.map(year => fetchSingleYear(chk.pair, type, year))
+        years.map(year => fetchSinglePeriod(chk.pair, fetchType, String(year)))
       );
 
       // 古い年順にマージ（時系列順）
-      const allOhlcvs: Array<[unknown, unknown, unknown, unknown, unknown, unknown]> = [];
+      const allOhlcvs: OhlcvRow[] = [];
       for (let i = results.length - 1; i >= 0; i--) {
-        allOhlcvs.push(...results[i]);
+        allOhlcvs.push(...results[i].ohlcvs);
       }
 
       // タイムスタンプでソート（念のため）
@@ -122,20 +155,38 @@ export default async function getCandles(
 
       ohlcvs = allOhlcvs;
       json = { data: { candlestick: [{ ohlcv: ohlcvs }] }, _multiYear: { years, totalFetched: ohlcvs.length } };
+      const infos = results.map((r) => r.cache).filter((c): c is CacheInfo => c != null);
+      if (infos.length) cache = mergeCacheInfo(infos, `${BITBANK_API_BASE}/${chk.pair}/candlestick/${fetchType}/{${years.at(-1)}..${years[0]}}`);
+    } else if (needsMultiDay) {
+      // 日次ファイルを複数日さかのぼって取得
+      const daysNeeded = Math.min(MAX_MULTI_DAYS, Math.ceil(fetchLimit / BARS_PER_DAY[fetchType]) + 1);
+      const days = Array.from({ length: daysNeeded }, (_, i) => shiftYyyymmdd(dateCheck.value, -i));
+      const results = await Promise.all(days.map((d) => fetchSinglePeriod(chk.pair, fetchType, d)));
+      ohlcvs = results.flatMap((r) => r.ohlcvs).sort((a, b) => (Number((a as OhlcvRow)[5]) || 0) - (Number((b as OhlcvRow)[5]) || 0));
+      json = { data: { candlestick: [{ type: fetchType, ohlcv: ohlcvs }] }, _multiDay: { days: days.length, totalFetched: ohlcvs.length } };
+      const infos = results.map((r) => r.cache).filter((c): c is CacheInfo => c != null);
+      if (infos.length) cache = mergeCacheInfo(infos, `${BITBANK_API_BASE}/${chk.pair}/candlestick/${fetchType}/{${days.at(-1)}..${days[0]}}`);
     } else {
-      // 従来の単一リクエスト
-      const url = `${BITBANK_API_BASE}/${chk.pair}/candlestick/${type}/${dateCheck.value}`;
-      json = await fetchJson(url, { timeoutMs: 5000, retries: 2 });
-      const jsonObj = json as { data?: { candlestick?: Array<{ ohlcv?: unknown[] }> } };
-      const cs = jsonObj?.data?.candlestick?.[0];
-      ohlcvs = cs?.ohlcv ?? [];
+      // 単一期間（ローカルストア優先）
+      const res = await loadCandlePeriod(chk.pair, fetchType, dateCheck.value, { timeoutMs: 5000, retries: 2 });
+      ohlcvs = res.ohlcvs;
+      cache = res.cache;
+      json = { success: 1, data: { candlestick: [{ type: fetchType, ohlcv: ohlcvs }] } };
     }
 
     if (ohlcvs.length === 0) {
-      return fail(`ローソク足データが見つかりません (${chk.pair} / ${type} / ${dateCheck.value})`, 'user');
+      return fail(`ローソク足データが見つかりません (${chk.pair} / ${fetchType} / ${dateCheck.value})`, 'user');
+    }
+
+    const sourceCount = ohlcvs.length;
+    if (tf) {
+      ohlcvs = resampleOhlcv(ohlcvs as OhlcvRow[], tf, tz).rows;
     }
 
-    const rows = ohlcvs.slice(-limitCheck.value) as Array<[unknown, unknown, unknown, unknown, unknown, unknown]>;
+    // 返却範囲の品質チェック（欠損・重複・出来高ゼロ・未確定足）と任意の補修
+    const want = plan ? limit : limitCheck.value;
+    const { rows: checked, quality } = assessCandles(ohlcvs.slice(-want) as OhlcvRow[], String(type), { tz, repair });
+    const rows = checked.slice(-want);
 
     const normalized = rows.map(([o, h, l, c, v, ts]) => ({
       open: Number(o),
@@ -223,7 +274,7 @@ export default async function getCandles(
       } : null,
     };
 
-    const summary = formatSummary({
+    let summary = formatSummary({
       pair: chk.pair,
       timeframe: String(type),
       latest: normalized.at(-1)?.close,
@@ -231,8 +282,13 @@ export default async function getCandles(
       keyPoints,
       volumeStats,
     });
+    if (quality.degraded) summary += `\n⚠ データ品質: ${quality.issues.join(' / ')}`;
 
-    const metaExtra: Record<string, unknown> = { type, count: normalized.length };
+    const metaExtra: Record<string, unknown> = { type, count: normalized.length, quality };
+    if (cache) metaExtra.cache = cache;
+    if (plan) {
+      metaExtra.resampledFrom = { type: fetchType, count: sourceCount, factor: plan.factor, tz };
+    }
     if (needsMultiYear) {
       metaExtra.multiYear = {
         yearsRequested: yearsNeeded,
@@ -254,6 +310,9 @@ export default async function getCandles(
       const hint = `${t} は YYYY 形式（例: 2025）が必要です。なお、現在この時間足がAPIで提供されていない可能性もあります。1hour または 1day での取得もお試しください。`;
       return GetCandlesOutputSchema.parse(fail(`HTTP 404 Not Found (${chk.pair}/${t}). ${hint}`, 'user')) as unknown as Result<GetCandlesData, GetCandlesMeta>;
     }
+    if (isRateLimitError(e)) {
+      return GetCandlesOutputSchema.parse(fail(`レート制限 (${rawMsg})`, 'rate_limited', { retryAfterMs: e.retryAfterMs })) as unknown as Result<GetCandlesData, GetCandlesMeta>;
+    }
     return GetCandlesOutputSchema.parse(fail(rawMsg || 'ネットワークエラー', 'network')) as unknown as Result<GetCandlesData, GetCandlesMeta>;
   }
 }
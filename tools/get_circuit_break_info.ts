@@ -1,16 +1,163 @@
 import { ensurePair, createMeta } from '../lib/validate.js';
+import { fetchJsonWithCache, BITBANK_API_BASE } from '../lib/http.js';
 import { ok, fail } from '../lib/result.js';
-import { formatSummary } from '../lib/formatter.js';
+import { formatPair, formatPriceUnit, formatAmountUnit, formatTimestampJST } from '../lib/formatter.js';
+import { toIsoTime } from '../lib/datetime.js';
+import { getErrorMessage, isAbortError, isRateLimitError } from '../lib/error.js';
+import { getPairInfo } from '../lib/pairs.js';
 import { GetCircuitBreakInfoOutputSchema } from '../src/schemas.js';
+import type {
+  Result,
+  CircuitBreakInfo,
+  CircuitBreakMode,
+  CircuitBreakTriggerDistance,
+  GetCircuitBreakInfoData,
+  GetCircuitBreakInfoMeta,
+} from '../src/types/domain.d.ts';
 
-export default async function getCircuitBreakInfo(pair: string = 'btc_jpy') {
-  const chk = ensurePair(pair);
-  if (!chk.ok) return GetCircuitBreakInfoOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+export interface GetCircuitBreakInfoOptions {
+  /** トリガーまでの距離がこの % 以内なら警告 */
+  warnPct?: number;
+  timeoutMs?: number;
+}
+
+// 板寄せ（サーキットブレイク・再開・新規上場）中の mode
+const AUCTION_MODES = new Set(['CIRCUIT_BREAK', 'FULL_RANGE_CIRCUIT_BREAK', 'RESUMPTION', 'LISTING']);
+
+const MODE_LABELS: Record<string, string> = {
+  NONE: '通常取引中',
+  CIRCUIT_BREAK: 'サーキットブレイク（板寄せ中）',
+  FULL_RANGE_CIRCUIT_BREAK: 'サーキットブレイク（全値幅・板寄せ中）',
+  RESUMPTION: '取引再開の板寄せ中',
+  LISTING: '新規上場の板寄せ中',
+};
+
+const FEE_LABELS: Record<string, string> = {
+  NORMAL: '通常',
+  SELL_MAKER: '売りはメイカー手数料',
+  BUY_MAKER: '買いはメイカー手数料',
+  DISABLED: '手数料なし',
+};
+
+const numOrNull = (v: unknown): number | null => {
+  if (v == null || v === '') return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+function toMode(rawMode: string | null, pair: string): CircuitBreakMode {
+  if (getPairInfo(pair)?.status === 'halted') return 'halted';
+  if (rawMode === 'NONE') return 'normal';
+  if (rawMode && AUCTION_MODES.has(rawMode)) return 'auction';
+  return 'unknown';
+}
+
+/**
+ * 現在値から上限/下限トリガーまでの距離（%）を算出
+ * - 通常時は ticker の last、板寄せ中は推定約定価格を基準にする
+ */
+export function triggerDistance(
+  info: Pick<CircuitBreakInfo, 'upper_trigger_price' | 'lower_trigger_price' | 'estimated_itayose_price' | 'mode'>,
+  last: number | null,
+  warnPct: number
+): CircuitBreakTriggerDistance | null {
+  const useLast = info.mode !== 'auction' && last != null && last > 0;
+  const price = useLast ? last : info.estimated_itayose_price ?? null;
+  if (price == null || !(price > 0)) return null;
+
+  const upper = info.upper_trigger_price ?? null;
+  const lower = info.lower_trigger_price ?? null;
+  const upperPct = upper != null ? Number((((upper - price) / price) * 100).toFixed(3)) : null;
+  const lowerPct = lower != null ? Number((((price - lower) / price) * 100).toFixed(3)) : null;
+
+  let nearest: 'upper' | 'lower' | null = null;
+  if (upperPct != null && (lowerPct == null || upperPct <= lowerPct)) nearest = 'upper';
+  else if (lowerPct != null) nearest = 'lower';
+  const nearestPct = nearest === 'upper' ? upperPct : nearest === 'lower' ? lowerPct : null;
 
-  // 現時点では bitbank Public API にサーキットブレイク相当の情報源がありません
-  // LLMやユーザーが誤って呼ばないよう、常に ok=false で未対応を明示します
-  const summary = 'Error: circuit break info is not available (unsupported)';
-  return GetCircuitBreakInfoOutputSchema.parse(fail(summary.replace('Error: ', ''), 'user', { reason: 'unsupported', available: false })) as any;
+  return {
+    price,
+    priceSource: useLast ? 'last' : 'estimated_itayose',
+    upperPct,
+    lowerPct,
+    nearest,
+    nearestPct,
+    warning: nearestPct != null && nearestPct <= warnPct,
+  };
 }
 
+function buildSummary(pair: string, info: CircuitBreakInfo, warnPct: number): string {
+  const fmt = (v: number | null | undefined) => (v != null ? formatPriceUnit(pair, v) : 'n/a');
+  const pct = (v: number | null | undefined, sign: string) => (v != null ? `（${sign}${v.toFixed(2)}%）` : '');
+  const d = info.distance;
 
+  const lines: string[] = [];
+  lines.push(`${formatPair(pair)} サーキットブレイク: ${MODE_LABELS[info.raw_mode ?? ''] ?? info.raw_mode ?? '不明'}${info.mode === 'halted' ? '（取引停止中）' : ''}`);
+  lines.push(`上限トリガー: ${fmt(info.upper_trigger_price)}${pct(d?.upperPct, '+')} / 下限トリガー: ${fmt(info.lower_trigger_price)}${pct(d?.lowerPct, '-')}`);
+
+  if (info.mode === 'auction') {
+    lines.push(`推定約定価格: ${fmt(info.estimated_itayose_price)} / 推定約定数量: ${info.estimated_itayose_amount != null ? formatAmountUnit(pair, info.estimated_itayose_amount) : 'n/a'}`);
+    if (info.itayose_upper_price != null || info.itayose_lower_price != null) {
+      lines.push(`板寄せ価格帯: ${fmt(info.itayose_lower_price)} 〜 ${fmt(info.itayose_upper_price)}`);
+    }
+    lines.push(`再開予定: ${info.reopen_timestamp != null ? formatTimestampJST(info.reopen_timestamp) : '未定'}`);
+  }
+
+  if (info.fee_type) lines.push(`手数料: ${FEE_LABELS[info.fee_type] ?? info.fee_type}`);
+
+  if (d?.warning && d.nearest) {
+    const side = d.nearest === 'upper' ? '上限' : '下限';
+    lines.push(`⚠ 現在値 ${fmt(d.price)} は${side}トリガーまで ${d.nearestPct?.toFixed(2)}%（警告閾値 ${warnPct}%）。この先の約定でサーキットブレイク（板寄せ）に入る可能性があります`);
+  }
+  return lines.join('\n');
+}
+
+export default async function getCircuitBreakInfo(
+  pair: string = 'btc_jpy',
+  { warnPct = 2, timeoutMs = 5000 }: GetCircuitBreakInfoOptions = {}
+): Promise<Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>> {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return GetCircuitBreakInfoOutputSchema.parse(fail(chk.error.message, chk.error.type)) as unknown as Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>;
+
+  try {
+    // 距離算出用の現在値は補助情報のため、ticker の失敗は致命的にしない
+    const [cb, ticker] = await Promise.all([
+      fetchJsonWithCache(`${BITBANK_API_BASE}/${chk.pair}/circuit_break_info`, { timeoutMs, retries: 2 }),
+      fetchJsonWithCache(`${BITBANK_API_BASE}/${chk.pair}/ticker`, { timeoutMs, retries: 1 }).catch(() => null),
+    ]);
+    const json = cb.data as { success?: number; data?: Record<string, unknown> };
+    if (json?.success !== 1 || !json.data) {
+      return GetCircuitBreakInfoOutputSchema.parse(fail('circuit_break_info: unexpected payload', 'upstream')) as unknown as Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>;
+    }
+    const d = json.data;
+    const rawMode = d.mode != null ? String(d.mode) : null;
+    const reopen = numOrNull(d.reopen_timestamp);
+
+    const info: CircuitBreakInfo = {
+      mode: toMode(rawMode, chk.pair),
+      raw_mode: rawMode,
+      upper_trigger_price: numOrNull(d.upper_trigger_price),
+      lower_trigger_price: numOrNull(d.lower_trigger_price),
+      itayose_upper_price: numOrNull(d.itayose_upper_price),
+      itayose_lower_price: numOrNull(d.itayose_lower_price),
+      estimated_itayose_price: numOrNull(d.estimated_itayose_price),
+      estimated_itayose_amount: numOrNull(d.estimated_itayose_amount),
+      reopen_timestamp: reopen != null ? Math.trunc(reopen) : null,
+      reopen_isoTime: toIsoTime(reopen),
+      fee_type: d.fee_type != null ? String(d.fee_type) : null,
+    };
+    const last = numOrNull((ticker?.data as { data?: Record<string, unknown> } | undefined)?.data?.last);
+    info.distance = triggerDistance(info, last, warnPct);
+
+    const updatedAt = toIsoTime(d.timestamp);
+    const meta = createMeta(chk.pair, { source: 'official', cache: cb.cache, ...(updatedAt ? { updatedAt } : {}) });
+    return GetCircuitBreakInfoOutputSchema.parse(ok(buildSummary(chk.pair, info, warnPct), { info, raw: json }, meta)) as unknown as Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>;
+  } catch (err: unknown) {
+    if (isRateLimitError(err)) {
+      return GetCircuitBreakInfoOutputSchema.parse(fail(`レート制限 (${getErrorMessage(err)})`, 'rate_limited', { retryAfterMs: err.retryAfterMs })) as unknown as Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>;
+    }
+    const isAbort = isAbortError(err);
+    const message = isAbort ? `タイムアウト (${timeoutMs}ms)` : getErrorMessage(err) || 'ネットワークエラー';
+    return GetCircuitBreakInfoOutputSchema.parse(fail(message, isAbort ? 'timeout' : 'network')) as unknown as Result<GetCircuitBreakInfoData, GetCircuitBreakInfoMeta>;
+  }
+}
@@ -1,22 +1,22 @@
 import { ensurePair, createMeta } from '../lib/validate.js';
-import { fetchJson, BITBANK_API_BASE } from '../lib/http.js';
+import { fetchJsonWithCache, BITBANK_API_BASE } from '../lib/http.js';
 import { ok, fail } from '../lib/result.js';
 import { formatSummary, formatTimestampJST } from '../lib/formatter.js';
-import { getErrorMessage, isAbortError } from '../lib/error.js';
+import { getErrorMessage, isAbortError, isRateLimitError } from '../lib/error.js';
 import { GetDepthOutputSchema } from '../src/schemas.js';
 
-export interface GetDepthOptions { timeoutMs?: number; maxLevels?: number }
+export interface GetDepthOptions { timeoutMs?: number; maxLevels?: number; bypassCache?: boolean }
 
 export default async function getDepth(
   pair: string,
-  { timeoutMs = 3000, maxLevels = 200 }: GetDepthOptions = {}
+  { timeoutMs = 3000, maxLevels = 200, bypassCache = false }: GetDepthOptions = {}
 ) {
   const chk = ensurePair(pair);
   if (!chk.ok) return fail(chk.error.message, chk.error.type);
 
   const url = `${BITBANK_API_BASE}/${chk.pair}/depth`;
   try {
-    const json: unknown = await fetchJson(url, { timeoutMs, retries: 2 });
+    const { data: json, cache } = await fetchJsonWithCache(url, { timeoutMs, retries: 2, bypassCache });
     const jsonObj = json as { data?: Record<string, unknown> };
     const d = jsonObj?.data ?? {};
     const asks = Array.isArray(d.asks) ? d.asks.slice(0, maxLevels) : [];
@@ -81,9 +81,12 @@ export default async function getDepth(
       mid ? `中値: ${mid.toLocaleString()}円` : '',
     ].filter(Boolean).join('\n');
 
-    const meta = createMeta(chk.pair);
+    const meta = createMeta(chk.pair, { cache });
     return GetDepthOutputSchema.parse(ok(text, data as any, meta as any));
   } catch (err: unknown) {
+    if (isRateLimitError(err)) {
+      return GetDepthOutputSchema.parse(fail(`レート制限 (${getErrorMessage(err)})`, 'rate_limited', { retryAfterMs: err.retryAfterMs })) as any;
+    }
     const isAbort = isAbortError(err);
     const message = isAbort ? `タイムアウト (${timeoutMs}ms)` : getErrorMessage(err) || 'ネットワークエラー';
     return GetDepthOutputSchema.parse(fail(message, isAbort ? 'timeout' : 'network')) as any;
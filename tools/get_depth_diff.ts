@@ -45,7 +45,8 @@ export default async function getDepthDiff(pair: string = 'btc_jpy', delayMs: nu
     const a = await getDepth(chk.pair, { maxLevels });
     if (!a?.ok) return GetDepthDiffOutputSchema.parse(fail(a?.summary || 'failed', (a?.meta as { errorType?: string })?.errorType || 'internal')) as ReturnType<typeof fail>;
     await new Promise((r) => setTimeout(r, Math.max(100, delayMs)));
-    const b = await getDepth(chk.pair, { maxLevels });
+    // 2 回目はキャッシュを通さず新しいスナップショットを取る
+    const b = await getDepth(chk.pair, { maxLevels, bypassCache: true });
     if (!b?.ok) return GetDepthDiffOutputSchema.parse(fail(b?.summary || 'failed', (b?.meta as { errorType?: string })?.errorType || 'internal')) as ReturnType<typeof fail>;
 
     // sequenceId/timestamp をメタに残す
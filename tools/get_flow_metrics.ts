@@ -5,6 +5,7 @@ import { formatSummary } from '../lib/formatter.js';
 import { toIsoWithTz, toDisplayTime } from '../lib/datetime.js';
 import { getErrorMessage } from '../lib/error.js';
 import { GetFlowMetricsOutputSchema } from '../src/schemas.js';
+import { getStream } from '../lib/stream.js';
 
 type Tx = { price: number; amount: number; side: 'buy' | 'sell'; timestampMs: number; isoTime: string };
 
@@ -21,9 +22,17 @@ export default async function getFlowMetrics(
   if (!lim.ok) return GetFlowMetricsOutputSchema.parse(fail(lim.error.message, lim.error.type)) as any;
 
   try {
-    const txRes = await getTransactions(chk.pair, lim.value, date);
-    if (!txRes?.ok) return GetFlowMetricsOutputSchema.parse(fail(txRes?.summary || 'failed', (txRes?.meta as any)?.errorType || 'internal')) as any;
-    const txs: Tx[] = txRes.data.normalized as Tx[];
+    // 日付指定なしでストリームの約定テープが温まっていればそれを使う
+    const live = date ? null : getStream()?.trades(chk.pair, lim.value) ?? null;
+    const feed: 'stream' | 'rest' = live ? 'stream' : 'rest';
+    let txs: Tx[];
+    if (live) {
+      txs = live;
+    } else {
+      const txRes = await getTransactions(chk.pair, lim.value, date);
+      if (!txRes?.ok) return GetFlowMetricsOutputSchema.parse(fail(txRes?.summary || 'failed', (txRes?.meta as any)?.errorType || 'internal')) as any;
+      txs = txRes.data.normalized as Tx[];
+    }
     if (!Array.isArray(txs) || txs.length === 0) {
       return GetFlowMetricsOutputSchema.parse(ok('no transactions', {
         source: 'transactions',
@@ -39,7 +48,7 @@ export default async function getFlowMetrics(
           finalCvd: 0,
         },
         series: { buckets: [] },
-      }, createMeta(chk.pair, { count: 0, bucketMs }))) as any;
+      }, createMeta(chk.pair, { count: 0, bucketMs, feed }))) as any;
     }
 
     // バケット分割
@@ -120,7 +129,7 @@ export default async function getFlowMetrics(
 
     const offsetMin = -new Date().getTimezoneOffset();
     const offset = `${offsetMin >= 0 ? '+' : '-'}${String(Math.floor(Math.abs(offsetMin) / 60)).padStart(2, '0')}:${String(Math.abs(offsetMin) % 60).padStart(2, '0')}`;
-    const meta = createMeta(chk.pair, { count: totalTrades, bucketMs, timezone: tz, timezoneOffset: offset, serverTime: toIsoWithTz(Date.now(), tz) ?? undefined });
+    const meta = createMeta(chk.pair, { count: totalTrades, bucketMs, feed, timezone: tz, timezoneOffset: offset, serverTime: toIsoWithTz(Date.now(), tz) ?? undefined });
     return GetFlowMetricsOutputSchema.parse(ok(summary, data as any, meta as any)) as any;
   } catch (e: unknown) {
     return GetFlowMetricsOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
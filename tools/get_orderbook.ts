@@ -1,9 +1,9 @@
 import { ensurePair, validateLimit, createMeta } from '../lib/validate.js';
 import { ok, fail } from '../lib/result.js';
-import { formatSummary, formatTimestampJST } from '../lib/formatter.js';
+import { formatSummary, formatTimestampJST, formatPriceUnit, formatAmountUnit } from '../lib/formatter.js';
 import { toIsoTime } from '../lib/datetime.js';
-import { fetchJson, BITBANK_API_BASE } from '../lib/http.js';
-import { getErrorMessage, isAbortError } from '../lib/error.js';
+import { fetchJsonWithCache, BITBANK_API_BASE } from '../lib/http.js';
+import { getErrorMessage, isAbortError, isRateLimitError } from '../lib/error.js';
 import { GetOrderbookOutputSchema } from '../src/schemas.js';
 import type { Result, GetOrderbookData, GetOrderbookMeta, OrderbookLevelWithCum } from '../src/types/domain.d.ts';
 
@@ -42,7 +42,7 @@ export default async function getOrderbook(
   const url = `${BITBANK_API_BASE}/${chk.pair}/depth`;
 
   try {
-    const json: unknown = await fetchJson(url, { timeoutMs, retries: 2 });
+    const { data: json, cache } = await fetchJsonWithCache(url, { timeoutMs, retries: 2 });
     const jsonObj = json as { data?: { asks?: unknown[]; bids?: unknown[]; timestamp?: number } };
     const d = jsonObj?.data ?? {};
     const asks = toLevels(d.asks ?? [], limitCheck.value);
@@ -67,15 +67,15 @@ export default async function getOrderbook(
       summary,
       '',
       `📊 板情報 (上位${limitCheck.value}層):`,
-      `中値: ${mid?.toLocaleString() ?? 'N/A'}円`,
-      `スプレッド: ${spread?.toLocaleString() ?? 'N/A'}円`,
+      `中値: ${mid != null ? formatPriceUnit(chk.pair, mid) : 'N/A'}`,
+      `スプレッド: ${spread != null ? formatPriceUnit(chk.pair, spread) : 'N/A'}`,
       '',
       `🟢 買い板 (Bids): ${bids.length}層`,
-      ...bids.slice(0, 5).map((b, i) => `  ${i + 1}. ${b.price.toLocaleString()}円 ${b.size.toFixed(4)} BTC (累計: ${b.cumSize.toFixed(4)} BTC)`),
+      ...bids.slice(0, 5).map((b, i) => `  ${i + 1}. ${formatPriceUnit(chk.pair, b.price)} ${formatAmountUnit(chk.pair, b.size)} (累計: ${formatAmountUnit(chk.pair, b.cumSize)})`),
       bids.length > 5 ? `  ... 他 ${bids.length - 5}層` : '',
       '',
       `🔴 売り板 (Asks): ${asks.length}層`,
-      ...asks.slice(0, 5).map((a, i) => `  ${i + 1}. ${a.price.toLocaleString()}円 ${a.size.toFixed(4)} BTC (累計: ${a.cumSize.toFixed(4)} BTC)`),
+      ...asks.slice(0, 5).map((a, i) => `  ${i + 1}. ${formatPriceUnit(chk.pair, a.price)} ${formatAmountUnit(chk.pair, a.size)} (累計: ${formatAmountUnit(chk.pair, a.cumSize)})`),
       asks.length > 5 ? `  ... 他 ${asks.length - 5}層` : '',
     ].filter(Boolean).join('\n');
 
@@ -96,10 +96,14 @@ export default async function getOrderbook(
     const meta: GetOrderbookMeta = createMeta(chk.pair, {
       topN: limitCheck.value,
       count: asks.length + bids.length,
+      cache,
     }) as GetOrderbookMeta;
 
     return GetOrderbookOutputSchema.parse(ok(text, data, meta)) as unknown as Result<GetOrderbookData, GetOrderbookMeta>;
   } catch (err: unknown) {
+    if (isRateLimitError(err)) {
+      return GetOrderbookOutputSchema.parse(fail(`レート制限 (${getErrorMessage(err)})`, 'rate_limited', { retryAfterMs: err.retryAfterMs })) as unknown as Result<GetOrderbookData, GetOrderbookMeta>;
+    }
     const isAbort = isAbortError(err);
     const message = isAbort ? `タイムアウト (${timeoutMs}ms)` : getErrorMessage(err) || 'ネットワークエラー';
     return GetOrderbookOutputSchema.parse(fail(message, isAbort ? 'timeout' : 'network')) as unknown as Result<GetOrderbookData, GetOrderbookMeta>;
@@ -1,9 +1,10 @@
 import getDepth from './get_depth.js';
 import { ensurePair, createMeta } from '../lib/validate.js';
 import { ok, fail } from '../lib/result.js';
-import { formatSummary, formatTimestampJST } from '../lib/formatter.js';
+import { formatSummary, formatTimestampJST, formatAmountUnit } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
 import { GetOrderbookPressureOutputSchema } from '../src/schemas.js';
+import { getStream } from '../lib/stream.js';
 
 type SideLevels = Array<[string, string]>; // [price, size]
 
@@ -20,7 +21,9 @@ export default async function getOrderbookPressure(pair: string = 'btc_jpy', _de
 
   try {
     // 単一スナップショットから帯域内の厚みを評価（静的）
-    const snap: any = await getDepth(chk.pair, { maxLevels: 200 });
+    // ストリームの板が温まっていればそれを使う
+    const live = getStream()?.depth(chk.pair, 200) ?? null;
+    const snap: any = live ? { ok: true, data: live } : await getDepth(chk.pair, { maxLevels: 200 });
     if (!snap?.ok) return GetOrderbookPressureOutputSchema.parse(fail(snap?.summary || 'failed', (snap?.meta as any)?.errorType || 'internal')) as any;
 
     const timestamp = snap?.data?.timestamp ?? Date.now();
@@ -94,14 +97,14 @@ export default async function getOrderbookPressure(pair: string = 'btc_jpy', _de
       '',
       '📊 板圧力分析:',
       ...bands.map((b: any) =>
-        `±${(b.widthPct * 100).toFixed(2)}%: 買い ${b.baseBidSize.toFixed(2)} BTC / 売り ${b.baseAskSize.toFixed(2)} BTC (圧力: ${(b.netDeltaPct * 100).toFixed(1)}%)${b.tag ? ` [${b.tag}]` : ''}`
+        `±${(b.widthPct * 100).toFixed(2)}%: 買い ${formatAmountUnit(chk.pair, b.baseBidSize, 2)} / 売り ${formatAmountUnit(chk.pair, b.baseAskSize, 2)} (圧力: ${(b.netDeltaPct * 100).toFixed(1)}%)${b.tag ? ` [${b.tag}]` : ''}`
       ),
       '',
       `💡 総合評価: ${strongestTag ?? '均衡'}`,
     ].filter(Boolean).join('\n');
 
     const data = { bands, aggregates: { netDelta: Number(bands.reduce((s: number, b: any) => s + b.netDelta, 0).toFixed(8)), strongestTag } };
-    const meta = createMeta(chk.pair, { delayMs: 0 });
+    const meta = createMeta(chk.pair, { delayMs: 0, feed: live ? 'stream' : 'rest' });
     return GetOrderbookPressureOutputSchema.parse(ok(text, data as any, meta as any)) as any;
   } catch (e: unknown) {
     return GetOrderbookPressureOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
@@ -0,0 +1,239 @@
+import getCandles from './get_candles.js';
+import { indicatorDigits } from './analyze_indicators.js';
+import { detectSwingPoints } from './patterns/swing.js';
+import { ok, fail } from '../lib/result.js';
+import { createMeta, ensurePair } from '../lib/validate.js';
+import { formatSummary, formatPriceUnit } from '../lib/formatter.js';
+import { getErrorMessage } from '../lib/error.js';
+import { parseTimeframe, resampleOhlcv, nextBucketStart, type OhlcvRow } from '../lib/timeframe.js';
+import { GetPriceLevelsOutputSchema } from '../src/schemas.js';
+
+type PivotTimeframe = 'daily' | 'weekly';
+type Side = 'above' | 'below' | 'at';
+
+export interface Hlc {
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface PriceLevel {
+  price: number;
+  label: string;
+  source: 'pivot' | 'fibonacci';
+  method: 'classical' | 'camarilla' | 'woodie' | 'retracement' | 'extension';
+  timeframe: PivotTimeframe | null;
+  distance: number;
+  distancePct: number;
+  side: Side;
+}
+
+export interface ConfluenceZone {
+  low: number;
+  high: number;
+  center: number;
+  count: number;
+  labels: string[];
+  distancePct: number;
+  side: Side;
+}
+
+export const FIB_RETRACEMENTS = [0.236, 0.382, 0.5, 0.618, 0.786] as const;
+export const FIB_EXTENSIONS = [1.272, 1.618, 2, 2.618] as const;
+
+const DAY_MS = 86_400_000;
+
+/** 前期間の高値・安値・終値から 3 方式のピボットを計算（digits: 小数桁。ツールでは indicatorDigits） */
+export function pivotLevels({ high: h, low: l, close: c }: Hlc, digits: number = 2) {
+  const round = (v: number) => Number(v.toFixed(digits));
+  const range = h - l;
+  const p = (h + l + c) / 3;
+  const wp = (h + l + 2 * c) / 4;
+  return {
+    classical: { R3: round(h + 2 * (p - l)), R2: round(p + range), R1: round(2 * p - l), P: round(p), S1: round(2 * p - h), S2: round(p - range), S3: round(l - 2 * (h - p)) },
+    camarilla: {
+      R4: round(c + (range * 1.1) / 2), R3: round(c + (range * 1.1) / 4), R2: round(c + (range * 1.1) / 6), R1: round(c + (range * 1.1) / 12),
+      S1: round(c - (range * 1.1) / 12), S2: round(c - (range * 1.1) / 6), S3: round(c - (range * 1.1) / 4), S4: round(c - (range * 1.1) / 2),
+    },
+    woodie: { R2: round(wp + range), R1: round(2 * wp - l), P: round(wp), S1: round(2 * wp - h), S2: round(wp - range) },
+  };
+}
+
+/**
+ * フィボナッチ水準
+ * - up（安値→高値）: 押し目 = 高値 − 幅×比率、拡張 = 安値 + 幅×比率
+ * - down（高値→安値）: 戻り = 安値 + 幅×比率、拡張 = 高値 − 幅×比率
+ */
+export function fibonacciLevels(high: number, low: number, direction: 'up' | 'down', digits: number = 2) {
+  const round = (v: number) => Number(v.toFixed(digits));
+  const range = high - low;
+  const sign = direction === 'up' ? 1 : -1;
+  const from = direction === 'up' ? high : low;
+  const base = direction === 'up' ? low : high;
+  return {
+    retracements: FIB_RETRACEMENTS.map((ratio) => ({ ratio, price: round(from - sign * range * ratio) })),
+    extensions: FIB_EXTENSIONS.map((ratio) => ({ ratio, price: round(base + sign * range * ratio) })),
+  };
+}
+
+/**
+ * 価格順に並べ、隣接する水準の差が tolerancePct（現在値比 %）以内なら連結してゾーン化
+ * 同一系統（例: 日足 Camarilla 同士）だけの塊はゾーンにしない
+ */
+export function mergeConfluence(levels: PriceLevel[], currentPrice: number, tolerancePct: number, digits: number = 2): ConfluenceZone[] {
+  const tol = (currentPrice * tolerancePct) / 100;
+  const sorted = [...levels].sort((a, b) => a.price - b.price);
+  const clusters: PriceLevel[][] = [];
+  for (const lv of sorted) {
+    const cur = clusters.at(-1);
+    if (cur && lv.price - cur[cur.length - 1].price <= tol) cur.push(lv);
+    else clusters.push([lv]);
+  }
+  return clusters
+    .filter((c) => new Set(c.map((lv) => `${lv.source}:${lv.method}:${lv.timeframe}`)).size >= 2)
+    .map((c) => {
+      const center = Number((c.reduce((s, lv) => s + lv.price, 0) / c.length).toFixed(digits));
+      const { distancePct, side } = distanceFrom(center, currentPrice, digits);
+      return { low: c[0].price, high: c[c.length - 1].price, center, count: c.length, labels: c.map((lv) => lv.label), distancePct, side };
+    })
+    .sort((a, b) => b.count - a.count || Math.abs(a.distancePct) - Math.abs(b.distancePct));
+}
+
+function distanceFrom(price: number, currentPrice: number, digits: number): { distance: number; distancePct: number; side: Side } {
+  const distance = Number((price - currentPrice).toFixed(digits));
+  const distancePct = currentPrice !== 0 ? Number(((distance / currentPrice) * 100).toFixed(2)) : 0;
+  return { distance, distancePct, side: distance > 0 ? 'above' : distance < 0 ? 'below' : 'at' };
+}
+
+const LEVEL_COLORS: Record<PriceLevel['method'], string> = {
+  classical: '#60a5fa',
+  camarilla: '#c084fc',
+  woodie: '#2dd4bf',
+  retracement: '#fbbf24',
+  extension: '#fb923c',
+};
+
+/**
+ * ピボット（classical / Camarilla / Woodie の日足・週足）とフィボナッチ（直近スイング基準）を一覧化
+ * - ピボットは確定済みの前日・前週（JST）から計算
+ * - 近接する水準はコンフルエンスゾーンとして集約し、render_chart_svg の overlays 形式でも返す
+ */
+export default async function getPriceLevels(
+  pair: string = 'btc_jpy',
+  type: string = '1day',
+  limit: number = 120,
+  {
+    swingDepth = 5,
+    pivotTimeframes = ['daily', 'weekly'],
+    confluencePct = 0.5,
+  }: { swingDepth?: number; pivotTimeframes?: PivotTimeframe[]; confluencePct?: number } = {}
+) {
+  const chk = ensurePair(pair);
+  if (!chk.ok) return GetPriceLevelsOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
+  try {
+    // 週足ピボット用に最低 3 週分の日足を確保
+    const dailyRes: any = await getCandles(chk.pair, '1day', undefined as any, Math.max(21, type === '1day' ? limit : 0));
+    if (!dailyRes?.ok) return GetPriceLevelsOutputSchema.parse(fail(dailyRes?.summary || 'candles failed', dailyRes?.meta?.errorType || 'internal')) as any;
+    const swingRes: any = type === '1day' ? dailyRes : await getCandles(chk.pair, type, undefined as any, limit);
+    if (!swingRes?.ok) return GetPriceLevelsOutputSchema.parse(fail(swingRes?.summary || 'candles failed', swingRes?.meta?.errorType || 'internal')) as any;
+
+    const daily = dailyRes.data.normalized as Array<{ open: number; high: number; low: number; close: number; volume: number; isoTime?: string }>;
+    const candles = (swingRes.data.normalized as typeof daily).slice(-limit);
+    const currentPrice = candles.at(-1)?.close;
+    if (currentPrice == null) return GetPriceLevelsOutputSchema.parse(fail('No candle data available', 'upstream')) as any;
+
+    // 低価格ペアで近接する水準が丸めで重ならないよう、ペアの刻みに合わせた桁数で丸める
+    const digits = indicatorDigits(chk.pair, currentPrice);
+    const warnings: string[] = [];
+    const now = Date.now();
+    const levels: PriceLevel[] = [];
+    const push = (price: number, label: string, source: PriceLevel['source'], method: PriceLevel['method'], timeframe: PivotTimeframe | null) =>
+      levels.push({ price, label, source, method, timeframe, ...distanceFrom(price, currentPrice, digits) });
+
+    // --- Pivots（確定済みの前期間のみ） ---
+    const rows: OhlcvRow[] = daily.map((c) => [c.open, c.high, c.low, c.close, c.volume, Date.parse(c.isoTime ?? '')]);
+    const weekTf = parseTimeframe('1week')!;
+    const bases: Record<PivotTimeframe, { start: number; hlc: Hlc } | null> = {
+      daily: (() => {
+        const row = [...rows].reverse().find((r) => Number(r[5]) + DAY_MS <= now);
+        return row ? { start: Number(row[5]), hlc: { high: Number(row[1]), low: Number(row[2]), close: Number(row[3]) } } : null;
+      })(),
+      weekly: (() => {
+        const weeks = resampleOhlcv(rows, weekTf, 'Asia/Tokyo');
+        for (let i = weeks.rows.length - 1; i >= 0; i--) {
+          const w = weeks.rows[i];
+          const start = Number(w[5]);
+          // 取得範囲の先頭で途中から始まる週は使わない
+          if (i === 0 && weeks.parts[0] < 7) continue;
+          if (nextBucketStart(start, weekTf, 'Asia/Tokyo') <= now) return { start, hlc: { high: Number(w[1]), low: Number(w[2]), close: Number(w[3]) } };
+        }
+        return null;
+      })(),
+    };
+    const pivots: Partial<Record<PivotTimeframe, ReturnType<typeof pivotLevels> & { basis: Hlc & { periodStart: string } }>> = {};
+    for (const tf of pivotTimeframes) {
+      const b = bases[tf];
+      if (!b) { warnings.push(`${tf} pivots: 確定済みの期間がありません`); continue; }
+      const set = pivotLevels(b.hlc, digits);
+      pivots[tf] = { basis: { periodStart: new Date(b.start).toISOString(), ...b.hlc }, ...set };
+      for (const method of ['classical', 'camarilla', 'woodie'] as const) {
+        for (const [name, price] of Object.entries(set[method])) push(price, `${tf} ${method} ${name}`, 'pivot', method, tf);
+      }
+    }
+
+    // --- Fibonacci（直近のスイング高値・安値） ---
+    const swings = detectSwingPoints(candles, { swingDepth });
+    const lastHigh = [...swings].reverse().find((p) => p.kind === 'H');
+    const lastLow = [...swings].reverse().find((p) => p.kind === 'L');
+    let fibonacci = null as null | {
+      direction: 'up' | 'down';
+      high: { price: number; isoTime: string | null; index: number };
+      low: { price: number; isoTime: string | null; index: number };
+      retracements: Array<{ ratio: number; price: number }>;
+      extensions: Array<{ ratio: number; price: number }>;
+    };
+    if (lastHigh && lastLow && lastHigh.price > lastLow.price) {
+      const direction = lastLow.idx < lastHigh.idx ? 'up' : 'down';
+      const fib = fibonacciLevels(lastHigh.price, lastLow.price, direction, digits);
+      fibonacci = {
+        direction,
+        high: { price: lastHigh.price, isoTime: candles[lastHigh.idx]?.isoTime ?? null, index: lastHigh.idx },
+        low: { price: lastLow.price, isoTime: candles[lastLow.idx]?.isoTime ?? null, index: lastLow.idx },
+        ...fib,
+      };
+      for (const r of fib.retracements) push(r.price, `fib ${(r.ratio * 100).toFixed(1)}%`, 'fibonacci', 'retracement', null);
+      for (const e of fib.extensions) push(e.price, `fib ext ${(e.ratio * 100).toFixed(1)}%`, 'fibonacci', 'extension', null);
+    } else {
+      warnings.push(`Fibonacci: swingDepth=${swingDepth} でスイング高値・安値の組が見つかりません`);
+    }
+
+    levels.sort((a, b) => b.price - a.price);
+    const above = levels.filter((lv) => lv.side === 'above');
+    const below = levels.filter((lv) => lv.side === 'below');
+    const nearest = { above: above.at(-1) ?? null, below: below[0] ?? null };
+    const confluence = mergeConfluence(levels, currentPrice, confluencePct, digits);
+
+    const overlays = {
+      levels: levels.map((lv) => ({ price: lv.price, color: LEVEL_COLORS[lv.method], label: lv.label })),
+      depth_zones: confluence.map((z) => ({ low: z.low, high: z.high, color: 'rgba(250,204,21,0.12)', label: `confluence ×${z.count}` })),
+    };
+
+    const fmt = (lv: PriceLevel | null) => (lv ? `${lv.label} ${formatPriceUnit(chk.pair, lv.price)}（${lv.distancePct >= 0 ? '+' : ''}${lv.distancePct}%）` : 'n/a');
+    const summary = [
+      formatSummary({ pair: chk.pair, timeframe: String(type), latest: currentPrice, extra: `levels=${levels.length} confluence=${confluence.length}` }),
+      '',
+      `直上: ${fmt(nearest.above)}`,
+      `直下: ${fmt(nearest.below)}`,
+      ...(fibonacci ? [`Fibonacci: ${fibonacci.direction === 'up' ? '上昇波' : '下降波'} ${formatPriceUnit(chk.pair, fibonacci.low.price)} - ${formatPriceUnit(chk.pair, fibonacci.high.price)}`] : []),
+      ...(confluence.length ? ['', 'コンフルエンス:', ...confluence.slice(0, 5).map((z) => `- ${formatPriceUnit(chk.pair, z.low)}〜${formatPriceUnit(chk.pair, z.high)}（${z.count}本, ${z.distancePct >= 0 ? '+' : ''}${z.distancePct}%）: ${z.labels.join(' / ')}`)] : []),
+      '',
+      'チャート連携: data.overlays を render_chart_svg.overlays に渡すと水平線とゾーンを描画できます。',
+    ].join('\n');
+
+    const data = { currentPrice, pivots, fibonacci, levels, nearest, confluence, overlays };
+    const meta = createMeta(chk.pair, { type, count: candles.length, swingDepth, confluencePct, warnings: warnings.length ? warnings : undefined });
+    return GetPriceLevelsOutputSchema.parse(ok(summary, data, meta as any)) as any;
+  } catch (e: unknown) {
+    return GetPriceLevelsOutputSchema.parse(fail(getErrorMessage(e) || 'internal error', 'internal')) as any;
+  }
+}
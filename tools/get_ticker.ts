@@ -1,9 +1,9 @@
 import { ensurePair, createMeta } from '../lib/validate.js';
-import { fetchJson, BITBANK_API_BASE } from '../lib/http.js';
+import { fetchJsonWithCache, BITBANK_API_BASE } from '../lib/http.js';
 import { ok, fail } from '../lib/result.js';
-import { formatPair } from '../lib/formatter.js';
+import { formatPair, formatPriceFor, quoteOf, baseOf } from '../lib/formatter.js';
 import { toIsoTime } from '../lib/datetime.js';
-import { getErrorMessage, isAbortError } from '../lib/error.js';
+import { getErrorMessage, isAbortError, isRateLimitError } from '../lib/error.js';
 import { GetTickerOutputSchema } from '../src/schemas.js';
 import type { Result, GetTickerData, GetTickerMeta } from '../src/types/domain.d.ts';
 
@@ -16,7 +16,8 @@ export interface GetTickerOptions {
  */
 function formatTickerSummary(pair: string, d: Record<string, unknown>): string {
   const pairDisplay = formatPair(pair);
-  const isJpy = pair.toLowerCase().includes('jpy');
+  const quote = quoteOf(pair);
+  const isJpy = quote === 'jpy';
 
   const last = d.last != null ? Number(d.last) : null;
   const open = d.open != null ? Number(d.open) : null;
@@ -27,15 +28,15 @@ function formatTickerSummary(pair: string, d: Record<string, unknown>): string {
   const vol = d.vol != null ? Number(d.vol) : null;
 
   // 通貨単位
-  const baseCurrency = pair.split('_')[0]?.toUpperCase() ?? '';
+  const baseCurrency = baseOf(pair).toUpperCase();
 
   // 価格フォーマット
   const formatPrice = (price: number | null): string => {
     if (price === null) return 'N/A';
     if (isJpy) {
-      return `¥${price.toLocaleString('ja-JP')}`;
+      return `¥${formatPriceFor(pair, price)}`;
     }
-    return price.toLocaleString('ja-JP');
+    return `${formatPriceFor(pair, price)} ${quote.toUpperCase()}`;
   };
 
   // 変動率計算
@@ -50,7 +51,7 @@ function formatTickerSummary(pair: string, d: Record<string, unknown>): string {
   let spreadStr = '';
   if (buy !== null && sell !== null) {
     const spread = sell - buy;
-    spreadStr = isJpy ? `¥${spread.toLocaleString('ja-JP')}` : spread.toLocaleString('ja-JP');
+    spreadStr = formatPrice(spread);
   }
 
   // 出来高フォーマット
@@ -85,7 +86,7 @@ export default async function getTicker(
   const url = `${BITBANK_API_BASE}/${chk.pair}/ticker`;
 
   try {
-    const json: unknown = await fetchJson(url, { timeoutMs, retries: 2 });
+    const { data: json, cache } = await fetchJsonWithCache(url, { timeoutMs, retries: 2 });
     const jsonObj = json as { data?: Record<string, unknown> };
 
     const d = jsonObj?.data ?? {};
@@ -107,8 +108,11 @@ export default async function getTicker(
       },
     };
 
-    return GetTickerOutputSchema.parse(ok(summary, data, createMeta(chk.pair))) as unknown as Result<GetTickerData, GetTickerMeta>;
+    return GetTickerOutputSchema.parse(ok(summary, data, createMeta(chk.pair, { cache }))) as unknown as Result<GetTickerData, GetTickerMeta>;
   } catch (err: unknown) {
+    if (isRateLimitError(err)) {
+      return GetTickerOutputSchema.parse(fail(`レート制限 (${getErrorMessage(err)})`, 'rate_limited', { retryAfterMs: err.retryAfterMs })) as unknown as Result<GetTickerData, GetTickerMeta>;
+    }
     const isAbort = isAbortError(err);
     const message = isAbort ? `タイムアウト (${timeoutMs}ms)` : getErrorMessage(err) || 'ネットワークエラー';
     return GetTickerOutputSchema.parse(fail(message, isAbort ? 'timeout' : 'network')) as unknown as Result<GetTickerData, GetTickerMeta>;
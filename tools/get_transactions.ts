@@ -1,9 +1,9 @@
-import { fetchJson, BITBANK_API_BASE } from '../lib/http.js';
+import { fetchJsonWithCache, BITBANK_API_BASE } from '../lib/http.js';
 import { ensurePair, validateLimit, createMeta } from '../lib/validate.js';
 import { ok, fail } from '../lib/result.js';
-import { formatPair } from '../lib/formatter.js';
+import { formatPair, formatPriceFor, quoteOf, baseOf } from '../lib/formatter.js';
 import { toIsoMs } from '../lib/datetime.js';
-import { getErrorMessage } from '../lib/error.js';
+import { getErrorMessage, isRateLimitError } from '../lib/error.js';
 import { GetTransactionsOutputSchema } from '../src/schemas.js';
 
 type TxnRaw = Record<string, unknown>;
@@ -34,12 +34,12 @@ function formatTransactionsSummary(
   sells: number
 ): string {
   const pairDisplay = formatPair(pair);
-  const isJpy = pair.toLowerCase().includes('jpy');
-  const baseCurrency = pair.split('_')[0]?.toUpperCase() ?? '';
+  const quote = quoteOf(pair);
+  const baseCurrency = baseOf(pair).toUpperCase();
   const lines: string[] = [];
 
   const formatPrice = (price: number): string => {
-    return isJpy ? `¥${price.toLocaleString('ja-JP')}` : price.toLocaleString('ja-JP');
+    return quote === 'jpy' ? `¥${formatPriceFor(pair, price)}` : `${formatPriceFor(pair, price)} ${quote.toUpperCase()}`;
   };
 
   const formatTime = (ms: number): string => {
@@ -91,7 +91,7 @@ export default async function getTransactions(
     : `${BITBANK_API_BASE}/${chk.pair}/transactions`;
 
   try {
-    const json: unknown = await fetchJson(url, { timeoutMs: 4000, retries: 2 });
+    const { data: json, cache } = await fetchJsonWithCache(url, { timeoutMs: 4000, retries: 2 });
     const jsonObj = json as { data?: { transactions?: TxnRaw[] } };
     const arr: TxnRaw[] = (jsonObj?.data?.transactions ?? []) as TxnRaw[];
 
@@ -115,9 +115,12 @@ export default async function getTransactions(
     const summary = formatTransactionsSummary(chk.pair, latest, buys, sells);
 
     const data = { raw: json, normalized: latest };
-    const meta = createMeta(chk.pair, { count: latest.length, source: date ? 'by_date' : 'latest' });
+    const meta = createMeta(chk.pair, { count: latest.length, source: date ? 'by_date' : 'latest', cache });
     return GetTransactionsOutputSchema.parse(ok(summary, data as any, meta as any)) as any;
   } catch (e: unknown) {
+    if (isRateLimitError(e)) {
+      return GetTransactionsOutputSchema.parse(fail(`レート制限 (${getErrorMessage(e)})`, 'rate_limited', { retryAfterMs: e.retryAfterMs })) as any;
+    }
     return GetTransactionsOutputSchema.parse(fail(getErrorMessage(e) || 'ネットワークエラー', 'network')) as any;
   }
 }
@@ -5,6 +5,7 @@ import { formatSummary } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
 import { stddev } from '../lib/math.js';
 import { GetVolMetricsOutputSchema } from '../src/schemas.js';
+import type { Result, GetCandlesData, GetCandlesMeta } from '../src/types/domain.d.ts';
 
 type Candle = { open: number; high: number; low: number; close: number; isoTime?: string | null };
 
@@ -25,7 +26,7 @@ function baseIntervalMsOf(type: string): number {
   }
 }
 
-function periodsPerYear(type: string): number {
+export function periodsPerYear(type: string): number {
   const secondsPerYear = 365 * 24 * 60 * 60;
   const intervalSec = baseIntervalMsOf(type) / 1000;
   return Math.max(1, Math.floor(secondsPerYear / intervalSec));
@@ -80,7 +81,14 @@ export default async function getVolatilityMetrics(
   type: string = '1day',
   limit: number = 200,
   windows: number[] = [14, 20, 30],
-  opts?: { useLogReturns?: boolean; annualize?: boolean; tz?: string; cacheTtlMs?: number }
+  opts?: {
+    useLogReturns?: boolean;
+    annualize?: boolean;
+    tz?: string;
+    cacheTtlMs?: number;
+    /** 取得済みのローソク足（同じ pair/type の getCandles の結果）。直近 limit 本を使う */
+    candles?: Result<GetCandlesData, GetCandlesMeta>;
+  }
 ) {
   const chk = ensurePair(pair);
   if (!chk.ok) return GetVolMetricsOutputSchema.parse(fail(chk.error.message, chk.error.type)) as any;
@@ -88,9 +96,9 @@ export default async function getVolatilityMetrics(
   if (!lim.ok) return GetVolMetricsOutputSchema.parse(fail(lim.error.message, lim.error.type)) as any;
 
   try {
-    const cRes: any = await getCandles(chk.pair, type, undefined as any, lim.value);
+    const cRes = opts?.candles ?? (await getCandles(chk.pair, type, undefined as any, lim.value));
     if (!cRes?.ok) return GetVolMetricsOutputSchema.parse(fail(cRes?.summary || 'failed', (cRes?.meta as any)?.errorType || 'internal')) as any;
-    const candles: Candle[] = (cRes.data?.normalized || []) as any[];
+    const candles: Candle[] = ((cRes.data?.normalized || []) as any[]).slice(-lim.value);
     if (!Array.isArray(candles) || candles.length < 20) {
       return GetVolMetricsOutputSchema.parse(fail('データ不足（最低20本必要）', 'user')) as any;
     }
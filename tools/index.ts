@@ -1,6 +1,7 @@
 import getTicker from './get_ticker.js';
 import getOrderbook from './get_orderbook.js';
 import getCandles from './get_candles.js';
+import backfillCandles from './backfill_candles.js';
 import analyzeIndicators from './analyze_indicators.js';
 import renderChartSvg from './render_chart_svg.js';
 import getDepth from './get_depth.js';
@@ -18,6 +19,7 @@ export {
   getTicker,
   getOrderbook,
   getCandles,
+  backfillCandles,
   analyzeIndicators,
   renderChartSvg,
   getDepth,
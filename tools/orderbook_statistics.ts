@@ -2,7 +2,8 @@ import getTicker from './get_ticker.js';
 import getDepth from './get_depth.js';
 import { ok, fail } from '../lib/result.js';
 import { createMeta, ensurePair } from '../lib/validate.js';
-import { formatSummary, formatTimestampJST } from '../lib/formatter.js';
+import { formatSummary, formatTimestampJST, formatPriceFor, formatPriceUnit, baseOf, quoteOf } from '../lib/formatter.js';
+import { roundPrice } from '../lib/pairs.js';
 import { getErrorMessage } from '../lib/error.js';
 
 export default async function getOrderbookStatistics(
@@ -31,7 +32,7 @@ export default async function getOrderbookStatistics(
     const mid = (bestBid != null && bestAsk != null) ? (bestBid + bestAsk) / 2 : (tkr?.data?.normalized?.last ?? null);
 
     const basic = {
-      currentPrice: mid != null ? Math.round(mid) : null,
+      currentPrice: mid != null ? roundPrice(chk.pair, mid) : null,
       bestBid: bestBid != null ? Number(bestBid) : null,
       bestAsk: bestAsk != null ? Number(bestAsk) : null,
       spread: (bestBid != null && bestAsk != null) ? Number(bestAsk) - Number(bestBid) : null,
@@ -72,14 +73,14 @@ export default async function getOrderbookStatistics(
         const aVol = asks.filter(([p]) => p >= lo && p < hi).reduce((s, [, sz]) => s + sz, 0);
         const dom = bVol > aVol * 1.2 ? 'bid' : (aVol > bVol * 1.2 ? 'ask' : 'balanced');
         const note = dom === 'bid' ? '強い買いサポート' : (dom === 'ask' ? '強い売り圧力' : undefined);
-        zones.push({ priceRange: `${Math.round(lo).toLocaleString()} - ${Math.round(hi).toLocaleString()}`, bidVolume: Number(bVol.toFixed(4)), askVolume: Number(aVol.toFixed(4)), dominance: dom, note });
+        zones.push({ priceRange: `${formatPriceFor(chk.pair, lo)} - ${formatPriceFor(chk.pair, hi)}`, bidVolume: Number(bVol.toFixed(4)), askVolume: Number(aVol.toFixed(4)), dominance: dom, note });
       }
     }
 
     // Large orders
     const threshold = 0.1;
-    const largeBids = bids.filter(([, sz]) => sz >= threshold).slice(0, 20).map(([p, sz]) => ({ price: Math.round(p), size: Number(sz.toFixed(3)), distance: mid ? Number((((p - mid) / mid) * 100).toFixed(2)) : null }));
-    const largeAsks = asks.filter(([, sz]) => sz >= threshold).slice(0, 20).map(([p, sz]) => ({ price: Math.round(p), size: Number(sz.toFixed(3)), distance: mid ? Number((((p - mid) / mid) * 100).toFixed(2)) : null }));
+    const largeBids = bids.filter(([, sz]) => sz >= threshold).slice(0, 20).map(([p, sz]) => ({ price: roundPrice(chk.pair, p), size: Number(sz.toFixed(3)), distance: mid ? Number((((p - mid) / mid) * 100).toFixed(2)) : null }));
+    const largeAsks = asks.filter(([, sz]) => sz >= threshold).slice(0, 20).map(([p, sz]) => ({ price: roundPrice(chk.pair, p), size: Number(sz.toFixed(3)), distance: mid ? Number((((p - mid) / mid) * 100).toFixed(2)) : null }));
 
     // Overall assessment
     const lastRatio = rangesOut[0]?.ratio ?? 1;
@@ -96,22 +97,25 @@ export default async function getOrderbookStatistics(
       summary: { overall, strength, liquidity, recommendation },
     };
 
+    const baseUnit = baseOf(chk.pair).toUpperCase();
+    const quote = quoteOf(chk.pair);
+    const quoteUnit = quote === 'jpy' ? '円' : ` ${quote.toUpperCase()}`;
     const text = [
       `📸 ${formatTimestampJST(timestamp)}`,
       '',
       '=== ' + String(pair).toUpperCase() + ' 板統計分析 ===',
-      '💰 現在価格: ' + (basic.currentPrice != null ? `${basic.currentPrice.toLocaleString()}円` : 'n/a'),
-      basic.spread != null ? `   スプレッド: ${basic.spread}円 (${((basic.spreadPct || 0) * 100).toFixed(6)}%)` : '',
+      '💰 現在価格: ' + (basic.currentPrice != null ? formatPriceUnit(chk.pair, basic.currentPrice) : 'n/a'),
+      basic.spread != null ? `   スプレッド: ${formatPriceUnit(chk.pair, basic.spread)} (${((basic.spreadPct || 0) * 100).toFixed(6)}%)` : '',
       '',
       '📊 板の厚み分析:',
-      ...rangesOut.map((r) => `±${r.pct}%レンジ: 買い ${r.bidVolume} BTC / 売り ${r.askVolume} BTC (比率 ${r.ratio}) → ${r.interpretation}`),
+      ...rangesOut.map((r) => `±${r.pct}%レンジ: 買い ${r.bidVolume} ${baseUnit} / 売り ${r.askVolume} ${baseUnit} (比率 ${r.ratio}) → ${r.interpretation}`),
       '',
       '📈 価格帯別の流動性分布:',
-      ...zones.slice(0, 5).map((z) => `${z.priceRange}円: 買い ${z.bidVolume} / 売り ${z.askVolume} (${z.dominance}) ${z.note || ''}`),
+      ...zones.slice(0, 5).map((z) => `${z.priceRange}${quoteUnit}: 買い ${z.bidVolume} / 売り ${z.askVolume} (${z.dominance}) ${z.note || ''}`),
       '',
       '🐋 大口注文:',
-      ...largeBids.slice(0, 3).map((o) => `買い板: ${o.price.toLocaleString()}円に${o.size} BTC (${o.distance != null ? (o.distance >= 0 ? '+' : '') + o.distance + '%' : ''})`),
-      ...largeAsks.slice(0, 3).map((o) => `売り板: ${o.price.toLocaleString()}円に${o.size} BTC (${o.distance != null ? (o.distance >= 0 ? '+' : '') + o.distance + '%' : ''})`),
+      ...largeBids.slice(0, 3).map((o) => `買い板: ${formatPriceUnit(chk.pair, o.price)}に${o.size} ${baseUnit} (${o.distance != null ? (o.distance >= 0 ? '+' : '') + o.distance + '%' : ''})`),
+      ...largeAsks.slice(0, 3).map((o) => `売り板: ${formatPriceUnit(chk.pair, o.price)}に${o.size} ${baseUnit} (${o.distance != null ? (o.distance >= 0 ? '+' : '') + o.distance + '%' : ''})`),
       '',
       `💡 総合評価: ${overall}（${strength}）`,
       recommendation,
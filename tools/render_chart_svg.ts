@@ -8,12 +8,30 @@
  */
 import fs from 'fs/promises';
 import path from 'path';
-import analyzeIndicators from './analyze_indicators.js';
+import analyzeIndicators, { indicatorDigits, latestAtr } from './analyze_indicators.js';
 import getDepth from './get_depth.js';
 import { ok, fail } from '../lib/result.js';
 import { formatPair } from '../lib/formatter.js';
 import { getErrorMessage } from '../lib/error.js';
-import type { Result, Pair, CandleType, RenderChartSvgOptions, ChartPayload } from '../src/types/domain.d.ts';
+import { CANDLE_TRANSFORMS, transformCandles, type CandleTransform, type CandleTransformResult, type PointFigureColumn } from '../lib/candle_transform.js';
+import type { Result, Pair, CandleType, RenderChartSvgOptions, ChartPayload, OscillatorPanel } from '../src/types/domain.d.ts';
+
+// オシレーターのサブパネル定義（range 未指定は表示範囲から対称に自動算出）
+const PANEL_DEFS: Record<OscillatorPanel, { label: string; lines: Array<{ key: string; color: string }>; range?: [number, number]; guides: number[]; minAbs?: number }> = {
+  RSI: { label: 'RSI(14)', lines: [{ key: 'RSI_14_series', color: '#a78bfa' }], range: [0, 100], guides: [30, 70] },
+  STOCH: { label: 'Stoch(14,3,3)', lines: [{ key: 'STOCH_K', color: '#38bdf8' }, { key: 'STOCH_D', color: '#f59e0b' }], range: [0, 100], guides: [20, 80] },
+  STOCH_RSI: { label: 'StochRSI(14,14,3,3)', lines: [{ key: 'STOCH_RSI_K', color: '#38bdf8' }, { key: 'STOCH_RSI_D', color: '#f59e0b' }], range: [0, 100], guides: [20, 80] },
+  WILLR: { label: 'Williams %R(14)', lines: [{ key: 'WILLR_14', color: '#f472b6' }], range: [-100, 0], guides: [-80, -20] },
+  CCI: { label: 'CCI(20)', lines: [{ key: 'CCI_20', color: '#22d3ee' }], guides: [-100, 0, 100], minAbs: 150 },
+  ROC: { label: 'ROC(12)', lines: [{ key: 'ROC_12', color: '#10b981' }], guides: [0], minAbs: 1 },
+  ADX: { label: 'ADX(14) +DI/-DI', lines: [{ key: 'ADX_14', color: '#e5e7eb' }, { key: 'PLUS_DI_14', color: '#22c55e' }, { key: 'MINUS_DI_14', color: '#ef4444' }], range: [0, 60], guides: [20, 25] },
+};
+
+// トレンド系オーバーレイの方向別カラー（1=上昇, -1=下降）
+const TREND_COLORS = { up: '#34d399', down: '#f87171' } as const;
+const TRANSFORM_LABELS: Record<CandleTransform, string> = { heikin_ashi: 'Heikin-Ashi', renko: 'Renko', point_figure: 'Point & Figure', range_bars: 'Range bars' };
+// チャネル系オーバーレイ（Keltner / Donchian）
+const CHANNEL_COLORS = { keltner: '#a78bfa', donchian: '#fbbf24' } as const;
 
 type RenderData = { svg?: string; filePath?: string; legend?: Record<string, string> };
 type RenderMeta = {
@@ -27,14 +45,18 @@ type RenderMeta = {
   layerCount?: number;
   truncated?: boolean;
   fallback?: string;
+  transform?: CandleTransformResult['meta'];
 };
 
 export default async function renderChartSvg(args: RenderChartSvgOptions = {}): Promise<Result<RenderData, RenderMeta>> {
   // --- パラメータの解決（強制排他ルール） ---
-  const style = ((args as any).style === 'line' ? 'line' : 'candles') as 'candles' | 'line';
+  const transform = (CANDLE_TRANSFORMS as readonly string[]).includes(String(args.style)) ? (args.style as CandleTransform) : null;
+  // renko / P&F / レンジバーは時間軸と対応しないため、時系列の指標オーバーレイ・サブパネルは描かない
+  const timeless = transform != null && transform !== 'heikin_ashi';
+  const style = ((args as any).style === 'line' ? 'line' : transform === 'point_figure' ? 'point_figure' : 'candles') as 'candles' | 'line' | 'point_figure';
   // depth は特別扱い（ローソクを描かない）
   const isDepth = (args as any).style === 'depth';
-  const withIchimoku = args.withIchimoku ?? false;
+  const withIchimoku = (args.withIchimoku ?? false) && !timeless;
   const ichimokuOpt = args.ichimoku || {};
   // モード正規化: light→default, full→extended（後方互換）
   const normalizeIchimokuMode = (m: unknown): 'default' | 'extended' => {
@@ -50,6 +72,10 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   // 互換: 以前の仕様からの流入に備え、withIchimoku時は引き続きBB/SMAをオフ
   let withSMA = args.withSMA ?? [];
   let withBB = args.withBB ?? (withIchimoku ? false : false);
+  let withPSAR = args.withPSAR ?? false;
+  let withSupertrend = args.withSupertrend ?? false;
+  let withKeltner = args.withKeltner ?? false;
+  let withDonchian = args.withDonchian ?? false;
   const svgPrecision = Math.max(0, Math.min(3, Number((args as any)?.svgPrecision ?? 1)));
   const effectivePrecision = Math.max(1, svgPrecision);
   const svgMinify = (args as any)?.svgMinify !== false;
@@ -67,6 +93,16 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
     withSMA = [];
     withBB = false;
   }
+  const transformNotes: string[] = [];
+  if (timeless && (withBB || withSMA.length > 0 || withPSAR || withSupertrend || withKeltner || withDonchian || args.withIchimoku || (args.subPanels?.length ?? 0) > 0)) {
+    withBB = false;
+    withSMA = [];
+    withPSAR = false;
+    withSupertrend = false;
+    withKeltner = false;
+    withDonchian = false;
+    transformNotes.push(`style=${transform} は時間軸を持たないため指標オーバーレイ/サブパネルを省略しました`);
+  }
 
   const {
     pair = 'btc_jpy',
@@ -179,12 +215,17 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   }
 
   // --- 事前見積もりヒューリスティクス（重そうなら candles-only にフォールバック） ---
-  const estimatedLayers = (withIchimoku ? 1 : 0) + (withBB ? (bbMode === 'extended' ? 3 : 1) : 0) + (Array.isArray(withSMA) ? withSMA.length : 0) + 1; // +1 for base series
-  let summaryNotes: string[] = [];
+  const subPanels: OscillatorPanel[] = Array.isArray(args.subPanels) && !timeless ? [...new Set(args.subPanels)].filter((p) => PANEL_DEFS[p]) : [];
+  const estimatedLayers = (withIchimoku ? 1 : 0) + (withBB ? (bbMode === 'extended' ? 3 : 1) : 0) + (Array.isArray(withSMA) ? withSMA.length : 0) + (withPSAR ? 1 : 0) + (withSupertrend ? 1 : 0) + (withKeltner ? 1 : 0) + (withDonchian ? 1 : 0) + subPanels.length + 1; // +1 for base series
+  let summaryNotes: string[] = [...transformNotes];
   if (!forceLayers && limit * estimatedLayers > 500) {
-    if (withBB || (withSMA && withSMA.length > 0) || withIchimoku) {
+    if (withBB || (withSMA && withSMA.length > 0) || withIchimoku || withPSAR || withSupertrend || withKeltner || withDonchian) {
       withBB = false;
       withSMA = [];
+      withPSAR = false;
+      withSupertrend = false;
+      withKeltner = false;
+      withDonchian = false;
       if (withIchimoku) {
         // keep user intent for ichimoku unless very heavy
         if (limit * (1 + (bbMode === 'extended' ? 3 : 1)) > 800) {
@@ -210,12 +251,33 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   const forwardShiftMeta = chartData.meta?.shift ?? 0;
   // 一目を描画しない場合は forwardShift を 0 にする（間隔が詰まるのを防ぐ）
   const forwardShift = withIchimoku ? forwardShiftMeta : 0;
-  const displayItems = items.slice(pastBuffer);
+  let displayItems = items.slice(pastBuffer);
 
   if (!items?.length) {
     return fail('No candle data available to render SVG chart.', 'user');
   }
 
+  // --- ローソク足の変換（平均足は指標と同じく先頭バッファから計算し、他は表示範囲のみを変換） ---
+  let transformMeta: CandleTransformResult['meta'] | undefined;
+  let pnfColumns: PointFigureColumn[] = [];
+  if (transform) {
+    try {
+      const source = transform === 'heikin_ashi' ? items : displayItems;
+      const t = transformCandles(source, transform, {
+        size: args.brickSize,
+        atr: latestAtr(source),
+        reversal: args.pnfReversal,
+        digits: indicatorDigits(pair, source.at(-1)?.close ?? 0),
+      });
+      displayItems = (transform === 'heikin_ashi' ? t.candles.slice(pastBuffer) : t.candles) as typeof displayItems;
+      transformMeta = t.meta;
+      pnfColumns = t.columns ?? [];
+    } catch (e: unknown) {
+      return fail(getErrorMessage(e) || 'failed to transform candles', 'user');
+    }
+    if (!displayItems.length) return fail(`style=${transform}: size ${transformMeta.size} では 1 本も確定しません。brickSize を小さくしてください`, 'user');
+  }
+
   // Y軸スケール用の "きれいな" 目盛りを生成する関数
   function niceTicks(min: number, max: number, count = 5): number[] {
     if (max < min) [min, max] = [max, min];
@@ -291,6 +353,11 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
     });
   }
 
+  if (withPSAR) allYValues.push(...(indicators.PSAR?.slice(pastBuffer).filter((v: number | null) => v !== null) || []));
+  if (withSupertrend) allYValues.push(...(indicators.SUPERTREND?.slice(pastBuffer).filter((v: number | null) => v !== null) || []));
+  if (withKeltner) for (const key of ['KC_upper', 'KC_lower'] as const) allYValues.push(...(indicators[key]?.slice(pastBuffer).filter((v: number | null) => v !== null) || []));
+  if (withDonchian) for (const key of ['DC_upper', 'DC_lower'] as const) allYValues.push(...(indicators[key]?.slice(pastBuffer).filter((v: number | null) => v !== null) || []));
+
   const dataYMin = Math.min(...allYValues);
   const dataYMax = Math.max(...allYValues);
   const yPad = Math.min(0.2, Math.max(0, Number((args as any)?.yPaddingPct ?? 0.06)));
@@ -302,8 +369,12 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   const yMin = yTicks[0];
   const yMax = yTicks.at(-1) as number;
 
+  // Y軸ラベルは目盛り刻みの小数桁に揃える（BTC建てなど小さい価格帯で潰れないように）
+  const tickDecimals = yTicks.length > 1 ? Math.min(10, Math.max(0, -Math.floor(Math.log10(Math.abs(yTicks[1] - yTicks[0]) || 1) + 1e-9))) : 0;
+  const fmtTick = (v: number) => v.toLocaleString('ja-JP', { minimumFractionDigits: tickDecimals, maximumFractionDigits: tickDecimals });
+
   // Y軸ラベルの最大幅に基づいてpadding.leftを動的に調整
-  const maxLabelWidth = Math.max(...yTicks.map((v) => v.toLocaleString().length));
+  const maxLabelWidth = Math.max(...yTicks.map((v) => fmtTick(v).length));
   const dynamicPaddingLeft = maxLabelWidth * 8 + 16; // 1文字8pxと仮定 + 余白
 
   // スケール計算
@@ -359,6 +430,26 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
         return `<rect x="${Number(cx.toFixed(effectivePrecision))}" y="${Number(top.toFixed(effectivePrecision))}" width="${Number(barW.toFixed(effectivePrecision))}" height="${Number(Math.max(1, bot - top).toFixed(effectivePrecision))}" fill="${up ? '#16a34a' : '#ef4444'}"/>`;
       })
       .join('');
+  } else if (style === 'point_figure') {
+    // 列ごとにボックスを積む（X = 上昇列、O = 下降列）
+    const boxSize = transformMeta?.size ?? 0;
+    const rd = (v: number) => Number(v.toFixed(effectivePrecision));
+    const half = Math.max(1.5, Math.min(barW / 2, 6));
+    bodies = pnfColumns
+      .map((col, i) => {
+        const cx = x(i);
+        const marks: string[] = [];
+        for (let b = 0; b < col.boxes; b++) {
+          const cy = rd(y(col.bottom + b * boxSize));
+          if (col.kind === 'X') {
+            marks.push(`<path d="M ${rd(cx - half)},${rd(cy - half)} L ${rd(cx + half)},${rd(cy + half)} M ${rd(cx - half)},${rd(cy + half)} L ${rd(cx + half)},${rd(cy - half)}" stroke="#16a34a" stroke-width="1.2"/>`);
+          } else {
+            marks.push(`<circle cx="${rd(cx)}" cy="${cy}" r="${rd(half)}" fill="none" stroke="#ef4444" stroke-width="1.2"/>`);
+          }
+        }
+        return marks.join('');
+      })
+      .join('');
   } else if (style === 'line') {
     // style === 'line' → 終値の折れ線（描画はヘルパー定義後に実施）
     wantPriceLine = true;
@@ -606,7 +697,71 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
     `;
   }
 
+  // Parabolic SAR（点）/ Supertrend（方向が変わる所で線を切って色分け）
+  let trendLayers = '';
+  const dirColor = (d: number | null | undefined) => (d === -1 ? TREND_COLORS.down : TREND_COLORS.up);
+  if (withPSAR) {
+    const sar = (indicators?.PSAR || []) as Array<number | null>;
+    const dir = (indicators?.PSAR_dir || []) as Array<number | null>;
+    trendLayers += sar.slice(pastBuffer).map((v, i) => (typeof v === 'number' ? `<circle cx="${round(x(i))}" cy="${round(y(v))}" r="1.8" fill="${dirColor(dir[i + pastBuffer])}"/>` : '')).join('');
+  }
+  if (withSupertrend) {
+    const line = ((indicators?.SUPERTREND || []) as Array<number | null>).slice(pastBuffer);
+    const dir = ((indicators?.SUPERTREND_dir || []) as Array<number | null>).slice(pastBuffer);
+    let seg: string[] = [];
+    let segDir: number | null = null;
+    const flush = () => {
+      if (seg.length > 1) trendLayers += `<path d="M ${seg.join(' L ')}" fill="none" stroke="${dirColor(segDir)}" stroke-width="1.5"/>`;
+      seg = [];
+    };
+    line.forEach((v, i) => {
+      if (typeof v !== 'number' || dir[i] !== segDir) { flush(); segDir = dir[i] ?? null; }
+      if (typeof v === 'number') seg.push(`${round(x(i))},${round(y(v))}`);
+    });
+    flush();
+  }
+  // Keltner / Donchian（上下バンド＋破線の中心線）
+  const channelLayers = (prefix: 'KC' | 'DC', color: string) =>
+    createLinePath(indicators?.[`${prefix}_upper`], color, { width: '1' }) +
+    createLinePath(indicators?.[`${prefix}_lower`], color, { width: '1' }) +
+    createLinePath(indicators?.[`${prefix}_middle`], color, { width: '1', dash: '4 4' });
+  if (withKeltner) trendLayers += channelLayers('KC', CHANNEL_COLORS.keltner);
+  if (withDonchian) trendLayers += channelLayers('DC', CHANNEL_COLORS.donchian);
+
+  // --- オシレーターのサブパネル（価格チャートの下に積む。X 座標は価格チャートと共有） ---
+  const panelH = 110;
+  const panelLayers = subPanels.map((name, k) => {
+    const def = PANEL_DEFS[name];
+    const top = h + k * panelH + 16;
+    const bottom = h + (k + 1) * panelH - 6;
+    const visible = (key: string) => ((indicators?.[key] || []) as Array<number | null>).slice(pastBuffer);
+    let [lo, hi] = def.range ?? [0, 0];
+    if (!def.range) {
+      const abs = Math.max(def.minAbs ?? 0, ...def.lines.flatMap((l) => visible(l.key).filter((v): v is number => typeof v === 'number').map(Math.abs)));
+      [lo, hi] = [-abs * 1.05, abs * 1.05];
+    }
+    const py = (v: number) => round(bottom - ((v - lo) * (bottom - top)) / Math.max(1e-9, hi - lo));
+    const guides = def.guides.map((g) => `<line x1="${padding.left}" y1="${py(g)}" x2="${w - padding.right}" y2="${py(g)}" stroke="#4b5563" stroke-width="1" stroke-dasharray="3 3"/><text x="${padding.left - 8}" y="${py(g)}" text-anchor="end" dominant-baseline="middle" font-size="10" fill="#9ca3af">${g}</text>`).join('');
+    const paths = def.lines.map((l) => {
+      const pts = visible(l.key)
+        .map((v, i) => (typeof v === 'number' ? `${round(x(i))},${py(Math.min(hi, Math.max(lo, v)))}` : null))
+        .filter((pt): pt is string => pt != null);
+      return pts.length ? `<path d="M ${pts.join(' L ')}" fill="none" stroke="${l.color}" stroke-width="1.5"/>` : '';
+    }).join('');
+    const latest = def.lines.map((l) => visible(l.key).at(-1)).map((v) => (typeof v === 'number' ? v.toFixed(1) : 'n/a')).join(' / ');
+    return `<g class="panel-${name.toLowerCase()}">
+      <rect x="${padding.left}" y="${top}" width="${plotW}" height="${bottom - top}" fill="none" stroke="#374151" stroke-width="1"/>
+      ${guides}${paths}
+      <text x="${padding.left + 4}" y="${top - 4}" font-size="11" fill="#e5e7eb">${def.label} ${latest}</text>
+    </g>`;
+  }).join('');
+  const svgH = h + subPanels.length * panelH;
+
   // --- 凡例の動的構築 ---
+  if (transformMeta) {
+    const size = transformMeta.size == null ? '' : ` size=${transformMeta.size}${transformMeta.sizeSource === 'atr' ? ' (ATR14)' : ''}${transformMeta.reversal ? ` reversal=${transformMeta.reversal}` : ''}`;
+    legendMeta[TRANSFORM_LABELS[transformMeta.transform]] = `${TRANSFORM_LABELS[transformMeta.transform]}${size}`;
+  }
   if (withLegend) {
     const legendItems: Array<{ text: string; color: string }> = [];
     if (withSMA?.length > 0) {
@@ -633,6 +788,22 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
       legendItems.push({ text: '転換線', color: '#00a3ff' });
       legendItems.push({ text: '基準線', color: '#ff4d4d' });
     }
+    if (withPSAR) {
+      legendMeta.PSAR = 'Parabolic SAR (0.02, 0.2)';
+      legendItems.push({ text: 'SAR', color: TREND_COLORS.up });
+    }
+    if (withSupertrend) {
+      legendMeta.Supertrend = 'Supertrend (10, 3)';
+      legendItems.push({ text: 'Supertrend', color: TREND_COLORS.up });
+    }
+    if (withKeltner) {
+      legendMeta.Keltner = 'Keltner Channels (EMA20 ± 2×ATR10)';
+      legendItems.push({ text: 'Keltner', color: CHANNEL_COLORS.keltner });
+    }
+    if (withDonchian) {
+      legendMeta.Donchian = 'Donchian Channels (20)';
+      legendItems.push({ text: 'Donchian', color: CHANNEL_COLORS.donchian });
+    }
 
     let yOffset = Math.max(14, padding.top - 18);
     legendLayers = `<g font-size="12" fill="#e5e7eb">` + legendItems.map((item, i) => {
@@ -650,7 +821,7 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
     <g font-size="12" fill="#e5e7eb">
       ${yTicks.map(val => {
     const yPos = y(val);
-    return `<text x="${padding.left - 8}" y="${yPos}" text-anchor="end" dominant-baseline="middle">${val.toLocaleString()}</text>`;
+    return `<text x="${padding.left - 8}" y="${yPos}" text-anchor="end" dominant-baseline="middle">${fmtTick(val)}</text>`;
   }).join('')}
     </g>
   `;
@@ -674,8 +845,8 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   `;
 
   // --- 2種類のSVGを構築 ---
-  const createSvgString = (layers: { ichimoku: string; bb: string; sma: string }) => `
-    <svg width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" preserveAspectRatio="xMidYMid meet" xmlns="http://www.w3.org/2000/svg" style="background-color: #1f2937; color: #e5e7eb; font-family: sans-serif; max-width: 100%; height: auto;">
+  const createSvgString = (layers: { ichimoku: string; bb: string; sma: string; trend: string }) => `
+    <svg width="${w}" height="${svgH}" viewBox="0 0 ${w} ${svgH}" preserveAspectRatio="xMidYMid meet" xmlns="http://www.w3.org/2000/svg" style="background-color: #1f2937; color: #e5e7eb; font-family: sans-serif; max-width: 100%; height: auto;">
       <title>${formatPair(pair)} ${type} chart</title>
       <defs>
         <clipPath id="plotArea">
@@ -693,6 +864,7 @@ export default async function renderChartSvg(args: RenderChartSvgOptions = {}):
   ${bodies}
 ${priceLine}
         ${layers.sma}
+        ${layers.trend}
         ${(() => {
       if (!overlays || !overlays.ranges) return '';
       const mkRect = (startIso: string, endIso: string, color?: string, label?: string) => {
@@ -738,16 +910,30 @@ ${priceLine}
         return rect + text;
       };
       return overlays.depth_zones.map((z: any) => mkBand(z.low, z.high, z.color, z.label)).join('');
+    })()}
+        ${(() => {
+      if (!overlays || !overlays.levels) return '';
+      // 水平線（表示範囲外の価格は描かない）
+      const mkLevel = (price: number, color?: string, label?: string) => {
+        const yy = y(price);
+        if (!Number.isFinite(yy) || yy < padding.top || yy > padding.top + plotH) return '';
+        const stroke = color || '#9ca3af';
+        const line = `<line x1="${padding.left}" y1="${round(yy)}" x2="${w - padding.right}" y2="${round(yy)}" stroke="${stroke}" stroke-width="1" stroke-dasharray="6 3" />`;
+        const text = label ? `<text x="${w - padding.right - 4}" y="${round(yy) - 3}" text-anchor="end" fill="${stroke}" font-size="10">${label}</text>` : '';
+        return line + text;
+      };
+      return overlays.levels.map((l: any) => mkLevel(l.price, l.color, l.label)).join('');
     })()}
       </g>
       <g class="legend">
         ${legendLayers}
       </g>
+      ${panelLayers}
     </svg>
   `;
 
-  let fullSvg = createSvgString({ ichimoku: ichimokuLayers, bb: bbLayers, sma: smaLayers });
-  let lightSvg = createSvgString({ ichimoku: withIchimoku ? ichimokuLayers : '', bb: bbLayers, sma: smaLayers });
+  let fullSvg = createSvgString({ ichimoku: ichimokuLayers, bb: bbLayers, sma: smaLayers, trend: trendLayers });
+  let lightSvg = createSvgString({ ichimoku: withIchimoku ? ichimokuLayers : '', bb: bbLayers, sma: smaLayers, trend: trendLayers });
   if (svgMinify) {
     const minify = (s: string) => s.replace(/\s{2,}/g, ' ').replace(/>\s+</g, '><');
     fullSvg = minify(fullSvg);
@@ -783,9 +969,10 @@ ${priceLine}
     pair: pair as Pair,
     type,
     limit,
-    indicators: Object.keys(legendMeta),
+    indicators: [...Object.keys(legendMeta), ...subPanels.map((p) => `panel:${p}`)],
     bbMode,
     range: { start: rangeStart, end: rangeEnd },
+    ...(transformMeta ? { transform: transformMeta } : {}),
     sizeBytes,
     layerCount,
     // helpful hints for artifact renderers
@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { fixturePathFor } from '../../lib/http.js';
+
+/**
+ * テスト共通のヘルパー
+ * - writeFixture: BITBANK_HTTP_MODE=replay で読まれるフィクスチャを書き込む（BITBANK_FIXTURE_DIR を先に設定しておく）
+ * - candleRows: 緩やかな上昇に波を重ねた合成ローソク足（シグナル系のテスト用）
+ */
+export function writeFixture(url: string, body: unknown, status = 200) {
+  const file = fixturePathFor(url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ url, status, statusText: 'OK', body: JSON.stringify(body), recordedAt: new Date().toISOString() }));
+}
+
+const DAY = 24 * 3_600_000;
+
+const price = (i: number) => 10_000_000 * (1 + 0.15 * Math.sin(i / 40)) + 4_000 * i;
+
+/** candlestick API の ohlcv 行（end が最新足の時刻、1 日間隔） */
+export function candleRows(count: number, end: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const c = price(i);
+    return [String(price(i - 1)), String(c * (1.004 + 0.003 * Math.sin(i / 7))), String(c * 0.996), String(c), String(5 + (i % 4)), end - (count - 1 - i) * DAY];
+  });
+}
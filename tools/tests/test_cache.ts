@@ -0,0 +1,94 @@
+import { cached, clearCache, mergeCacheInfo } from '../../lib/cache.js';
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+function counter<T>(value: (n: number) => T) {
+  let calls = 0;
+  return { loader: async () => value(++calls), calls: () => calls };
+}
+
+async function testTtl() {
+  const c = counter((n) => n);
+  const first = await cached('ttl', 80, c.loader);
+  const second = await cached('ttl', 80, c.loader);
+  if (first.cache.hit || !second.cache.hit || second.value !== 1 || c.calls() !== 1) throw new Error('second call within TTL should hit');
+  await sleep(100);
+  const third = await cached('ttl', 80, c.loader);
+  if (third.cache.hit || third.value !== 2 || c.calls() !== 2) throw new Error('expired entry should be reloaded');
+
+  // TTL 0 は保存しない
+  const z = counter((n) => n);
+  await cached('ttl0', 0, z.loader);
+  const again = await cached('ttl0', 0, z.loader);
+  if (again.cache.hit || z.calls() !== 2) throw new Error('ttl=0 should not store');
+}
+
+async function testBypass() {
+  const c = counter((n) => n);
+  await cached('bypass', 10_000, c.loader);
+  const fresh = await cached('bypass', 10_000, c.loader, { bypass: true });
+  if (fresh.cache.hit || fresh.value !== 2) throw new Error('bypass should reload');
+  // bypass で取得した値は保存される
+  const after = await cached('bypass', 10_000, c.loader);
+  if (!after.cache.hit || after.value !== 2 || c.calls() !== 2) throw new Error('bypass result should be cached');
+}
+
+async function testInflightAndFailure() {
+  let calls = 0;
+  const slow = async () => {
+    calls++;
+    await sleep(30);
+    return calls;
+  };
+  const [a, b] = await Promise.all([cached('inflight', 10_000, slow), cached('inflight', 10_000, slow)]);
+  if (calls !== 1 || a.value !== 1 || b.value !== 1 || a.cache.hit || !b.cache.hit) throw new Error('concurrent calls should share one load');
+
+  let n = 0;
+  const flaky = async () => {
+    if (++n === 1) throw new Error('boom');
+    return n;
+  };
+  try {
+    await cached('flaky', 10_000, flaky);
+    throw new Error('first load should fail');
+  } catch (e) {
+    if ((e as Error).message !== 'boom') throw e;
+  }
+  const ok = await cached('flaky', 10_000, flaky);
+  if (ok.cache.hit || ok.value !== 2) throw new Error('failures should not be cached');
+}
+
+function testMergeAndClear() {
+  const merged = mergeCacheInfo([{ hit: true, key: 'a', ageMs: 10 }, { hit: true, key: 'b', ageMs: 40 }], 'ab');
+  if (!merged.hit || merged.ageMs !== 40 || merged.key !== 'ab') throw new Error(`merge mismatch: ${JSON.stringify(merged)}`);
+  if (mergeCacheInfo([{ hit: true, key: 'a', ageMs: 10 }, { hit: false, key: 'b', ageMs: 0 }], 'ab').hit) throw new Error('any miss should make the merge a miss');
+  if (mergeCacheInfo([], 'none').hit) throw new Error('empty merge should be a miss');
+}
+
+async function testClearPrefix() {
+  const c = counter((n) => n);
+  await cached('clear:a', 10_000, c.loader);
+  await cached('keep:b', 10_000, c.loader);
+  clearCache('clear:');
+  const a = await cached('clear:a', 10_000, c.loader);
+  const b = await cached('keep:b', 10_000, c.loader);
+  if (a.cache.hit || !b.cache.hit) throw new Error('clearCache(prefix) should only drop matching keys');
+}
+
+async function main() {
+  try {
+    await testTtl();
+    await testBypass();
+    await testInflightAndFailure();
+    testMergeAndClear();
+    await testClearPrefix();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    clearCache();
+  }
+}
+
+main();
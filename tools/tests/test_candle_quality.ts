@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { assessCandles } from '../../lib/candle_quality.js';
+import getCandles from '../get_candles.js';
+import analyzeIndicators from '../analyze_indicators.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+// 2024-01-01 00:00 JST
+const T0 = Date.UTC(2023, 11, 31, 15);
+
+const bar = (ts: number, close: number, vol = 1): [unknown, unknown, unknown, unknown, unknown, unknown] =>
+  [String(close), String(close + 1), String(close - 1), String(close), String(vol), ts];
+
+function testAssess() {
+  // 0,1,(2,3 欠損),4,4(重複),5(出来高ゼロ)
+  const rows = [bar(T0, 100), bar(T0 + HOUR, 101), bar(T0 + 4 * HOUR, 104), bar(T0 + 4 * HOUR, 105), bar(T0 + 5 * HOUR, 106, 0)];
+  const now = T0 + 30 * DAY;
+
+  const none = assessCandles(rows, '1hour', { now });
+  const q = none.quality;
+  if (q.gaps !== 1 || q.missingBars !== 2 || q.duplicates !== 1 || q.zeroVolume !== 1 || q.partialLast) throw new Error(`unexpected quality: ${JSON.stringify(q)}`);
+  if (!q.degraded || none.rows.length !== 5) throw new Error('none should only report');
+  if (q.gapRanges?.[0]?.from !== new Date(T0 + 2 * HOUR).toISOString()) throw new Error('gap range should start at the first missing bar');
+
+  const fill = assessCandles(rows, '1hour', { now, repair: 'fill' });
+  const ts = fill.rows.map((r) => (Number(r[5]) - T0) / HOUR).join();
+  if (ts !== '0,1,2,3,4,5' || fill.quality.filled !== 2) throw new Error(`fill should dedupe and forward-fill: ${ts}`);
+  if (Number(fill.rows[2][3]) !== 101 || Number(fill.rows[2][4]) !== 0 || Number(fill.rows[4][3]) !== 105) throw new Error('filled bars should carry the previous close with zero volume');
+
+  const drop = assessCandles(rows, '1hour', { now: T0 + 4 * HOUR + 1, repair: 'drop' });
+  if (drop.rows.length !== 3 || drop.quality.dropped !== 1) throw new Error(`drop should remove zero-volume bars: ${drop.rows.length}`);
+
+  const partial = assessCandles([bar(T0, 1), bar(T0 + DAY, 1)], '1day', { now: T0 + DAY + HOUR, repair: 'drop' });
+  if (!partial.quality.partialLast || partial.rows.length !== 1 || partial.quality.degraded) throw new Error('unclosed last bar should be flagged and dropped');
+
+  // 1 日を割り切れない 5hour 足は日末の足が短い（欠損扱いしない）
+  const five = [0, 5, 10, 15, 20, 24].map((h) => bar(T0 + h * HOUR, 1));
+  if (assessCandles(five, '5hour', { now }).quality.gaps !== 0) throw new Error('session-aligned short bars are not gaps');
+}
+
+async function testToolsReportQuality() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  // 日足 120 本のうち 20 本を欠落させる
+  const rows = Array.from({ length: 120 }, (_, i) => bar(T0 + i * DAY, 100 + i)).filter((_, i) => i % 6 !== 3);
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/2024`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const candles: any = await getCandles('btc_jpy', '1day', '2024', 60, { repair: 'fill' });
+  if (!candles.ok || candles.meta.quality?.missingBars !== 12 || candles.data.normalized.length !== 60) throw new Error(`candles quality missing: ${JSON.stringify(candles.meta)}`);
+
+  // analyze_indicators は最新（当年）を取りに行くため、直近で終わる系列を当年分として置く
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const recent = Array.from({ length: 240 }, (_, i) => bar(end - (239 - i) * DAY, 100 + i)).filter((_, i) => i % 6 !== 3);
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: recent }], timestamp: 0 } });
+
+  const warn: any = await analyzeIndicators('btc_jpy', '1day', 30);
+  if (!warn.ok || !warn.meta.quality?.degraded || !warn.meta.warnings?.some((w: string) => w.startsWith('データ品質'))) throw new Error(`expected degraded warning: ${warn.summary}`);
+
+  const refuse: any = await analyzeIndicators('btc_jpy', '1day', 30, { onDegraded: 'refuse' });
+  if (refuse.ok || refuse.meta.errorType !== 'data_quality') throw new Error('expected refusal on degraded candles');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-quality-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testAssess();
+    await testToolsReportQuality();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { isPeriodClosed, loadCandlePeriod, resetCandleStoreIndex, storedPeriods } from '../../lib/candle_store.js';
+import backfillCandles from '../backfill_candles.js';
+
+const cur = new Date().getUTCFullYear();
+
+// 上流の代わり: 直近 3 年分だけデータがある（それより前は上場前の空）
+const requested: string[] = [];
+const realFetch = globalThis.fetch;
+function stubUpstream() {
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = String(input);
+    requested.push(url);
+    const year = Number(url.split('/').at(-1)?.slice(0, 4));
+    const ohlcv = year > cur - 3 ? [['100', '110', '90', '105', '1', Date.UTC(year, 0, 1)]] : [];
+    return new Response(JSON.stringify({ success: 1, data: { candlestick: [{ type: '1day', ohlcv }], timestamp: 0 } }), { status: 200 });
+  }) as typeof fetch;
+}
+
+function storeFile(pair: string, type: string) {
+  return path.join(process.env.BITBANK_CANDLE_STORE_DIR!, pair, `${type}.jsonl`);
+}
+
+function testPeriodClosed() {
+  if (!isPeriodClosed('20240101', Date.UTC(2024, 0, 3)) || isPeriodClosed('20240101', Date.UTC(2024, 0, 2, 12))) throw new Error('daily period should close one day after its end');
+  if (!isPeriodClosed('2023', Date.UTC(2024, 0, 2)) || isPeriodClosed('2024', Date.UTC(2024, 5, 1))) throw new Error('yearly period boundary mismatch');
+  if (isPeriodClosed('latest')) throw new Error('unknown period should not be closed');
+}
+
+async function testBackfillAndResume() {
+  const closedWithData = [cur - 1, cur - 2].filter((y) => isPeriodClosed(String(y))).map(String);
+  const res: any = await backfillCandles(['btc_jpy'], '1day', { years: 8 });
+  if (!res.ok) throw new Error(`backfill failed: ${res.summary}`);
+  const r = res.data.results[0];
+  // 当年・前年・前々年・空 2 年で打ち切り
+  if (r.fetched !== 5 || r.empty !== 2 || r.stored !== closedWithData.length) throw new Error(`backfill counts mismatch: ${JSON.stringify(r)}`);
+  const stored = await storedPeriods('btc_jpy', '1day');
+  if (stored.join() !== [...closedWithData].sort().join()) throw new Error(`stored periods mismatch: ${stored.join()}`);
+  const lines = fs.readFileSync(storeFile('btc_jpy', '1day'), 'utf8').trim().split('\n');
+  if (lines.length !== stored.length) throw new Error('each closed period should be appended once');
+
+  // 再実行（プロセス再起動を想定して索引を破棄）: 保存済みの期間は上流に取りに行かない
+  resetCandleStoreIndex();
+  requested.length = 0;
+  const again: any = await backfillCandles(['btc_jpy'], '1day', { years: 8 });
+  const r2 = again.data.results[0];
+  if (r2.skipped !== stored.length || r2.stored !== 0) throw new Error(`resume counts mismatch: ${JSON.stringify(r2)}`);
+  if (requested.some((u) => stored.some((p) => u.endsWith(`/${p}`)))) throw new Error('stored periods should not be refetched');
+  if (fs.readFileSync(storeFile('btc_jpy', '1day'), 'utf8').trim().split('\n').length !== lines.length) throw new Error('resume should not append duplicates');
+}
+
+async function testDedupeAndCorruptLines() {
+  const period = String(cur - 1);
+  // 同時に取得しても 1 行だけ追記される
+  await Promise.all([loadCandlePeriod('eth_jpy', '1day', period), loadCandlePeriod('eth_jpy', '1day', period)]);
+  const file = storeFile('eth_jpy', '1day');
+  if (fs.readFileSync(file, 'utf8').trim().split('\n').length !== 1) throw new Error('concurrent loads should append once');
+
+  // 重複行・書き込み途中の行があっても期間ごとに 1 件として読める
+  const line = fs.readFileSync(file, 'utf8').trim();
+  fs.appendFileSync(file, `${line}\n{"period":"${cur - 2}","fetchedAt":`);
+  resetCandleStoreIndex();
+  if ((await storedPeriods('eth_jpy', '1day')).join() !== period) throw new Error('duplicate/corrupt lines should be ignored');
+  requested.length = 0;
+  const hit = await loadCandlePeriod('eth_jpy', '1day', period);
+  if (hit.source !== 'store' || !hit.cache.hit || hit.ohlcvs.length !== 1 || requested.length) throw new Error('stored period should be served from the store');
+
+  // 未確定の期間は保存しない
+  await loadCandlePeriod('eth_jpy', '1day', String(cur + 1));
+  if ((await storedPeriods('eth_jpy', '1day')).includes(String(cur + 1))) throw new Error('open period should not be stored');
+}
+
+async function testDisabled() {
+  process.env.BITBANK_CANDLE_STORE = '0';
+  const res: any = await backfillCandles(['btc_jpy'], '1day');
+  delete process.env.BITBANK_CANDLE_STORE;
+  if (res.ok || res.meta.errorType !== 'user') throw new Error('disabled store should be a user error');
+}
+
+async function testInvalidType() {
+  requested.length = 0;
+  for (const type of ['2hour', 'foo']) {
+    const res: any = await backfillCandles(['btc_jpy'], type);
+    if (res.ok || res.meta.errorType !== 'user') throw new Error(`${type} should be a user error`);
+  }
+  if (requested.length || fs.existsSync(path.join(process.env.BITBANK_CANDLE_STORE_DIR!, 'btc_jpy', '2hour.jsonl'))) throw new Error('invalid type should not reach upstream or the store');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-candle-store-'));
+  process.env.BITBANK_CANDLE_STORE_DIR = dir;
+  process.env.BITBANK_CACHE_TTL_CANDLESTICK_MS = '0';
+  delete process.env.BITBANK_HTTP_MODE;
+  stubUpstream();
+  try {
+    testPeriodClosed();
+    await testBackfillAndResume();
+    await testDedupeAndCorruptLines();
+    await testInvalidType();
+    await testDisabled();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    globalThis.fetch = realFetch;
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
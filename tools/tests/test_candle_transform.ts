@@ -0,0 +1,90 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { heikinAshi, renko, pointAndFigure, rangeBars, transformCandles } from '../../lib/candle_transform.js';
+import { latestAtr } from '../analyze_indicators.js';
+import renderChartSvg from '../render_chart_svg.js';
+import detectPatterns from '../detect_patterns.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+const fromCloses = (closes: number[]) => closes.map((c, i) => ({ open: c, high: c, low: c, close: c, volume: 1, isoTime: `2025-01-${String(i + 1).padStart(2, '0')}T00:00:00.000Z` }));
+
+function testTransforms() {
+  const ha = heikinAshi([{ open: 10, high: 12, low: 9, close: 11 }, { open: 11, high: 13, low: 10, close: 12 }]);
+  if (ha[0].close !== 10.5 || ha[0].open !== 10.5 || ha[0].high !== 12 || ha[1].open !== 10.5 || ha[1].close !== 11.5) throw new Error(`heikin-ashi mismatch: ${JSON.stringify(ha)}`);
+
+  // 反転は 2 ブロック分動いてから
+  const bricks = renko(fromCloses([100, 103, 105, 101, 98, 97]), 2);
+  if (bricks.map((b) => b.close).join() !== '102,104,100,98') throw new Error(`renko mismatch: ${bricks.map((b) => b.close)}`);
+  if (bricks[2].isoTime !== '2025-01-05T00:00:00.000Z' || bricks[2].volume !== 2) throw new Error('renko brick should carry the completing bar time and pending volume');
+
+  const cols = pointAndFigure(fromCloses([100, 101, 103, 106, 104, 102, 99, 100, 104]), 1, 3);
+  if (cols.map((c) => `${c.kind}${c.bottom}-${c.top}x${c.boxes}`).join() !== 'X101-106x6,O99-105x7,X100-104x5') throw new Error(`p&f mismatch: ${JSON.stringify(cols)}`);
+
+  const bars = rangeBars([{ open: 100, high: 105, low: 99, close: 104 }], 3);
+  if (bars.length !== 1 || bars[0].open !== 100 || bars[0].low !== 99 || bars[0].close !== 102) throw new Error(`range bars mismatch: ${JSON.stringify(bars)}`);
+
+  const alternating = fromCloses(Array.from({ length: 30 }, (_, i) => 100 + (i % 2) * 4));
+  const atrBased = transformCandles(alternating, 'renko', { atr: latestAtr(alternating) });
+  if (atrBased.meta.sizeSource !== 'atr' || !(atrBased.meta.size! > 3.5 && atrBased.meta.size! <= 4)) throw new Error(`ATR brick size mismatch: ${JSON.stringify(atrBased.meta)}`);
+  let threw = false;
+  const few = fromCloses([1, 2, 3]);
+  try { transformCandles(few, 'range_bars', { atr: latestAtr(few) }); } catch { threw = true; }
+  if (!threw) throw new Error('ATR-based size should fail with too few candles');
+
+  // 低価格ペア: ATR 0.004 が size 0 にならず、ブロックも刻みどおり
+  const subYen = fromCloses(Array.from({ length: 30 }, (_, i) => 3 + (i % 2) * 0.004));
+  const small = transformCandles(subYen, 'renko', { atr: latestAtr(subYen), digits: 5 });
+  if (!(small.meta.size! > 0.0035 && small.meta.size! <= 0.004)) throw new Error(`sub-yen ATR size should keep precision: ${small.meta.size}`);
+  const fine = renko(fromCloses([3, 3.0042, 3.0085]), 0.004, 5);
+  if (fine.map((b) => b.close).join() !== '3.004,3.008') throw new Error(`sub-yen renko should not be quantised: ${fine.map((b) => b.close)}`);
+}
+
+async function testConsumers() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 1000 + 200 * Math.sin(i / 15) + i;
+    return [String(close), String(close + 8), String(close - 8), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  for (const style of ['heikin_ashi', 'renko', 'point_figure', 'range_bars'] as const) {
+    const r: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 60, style, withBB: true });
+    if (!r.ok) throw new Error(`render ${style} failed: ${r.summary}`);
+    if (r.meta.transform?.transform !== style) throw new Error(`${style}: meta.transform missing`);
+    const hasBB = (r.meta.indicators ?? []).includes('BB');
+    if (hasBB !== (style === 'heikin_ashi')) throw new Error(`${style}: BB overlay should only be kept for heikin_ashi`);
+  }
+  const pnf: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 60, style: 'point_figure', brickSize: 20 });
+  if (!pnf.data.svg.includes('<circle') || pnf.meta.transform.sizeSource !== 'fixed') throw new Error('P&F should draw O columns with the fixed box size');
+  const tooBig: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 60, style: 'renko', brickSize: 1e7 });
+  if (tooBig.ok || tooBig.meta.errorType !== 'user') throw new Error('oversized brick should be a user error');
+
+  const ha: any = await detectPatterns('btc_jpy', '1day', 120, { transform: 'heikin_ashi' });
+  if (!ha.ok || ha.meta.transform?.transform !== 'heikin_ashi' || ha.meta.visualization_hints?.preferred_style !== 'heikin_ashi') throw new Error('detect_patterns should run on heikin-ashi candles');
+  const sparse: any = await detectPatterns('btc_jpy', '1day', 120, { transform: 'renko', brickSize: 500 });
+  if (!sparse.ok || sparse.data.patterns.length !== 0 || !sparse.summary.includes('renko')) throw new Error('too few renko bricks should report insufficient data');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-transform-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testTransforms();
+    await testConsumers();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import analyzeIndicators, { atr, keltnerChannels, donchianChannels } from '../analyze_indicators.js';
+import analyzeBbSnapshot, { squeezeState } from '../analyze_bb_snapshot.js';
+import renderChartSvg from '../render_chart_svg.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testFormulas() {
+  const highs = [12, 13, 14, 13, 15];
+  const lows = [8, 9, 10, 9, 11];
+  const closes = [10, 11, 12, 11, 13];
+
+  // TR = 4,4,4,4,4 → ATR は一定
+  const a = atr(highs, lows, closes, 3);
+  if (a[1] !== null || a[2] !== 4 || a[4] !== 4) throw new Error(`atr mismatch: ${a}`);
+
+  const kc = keltnerChannels(highs, lows, closes, 3, 3, 2);
+  if (kc.middle[2] !== 11 || kc.upper[2] !== 19 || kc.lower[2] !== 3) throw new Error(`keltner mismatch: ${kc.upper[2]}/${kc.middle[2]}/${kc.lower[2]}`);
+
+  const dc = donchianChannels(highs, lows, 3);
+  if (dc.upper[1] !== null || dc.upper[4] !== 15 || dc.lower[4] !== 9 || dc.middle[4] !== 12) throw new Error(`donchian mismatch: ${dc.upper[4]}/${dc.middle[4]}/${dc.lower[4]}`);
+}
+
+function testStateMachine() {
+  const kc = { upper: [null, 10, 10, 10, 10, 10], lower: [null, 0, 0, 0, 0, 0] };
+  const inside = { upper: [null, 8, 8, 8, 12, 12], lower: [null, 2, 2, 2, 2, 2] };
+  const mom = [null, 0, 0, 0, 1, -1];
+
+  const fired = squeezeState(inside, kc, mom);
+  if (fired.state !== 'fired' || fired.direction !== 'down' || fired.firedBarsAgo !== 1 || fired.barsInSqueeze !== 3) throw new Error(`fired mismatch: ${JSON.stringify(fired)}`);
+  if (fired.history.join() !== ',on,on,on,off,off') throw new Error(`history mismatch: ${fired.history}`);
+
+  const expired = squeezeState(inside, kc, mom, { fireWindow: 1 });
+  if (expired.state !== 'off' || expired.direction !== null) throw new Error('fired should expire after fireWindow bars');
+
+  const on = squeezeState({ upper: inside.upper.slice(0, 4), lower: inside.lower.slice(0, 4) }, kc, mom);
+  if (on.state !== 'on' || on.barsInSqueeze !== 3 || on.firedBarsAgo !== null) throw new Error(`on mismatch: ${JSON.stringify(on)}`);
+}
+
+async function testTools() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  // 値幅は広いが終値がほぼ動かない（BB が Keltner の内側）→ 最後の 2 本で上放れ
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = i === 299 ? 1200 : i === 298 ? 1100 : 1000 + 2 * Math.sin(i);
+    return [String(close), String(close + 20), String(close - 20), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const ind: any = await analyzeIndicators('btc_jpy', '1day', 60, { specs: ['KC(20,10,1.5)', 'DC(10)', 'ATR'] });
+  if (!ind.ok) throw new Error(`analyze failed: ${ind.summary}`);
+  const d = ind.data.indicators;
+  if (d.KC_upper == null || d.DC_upper !== 1220 || d.ATR_14 == null) throw new Error('channel indicators should be present');
+  if (Object.keys(ind.data.custom ?? {}).join() !== 'KC_20_10_1.5,DC_10,ATR_14') throw new Error(`channel specs: ${Object.keys(ind.data.custom ?? {})}`);
+
+  const snap: any = await analyzeBbSnapshot('btc_jpy', '1day', 120);
+  if (!snap.ok) throw new Error(`bb snapshot failed: ${snap.summary}`);
+  const sq = snap.data.squeeze;
+  if (sq?.state !== 'fired' || sq.direction !== 'up' || sq.firedBarsAgo !== 0 || !(sq.barsInSqueeze > 20)) throw new Error(`squeeze should fire upward: ${JSON.stringify(sq)}`);
+  if (!snap.summary.includes('Squeeze: fired up')) throw new Error('summary should mention the squeeze');
+
+  const ext: any = await analyzeBbSnapshot('btc_jpy', '1day', 120, 'extended');
+  if (ext.data.squeeze?.state !== 'fired') throw new Error('extended mode should include squeeze');
+
+  const chart: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 40, withKeltner: true, withDonchian: true });
+  if (!chart.ok) throw new Error(`render failed: ${chart.summary}`);
+  const keys: string[] = chart.meta.indicators ?? [];
+  if (!keys.includes('Keltner') || !keys.includes('Donchian')) throw new Error(`channel overlays missing: ${keys}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-channels-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testFormulas();
+    testStateMachine();
+    await testTools();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
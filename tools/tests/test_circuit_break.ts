@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import getCircuitBreakInfo from '../get_circuit_break_info.js';
+import { writeFixture } from './helpers.js';
+
+const cbInfo = (extra: Record<string, unknown>) => ({
+  success: 1,
+  data: {
+    mode: 'NONE',
+    estimated_itayose_price: null,
+    estimated_itayose_amount: null,
+    itayose_upper_price: null,
+    itayose_lower_price: null,
+    upper_trigger_price: '11000000',
+    lower_trigger_price: '9000000',
+    fee_type: 'NORMAL',
+    reopen_timestamp: null,
+    timestamp: 1700000000000,
+    ...extra,
+  },
+});
+
+async function testNormalNearTrigger() {
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/circuit_break_info`, cbInfo({}));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/ticker`, {
+    success: 1,
+    data: { sell: '9100001', buy: '9099999', open: '9500000', high: '9600000', low: '9050000', last: '9100000', vol: '10', timestamp: 1700000000000 },
+  });
+  const res: any = await getCircuitBreakInfo('btc_jpy');
+  const d = res.data?.info?.distance;
+  if (!res.ok || res.data.info.mode !== 'normal' || d?.priceSource !== 'last') throw new Error(`unexpected result: ${JSON.stringify(res)}`);
+  if (d.nearest !== 'lower' || Math.abs(d.lowerPct - 1.099) > 0.001 || !d.warning) throw new Error(`lower trigger should be nearest and warned: ${JSON.stringify(d)}`);
+  if (!res.summary.includes('⚠') || res.meta.source !== 'official') throw new Error(`summary should warn: ${res.summary}`);
+
+  const relaxed: any = await getCircuitBreakInfo('btc_jpy', { warnPct: 1 });
+  if (relaxed.data.info.distance.warning) throw new Error('warnPct should control the warning threshold');
+}
+
+async function testAuction() {
+  writeFixture(`${BITBANK_API_BASE}/eth_jpy/circuit_break_info`, cbInfo({
+    mode: 'CIRCUIT_BREAK',
+    estimated_itayose_price: '500000',
+    estimated_itayose_amount: '12.5',
+    upper_trigger_price: '510000',
+    lower_trigger_price: '480000',
+    fee_type: 'SELL_MAKER',
+    reopen_timestamp: 1700000900000,
+  }));
+  // ticker が取れなくても板寄せ中は推定約定価格で距離を出す
+  const res: any = await getCircuitBreakInfo('eth_jpy');
+  const info = res.data?.info;
+  if (!res.ok || info.mode !== 'auction' || info.distance?.priceSource !== 'estimated_itayose' || info.distance.nearest !== 'upper') {
+    throw new Error(`unexpected auction result: ${JSON.stringify(res)}`);
+  }
+  if (info.reopen_isoTime !== new Date(1700000900000).toISOString() || !res.summary.includes('再開予定')) throw new Error(`reopen time missing: ${res.summary}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-cb-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  try {
+    await testNormalNearTrigger();
+    await testAuction();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
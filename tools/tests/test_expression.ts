@@ -0,0 +1,120 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { compileExpression } from '../../lib/expression.js';
+import evaluateExpression, { evaluateCompiled } from '../evaluate_expression.js';
+import { sma, ema, macd, bollingerBands } from '../analyze_indicators.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function compile(src: string) {
+  const r = compileExpression(src);
+  if (!r.ok) throw new Error(`compile failed for "${src}": ${r.error.message}`);
+  return r.value;
+}
+
+function testParser() {
+  const e = compile('close/sma(close,200)-1');
+  if (e.source !== 'close / SMA(close, 200) - 1' || e.type !== 'number' || e.warmup !== 199) throw new Error(`normalize mismatch: ${JSON.stringify(e)}`);
+  // 系列引数の省略（close）と優先順位
+  const c = compile('EMA(20) crosses above EMA(50) and not RSI(14) > 70 || 1 + 2 * 3 == 7');
+  if (c.source !== 'EMA(close, 20) crosses above EMA(close, 50) and not RSI(close, 14) > 70 or 1 + 2 * 3 == 7' || c.type !== 'boolean') throw new Error(`precedence mismatch: ${c.source}`);
+  if (compile('(1 + 2) * -close').source !== '(1 + 2) * -close') throw new Error('parentheses should be preserved where needed');
+  if (compile('MACD(12, 26, 9).signal').warmup !== 33 || compile('BB(close, 20, 2)').source !== 'BB(close, 20, 2).middle') throw new Error('field defaults / warmup mismatch');
+
+  const bad: Array<[string, RegExp]> = [
+    ['', /空/],
+    ['close +', /途中/],
+    ['SMA(close)', /period/],
+    ['SMA(close, 0)', /1〜500/],
+    ['MACD(26, 12)', /fast < slow/],
+    ['BB(20).width', /upper/],
+    ['close > 1 + (2 > 1)', /数値/],
+    ['close and 1', /条件/],
+    ['foo(1)', /未対応/],
+    ['process.exit(1)', /未対応/],
+    ['close; 1', /解釈できません/],
+    ['EMA(20) crosses EMA(50)', /above \/ below/],
+    [`${'('.repeat(40)}1${')'.repeat(40)}`, /入れ子/],
+  ];
+  for (const [src, re] of bad) {
+    const r = compileExpression(src);
+    if (r.ok || r.error.type !== 'user' || !re.test(r.error.message)) throw new Error(`expected error ${re} for "${src}": ${JSON.stringify(r)}`);
+  }
+}
+
+function testEvaluator() {
+  const closes = Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin(i / 6) + i * 0.1);
+  const candles = closes.map((c) => ({ open: c, high: c + 1, low: c - 1, close: c, volume: 1 }));
+
+  // 組み込みのバッチ版（丸めなし）と同じ値になる
+  const same = (a: unknown, b: unknown, label: string) => {
+    if (JSON.stringify(a) !== JSON.stringify(b)) throw new Error(`${label} mismatch`);
+  };
+  same(evaluateCompiled(compile('SMA(close, 20)'), candles).values, sma(closes, 20, null), 'SMA');
+  same(evaluateCompiled(compile('MACD(close, 12, 26, 9).hist'), candles).values, macd(closes, 12, 26, 9, null).hist, 'MACD');
+  same(evaluateCompiled(compile('BB(20, 2).upper'), candles).values, bollingerBands(closes, 20, 2, null).upper, 'BB');
+
+  const e10 = ema(closes, 10, null);
+  const e30 = ema(closes, 30, null);
+  const cross = evaluateCompiled(compile('EMA(10) crosses above EMA(30)'), candles);
+  if (cross.type !== 'boolean') throw new Error('cross should be boolean');
+  cross.values.forEach((v, i) => {
+    const expected = i === 0 || e10[i] == null || e30[i] == null || e10[i - 1] == null || e30[i - 1] == null ? null : (e10[i - 1] as number) <= (e30[i - 1] as number) && (e10[i] as number) > (e30[i] as number);
+    if (v !== expected) throw new Error(`cross[${i}] mismatch: ${v} !== ${expected}`);
+  });
+  if (!cross.values.some((v) => v === true)) throw new Error('sine series should produce at least one cross');
+
+  // 入れ子の指標（先頭の null 区間を除いて計算）とゼロ除算
+  const nested = evaluateCompiled(compile('SMA(RSI(14), 5)'), candles).values;
+  if (nested[17] != null || nested[18] == null) throw new Error(`nested warmup mismatch: ${nested.slice(17, 22)}`);
+  if (evaluateCompiled(compile('close / (close - close)'), candles).values.some((v) => v != null)) throw new Error('division by zero should yield null');
+  // 3 値論理: 片方が false なら未確定でも false
+  const logic = evaluateCompiled(compile('SMA(close, 50) > 0 and close < 0'), candles).values;
+  if (logic[0] !== false) throw new Error('and with a false side should be false during warmup');
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 1000 + 100 * Math.sin(i / 10);
+    return [String(close), String(close + 5), String(close - 5), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const num: any = await evaluateExpression('btc_jpy', '1day', 'close / SMA(close, 200) - 1', 30);
+  if (!num.ok) throw new Error(`numeric expression failed: ${num.summary}`);
+  if (num.data.series.length !== 30 || num.data.series.some((p: any) => p.value == null) || num.data.condition !== null) throw new Error('warmup bars should be fetched so every returned bar has a value');
+  if (num.meta.warmup !== 199 || num.data.latest !== num.data.series.at(-1).value) throw new Error('meta.warmup / latest mismatch');
+
+  const cond: any = await evaluateExpression('btc_jpy', '1day', 'EMA(5) crosses above EMA(20)', 200);
+  if (!cond.ok || cond.data.resultType !== 'boolean' || cond.data.series.length !== 0) throw new Error(`condition expression failed: ${cond.summary}`);
+  const c = cond.data.condition;
+  if (c.history.length !== 200 || c.trueCount < 2 || c.triggers.length !== c.trueCount || !c.lastTrueAt) throw new Error(`condition history mismatch: ${JSON.stringify({ ...c, history: undefined })}`);
+
+  const bad: any = await evaluateExpression('btc_jpy', '1day', 'SMA(close', 30);
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('syntax errors should be user errors');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-expression-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testParser();
+    testEvaluator();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
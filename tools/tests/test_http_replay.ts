@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { fetchJson, fixturePathFor, BITBANK_API_BASE } from '../../lib/http.js';
+import getTicker from '../get_ticker.js';
+import { writeFixture } from './helpers.js';
+
+async function testReplayServesFixture() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/ticker`, {
+    success: 1,
+    data: { sell: '10000001', buy: '9999999', open: '9900000', high: '10100000', low: '9800000', last: '10000000', vol: '123.4', timestamp: 1700000000000 },
+  });
+  const res = await getTicker('btc_jpy');
+  if (!res.ok) throw new Error(`replay ticker failed: ${res.summary}`);
+  if (res.data.normalized.last !== 10000000) throw new Error('unexpected last from fixture');
+}
+
+async function testReplayMiss() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const res = await getTicker('eth_jpy');
+  if (res.ok) throw new Error('expected fail on missing fixture');
+  if (!res.summary.includes('REPLAY_MISS')) throw new Error(`unexpected summary: ${res.summary}`);
+}
+
+async function testRecordThenReplay() {
+  const srv = http.createServer((_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: 1, data: { n: 42 } }));
+  });
+  await new Promise<void>((r) => srv.listen(0, '127.0.0.1', r));
+  const { port } = srv.address() as { port: number };
+  const url = `http://127.0.0.1:${port}/record/test?x=1`;
+  try {
+    process.env.BITBANK_HTTP_MODE = 'record';
+    await fetchJson(url, { ttlMs: 0 });
+  } finally {
+    srv.close();
+  }
+  if (!fs.existsSync(fixturePathFor(url))) throw new Error('fixture was not recorded');
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const json = await fetchJson<{ data: { n: number } }>(url, { ttlMs: 0 });
+  if (json.data.n !== 42) throw new Error('replayed body mismatch');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-http-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    await testReplayServesFixture();
+    await testReplayMiss();
+    await testRecordThenReplay();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exit(1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,123 @@
+import { sma, ema, rsi, bollingerBands, ichimokuSeries } from '../analyze_indicators.js';
+import {
+  IncrementalSma,
+  IncrementalEma,
+  IncrementalRsi,
+  IncrementalBollinger,
+  IncrementalIchimoku,
+  type IncrementalCandle,
+} from '../../lib/incremental_indicators.js';
+
+// 再現性のある乱数（mulberry32）
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomWalk(n: number, start: number, seed: number): IncrementalCandle[] {
+  const rand = rng(seed);
+  const out: IncrementalCandle[] = [];
+  let close = start;
+  for (let i = 0; i < n; i++) {
+    close = Math.max(1, close * (1 + (rand() - 0.5) * 0.04));
+    // 同値が続く区間（RSI の損失ゼロなど）も混ぜる
+    if (i % 37 === 5) close = out[i - 1]?.close ?? close;
+    const spread = close * rand() * 0.02;
+    out.push({ high: close + spread, low: close - spread * rand(), close });
+  }
+  return out;
+}
+
+type Calc<O> = { update(c: IncrementalCandle): O; replaceLast(c: IncrementalCandle): O };
+
+function assertSeries<O>(label: string, candles: IncrementalCandle[], make: () => Calc<O>, expected: (i: number) => O) {
+  // 1) 確定足を順に流す
+  const a = make();
+  candles.forEach((c, i) => {
+    const got = a.update(c);
+    if (JSON.stringify(got) !== JSON.stringify(expected(i))) {
+      throw new Error(`${label}[${i}] update mismatch: ${JSON.stringify(got)} !== ${JSON.stringify(expected(i))}`);
+    }
+  });
+  // 2) 形成中の足: 仮の値で追加 → 何度か差し替え → 確定値で差し替え
+  const b = make();
+  const rand = rng(7);
+  candles.forEach((c, i) => {
+    b.update({ high: c.close, low: c.close, close: c.close * (1 + (rand() - 0.5) * 0.1) });
+    for (let k = 0; k < 3; k++) {
+      const px = c.close * (1 + (rand() - 0.5) * 0.05);
+      b.replaceLast({ high: Math.max(px, c.high ?? px), low: Math.min(px, c.low ?? px), close: px });
+    }
+    const got = b.replaceLast(c);
+    if (JSON.stringify(got) !== JSON.stringify(expected(i))) {
+      throw new Error(`${label}[${i}] replaceLast mismatch: ${JSON.stringify(got)} !== ${JSON.stringify(expected(i))}`);
+    }
+  });
+}
+
+function testEquivalence(candles: IncrementalCandle[]) {
+  const closes = candles.map((c) => c.close);
+  const highs = candles.map((c) => c.high as number);
+  const lows = candles.map((c) => c.low as number);
+
+  for (const p of [5, 25, 75]) {
+    const s = sma(closes, p);
+    assertSeries(`SMA_${p}`, candles, () => new IncrementalSma(p), (i) => s[i]);
+  }
+  for (const p of [1, 12, 26]) {
+    const e = ema(closes, p);
+    assertSeries(`EMA_${p}`, candles, () => new IncrementalEma(p), (i) => e[i]);
+  }
+  const r = rsi(closes, 14);
+  assertSeries('RSI_14', candles, () => new IncrementalRsi(14), (i) => r[i]);
+  const bb = bollingerBands(closes, 20, 2);
+  assertSeries('BB_20', candles, () => new IncrementalBollinger(20, 2), (i) => ({ upper: bb.upper[i], middle: bb.middle[i], lower: bb.lower[i] }));
+  const ichi = ichimokuSeries(highs, lows, closes);
+  assertSeries('Ichimoku', candles, () => new IncrementalIchimoku(), (i) => ({
+    tenkan: ichi.tenkan[i],
+    kijun: ichi.kijun[i],
+    spanA: ichi.spanA[i],
+    spanB: ichi.spanB[i],
+    chikou: ichi.chikou[i],
+  }));
+}
+
+// 差分更新に変えた bollingerBands が従来の 2 パス計算（窓ごとに平均→分散）と丸め誤差の範囲で一致すること
+function testBollingerAgainstTwoPass(closes: number[], period = 20) {
+  const bb = bollingerBands(closes, period, 2);
+  for (let i = period - 1; i < closes.length; i++) {
+    const slice = closes.slice(i - period + 1, i + 1);
+    const mean = slice.reduce((a, b) => a + b, 0) / period;
+    const std = Math.sqrt(slice.reduce((s, v) => s + (v - mean) ** 2, 0) / period);
+    const diff = Math.max(Math.abs((bb.upper[i] as number) - (mean + 2 * std)), Math.abs((bb.middle[i] as number) - mean), Math.abs((bb.lower[i] as number) - (mean - 2 * std)));
+    if (!(diff <= 0.0051)) throw new Error(`bollingerBands[${i}] drifted from two-pass reference by ${diff}`);
+  }
+}
+
+function main() {
+  try {
+    // 円建ての高価格帯（BTC 相当）と低価格帯の両方
+    const high = randomWalk(400, 15_000_000, 42);
+    const low = randomWalk(400, 35, 1234);
+    testEquivalence(high);
+    testEquivalence(low);
+    testBollingerAgainstTwoPass(high.map((c) => c.close));
+    testBollingerAgainstTwoPass(low.map((c) => c.close));
+
+    if (new IncrementalSma(3).value !== null) throw new Error('fresh calculator should have no value');
+    const calc = new IncrementalSma(3);
+    [1, 2, 3, 4].forEach((v) => calc.update({ close: v }));
+    calc.replaceLast({ close: 7 });
+    if (calc.value !== 4 || calc.count !== 4) throw new Error(`replaceLast should not advance count: value=${calc.value} count=${calc.count}`);
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import analyzeIndicators, { sma, ema, rsi, macd, bollingerBands, indicatorDigits } from '../analyze_indicators.js';
+import { compileExpression } from '../../lib/expression.js';
+import { GetIndicatorsOutputSchema } from '../../src/schemas.js';
+import type { NumericSeries } from '../../src/types/domain.d.ts';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+// 公開されている計算例（StockCharts ChartSchool の RSI / 移動平均の表）
+const RSI_CLOSES = [
+  44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826, 45.8931, 46.0328, 45.614, 46.282, 46.282, 46.0028, 46.0328,
+  46.4116, 46.2222, 45.6439, 46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672, 43.4205, 42.6628, 43.1314,
+];
+const RSI_14_EXPECTED = [70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.3, 33.08, 37.77];
+
+const MA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65,
+  23.19, 23.1, 23.33, 22.68, 23.1, 22.4, 22.17,
+];
+const SMA_10_EXPECTED = [22.22, 22.21, 22.23, 22.26, 22.3, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21, 23.38, 23.52, 23.65, 23.71, 23.68, 23.61, 23.5, 23.43, 23.28, 23.13];
+// 表は前日の EMA を 2 桁に丸めてから次を計算しているため ±0.01 の差を許容
+const EMA_10_EXPECTED = [22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.8, 22.97, 23.13, 23.28, 23.34, 23.43, 23.51, 23.54, 23.47, 23.4, 23.39, 23.26, 23.23, 23.08, 22.92];
+
+function expectSeries(label: string, actual: NumericSeries, expected: number[], firstIndex: number, tolerance = 0) {
+  if (actual.slice(0, firstIndex).some((v) => v != null)) throw new Error(`${label}: values before index ${firstIndex} should be null`);
+  expected.forEach((e, k) => {
+    const v = actual[firstIndex + k];
+    if (v == null || Math.abs(v - e) > tolerance + 1e-9) throw new Error(`${label}[${firstIndex + k}] = ${v}, expected ${e}`);
+  });
+}
+
+function testReferenceValues() {
+  expectSeries('RSI_14', rsi(RSI_CLOSES, 14), RSI_14_EXPECTED, 14);
+  expectSeries('SMA_10', sma(MA_CLOSES, 10), SMA_10_EXPECTED, 9);
+  expectSeries('EMA_10', ema(MA_CLOSES, 10), EMA_10_EXPECTED, 9, 0.01);
+  testMacd();
+
+  // 母標準偏差の教科書例（平均 5、σ = 2）
+  const bb = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+  if (bb.middle[7] !== 5 || bb.upper[7] !== 9 || bb.lower[7] !== 1) throw new Error(`BB reference mismatch: ${bb.upper[7]}/${bb.middle[7]}/${bb.lower[7]}`);
+}
+
+// SMA を初期値にした EMA（null を含まない配列用）
+function plainEma(values: number[], period: number): number[] {
+  const k = 2 / (period + 1);
+  const out: number[] = [values.slice(0, period).reduce((a, b) => a + b, 0) / period];
+  for (let i = period; i < values.length; i++) out.push(values[i] * k + out[out.length - 1] * (1 - k));
+  return out;
+}
+
+function testMacd() {
+  // 直線的な上昇: EMA(2) は 0.5、EMA(3) は 1 遅れるのでライン = 0.5、シグナル = 0.5、ヒストグラム = 0
+  const linear = macd([1, 2, 3, 4, 5, 6, 7, 8], 2, 3, 2, null);
+  if (linear.line.join() !== ',,0.5,0.5,0.5,0.5,0.5,0.5' || linear.signal.join() !== ',,,0.5,0.5,0.5,0.5,0.5' || linear.hist.join() !== ',,,0,0,0,0,0') {
+    throw new Error(`MACD linear case mismatch: ${linear.line} / ${linear.signal} / ${linear.hist}`);
+  }
+
+  // (12, 26, 9): シグナルはライン（25 本目から）だけの EMA で、33 本目から
+  const closes = [...MA_CLOSES, ...RSI_CLOSES.map((c) => c / 2)];
+  const m = macd(closes, 12, 26, 9, null);
+  const fast = plainEma(closes, 12);
+  const slow = plainEma(closes, 26);
+  const line = slow.map((v, k) => fast[k + 14] - v);
+  const signal = plainEma(line, 9);
+  expectSeries('MACD_line', m.line, line, 25, 1e-9);
+  expectSeries('MACD_signal', m.signal, signal, 33, 1e-9);
+  expectSeries('MACD_hist', m.hist, signal.map((v, k) => line[k + 8] - v), 33, 1e-9);
+  // 式 DSL のウォームアップと一致する
+  const compiled = compileExpression('MACD(12, 26, 9).signal');
+  if (!compiled.ok || compiled.value.warmup !== 33) throw new Error('expression warmup should match the first MACD signal');
+}
+
+function testRsiEdgeCases() {
+  // 下落ゼロは 100（以前は losses || 1 のガードで 1 円未満の値動きだと低く出ていた）
+  const rising = Array.from({ length: 30 }, (_, i) => 20 + i * 0.01);
+  if (rsi(rising, 14).slice(14).some((v) => v !== 100)) throw new Error('RSI with no losses should be 100');
+  const flat = new Array(30).fill(20);
+  if (rsi(flat, 14).slice(14).some((v) => v !== 50)) throw new Error('RSI with no movement should be 50');
+  const falling = rising.slice().reverse();
+  if (rsi(falling, 14).slice(14).some((v) => v !== 0)) throw new Error('RSI with no gains should be 0');
+
+  // 価格の桁に依存しない（同じ値動きを 1/1000 に縮めても同じ RSI）
+  const scaled = RSI_CLOSES.map((c) => c / 1000);
+  if (JSON.stringify(rsi(scaled, 14)) !== JSON.stringify(rsi(RSI_CLOSES, 14))) throw new Error('RSI should be scale invariant');
+  // 平滑化は 2 本目以降も初回の平均を引き継ぐ（period+1 本目でリセットしない）
+  const raw = rsi(RSI_CLOSES, 14, null);
+  if (!(Math.abs((raw[15] as number) - 66.32) < 0.01)) throw new Error(`RSI smoothing should carry the seed average: ${raw[15]}`);
+}
+
+function testDigits() {
+  const tiny = MA_CLOSES.map((c) => c / 10_000);
+  if (sma(tiny, 10).at(-1) !== 0) throw new Error('default digits should still be 2 for direct callers');
+  if (sma(tiny, 10, 6).at(-1) !== 0.002313) throw new Error(`sma digits=6 mismatch: ${sma(tiny, 10, 6).at(-1)}`);
+  const raw = sma(tiny, 10, null).at(-1) as number;
+  if (Math.abs(raw - 0.0023131) > 1e-12) throw new Error(`raw sma mismatch: ${raw}`);
+  if (indicatorDigits('btc_jpy', 15_000_000) !== 2 || indicatorDigits('flr_jpy', 0.5123) !== 7) throw new Error('indicatorDigits mismatch');
+}
+
+async function testAnalyzePrecision() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  // 1 円未満のペア（静的リストでは刻み不明 → 価格の大きさから桁数を決める）
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 0.5 + 0.01 * Math.sin(i / 7) + i * 0.0001;
+    return [String(close), String(close + 0.002), String(close - 0.002), String(close), '1000', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/flr_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const auto: any = await analyzeIndicators('flr_jpy', '1day', 60);
+  if (!auto.ok) throw new Error(`analyze failed: ${auto.summary}`);
+  if (auto.meta.digits?.price !== 7 || auto.meta.digits?.oscillator !== 2) throw new Error(`meta.digits mismatch: ${JSON.stringify(auto.meta.digits)}`);
+  const closes = rows.map((r) => Number(r[3]));
+  if (auto.data.indicators.SMA_25 !== sma(closes, 25, 7).at(-1) || !/\.\d{3,}/.test(String(auto.data.indicators.BB_upper))) throw new Error('price indicators should keep sub-yen precision');
+  if (auto.data.indicators.MACD_line === 0) throw new Error('MACD should not collapse to 0 for sub-yen prices');
+
+  // RSI は初期値に依存するので、ツールが実際に使った本数で比較する
+  const raw: any = await analyzeIndicators('flr_jpy', '1day', 60, { precision: 'raw' });
+  if (raw.meta.digits.price !== null || raw.data.indicators.RSI_14 !== rsi(closes.slice(-raw.meta.count), 14, null).at(-1)) throw new Error('raw precision should skip rounding');
+  // 出力スキーマを通しても系列（指標・チャート）は丸められない
+  const parsed: any = GetIndicatorsOutputSchema.parse(raw);
+  const smaTail = sma(closes.slice(-raw.meta.count), 25, null).slice(-3);
+  const seriesTail = parsed.data.indicators.sma_25_series.slice(-3);
+  const chartTail = parsed.data.chart.indicators.SMA_25.slice(-3);
+  if (seriesTail.some((v: number, k: number) => Math.abs(v - (smaTail[k] as number)) > 1e-12) || chartTail.join() !== seriesTail.join()) {
+    throw new Error(`raw series should survive schema parsing: ${seriesTail.join()} / ${chartTail.join()}`);
+  }
+  if (seriesTail.every((v: number) => v === Number(v.toFixed(2)))) throw new Error('sub-yen series should not be rounded to 2 decimals');
+
+  const fixed: any = await analyzeIndicators('flr_jpy', '1day', 60, { precision: 3, specs: ['SMA(10)'] });
+  if (fixed.data.indicators.SMA_25 !== sma(closes, 25, 3).at(-1) || fixed.data.custom.SMA_10.latest.value !== sma(closes, 10, 3).at(-1)) throw new Error('fixed precision should apply to built-in and custom indicators');
+
+  const bad: any = await analyzeIndicators('flr_jpy', '1day', 60, { precision: 1.5 });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('invalid precision should be a user error');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-indicator-ref-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testReferenceValues();
+    testRsiEdgeCases();
+    testDigits();
+    await testAnalyzePrecision();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
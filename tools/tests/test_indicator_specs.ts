@@ -0,0 +1,77 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { parseIndicatorSpec, specKey, getFetchCount } from '../../lib/indicator_buffer.js';
+import analyzeIndicators, { rsi } from '../analyze_indicators.js';
+import { GetIndicatorsOutputSchema } from '../../src/schemas.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testParse() {
+  const key = (s: Parameters<typeof parseIndicatorSpec>[0]) => {
+    const r = parseIndicatorSpec(s);
+    return r.ok ? specKey(r.value) : `error:${r.error.message}`;
+  };
+  if (key('RSI(9)') !== 'RSI_9' || key('bb(20, 2.5)') !== 'BB_20_2.5' || key('macd') !== 'MACD_12_26_9') throw new Error('string specs should normalize');
+  if (key({ name: 'ichimoku', params: [7, 22] }) !== 'ICHIMOKU_7_22_52') throw new Error('missing params should use defaults');
+  for (const bad of ['RSI(0)', 'BB(20,9)', 'MACD(26,12)', 'FOO(3)', 'RSI(9', 'SMA(1,2)']) {
+    if (!key(bad).startsWith('error:')) throw new Error(`should reject ${bad}`);
+  }
+
+  const r = parseIndicatorSpec('SMA(300)');
+  if (!r.ok || getFetchCount(30, ['RSI_14', r.value]) !== 329) throw new Error('fetch count should cover the longest warm-up');
+}
+
+async function testAnalyzeWithSpecs() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  // analyze_indicators は最新（当年）を取りに行くため、直近で終わる系列を当年分として置く
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 400 }, (_, i) => {
+    const close = 1000 + 50 * Math.sin(i / 7) + i;
+    return [String(close), String(close + 5), String(close - 5), String(close), '1', end - (399 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const res: any = await analyzeIndicators('btc_jpy', '1day', 30, { specs: ['RSI(9)', 'BB(20,2.5)', { name: 'MACD', params: [8, 21, 5] }, 'SMA(300)', 'rsi(9)'] });
+  if (!res.ok) throw new Error(`analyze failed: ${res.summary}`);
+  const custom = res.data.custom ?? {};
+  if (Object.keys(custom).join() !== 'RSI_9,BB_20_2.5,MACD_8_21_5,SMA_300') throw new Error(`unexpected custom keys: ${Object.keys(custom)}`);
+  if (res.meta.requiredCount !== 329 || res.meta.count < 329) throw new Error(`warm-up should size the fetch: ${res.meta.requiredCount}/${res.meta.count}`);
+
+  const closes = res.data.normalized.map((c: any) => c.close);
+  if (custom.RSI_9.latest.value !== rsi(closes, 9).at(-1)) throw new Error('RSI(9) latest mismatch');
+  const bb = custom['BB_20_2.5'].latest;
+  if (!(bb.upper > bb.middle && bb.middle > bb.lower) || custom['BB_20_2.5'].series.upper.length !== closes.length) throw new Error('BB series should align with candles');
+  if (custom.SMA_300.latest.value == null || custom.MACD_8_21_5.latest.hist == null) throw new Error('warmed-up specs should have latest values');
+
+  // 出力スキーマを通しても任意指標の系列は小数 2 桁に丸められない
+  const raw: any = await analyzeIndicators('btc_jpy', '1day', 30, { specs: ['MACD(8,21,5)'], precision: 'raw' });
+  const hist = raw.data.custom.MACD_8_21_5.series.hist.slice(-5);
+  const parsed: any = GetIndicatorsOutputSchema.parse(raw);
+  const parsedHist: number[] = parsed.data.custom.MACD_8_21_5.series.hist.slice(-5);
+  if (parsedHist.join() !== hist.join() || parsedHist.every((v) => v === Number(v.toFixed(2)))) throw new Error(`custom series should keep fractional values: ${parsedHist.join()}`);
+
+  const bad: any = await analyzeIndicators('btc_jpy', '1day', 30, { specs: ['RSI(0)'] });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('invalid spec should be a user error');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-specs-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testParse();
+    await testAnalyzeWithSpecs();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import analyzeMarketRegime, { classifyMarketRegime, regimeFit } from '../analyze_market_regime.js';
+import analyzeMarketSignal from '../analyze_market_signal.js';
+import analyzeCandlePatterns from '../analyze_candle_patterns.js';
+import detectPatterns from '../detect_patterns.js';
+import { writeFixture, candleRows } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+// 0〜199: 小さな往復（レンジ）、200〜329: 一定ペースの上昇、330〜: 大きく振れながら急落
+function closes(count: number, base: number) {
+  const out: number[] = [];
+  let p = base;
+  for (let i = 0; i < count; i++) {
+    if (i < 200) p = base * (1 + 0.02 * Math.sin(i / 2));
+    else if (i < 330) p *= 1.01 + 0.002 * Math.sin(i);
+    else p *= i % 2 ? 0.9 : 1.02;
+    out.push(p);
+  }
+  return out;
+}
+
+function synthCandles(count: number) {
+  const cs = closes(count, 100);
+  return cs.map((c, i) => {
+    const prev = cs[i - 1] ?? c;
+    return { high: Math.max(c, prev) * 1.005, low: Math.min(c, prev) * 0.995, close: c, isoTime: new Date(Date.UTC(2024, 0, 1) + i * DAY).toISOString() };
+  });
+}
+
+function testClassify() {
+  const candles = synthCandles(360);
+  const { bars, transitions, current } = classifyMarketRegime(candles);
+  if (bars.length !== 360 || bars[10].regime !== null) throw new Error('warmup bars should be unlabeled');
+  if (bars[150].regime !== 'range' || bars[320].regime !== 'trend_up') throw new Error(`range/trend labels mismatch: ${bars[150].regime} ${bars[320].regime}`);
+  if (current?.regime !== 'crash' || current.volatility !== 'high' || !(current.drawdown! >= 0.2)) throw new Error(`crash expected: ${JSON.stringify(current)}`);
+  const crash = transitions.find((t) => t.to === 'crash');
+  if (!crash || crash.index < 330 || current.since !== crash.time || current.barsInRegime !== 360 - crash.index) throw new Error('crash transition mismatch');
+
+  // confirmBars を長くすると短い高ボラ区間は採用されない（crash は即時）
+  const slow = classifyMarketRegime(candles, { confirmBars: 20 });
+  const before = slow.transitions.filter((t) => t.index < 330).map((t) => t.to).join();
+  if (before !== 'range,trend_up' || slow.current?.regime !== 'crash') throw new Error(`smoothing mismatch: ${before}`);
+  // 各足の局面は transitions の区切りと一致する（確定待ちの足も切り替わり後に付け替え）
+  slow.transitions.forEach((t, k) => {
+    const end = slow.transitions[k + 1]?.index ?? slow.bars.length;
+    if (slow.bars.slice(t.index, end).some((b) => b.regime !== t.to)) throw new Error(`bars should follow the transition to ${t.to} from ${t.index}`);
+  });
+
+  const fits = [
+    regimeFit('trend_up', 'bullish', 'signal').fit,
+    regimeFit('trend_up', 'bearish', 'signal').fit,
+    regimeFit('trend_down', 'bullish', 'reversal').fit,
+    regimeFit('range', 'bullish', 'continuation').fit,
+    regimeFit('high_vol', 'bearish', 'reversal').fit,
+    regimeFit('crash', 'bullish', 'signal').fit,
+  ].join();
+  if (fits !== 'favorable,unfavorable,favorable,unfavorable,unfavorable,unfavorable') throw new Error(`regimeFit mismatch: ${fits}`);
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const cs = closes(360, 10_000_000);
+  const rows = cs.map((c, i) => {
+    const prev = cs[i - 1] ?? c;
+    return [String(prev), String(Math.max(c, prev) * 1.005), String(Math.min(c, prev) * 0.995), String(c), '5', end - (cs.length - 1 - i) * DAY];
+  });
+  const year = new Date().getFullYear();
+  for (let y = year - 3; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = rows.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const t0 = Date.now() - HOUR;
+  const transactions = Array.from({ length: 200 }, (_, i) => ({ transaction_id: i + 1, side: i % 3 ? 'sell' : 'buy', price: '5000000', amount: '0.01', executed_at: t0 + i * 15_000 }));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/transactions`, { success: 1, data: { transactions } });
+
+  const res: any = await analyzeMarketRegime('btc_jpy', '1day', 200, { includeBars: true });
+  if (!res.ok) throw new Error(`regime tool failed: ${res.summary}`);
+  const d = res.data;
+  if (d.current.regime !== 'crash' || d.bars.length !== 200 || res.meta.count !== 200) throw new Error(`tool output mismatch: ${d.current.regime} ${d.bars?.length}`);
+  const total = Object.values(d.distribution as Record<string, number>).reduce((s, v) => s + v, 0);
+  if (Math.abs(total - 1) > 0.01 || !(d.distribution.trend_up > 0) || d.transitions.at(-1)?.to !== 'crash') throw new Error(`distribution/transitions mismatch: ${JSON.stringify(d.distribution)}`);
+  if (!res.summary.includes('現在の局面: 急落')) throw new Error('summary should state the current regime');
+
+  const bad: any = await analyzeMarketRegime('btc_jpy', '1day', 200, { adxTrend: 15, adxRange: 30 });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('adxRange > adxTrend should be a user error');
+
+  // シグナル側も同じ局面で解釈する
+  const sig: any = await analyzeMarketSignal('btc_jpy');
+  if (!sig.ok || sig.data.regime?.regime !== 'crash' || !sig.summary.includes('局面: 急落')) throw new Error(`signal should carry the regime: ${JSON.stringify(sig.data?.regime)}`);
+
+  // ローソク足パターン: 直前トレンドは直前 3 本の終値、局面は regimeContext に分けて添える
+  const cp: any = await analyzeCandlePatterns({ window_days: 10 });
+  const win = cs.slice(-10);
+  const localTrend = (k: number) => {
+    if (k < 3) return 'neutral';
+    const moves = [k - 2, k - 1, k].map((j) => Math.sign(win[j] - win[j - 1]));
+    return moves.filter((m) => m > 0).length >= 2 ? 'up' : moves.filter((m) => m < 0).length >= 2 ? 'down' : 'neutral';
+  };
+  const recent = cp.data?.recent_patterns ?? [];
+  if (!cp.ok || !recent.length) throw new Error(`candle patterns missing: ${cp.summary}`);
+  for (const p of recent) {
+    if (p.local_context.trend_before !== localTrend(p.candle_range_index[0])) throw new Error(`trend_before should follow the prior closes: ${JSON.stringify(p)}`);
+    if ('regime' in p.local_context || p.regimeContext?.regime !== 'crash') throw new Error(`regime should live in regimeContext: ${JSON.stringify(p)}`);
+  }
+
+  // チャートパターン: 噛み合いは最新足ではなく各パターンの終点の局面で判定する
+  // 前半は往復（トリプルトップ / ボトムが出る）、後半は一定ペースの上昇
+  const waveCloses = Array.from({ length: 360 }, (_, i) => (i < 260 ? 1000 + 200 * Math.sin(i / 10) : 1000 * 1.01 ** (i - 259)));
+  const wave = waveCloses.map((c, i) => [String(waveCloses[i - 1] ?? c), String(c * 1.01), String(c * 0.99), String(c), '1', end - (359 - i) * DAY]);
+  for (let y = year - 3; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = wave.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/eth_jpy/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const dp: any = await detectPatterns('eth_jpy', '1day', 340);
+  const barRegimes = classifyMarketRegime(wave.map(([o, h, l, c, , t]) => ({ open: Number(o), high: Number(h), low: Number(l), close: Number(c), isoTime: new Date(t as number).toISOString() }))).bars;
+  const regimeAtEnd = (iso: string) => barRegimes.filter((b) => Date.parse(b.time!) <= Date.parse(iso)).at(-1)?.regime;
+  const chart = dp.data?.patterns ?? [];
+  if (!dp.ok || !chart.length || chart.some((p: any) => p.regimeContext?.regime !== regimeAtEnd(p.range.end))) throw new Error(`regimeContext should use the regime at each pattern end: ${JSON.stringify(chart.map((p: any) => [p.range.end, p.regimeContext?.regime]))}`);
+  if (chart.every((p: any) => p.regimeContext.regime === dp.data.regime.regime)) throw new Error('fixture should have patterns ending outside the current regime');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-market-regime-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testClassify();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import analyzeMtfConfluence, { timeframeWeights, summarizeConfluence, type TimeframeState } from '../analyze_mtf_confluence.js';
+import analyzeMarketSignal from '../analyze_market_signal.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function candleRowsFor(stepMs: number, count: number, price: (i: number) => number) {
+  const end = Math.floor(Date.now() / stepMs) * stepMs - 2 * stepMs;
+  return Array.from({ length: count }, (_, i) => {
+    const c = price(i);
+    return [String(c), String(c * 1.004), String(c * 0.996), String(c), '5', end - (count - 1 - i) * stepMs];
+  });
+}
+
+/** 年ごとのファイルに分けて置く（JST の年境界。足りない年は空） */
+function writeCandles(type: string, stepMs: number, count: number, price: (i: number) => number) {
+  const rows = candleRowsFor(stepMs, count, price);
+  const year = new Date().getFullYear();
+  for (let y = year - Math.ceil((count * stepMs) / (365 * DAY)) - 1; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = rows.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/${type}/${y}`, { success: 1, data: { candlestick: [{ type, ohlcv: part }], timestamp: 0 } });
+  }
+}
+
+/** 日ごとのファイルに分けて置く（1hour 以下。JST の日付境界） */
+function writeDailyCandles(type: string, stepMs: number, count: number, price: (i: number) => number) {
+  const rows = candleRowsFor(stepMs, count, price);
+  const ymd = (ms: number) => new Date(ms).toISOString().slice(0, 10).replace(/-/g, '');
+  const days = new Set(rows.map((r) => ymd((r[5] as number) + 9 * HOUR)));
+  // get_candles はローカル日付から遡るので、前後 1 日も（空で）置いておく
+  for (let t = Date.now() + DAY; t >= Date.now() - (count * stepMs + 2 * DAY); t -= DAY) days.add(ymd(t));
+  for (const d of days) {
+    const part = rows.filter((r) => ymd((r[5] as number) + 9 * HOUR) === d);
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/${type}/${d}`, { success: 1, data: { candlestick: [{ type, ohlcv: part }], timestamp: 0 } });
+  }
+}
+
+const row = (timeframe: string, weight: number, states: TimeframeState['states']): TimeframeState => {
+  const value = Object.values(states).reduce((s, b) => s + (b === 'bullish' ? 1 : b === 'bearish' ? -1 : 0), 0) / 4;
+  return {
+    timeframe, weight, states, value, bias: value >= 0.5 ? 'bullish' : value <= -0.5 ? 'bearish' : 'neutral',
+    detail: { close: null, signalScore: 0, smaArrangement: 'mixed', ichimoku: { position: null, tenkanVsKijun: null }, macd: { hist: null, crossBarsAgo: null } },
+  };
+};
+
+function testConfluence() {
+  const w = timeframeWeights(['1week', '1hour', '1day']);
+  if (Object.keys(w).join() !== '1hour,1day,1week' || Math.abs(w['1hour'] - 1 / 4.5) > 1e-12 || Math.abs(w['1week'] - 2 / 4.5) > 1e-12) throw new Error(`timeframe weights mismatch: ${JSON.stringify(w)}`);
+
+  const up = { signal: 'bullish', sma: 'bullish', ichimoku: 'bullish', macd: 'bullish' } as const;
+  const all = summarizeConfluence([row('4hour', 0.4, up), row('1day', 0.6, up)]);
+  if (!all.aligned || all.score !== 1 || all.agreement !== 1 || all.disagreeing.length) throw new Error(`aligned case mismatch: ${JSON.stringify(all)}`);
+
+  const mixed = summarizeConfluence([
+    row('1hour', 0.2, { signal: 'bearish', sma: 'bearish', ichimoku: 'neutral', macd: 'bearish' }),
+    row('4hour', 0.3, up),
+    row('1day', 0.5, up),
+  ]);
+  if (mixed.bias !== 'bullish' || mixed.aligned || mixed.agreement !== 0.8) throw new Error(`mixed case mismatch: ${JSON.stringify(mixed)}`);
+  const d = mixed.disagreeing;
+  if (d.length !== 1 || d[0].timeframe !== '1hour' || d[0].conflicts.join() !== 'signal,sma,ichimoku,macd') throw new Error(`disagreeing mismatch: ${JSON.stringify(d)}`);
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  // 日足は上昇、4 時間足は直近で下落
+  writeCandles('1day', DAY, 450, (i) => 10_000_000 * (1 + 0.003 * i));
+  writeCandles('4hour', 4 * HOUR, 450, (i) => 16_000_000 * (1 - 0.002 * Math.max(0, i - 300)));
+  const t0 = Date.now() - HOUR;
+  const transactions = Array.from({ length: 120 }, (_, i) => ({ transaction_id: i + 1, side: i % 2 ? 'buy' : 'sell', price: '16000000', amount: '0.01', executed_at: t0 + i * 20_000 }));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/transactions`, { success: 1, data: { transactions } });
+
+  const res: any = await analyzeMtfConfluence('btc_jpy', ['1day', '4hour']);
+  if (!res.ok) throw new Error(`mtf failed: ${res.summary}`);
+  const [h4, d1] = res.data.matrix;
+  if (res.data.timeframes.join() !== '4hour,1day' || h4.weight >= d1.weight) throw new Error('timeframes should be ordered short → long with longer ones weighted more');
+  if (d1.bias !== 'bullish' || h4.bias !== 'bearish' || d1.states.sma !== 'bullish' || h4.states.macd !== 'bearish') throw new Error(`timeframe states mismatch: ${JSON.stringify(res.data.matrix.map((r: any) => r.states))}`);
+  if (res.data.confluence.aligned || !res.data.confluence.disagreeing.some((x: any) => x.timeframe === '4hour')) throw new Error('4hour should be reported as disagreeing');
+
+  // 共有したローソク足・フローでも単独実行と同じシグナルになる
+  const single: any = await analyzeMarketSignal('btc_jpy', { type: '1day' });
+  if (single.data.score !== d1.detail.signalScore) throw new Error(`shared inputs should not change the signal: ${single.data.score} vs ${d1.detail.signalScore}`);
+
+  // 既定の時間足（1hour は日次ファイルを複数日さかのぼって指標のウォームアップ分を揃える）
+  writeDailyCandles('1hour', HOUR, 500, (i) => 16_000_000 * (1 + 0.001 * i));
+  writeCandles('1week', 7 * DAY, 450, (i) => 5_000_000 * (1 + 0.01 * i));
+  const def: any = await analyzeMtfConfluence('btc_jpy');
+  if (!def.ok || def.data.timeframes.join() !== '1hour,4hour,1day,1week') throw new Error(`default timeframes failed: ${def.summary}`);
+  const h1 = def.data.matrix[0];
+  if (h1.detail.smaArrangement !== 'bullish' || h1.detail.ichimoku.position == null || h1.detail.macd.hist == null || h1.states.sma !== 'bullish') {
+    throw new Error(`1hour row should have warmed-up indicators: ${JSON.stringify(h1.detail)}`);
+  }
+
+  for (const tfs of [['1day'], ['1day', 'foo']]) {
+    const bad: any = await analyzeMtfConfluence('btc_jpy', tfs);
+    if (bad.ok || bad.meta.errorType !== 'user') throw new Error(`invalid timeframes should be a user error: ${tfs}`);
+  }
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-mtf-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testConfluence();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { stochastic, stochRsi, williamsR, cci, roc } from '../analyze_indicators.js';
+import renderChartSvg from '../render_chart_svg.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testFormulas() {
+  // 単調増加: 終値は常に窓の高値 → %K=100, %R=0, ROC>0
+  const closes = Array.from({ length: 40 }, (_, i) => 100 + i);
+  const highs = closes.slice();
+  const lows = closes.map((c) => c - 10);
+  const st = stochastic(highs, lows, closes);
+  if (st.k[15] !== 100 || st.k.at(-1) !== 100 || st.d.at(-1) !== 100 || st.k[14] !== null) throw new Error(`stochastic warm-up/values: ${st.k.slice(12, 16)}`);
+  if (williamsR(highs, lows, closes).at(-1) !== 0) throw new Error('williams %R at the high should be 0');
+  if (roc(closes, 10).at(-1) !== Number(((139 - 129) / 129 * 100).toFixed(2))) throw new Error('roc mismatch');
+  if (!((cci(highs, lows, closes).at(-1) as number) > 100)) throw new Error('cci should be strongly positive in a steady uptrend');
+
+  const wave = Array.from({ length: 80 }, (_, i) => 100 + 10 * Math.sin(i / 4));
+  const sr = stochRsi(wave);
+  const firstK = sr.k.findIndex((v) => v != null);
+  if (firstK !== 14 + 14 + 3 - 2) throw new Error(`stoch RSI first %K index: ${firstK}`);
+  if (sr.k.some((v) => v != null && (v < 0 || v > 100))) throw new Error('stoch RSI should stay within 0..100');
+}
+
+async function testSubPanels() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 1000 + 50 * Math.sin(i / 7) + i;
+    return [String(close), String(close + 5), String(close - 5), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const res: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 60, subPanels: ['STOCH', 'CCI', 'STOCH'] });
+  if (!res.ok) throw new Error(`render failed: ${res.summary}`);
+  const svg: string = res.data.svg;
+  if (!svg.includes('Stoch') || !svg.includes('CCI')) throw new Error('sub-panel labels should be drawn');
+  const indicators: string[] = res.meta.indicators ?? [];
+  if (indicators.filter((s) => s.startsWith('panel:')).join() !== 'panel:STOCH,panel:CCI') throw new Error(`panels should be deduplicated: ${indicators}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-osc-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testFormulas();
+    await testSubPanels();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
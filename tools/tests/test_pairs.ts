@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { BITBANK_SPOT_API_BASE, refreshPairRegistry, resetPairRegistry, pairRegistryInfo, listPairs, getPairInfo, roundPrice } from '../../lib/pairs.js';
+import { ensurePair } from '../../lib/validate.js';
+import { formatPriceUnit, priceStepFor } from '../../lib/formatter.js';
+import getTicker from '../get_ticker.js';
+import { writeFixture } from './helpers.js';
+
+const spotPair = (name: string, extra: Record<string, unknown> = {}) => {
+  const [base_asset, quote_asset] = name.split('_');
+  return { name, base_asset, quote_asset, price_digits: 3, amount_digits: 4, unit_amount: '0.0001', is_enabled: true, stop_order: false, stop_buy_order: false, stop_sell_order: false, ...extra };
+};
+
+async function testFallbackToStatic() {
+  resetPairRegistry();
+  // refresh 前（起動直後）でも BTC 建てのペアを受け付ける
+  if (!ensurePair('eth_btc').ok || getPairInfo('eth_btc')?.quote !== 'btc' || pairRegistryInfo().source !== 'static') throw new Error('cold registry should accept non-JPY pairs');
+  if (listPairs({ quote: 'jpy' }).includes('eth_btc')) throw new Error('jpy universe should exclude btc pairs');
+  // フィクスチャなし → 取得失敗でも静的リストで動く
+  const info = await refreshPairRegistry();
+  if (info.source !== 'static' || !ensurePair('btc_jpy').ok) throw new Error(`expected static fallback: ${JSON.stringify(info)}`);
+  if (ensurePair('newcoin_jpy').ok) throw new Error('unknown pair should be rejected');
+}
+
+async function testSpotPairs() {
+  resetPairRegistry();
+  writeFixture(`${BITBANK_SPOT_API_BASE}/spot/pairs`, {
+    success: 1,
+    data: {
+      pairs: [
+        spotPair('btc_jpy', { price_digits: 0 }),
+        spotPair('newcoin_jpy'),
+        spotPair('eth_btc', { price_digits: 8 }),
+        spotPair('halted_jpy', { stop_order: true }),
+        spotPair('old_jpy', { is_enabled: false }),
+      ],
+    },
+  });
+  const info = await refreshPairRegistry();
+  if (info.source !== 'spot_pairs' || pairRegistryInfo().size !== 5) throw new Error(`expected spot_pairs registry: ${JSON.stringify(info)}`);
+  if (!ensurePair('newcoin_jpy').ok) throw new Error('pairs from spot/pairs should be accepted');
+  if (getPairInfo('halted_jpy')?.status !== 'halted' || getPairInfo('eth_btc')?.quote !== 'btc') throw new Error('status/quote not parsed');
+  if (listPairs({ quote: 'jpy' }).join() !== 'btc_jpy,newcoin_jpy,halted_jpy') throw new Error(`unexpected jpy universe: ${listPairs({ quote: 'jpy' })}`);
+  if (roundPrice('newcoin_jpy', 1.23456) !== 1.235) throw new Error('price should round to price_digits');
+
+  writeFixture(`${BITBANK_API_BASE}/newcoin_jpy/ticker`, {
+    success: 1,
+    data: { sell: '1.235', buy: '1.233', open: '1.2', high: '1.3', low: '1.1', last: '1.234', vol: '1000', timestamp: 1700000000000 },
+  });
+  const t: any = await getTicker('newcoin_jpy');
+  if (!t.ok || t.meta.precision?.priceDigits !== 3 || t.meta.precision?.minAmount !== 0.0001) throw new Error(`ticker meta should carry precision: ${JSON.stringify(t.meta)}`);
+}
+
+async function testNonJpyQuote() {
+  // testSpotPairs のレジストリ（eth_btc: price_digits 8）を引き継ぐ
+  if (formatPriceUnit('eth_btc', 0.031234567) !== '0.03123457 BTC') throw new Error(`unexpected btc price: ${formatPriceUnit('eth_btc', 0.031234567)}`);
+  if (formatPriceUnit('btc_jpy', 12345678) !== '12,345,678円') throw new Error('jpy price should keep yen suffix');
+  if (priceStepFor(0.0312) !== 0.0002 || priceStepFor(12_000_000) !== 50000) throw new Error(`step should scale with price: ${priceStepFor(0.0312)} ${priceStepFor(12_000_000)}`);
+
+  writeFixture(`${BITBANK_API_BASE}/eth_btc/ticker`, {
+    success: 1,
+    data: { sell: '0.03125', buy: '0.03121', open: '0.031', high: '0.0315', low: '0.0308', last: '0.03123', vol: '120.5', timestamp: 1700000000000 },
+  });
+  const t: any = await getTicker('eth_btc');
+  if (!t.ok || t.summary.includes('円') || !t.summary.includes('BTC')) throw new Error(`eth_btc summary should be quoted in BTC: ${t.summary}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-pairs-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  try {
+    await testFallbackToStatic();
+    await testSpotPairs();
+    await testNonJpyQuote();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    resetPairRegistry();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import getPriceLevels, { pivotLevels, fibonacciLevels, mergeConfluence, type PriceLevel } from '../get_price_levels.js';
+import renderChartSvg from '../render_chart_svg.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testFormulas() {
+  const p = pivotLevels({ high: 110, low: 90, close: 100 });
+  if (p.classical.P !== 100 || p.classical.R1 !== 110 || p.classical.S2 !== 80 || p.classical.R3 !== 130) throw new Error(`classical mismatch: ${JSON.stringify(p.classical)}`);
+  if (p.camarilla.R1 !== 101.83 || p.camarilla.S4 !== 89) throw new Error(`camarilla mismatch: ${JSON.stringify(p.camarilla)}`);
+  if (p.woodie.P !== 100 || p.woodie.R2 !== 120) throw new Error(`woodie mismatch: ${JSON.stringify(p.woodie)}`);
+
+  const up = fibonacciLevels(200, 100, 'up');
+  if (up.retracements.find((r) => r.ratio === 0.618)?.price !== 138.2 || up.extensions.find((e) => e.ratio === 1.618)?.price !== 261.8) throw new Error('fib up mismatch');
+  const down = fibonacciLevels(200, 100, 'down');
+  if (down.retracements.find((r) => r.ratio === 0.618)?.price !== 161.8 || down.extensions.find((e) => e.ratio === 1.618)?.price !== 38.2) throw new Error('fib down mismatch');
+
+  const lv = (price: number, method: PriceLevel['method'], label: string): PriceLevel => ({ price, label, source: method === 'retracement' ? 'fibonacci' : 'pivot', method, timeframe: method === 'retracement' ? null : 'daily', distance: 0, distancePct: 0, side: 'at' });
+  const zones = mergeConfluence([lv(100, 'classical', 'a'), lv(100.3, 'retracement', 'b'), lv(100.6, 'camarilla', 'c'), lv(120, 'woodie', 'd'), lv(130, 'camarilla', 'e'), lv(130.2, 'camarilla', 'f')], 100, 0.5);
+  if (zones.length !== 1 || zones[0].count !== 3 || zones[0].low !== 100 || zones[0].high !== 100.6) throw new Error(`confluence mismatch: ${JSON.stringify(zones)}`);
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 1000 + 100 * Math.sin(i / 10);
+    return [String(close), String(close + 5), String(close - 5), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const res: any = await getPriceLevels('btc_jpy', '1day', 120);
+  if (!res.ok) throw new Error(`price levels failed: ${res.summary}`);
+  const d = res.data;
+  if (!d.pivots.daily || !d.pivots.weekly || !d.fibonacci) throw new Error('daily/weekly pivots and fibonacci should be present');
+  if (d.pivots.daily.basis.close !== Number(rows[299][3])) throw new Error('daily pivot should use the latest completed day');
+  if (d.levels.length !== 2 * (7 + 8 + 5) + 9) throw new Error(`unexpected level count: ${d.levels.length}`);
+  if (d.levels.some((lv: any, i: number) => i > 0 && lv.price > d.levels[i - 1].price)) throw new Error('levels should be sorted by price descending');
+  if (!(d.nearest.above.price > d.currentPrice) || !(d.nearest.below.price < d.currentPrice)) throw new Error('nearest levels should bracket the price');
+  if (d.overlays.levels.length !== d.levels.length || d.overlays.depth_zones.length !== d.confluence.length) throw new Error('overlays should mirror levels/zones');
+
+  const dailyOnly: any = await getPriceLevels('btc_jpy', '1day', 120, { pivotTimeframes: ['daily'], swingDepth: 20 });
+  if (dailyOnly.data.pivots.weekly || dailyOnly.data.levels.some((lv: any) => lv.timeframe === 'weekly')) throw new Error('weekly pivots should be omitted');
+
+  const chart: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 60, overlays: d.overlays });
+  if (!chart.ok || !chart.data.svg.includes('stroke-dasharray="6 3"')) throw new Error('level lines should be drawn');
+}
+
+// 1 円未満のペア: 2 桁に丸めると Camarilla の R1/S1 が現在値に潰れ、偽のゾーンができる
+async function testSubYen() {
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 0.4 + 0.04 * Math.sin(i / 10);
+    return [String(close), String(close * 1.01), String(close * 0.99), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/flr_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const res: any = await getPriceLevels('flr_jpy', '1day', 120);
+  if (!res.ok) throw new Error(`sub-yen price levels failed: ${res.summary}`);
+  const cam = res.data.pivots.daily.camarilla;
+  if (!(cam.R1 > cam.S1) || !(cam.R2 > cam.R1) || !(cam.S1 > cam.S2)) throw new Error(`camarilla levels should stay distinct: ${JSON.stringify(cam)}`);
+  const basis = res.data.pivots.daily.basis;
+  if (Math.abs(cam.R1 - (basis.close + ((basis.high - basis.low) * 1.1) / 12)) > 1e-6) throw new Error(`camarilla R1 should keep sub-yen precision: ${cam.R1}`);
+  const r1 = res.data.levels.find((lv: any) => lv.label === 'daily camarilla R1');
+  if (!(r1.distance > 0) || r1.side !== 'above') throw new Error(`distance should keep sub-yen precision: ${JSON.stringify(r1)}`);
+  // 丸めで同じ価格に潰れた水準だけのゾーンはできない
+  if (res.data.confluence.some((z: any) => z.low === z.high)) throw new Error(`collapsed levels should not form zones: ${JSON.stringify(res.data.confluence)}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-levels-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testFormulas();
+    await testTool();
+    await testSubYen();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,105 @@
+import http from 'http';
+
+// バケットの設定はモジュール読み込み時に決まるので、import より前に env を設定する
+process.env.BITBANK_RATE_LIMIT_RPS = '20';
+process.env.BITBANK_RATE_LIMIT_BURST = '2';
+delete process.env.BITBANK_HTTP_MODE;
+
+const { acquireToken, pauseRequests, parseRetryAfter, jitteredBackoffMs } = await import('../../lib/rate_limit.js');
+const { default: getTickersJpy } = await import('../get_tickers_jpy.js');
+
+async function elapsed(fn: () => Promise<unknown>): Promise<number> {
+  const t0 = Date.now();
+  await fn();
+  return Date.now() - t0;
+}
+
+function testParsing() {
+  if (parseRetryAfter('2') !== 2000 || parseRetryAfter('0') !== 0) throw new Error('Retry-After seconds should convert to ms');
+  if (parseRetryAfter('') !== null || parseRetryAfter(undefined) !== null || parseRetryAfter('soon') !== null) throw new Error('unparsable Retry-After should be null');
+  const future = parseRetryAfter(new Date(Date.now() + 5_000).toUTCString());
+  if (future == null || future < 3_000 || future > 5_000) throw new Error(`HTTP-date Retry-After mismatch: ${future}`);
+  if (parseRetryAfter(new Date(Date.now() - 5_000).toUTCString()) !== 0) throw new Error('past HTTP-date should be 0');
+  for (let attempt = 0; attempt < 8; attempt++) {
+    const ms = jitteredBackoffMs(attempt);
+    const ceil = Math.min(10_000, 500 * 2 ** attempt);
+    if (ms < ceil / 2 || ms > ceil) throw new Error(`backoff ${attempt} out of range: ${ms}`);
+  }
+}
+
+async function testRefill() {
+  // バースト 2 本は即時、3 本目は 1/RPS（50ms）待つ
+  const burst = await elapsed(() => Promise.all([acquireToken(), acquireToken()]));
+  if (burst > 30) throw new Error(`burst should not wait: ${burst}ms`);
+  const third = await elapsed(acquireToken);
+  if (third < 35) throw new Error(`third token should wait for refill: ${third}ms`);
+  // しばらく空けるとバーストぶん回復する
+  await new Promise((r) => setTimeout(r, 120));
+  const refilled = await elapsed(() => Promise.all([acquireToken(), acquireToken()]));
+  if (refilled > 30) throw new Error(`bucket should refill to burst: ${refilled}ms`);
+}
+
+async function testPause() {
+  await new Promise((r) => setTimeout(r, 120));
+  pauseRequests(150);
+  const waited = await elapsed(acquireToken);
+  if (waited < 140) throw new Error(`pause should hold the bucket: ${waited}ms`);
+}
+
+/** 先頭 throttled 回は 429（Retry-After 付き）、以降は tickers_jpy を返すサーバ */
+async function withServer(throttled: number, retryAfter: string, fn: (url: string) => Promise<void>) {
+  let hits = 0;
+  const srv = http.createServer((_req, res) => {
+    if (hits++ < throttled) {
+      res.writeHead(429, { 'Retry-After': retryAfter });
+      res.end('{}');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: 1, data: [{ pair: 'btc_jpy', sell: '101', buy: '99', high: '110', low: '90', open: '95', last: '100', vol: '1', timestamp: 0 }] }));
+  });
+  await new Promise<void>((r) => srv.listen(0, '127.0.0.1', r));
+  const { port } = srv.address() as { port: number };
+  try {
+    await fn(`http://127.0.0.1:${port}/tickers_jpy`);
+  } finally {
+    srv.close();
+  }
+  return hits;
+}
+
+async function testTickersRetryAfter() {
+  process.env.TICKERS_JPY_RETRIES = '1';
+  // Retry-After: 1 を待って再試行し成功する
+  let ms = 0;
+  const hits = await withServer(1, '1', async (url) => {
+    process.env.TICKERS_JPY_URL = url;
+    const t0 = Date.now();
+    const res: any = await getTickersJpy({ bypassCache: true });
+    ms = Date.now() - t0;
+    if (!res.ok || res.data[0]?.pair !== 'btc_jpy') throw new Error(`retry after 429 should succeed: ${res.summary}`);
+  });
+  if (hits !== 2 || ms < 900) throw new Error(`Retry-After should be honored: hits=${hits} ${ms}ms`);
+
+  // 待機が長すぎる Retry-After は待たずに rate_limited（共有バケットを止めるので最後に実行する）
+  await withServer(10, '60', async (url) => {
+    process.env.TICKERS_JPY_URL = url;
+    const res: any = await getTickersJpy({ bypassCache: true });
+    if (res.ok || res.meta.errorType !== 'rate_limited' || res.meta.retryAfterMs !== 60_000) throw new Error(`long Retry-After should be rate_limited: ${JSON.stringify(res.meta)}`);
+  });
+}
+
+async function main() {
+  try {
+    testParsing();
+    await testRefill();
+    await testPause();
+    await testTickersRetryAfter();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  }
+}
+
+main();
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import calibrateMarketSignal, { calibrateScores, historicalOutlook, replaySignalScores, scoreBucketIndex } from '../calibrate_market_signal.js';
+import analyzeMarketSignal from '../analyze_market_signal.js';
+import { writeFixture, candleRows } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testStats() {
+  if ([scoreBucketIndex(-1), scoreBucketIndex(0.0999), scoreBucketIndex(0.1), scoreBucketIndex(1), scoreBucketIndex(3)].join() !== '0,3,4,6,6') throw new Error('score bucket boundaries mismatch');
+
+  // +0.6 の後は必ず上昇、-0.6 の後は必ず下落
+  const closes = Array.from({ length: 41 }, (_, i) => (i % 2 ? 110 : 100));
+  const scores = closes.map((_, i) => (i % 2 ? -0.6 : 0.6));
+  const [h1] = calibrateScores(scores, closes, [1]);
+  const up = h1.buckets[6];
+  const down = h1.buckets[0];
+  if (h1.samples !== 40 || up.samples !== 20 || up.upRate !== 1 || up.hitRate !== 1 || down.hitRate !== 1 || up.meanReturnPct !== 10) throw new Error(`bucket stats mismatch: ${JSON.stringify(h1)}`);
+  if (h1.ic !== 1 || h1.brier !== 0.04 || up.predictedUp !== 0.8 || h1.buckets[3].samples !== 0 || h1.buckets[3].hitRate !== null) throw new Error(`reliability stats mismatch: ${JSON.stringify(h1)}`);
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = candleRows(700, end);
+  const year = new Date().getFullYear();
+  for (let y = year - 3; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = rows.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const t0 = Date.now() - HOUR;
+  const transactions = Array.from({ length: 200 }, (_, i) => ({ transaction_id: i + 1, side: i % 3 ? 'buy' : 'sell', price: '16000000', amount: '0.01', executed_at: t0 + i * 15_000 }));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/transactions`, { success: 1, data: { transactions } });
+
+  const res: any = await calibrateMarketSignal('btc_jpy', { limit: 300 });
+  if (!res.ok) throw new Error(`calibration failed: ${res.summary}`);
+  const d = res.data;
+  if (d.samples !== 300 || d.horizons.map((h: any) => h.horizon).join() !== '1,5,10,20') throw new Error(`sample window mismatch: ${d.samples}`);
+  for (const h of d.horizons) {
+    const n = h.buckets.reduce((s: number, b: any) => s + b.samples, 0);
+    if (n !== h.samples || h.samples !== 300 - h.horizon) throw new Error(`bucket counts should cover every sample (h=${h.horizon}: ${n}/${h.samples})`);
+  }
+  if (!d.current || d.current.horizons.length !== 4 || !res.summary.includes('ローソク足で近似')) throw new Error('current outlook / proxy note missing');
+
+  // 指標由来の要素はライブと同じ式で再計算される
+  const only = { momentum: 0, cvdTrend: 0, buyPressure: 0, smaTrend: 0.5, volatility: 0.5 };
+  const live: any = await analyzeMarketSignal('btc_jpy', { weights: only });
+  const candles = rows.slice(-500).map(([o, h, l, c, v]) => ({ open: Number(o), high: Number(h), low: Number(l), close: Number(c), volume: Number(v) }));
+  const replayed = replaySignalScores(candles, '1day', { smaTrend: 0.5, volatility: 0.5 }).at(-1) as number;
+  if (!live.ok || Math.abs(live.data.score - replayed) > 0.01) throw new Error(`replayed score should match live: ${replayed} vs ${live.data?.score}`);
+
+  const withHist: any = await analyzeMarketSignal('btc_jpy', { historical: true });
+  const hist = withHist.data?.historical;
+  if (!withHist.ok || hist?.basis !== 'candle_proxy' || hist.sampleBars !== 700 - 199) throw new Error('historical block missing');
+  if (hist.range[0] > withHist.data.score || withHist.data.score > hist.range[1] || !withHist.summary.includes('【過去の同程度スコア】')) throw new Error(`historical bucket should contain the live score: ${JSON.stringify(hist.range)} ${withHist.data.score}`);
+
+  // momentumInputs もリプレイに反映され、historical のキャッシュは入力ごとに分かれる
+  const momentumOnly = { momentum: 1, cvdTrend: 0, buyPressure: 0, smaTrend: 0, volatility: 0 };
+  const liveCci: any = await analyzeMarketSignal('btc_jpy', { weights: momentumOnly, momentumInputs: ['cci'] });
+  const replayedCci = replaySignalScores(candles, '1day', { momentum: 1 }, ['cci']).at(-1) as number;
+  if (!liveCci.ok || Math.abs(liveCci.data.score - replayedCci) > 0.01) throw new Error(`replayed cci momentum should match live: ${replayedCci} vs ${liveCci.data?.score}`);
+  if (replayedCci === replaySignalScores(candles, '1day', { momentum: 1 }).at(-1)) throw new Error('momentumInputs should change the replayed score');
+
+  const calCci: any = await calibrateMarketSignal('btc_jpy', { momentumInputs: ['cci', 'roc'] });
+  if (!calCci.ok || calCci.meta.momentumInputs.join() !== 'cci,roc' || !calCci.summary.includes('momentum: cci+roc')) throw new Error('calibration should report its momentum inputs');
+  const calRsi: any = await calibrateMarketSignal('btc_jpy');
+  const histCci: any = await analyzeMarketSignal('btc_jpy', { historical: true, momentumInputs: ['cci', 'roc'] });
+  const fromCci = JSON.stringify(historicalOutlook(histCci.data.score, calCci.data.horizons).horizons);
+  const fromRsi = JSON.stringify(historicalOutlook(histCci.data.score, calRsi.data.horizons).horizons);
+  if (fromCci === fromRsi) throw new Error('momentumInputs should change the calibration');
+  if (JSON.stringify(histCci.data.historical.horizons) !== fromCci) throw new Error('historical should use a calibration keyed on momentumInputs');
+
+  const plain: any = await analyzeMarketSignal('btc_jpy');
+  if ('historical' in plain.data) throw new Error('historical should be opt-in');
+
+  const bad: any = await calibrateMarketSignal('btc_jpy', { horizons: [0, 5] });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('invalid horizons should be a user error');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-signal-calibration-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testStats();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
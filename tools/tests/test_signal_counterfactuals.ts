@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { BITBANK_SPOT_API_BASE, refreshPairRegistry } from '../../lib/pairs.js';
+import { sma } from '../analyze_indicators.js';
+import analyzeMarketSignal, { findSignalPriceLevels, formatWhatWouldChangeLines, signalScoreAtClose, signalScoreGaps, recommendationOf, SIGNAL_CANDLE_COUNT } from '../analyze_market_signal.js';
+import { writeFixture, candleRows } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testHelpers() {
+  const gaps = signalScoreGaps(0.4);
+  if (JSON.stringify(gaps) !== JSON.stringify([{ to: 'neutral', scoreDelta: -0.151 }, { to: 'bearish', scoreDelta: -0.65 }])) throw new Error(`score gaps mismatch: ${JSON.stringify(gaps)}`);
+  // 変化を足すと必ず境界の向こう側（閾値ちょうどで止まらない）
+  for (const score of [0.25, 0.4, 0.7, -0.25, -0.3, 0.1, 0.249, -0.249, 0]) {
+    for (const g of signalScoreGaps(score)) {
+      if (recommendationOf(score + g.scoreDelta) !== g.to) throw new Error(`gap from ${score} to ${g.to} should cross the threshold: ${g.scoreDelta}`);
+    }
+  }
+
+  // スコアが価格に比例する場合: ±5% で境界（±0.25）に届く
+  const levels = findSignalPriceLevels((p) => (p - 100) / 20, 100, 0, 2);
+  const summary = levels.map((l) => `${l.direction}:${l.price}:${l.from}>${l.to}`).join();
+  if (summary !== 'down:95:neutral>bearish,up:105:neutral>bullish') throw new Error(`price levels mismatch: ${summary}`);
+  // 現在値で関数とライブのスコアがずれていても差分で補正される
+  const shifted = findSignalPriceLevels((p) => (p - 100) / 20 + 0.1, 100, 0, 2);
+  if (shifted.map((l) => l.price).join() !== '95,105') throw new Error('offset should be corrected by the live score');
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = candleRows(700, end);
+  const year = new Date().getFullYear();
+  for (let y = year - 3; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = rows.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const t0 = Date.now() - HOUR;
+  const transactions = Array.from({ length: 200 }, (_, i) => ({ transaction_id: i + 1, side: i % 3 ? 'buy' : 'sell', price: '16000000', amount: '0.01', executed_at: t0 + i * 15_000 }));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/transactions`, { success: 1, data: { transactions } });
+
+  const res: any = await analyzeMarketSignal('btc_jpy');
+  const w = res.data?.whatWouldChange;
+  if (!res.ok || !w) throw new Error('whatWouldChange missing');
+  if (!res.summary.includes('【判定が変わる条件】')) throw new Error('summary section missing');
+
+  // 既定の momentum は RSI のみ → RSI 50 で符号が変わる
+  const flip = w.conditions.find((c: any) => c.indicator === 'RSI_14' && !c.to);
+  if (flip?.level !== 50) throw new Error(`RSI flip level should be 50: ${JSON.stringify(flip)}`);
+
+  // SMA25 の条件: その終値に差し替えると終値と SMA25 が一致する
+  const closes = rows.slice(-SIGNAL_CANDLE_COUNT).map((r) => Number(r[3]));
+  const smaCond = w.conditions.find((c: any) => c.factor === 'smaTrend');
+  if (!smaCond) throw new Error('smaTrend condition missing');
+  const sma25 = sma([...closes.slice(0, -1), smaCond.level], 25, null).at(-1) as number;
+  if (Math.abs(sma25 - smaCond.level) / smaCond.level > 1e-6) throw new Error(`SMA25 level mismatch: ${sma25} vs ${smaCond.level}`);
+
+  // 価格の境界を越えると判定が変わる
+  const candles = rows.slice(-SIGNAL_CANDLE_COUNT).map(([, h, l, c]) => ({ high: Number(h), low: Number(l), close: Number(c) }));
+  const scoreAt = signalScoreAtClose({
+    candles,
+    type: '1day',
+    weights: res.data.weights,
+    momentumInputs: ['rsi'],
+    indicators: res.data.refs.indicators.latest,
+    flow: { cvdTrend: res.data.metrics.cvdTrend, buyPressure: res.data.metrics.buyPressure },
+  });
+  const close = closes.at(-1) as number;
+  if (Math.abs(scoreAt(close) - res.data.score) > 0.01) throw new Error(`counterfactual score should match live at the current close: ${scoreAt(close)} vs ${res.data.score}`);
+  if (!w.priceLevels.length) throw new Error('price levels missing');
+  for (const l of w.priceLevels) {
+    const beyond = l.price * (l.direction === 'up' ? 1.001 : 0.999);
+    const rec = recommendationOf(res.data.score + scoreAt(beyond) - scoreAt(close));
+    if (rec !== l.to) throw new Error(`recommendation beyond ${l.price} should be ${l.to}: ${rec}`);
+  }
+  // スコアは小数 3 桁で返るので、動かした後も同じ丸めで判定する
+  const recAfter = (moved: number) => recommendationOf(Number((res.data.score + moved).toFixed(3)));
+  for (const f of w.factors) {
+    for (const r of f.required) {
+      const g = w.scoreGaps.find((x: any) => x.to === r.to);
+      const moved = (r.rawValue - f.rawValue) * f.weight;
+      if (Math.abs(moved - g.scoreDelta) > 0.005 || recAfter(moved) !== r.to) throw new Error(`required value mismatch for ${f.factor}`);
+    }
+  }
+  // RSI だけの momentum: 条件の RSI で判定が変わる
+  const mom = w.factors.find((f: any) => f.factor === 'momentum');
+  for (const c of w.conditions.filter((x: any) => x.indicator === 'RSI_14' && x.to)) {
+    const moved = ((c.level - 50) / 50 - mom.rawValue) * mom.weight;
+    if (recAfter(moved) !== c.to) throw new Error(`RSI level ${c.level} should flip to ${c.to}`);
+  }
+}
+
+async function testNonJpyPair() {
+  // eth_btc: 価格は BTC 建て（0.03 前後）、price_digits 8
+  const spotPair = (name: string, price_digits: number) => {
+    const [base_asset, quote_asset] = name.split('_');
+    return { name, base_asset, quote_asset, price_digits, amount_digits: 4, unit_amount: '0.0001', is_enabled: true, stop_order: false, stop_buy_order: false, stop_sell_order: false };
+  };
+  writeFixture(`${BITBANK_SPOT_API_BASE}/spot/pairs`, { success: 1, data: { pairs: [spotPair('btc_jpy', 0), spotPair('eth_btc', 8)] } });
+  await refreshPairRegistry();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = candleRows(700, end).map(([o, h, l, c, v, t]) => [...[o, h, l, c].map((p) => String(Number(p) / 3e8)), v, t]);
+  const year = new Date().getFullYear();
+  for (let y = year - 3; y <= year; y++) {
+    const from = Date.UTC(y, 0, 1) - 9 * HOUR;
+    const to = Date.UTC(y + 1, 0, 1) - 9 * HOUR;
+    const part = rows.filter((r) => (r[5] as number) >= from && (r[5] as number) < to);
+    writeFixture(`${BITBANK_API_BASE}/eth_btc/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const t0 = Date.now() - HOUR;
+  const transactions = Array.from({ length: 200 }, (_, i) => ({ transaction_id: i + 1, side: i % 3 ? 'buy' : 'sell', price: '0.0533', amount: '0.1', executed_at: t0 + i * 15_000 }));
+  writeFixture(`${BITBANK_API_BASE}/eth_btc/transactions`, { success: 1, data: { transactions } });
+
+  const res: any = await analyzeMarketSignal('eth_btc');
+  const w = res.data?.whatWouldChange;
+  if (!res.ok || !w?.priceLevels.length || !w.conditions.some((c: any) => c.factor === 'smaTrend')) throw new Error(`eth_btc whatWouldChange missing: ${res.summary}`);
+  const lines = formatWhatWouldChangeLines(w, 'eth_btc');
+  const priced = lines.filter((l) => l.includes('終値が'));
+  if (!priced.length || priced.some((l) => l.includes('円') || !/0\.0\d{3,} BTC/.test(l))) throw new Error(`BTC-quoted levels should keep their decimals: ${priced.join(' / ')}`);
+  const section = res.summary.slice(res.summary.indexOf('【判定が変わる条件】'));
+  if (section.includes('円')) throw new Error(`summary should not quote eth_btc levels in yen: ${section}`);
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-signal-counterfactuals-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testHelpers();
+    await testTool();
+    await testNonJpyPair();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
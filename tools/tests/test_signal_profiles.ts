@@ -0,0 +1,109 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { resolveSignalWeights, formatSignalFormula, registerSignalFactor, SIGNAL_PROFILES } from '../../lib/signal_factors.js';
+import analyzeMarketSignal from '../analyze_market_signal.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function resolve(profile?: string, overrides?: Record<string, number>) {
+  const r = resolveSignalWeights(profile, overrides);
+  if (!r.ok) throw new Error(`resolve failed: ${r.error.message}`);
+  return r.value;
+}
+
+function testProfiles() {
+  // 既定は従来の固定重み・計算式と同じ
+  const def = resolve();
+  if (formatSignalFormula(def.weights) !== 'score = 0.35*smaTrend + 0.30*momentum + 0.20*cvdTrend + 0.10*volatility + 0.05*buyPressure') throw new Error(`default formula mismatch: ${formatSignalFormula(def.weights)}`);
+  for (const name of Object.keys(SIGNAL_PROFILES)) {
+    const p = resolve(name);
+    const sum = Object.values(p.weights).reduce((a, b) => a + b, 0);
+    if (p.normalized || p.custom || Math.abs(sum - 1) > 1e-9) throw new Error(`preset ${name} should already sum to 1`);
+  }
+
+  // 上書き: 0 で除外、合計は比率を保って 1 に正規化
+  const custom = resolve('default', { smaTrend: 0.5, volatility: 0 });
+  if (!custom.custom || !custom.normalized || 'volatility' in custom.weights) throw new Error(`override flags mismatch: ${JSON.stringify(custom)}`);
+  if (Math.abs(custom.weights.smaTrend - 0.5 / 1.05) > 1e-12 || Object.keys(custom.weights)[0] !== 'smaTrend') throw new Error('override should be renormalized and sorted by weight');
+
+  const bad: Array<[string | undefined, Record<string, number> | undefined, RegExp]> = [
+    ['aggressive', undefined, /profile/],
+    ['__proto__', undefined, /profile/],
+    [undefined, { fundingRate: 0.2 }, /factor/],
+    [undefined, { smaTrend: -0.1 }, /0 以上/],
+    ['order-flow', { cvdTrend: 0, buyPressure: 0, momentum: 0, volatility: 0 }, /合計が 0/],
+  ];
+  for (const [profile, overrides, re] of bad) {
+    const r = resolveSignalWeights(profile, overrides);
+    if (r.ok || r.error.type !== 'user' || !re.test(r.error.message)) throw new Error(`expected ${re} for ${profile}/${JSON.stringify(overrides)}`);
+  }
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 10_000_000 + 20_000 * i + 300_000 * Math.sin(i / 9);
+    return [String(close), String(close + 50_000), String(close - 50_000), String(close), '10', end - (299 - i) * DAY];
+  });
+  // 指標のウォームアップで前年分も取得されるので、JST の年境界で分けて置く
+  const yearStart = Date.UTC(year, 0, 1) - 9 * HOUR;
+  for (const [y, part] of [[year - 1, rows.filter((r) => (r[5] as number) < yearStart)], [year, rows.filter((r) => (r[5] as number) >= yearStart)]] as const) {
+    writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${y}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: part }], timestamp: 0 } });
+  }
+  const t0 = Date.now() - 2 * HOUR;
+  const transactions = Array.from({ length: 300 }, (_, i) => ({
+    transaction_id: i + 1,
+    side: i % 3 === 0 ? 'sell' : 'buy',
+    price: '16000000',
+    amount: '0.01',
+    executed_at: t0 + i * 20_000,
+  }));
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/transactions`, { success: 1, data: { transactions } });
+
+  const def: any = await analyzeMarketSignal('btc_jpy');
+  if (!def.ok) throw new Error(`default run failed: ${def.summary}`);
+  const d = def.data;
+  if (d.formula !== formatSignalFormula(resolve().weights) || d.profile.name !== 'default' || Object.keys(d.breakdown).join() !== 'smaTrend,momentum,cvdTrend,volatility,buyPressure') throw new Error('default profile output mismatch');
+  const sumContrib = Object.values(d.contributions as Record<string, number>).reduce((a, b) => a + b, 0);
+  if (Math.abs(sumContrib - d.score) > 0.003) throw new Error(`contributions should add up to the score: ${sumContrib} vs ${d.score}`);
+
+  const mr: any = await analyzeMarketSignal('btc_jpy', { profile: 'mean-reversion' });
+  if (!mr.ok || Object.keys(mr.data.weights).join() !== 'bbReversion,rsiReversion,cvdTrend,buyPressure') throw new Error(`mean-reversion weights mismatch: ${JSON.stringify(mr.data?.weights)}`);
+  // 上昇トレンドの足では順張りと逆張りで符号が逆になる
+  if (!(d.breakdown.smaTrend.rawValue > 0 && mr.data.breakdown.rsiReversion.rawValue < 0)) throw new Error('reversion factors should oppose the trend');
+  if (!mr.summary.includes('RSI 逆張り（重み35%）')) throw new Error('summary should list the applied weights');
+
+  // 追加した factor を weights から参照できる
+  registerSignalFactor({ key: 'testConstant', label: 'テスト用', description: 'always +0.5', compute: () => 0.5 });
+  const plugged: any = await analyzeMarketSignal('btc_jpy', { weights: { testConstant: 1, smaTrend: 0, momentum: 0, cvdTrend: 0, volatility: 0, buyPressure: 0 } });
+  if (!plugged.ok || plugged.data.score !== 0.5 || plugged.data.formula !== 'score = 1.00*testConstant' || !plugged.data.profile.custom) throw new Error(`plugged factor mismatch: ${plugged.data?.formula} ${plugged.data?.score}`);
+  let threw = false;
+  try { registerSignalFactor({ key: 'smaTrend', label: 'x', description: 'x', compute: () => 0 }); } catch { threw = true; }
+  if (!threw) throw new Error('duplicate factor keys should be rejected');
+
+  const bad: any = await analyzeMarketSignal('btc_jpy', { weights: { smaTrend: -1 } });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('invalid weights should be a user error');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-signal-profiles-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testProfiles();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
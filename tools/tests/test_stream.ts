@@ -0,0 +1,99 @@
+import { WebSocketServer, type WebSocket } from 'ws';
+import { startStream, stopStream } from '../../lib/stream.js';
+import getOrderbookPressure from '../get_orderbook_pressure.js';
+import getFlowMetrics from '../get_flow_metrics.js';
+
+// bitbank stream の代役（Engine.IO v4 / Socket.IO の最小フレームのみ）
+function startFakeServer(): Promise<{ port: number; wss: WebSocketServer; clients: WebSocket[]; joined: string[] }> {
+  return new Promise((resolve) => {
+    const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    const clients: WebSocket[] = [];
+    const joined: string[] = [];
+    wss.on('connection', (ws) => {
+      clients.push(ws);
+      ws.send('0{"sid":"test","pingInterval":25000,"pingTimeout":20000}');
+      ws.on('message', (raw) => {
+        const msg = String(raw);
+        if (msg === '40') ws.send('40{"sid":"ns"}');
+        else if (msg.startsWith('42')) {
+          const [event, room] = JSON.parse(msg.slice(2));
+          if (event === 'join-room') joined.push(room);
+        }
+      });
+    });
+    wss.on('listening', () => resolve({ port: (wss.address() as { port: number }).port, wss, clients, joined }));
+  });
+}
+
+const room = (ws: WebSocket, name: string, data: unknown) => ws.send(`42${JSON.stringify(['message', { room_name: name, message: { data } }])}`);
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function main() {
+  const { port, wss, clients, joined } = await startFakeServer();
+  let snapshots = 0;
+  const snapshotCount = () => snapshots;
+  const stream = startStream({
+    pairs: ['btc_jpy'],
+    url: `ws://127.0.0.1:${port}`,
+    contiguousSequence: true,
+    reconnectMs: 50,
+    fetchSnapshot: async () => {
+      snapshots++;
+      return { asks: [['101', '1']], bids: [['99', '2']], sequenceId: 100, timestamp: Date.now() };
+    },
+  });
+  try {
+    await wait(100);
+    if (!joined.includes('depth_diff_btc_jpy') || !joined.includes('transactions_btc_jpy')) throw new Error(`rooms not joined: ${joined}`);
+    if (!stream.isWarm('btc_jpy')) throw new Error('book should be warm after snapshot');
+
+    // 差分適用（101: 新しい買い気配, 102: 売り気配の削除と追加）
+    const ws = clients[0];
+    room(ws, 'depth_diff_btc_jpy', { a: [], b: [['100', '0.5']], t: Date.now(), s: '101' });
+    room(ws, 'depth_diff_btc_jpy', { a: [['101', '0'], ['102', '3']], b: [], t: Date.now(), s: '102' });
+    await wait(50);
+    const d = stream.depth('btc_jpy', 10);
+    if (!d || d.bids[0][0] !== 100 || d.asks[0][0] !== 102 || d.sequenceId !== 102) throw new Error(`unexpected book: ${JSON.stringify(d)}`);
+
+    // 欠番 → スナップショットから再同期
+    room(ws, 'depth_diff_btc_jpy', { a: [], b: [['98', '1']], t: Date.now(), s: '105' });
+    await wait(50);
+    if (snapshotCount() !== 2) throw new Error(`expected resync on gap (snapshots=${snapshotCount()})`);
+    if (stream.depth('btc_jpy', 10)?.sequenceId !== 100) throw new Error('book should be rebuilt from snapshot');
+
+    // ツールはストリームの板を使う
+    const pressure: any = await getOrderbookPressure('btc_jpy');
+    if (!pressure.ok || pressure.meta.feed !== 'stream') throw new Error(`pressure should read stream: ${pressure.summary}`);
+
+    // 約定テープ
+    const now = Date.now();
+    room(ws, 'transactions_btc_jpy', {
+      transactions: [
+        { transaction_id: 1, side: 'buy', price: '100', amount: '0.1', executed_at: now - 2000 },
+        { transaction_id: 2, side: 'sell', price: '99', amount: '0.2', executed_at: now - 1000 },
+        { transaction_id: 3, side: 'buy', price: '101', amount: '0.3', executed_at: now },
+      ],
+    });
+    await wait(50);
+    const flow: any = await getFlowMetrics('btc_jpy', 3);
+    if (!flow.ok || flow.meta.feed !== 'stream' || flow.data.aggregates.totalTrades !== 3) throw new Error(`flow should read stream tape: ${flow.summary}`);
+
+    // 切断で冷え、再接続後に再同期
+    ws.terminate();
+    await wait(20);
+    if (stream.isWarm('btc_jpy')) throw new Error('book should be cold after disconnect');
+    await wait(200);
+    if (!stream.isWarm('btc_jpy') || snapshotCount() !== 3) throw new Error(`expected resync after reconnect (snapshots=${snapshotCount()})`);
+
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    stopStream();
+    for (const c of wss.clients) c.terminate();
+    wss.close();
+  }
+}
+
+main();
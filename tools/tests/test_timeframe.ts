@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { parseTimeframe, planResample, bucketStart, resampleOhlcv } from '../../lib/timeframe.js';
+import getCandles from '../get_candles.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+// 2024-01-01 00:00 JST（月曜）
+const JST_DAY1 = Date.UTC(2023, 11, 31, 15);
+
+function hourlyDay(startMs: number) {
+  return Array.from({ length: 24 }, (_, i) => {
+    const base = 100 + (startMs - JST_DAY1) / HOUR + i;
+    return [String(base), String(base + 2), String(base - 1), String(base + 1), '1.5', startMs + i * HOUR];
+  });
+}
+
+function testPlanAndBuckets() {
+  const plan = (type: string, tz: 'Asia/Tokyo' | 'UTC') => planResample(parseTimeframe(type)!, tz);
+  if (plan('3day', 'Asia/Tokyo')?.base !== '1day' || plan('3day', 'Asia/Tokyo')?.factor !== 3) throw new Error('3day should use 1day x3');
+  if (plan('6hour', 'Asia/Tokyo')?.base !== '1hour') throw new Error('6hour should use 1hour (4/8/12hour do not divide)');
+  if (plan('24hour', 'Asia/Tokyo')?.base !== '1day') throw new Error('24hour should use 1day');
+  if (plan('24hour', 'UTC')?.base !== '1hour') throw new Error('UTC must not build on JST-aligned 4hour+ bars');
+  if (plan('2month', 'UTC') !== null) throw new Error('months cannot be rebuilt in UTC');
+  if (parseTimeframe('0hour') || parseTimeframe('2hours') || parseTimeframe('999day')) throw new Error('invalid timeframes should be rejected');
+
+  const t = JST_DAY1 + 3 * HOUR + 10 * 60_000; // 03:10 JST
+  if (bucketStart(t, parseTimeframe('2hour')!, 'Asia/Tokyo') !== JST_DAY1 + 2 * HOUR) throw new Error('2hour JST bucket misaligned');
+  if (bucketStart(t, parseTimeframe('2hour')!, 'UTC') !== JST_DAY1 + 3 * HOUR) throw new Error('2hour UTC bucket misaligned');
+  if (bucketStart(JST_DAY1 + 50 * HOUR, parseTimeframe('1week')!, 'Asia/Tokyo') !== JST_DAY1) throw new Error('week should start on Monday JST');
+  if (bucketStart(JST_DAY1 + 40 * 24 * HOUR, parseTimeframe('3month')!, 'Asia/Tokyo') !== JST_DAY1) throw new Error('quarter should start Jan 1 JST');
+
+  const { rows, parts } = resampleOhlcv(hourlyDay(JST_DAY1).slice(0, 4) as any, parseTimeframe('2hour')!, 'Asia/Tokyo');
+  if (rows.length !== 2 || parts.join() !== '2,2') throw new Error(`unexpected resample: ${JSON.stringify(rows)}`);
+  const [o, h, l, c, v, ts] = rows[1] as number[];
+  if (o !== 102 || h !== 105 || l !== 101 || c !== 104 || v !== 3 || ts !== JST_DAY1 + 2 * HOUR) throw new Error(`bad OHLCV aggregate: ${rows[1]}`);
+}
+
+async function testGetCandlesResamples() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const url = (d: string) => `${BITBANK_API_BASE}/btc_jpy/candlestick/1hour/${d}`;
+  const body = (ohlcv: unknown[]) => ({ success: 1, data: { candlestick: [{ type: '1hour', ohlcv }], timestamp: 0 } });
+  writeFixture(url('20231231'), body([]));
+  writeFixture(url('20240101'), body(hourlyDay(JST_DAY1)));
+  writeFixture(url('20240102'), body(hourlyDay(JST_DAY1 + 24 * HOUR)));
+
+  const res: any = await getCandles('btc_jpy', '2hour', '20240102', 20);
+  if (!res.ok) throw new Error(`2hour failed: ${res.summary}`);
+  const rf = res.meta.resampledFrom;
+  if (res.meta.type !== '2hour' || rf?.type !== '1hour' || rf.count !== 48 || rf.factor !== 2 || rf.tz !== 'Asia/Tokyo') throw new Error(`bad meta: ${JSON.stringify(res.meta)}`);
+  if (res.data.normalized.length !== 20) throw new Error(`expected 20 bars, got ${res.data.normalized.length}`);
+  if (res.data.normalized[0].isoTime !== new Date(JST_DAY1 + 8 * HOUR).toISOString()) throw new Error(`first bar misaligned: ${res.data.normalized[0].isoTime}`);
+
+  // UTC では JST 0:00（15:00Z）が 2 時間足の途中になる
+  const utc: any = await getCandles('btc_jpy', '2hour', '20240102', 20, { tz: 'UTC' });
+  if (!utc.ok || utc.data.normalized[0].isoTime !== '2024-01-01T00:00:00.000Z') throw new Error(`UTC sessions misaligned: ${utc.summary} ${utc.data?.normalized?.[0]?.isoTime}`);
+
+  const bad: any = await getCandles('btc_jpy', '2month', '2024', 10, { tz: 'UTC' });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('2month in UTC should be rejected');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-tf-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testPlanAndBuckets();
+    await testGetCandlesResamples();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import { adx, aroon, parabolicSar, supertrend } from '../analyze_indicators.js';
+import analyzeTrendStrength, { barsSinceFlip } from '../analyze_trend_strength.js';
+import renderChartSvg from '../render_chart_svg.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function writeCandles(pair: string, closeAt: (i: number) => number) {
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = closeAt(i);
+    return [String(close), String(close + 4), String(close - 4), String(close), '1', end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/${pair}/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+}
+
+function testFormulas() {
+  const closes = Array.from({ length: 80 }, (_, i) => 100 + 2 * i);
+  const highs = closes.map((c) => c + 1);
+  const lows = closes.map((c) => c - 1);
+
+  const a = adx(highs, lows, closes, 14);
+  if (a.adx[26] !== null || a.adx[27] == null) throw new Error(`first ADX should be at index 2*period-1: ${a.adx.slice(25, 29)}`);
+  if (!((a.adx.at(-1) as number) > 50) || a.minusDI.at(-1) !== 0) throw new Error('steady uptrend should have high ADX and zero -DI');
+
+  const ar = aroon(highs, lows, 25);
+  if (ar.up[24] !== null || ar.up.at(-1) !== 100 || ar.down.at(-1) !== 0) throw new Error('aroon up should be 100 at a fresh high');
+
+  const sar = parabolicSar(highs, lows);
+  if (sar.direction.at(-1) !== 1 || !((sar.sar.at(-1) as number) < lows.at(-1)!)) throw new Error('SAR should trail below price in an uptrend');
+
+  const st = supertrend(highs, lows, closes, 10, 3);
+  if (st.line[8] !== null || st.direction.at(-1) !== 1 || !((st.line.at(-1) as number) < closes.at(-1)!)) throw new Error('supertrend should be below price in an uptrend');
+
+  if (barsSinceFlip([null, 1, 1, -1, -1, -1]) !== 2 || barsSinceFlip([1, 1, 1]) !== null) throw new Error('barsSinceFlip mismatch');
+}
+
+async function testTool() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+
+  writeCandles('btc_jpy', (i) => 1000 + 3 * i);
+  const up: any = await analyzeTrendStrength('btc_jpy', '1day', 120);
+  if (!up.ok) throw new Error(`trend strength failed: ${up.summary}`);
+  if (up.data.regime !== 'trending' || up.data.direction !== 'up' || !(up.data.score > 50)) throw new Error(`uptrend misclassified: ${up.data.regime}/${up.data.direction}/${up.data.score}`);
+
+  writeCandles('eth_jpy', (i) => 1000 + 30 * Math.sin(i / 2));
+  const chop: any = await analyzeTrendStrength('eth_jpy', '1day', 120);
+  if (!chop.ok || chop.data.regime !== 'ranging') throw new Error(`choppy market should be ranging: ${chop.data?.regime} (ADX ${chop.data?.adx?.value})`);
+
+  const bad: any = await analyzeTrendStrength('btc_jpy', '1day', 120, { adxTrend: 20, adxRange: 30 });
+  if (bad.ok || bad.meta.errorType !== 'user') throw new Error('inverted thresholds should be a user error');
+
+  const chart: any = await renderChartSvg({ pair: 'btc_jpy', type: '1day', limit: 40, withPSAR: true, withSupertrend: true, subPanels: ['ADX'] });
+  if (!chart.ok) throw new Error(`render failed: ${chart.summary}`);
+  const keys: string[] = chart.meta.indicators ?? [];
+  if (!keys.includes('PSAR') || !keys.includes('Supertrend') || !keys.includes('panel:ADX')) throw new Error(`overlays missing: ${keys}`);
+  if (!chart.data.svg.includes('<circle')) throw new Error('SAR dots should be drawn');
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-trend-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testFormulas();
+    await testTool();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();
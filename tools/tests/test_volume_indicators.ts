@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BITBANK_API_BASE } from '../../lib/http.js';
+import analyzeIndicators, { obv, accumulationDistribution, chaikinMoneyFlow, mfi, anchoredVwap, sessionVwap } from '../analyze_indicators.js';
+import { writeFixture } from './helpers.js';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+
+function testFormulas() {
+  const closes = [10, 11, 11, 9, 12];
+  const highs = [11, 12, 12, 11, 12];
+  const lows = [9, 10, 10, 9, 10];
+  const vols = [100, 200, 300, 400, 500];
+
+  if (obv(closes, vols).join() !== '0,200,200,-200,300') throw new Error(`obv mismatch: ${obv(closes, vols)}`);
+  // MFM: 0, 0, 0, -1, +1 → A/D: 0,0,0,-400,100
+  if (accumulationDistribution(highs, lows, closes, vols).join() !== '0,0,0,-400,100') throw new Error('a/d mismatch');
+  const cmf = chaikinMoneyFlow(highs, lows, closes, vols, 2);
+  if (cmf[0] !== null || cmf[4] !== Number(((-400 + 500) / 900).toFixed(4))) throw new Error(`cmf mismatch: ${cmf}`);
+
+  const m = mfi(highs, lows, closes, vols, 2);
+  if (m[1] !== null || m[2] !== 100) throw new Error(`mfi should be 100 with no negative flow: ${m}`);
+  if (!((m[3] as number) < 50)) throw new Error('mfi should drop after a down bar');
+
+  const av = anchoredVwap(highs, lows, closes, vols, 3);
+  const tp3 = (11 + 9 + 9) / 3, tp4 = (12 + 10 + 12) / 3;
+  if (av[2] !== null || av[3] !== Number(tp3.toFixed(2)) || av[4] !== Number(((tp3 * 400 + tp4 * 500) / 900).toFixed(2))) throw new Error(`anchored vwap mismatch: ${av}`);
+
+  // JST 0:00 を跨ぐとリセット
+  const t0 = Date.UTC(2025, 0, 1, 13); // JST 22:00
+  const sv = sessionVwap(highs, lows, closes, vols, [t0, t0 + HOUR, t0 + 2 * HOUR, t0 + 3 * HOUR, t0 + 4 * HOUR]);
+  if (sv[2] !== Number(((12 + 10 + 11) / 3).toFixed(2)) || sv[1] === sv[2]) throw new Error(`session vwap should reset at JST midnight: ${sv}`);
+}
+
+async function testAnalyze() {
+  process.env.BITBANK_HTTP_MODE = 'replay';
+  const year = new Date().getFullYear();
+  const end = Math.floor(Date.now() / DAY) * DAY - 9 * HOUR - 2 * DAY;
+  const rows = Array.from({ length: 300 }, (_, i) => {
+    const close = 1000 + 50 * Math.sin(i / 7) + i;
+    return [String(close), String(close + 5), String(close - 5), String(close), String(1 + (i % 5)), end - (299 - i) * DAY];
+  });
+  writeFixture(`${BITBANK_API_BASE}/btc_jpy/candlestick/1day/${year}`, { success: 1, data: { candlestick: [{ type: '1day', ohlcv: rows }], timestamp: 0 } });
+
+  const anchorIso = new Date(end - 20 * DAY).toISOString();
+  const res: any = await analyzeIndicators('btc_jpy', '1day', 60, { vwapAnchor: anchorIso, specs: ['OBV', 'MFI(10)'] });
+  if (!res.ok) throw new Error(`analyze failed: ${res.summary}`);
+  const ind = res.data.indicators;
+  if (ind.MFI_14 == null || ind.CMF_20 == null || ind.OBV == null || ind.AD_LINE == null) throw new Error('volume indicators should be present');
+  if (ind.VWAP_session !== null) throw new Error('session VWAP is intraday only');
+  if (res.meta.vwapAnchor?.source !== 'date' || ind.vwap_anchored_series.filter((v: number | null) => v != null).length !== 21) throw new Error(`anchored VWAP should start at the anchor: ${JSON.stringify(res.meta.vwapAnchor)}`);
+  if (Object.keys(res.data.custom ?? {}).join() !== 'OBV,MFI_10') throw new Error(`volume specs: ${Object.keys(res.data.custom ?? {})}`);
+
+  const swing: any = await analyzeIndicators('btc_jpy', '1day', 60, { vwapAnchor: 'swing_low' });
+  if (!swing.ok || swing.meta.vwapAnchor?.source !== 'swing_low' || swing.data.indicators.VWAP_anchored == null) throw new Error('swing-anchored VWAP should resolve');
+
+  for (const bad of ['not-a-date', '2000-01-01']) {
+    const r: any = await analyzeIndicators('btc_jpy', '1day', 60, { vwapAnchor: bad });
+    if (r.ok || r.meta.errorType !== 'user') throw new Error(`vwapAnchor=${bad} should be a user error`);
+  }
+}
+
+async function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bb-volume-'));
+  process.env.BITBANK_FIXTURE_DIR = dir;
+  try {
+    testFormulas();
+    await testAnalyze();
+    console.log('PASS: tests completed');
+  } catch (e) {
+    console.error('FAIL:', e);
+    process.exitCode = 1;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+main();